@@ -5,9 +5,17 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import connectDB from './config/database.js';
 import positionsRoutes from './routes/positions.js';
+import transactionsRoutes from './routes/transactions.js';
+import portfoliosRoutes from './routes/portfolios.js';
 import stocksRoutes from './routes/stocks.js';
 import authRoutes from './routes/auth.js';
 import watchlistRoutes from './routes/watchlist.js';
+import exportRoutes from './routes/export.js';
+import alertRulesRoutes from './routes/alertRules.js';
+import alertsRoutes from './routes/alerts.js';
+import corporateActionsRoutes from './routes/corporateActions.js';
+import rebalanceRoutes from './routes/rebalance.js';
+import taxRoutes from './routes/tax.js';
 import { errorHandler } from './middleware/errorHandler.js';
 
 // Get directory path for ES modules
@@ -32,7 +40,8 @@ const corsOptions = {
     ].filter(Boolean),
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     credentials: true,
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Portfolio-Id'],
+    exposedHeaders: ['Content-Disposition']
 };
 
 // Middleware
@@ -48,8 +57,16 @@ const dbConnection = connectDB().catch(err => console.error('Initial MongoDB con
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/positions', positionsRoutes);
+app.use('/api/transactions', transactionsRoutes);
+app.use('/api/portfolios', portfoliosRoutes);
 app.use('/api/stocks', stocksRoutes);
 app.use('/api/watchlist', watchlistRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/alert-rules', alertRulesRoutes);
+app.use('/api/alerts', alertsRoutes);
+app.use('/api/corporate-actions', corporateActionsRoutes);
+app.use('/api/rebalance', rebalanceRoutes);
+app.use('/api/tax', taxRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -0,0 +1,152 @@
+import AlertRule, { ALERT_RULE_TYPES } from '../models/AlertRule.js';
+
+const EDITABLE_FIELDS = ['symbol', 'type', 'threshold', 'cooldownMinutes', 'enabled'];
+
+/**
+ * Pick the editable fields from a request body and sanity-check them.
+ * Returns { data } or { error }.
+ */
+function parseRuleInput(body, partial = false) {
+    const data = {};
+    for (const field of EDITABLE_FIELDS) {
+        if (body[field] !== undefined) data[field] = body[field];
+    }
+
+    if (data.symbol !== undefined) {
+        data.symbol = data.symbol ? String(data.symbol).trim().toUpperCase() : null;
+    }
+    if (!partial && !data.type) {
+        return { error: 'Rule type is required' };
+    }
+    if (data.type !== undefined && !ALERT_RULE_TYPES.includes(data.type)) {
+        return { error: `Unknown rule type: ${data.type}` };
+    }
+    if (data.threshold !== undefined || !partial) {
+        data.threshold = Number(data.threshold);
+        if (!isFinite(data.threshold)) {
+            return { error: 'Threshold must be a number' };
+        }
+    }
+    if (data.cooldownMinutes !== undefined) {
+        data.cooldownMinutes = Number(data.cooldownMinutes);
+    }
+    if (data.enabled !== undefined) {
+        data.enabled = Boolean(data.enabled);
+    }
+
+    return { data };
+}
+
+/**
+ * Reject rules that can never trigger. Returns an error message or null.
+ */
+function validateRule({ type, symbol, threshold }) {
+    const isPriceLevel = type === 'price-above' || type === 'price-below';
+
+    if (isPriceLevel && !symbol) {
+        return 'Price level rules need a symbol';
+    }
+    if (type === 'volume-spike' && !(threshold > 1)) {
+        return 'Volume spike multiple must be greater than 1';
+    }
+    if (type === 'cost-basis' && threshold === 0) {
+        return 'Cost basis threshold cannot be 0';
+    }
+    if (type !== 'cost-basis' && type !== 'volume-spike' && !(threshold > 0)) {
+        return isPriceLevel ? 'Price must be greater than 0' : 'Percentage threshold must be greater than 0';
+    }
+    return null;
+}
+
+// @desc    Get alert rules for logged-in user
+// @route   GET /api/alert-rules
+// @access  Private
+export const getAlertRules = async (req, res) => {
+    try {
+        await AlertRule.ensureDefaults(req.user._id);
+        const rules = await AlertRule.find({ user: req.user._id }).sort({ createdAt: 1 });
+        res.json(rules);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create an alert rule
+// @route   POST /api/alert-rules
+// @access  Private
+export const createAlertRule = async (req, res) => {
+    try {
+        const { data, error } = parseRuleInput(req.body);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const invalid = validateRule(data);
+        if (invalid) {
+            return res.status(400).json({ message: invalid });
+        }
+
+        const rule = await AlertRule.create({ ...data, user: req.user._id });
+        res.status(201).json(rule);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Update an alert rule (edit or enable/disable)
+// @route   PUT /api/alert-rules/:id
+// @access  Private
+export const updateAlertRule = async (req, res) => {
+    try {
+        const rule = await AlertRule.findById(req.params.id);
+
+        if (!rule) {
+            return res.status(404).json({ message: 'Alert rule not found' });
+        }
+
+        // Make sure user owns the rule
+        if (rule.user.toString() !== req.user._id.toString()) {
+            return res.status(401).json({ message: 'Not authorized' });
+        }
+
+        const { data, error } = parseRuleInput(req.body, true);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        Object.assign(rule, data);
+
+        const invalid = validateRule(rule);
+        if (invalid) {
+            return res.status(400).json({ message: invalid });
+        }
+
+        const updated = await rule.save();
+        res.json(updated);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete an alert rule
+// @route   DELETE /api/alert-rules/:id
+// @access  Private
+export const deleteAlertRule = async (req, res) => {
+    try {
+        const rule = await AlertRule.findById(req.params.id);
+
+        if (!rule) {
+            return res.status(404).json({ message: 'Alert rule not found' });
+        }
+
+        // Make sure user owns the rule
+        if (rule.user.toString() !== req.user._id.toString()) {
+            return res.status(401).json({ message: 'Not authorized' });
+        }
+
+        await rule.deleteOne();
+        res.json({ message: 'Alert rule removed', id: req.params.id });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,54 @@
+import Alert, { ALERT_TYPES } from '../models/Alert.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// status query param -> read / dismissed filter
+const STATUS_FILTERS = {
+    active: { dismissedAt: null },
+    unread: { readAt: null, dismissedAt: null },
+    read: { readAt: { $ne: null }, dismissedAt: null },
+    dismissed: { dismissedAt: { $ne: null } },
+    all: {}
+};
+
+// @desc    Get alert history (paginated, newest first)
+// @route   GET /api/alerts?page=&limit=&type=&ticker=&status=active|unread|read|dismissed|all
+// @access  Private
+export const getAlerts = async (req, res) => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE));
+        const status = req.query.status || 'active';
+        const { type, ticker } = req.query;
+
+        if (!STATUS_FILTERS[status]) {
+            return res.status(400).json({ message: `Unknown status: ${status}` });
+        }
+        if (type && !ALERT_TYPES.includes(type)) {
+            return res.status(400).json({ message: `Unknown alert type: ${type}` });
+        }
+
+        const scope = await Alert.scopeFilter(req.user._id, req.portfolioId);
+        const filter = { ...scope, ...STATUS_FILTERS[status] };
+        if (type) filter.type = type;
+        if (ticker) filter.ticker = String(ticker).trim().toUpperCase();
+
+        const [alerts, total, unreadCount] = await Promise.all([
+            Alert.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+            Alert.countDocuments(filter),
+            Alert.countDocuments({ ...scope, ...STATUS_FILTERS.unread })
+        ]);
+
+        res.json({
+            alerts: alerts.map(Alert.toClient),
+            page,
+            limit,
+            total,
+            totalPages: Math.max(1, Math.ceil(total / limit)),
+            unreadCount
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
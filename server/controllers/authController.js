@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
-import User from '../models/User.js';
+import User, { DISPLAY_CURRENCIES, CHART_INDICATOR_PARAMS } from '../models/User.js';
+import { validateHealthSettings } from '../services/healthScoreService.js';
 
 // Generate JWT token
 const generateToken = (id) => {
@@ -8,6 +9,32 @@ const generateToken = (id) => {
     });
 };
 
+// Validate a chart indicator selection; returns an error message or null
+const validateChartIndicators = (settings) => {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+        return 'chartIndicators must be an object';
+    }
+    for (const [name, setting] of Object.entries(settings)) {
+        const params = CHART_INDICATOR_PARAMS[name];
+        if (!params) return `Unknown indicator: ${name}`;
+        if (!setting || typeof setting !== 'object') return `Invalid settings for ${name}`;
+        if (setting.enabled !== undefined && typeof setting.enabled !== 'boolean') {
+            return `${name}.enabled must be true or false`;
+        }
+        for (const [param, [min, max]] of Object.entries(params)) {
+            const value = setting[param];
+            if (value === undefined) continue;
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+                return `${name}.${param} must be between ${min} and ${max}`;
+            }
+        }
+    }
+    if (settings.macd?.fast !== undefined && settings.macd?.slow !== undefined && settings.macd.fast >= settings.macd.slow) {
+        return 'macd.fast must be shorter than macd.slow';
+    }
+    return null;
+};
+
 // @desc    Register new user
 // @route   POST /api/auth/register
 // @access  Public
@@ -33,6 +60,9 @@ export const register = async (req, res) => {
                 _id: user._id,
                 name: user.name,
                 email: user.email,
+                displayCurrency: user.displayCurrency,
+                chartIndicators: user.chartIndicators,
+                healthScoreSettings: user.healthScoreSettings,
                 token: generateToken(user._id)
             });
         } else {
@@ -58,6 +88,9 @@ export const login = async (req, res) => {
                 _id: user._id,
                 name: user.name,
                 email: user.email,
+                displayCurrency: user.displayCurrency,
+                chartIndicators: user.chartIndicators,
+                healthScoreSettings: user.healthScoreSettings,
                 token: generateToken(user._id)
             });
         } else {
@@ -75,6 +108,66 @@ export const getMe = async (req, res) => {
     res.json({
         _id: req.user._id,
         name: req.user.name,
-        email: req.user.email
+        email: req.user.email,
+        displayCurrency: req.user.displayCurrency,
+        chartIndicators: req.user.chartIndicators,
+        healthScoreSettings: req.user.healthScoreSettings
     });
 };
+
+// @desc    Update display preferences
+// @route   PUT /api/auth/preferences
+// @access  Private
+export const updatePreferences = async (req, res) => {
+    try {
+        const { displayCurrency, chartIndicators, healthScoreSettings } = req.body;
+        const updates = {};
+
+        if (displayCurrency !== undefined) {
+            const currency = String(displayCurrency).toUpperCase();
+            if (!DISPLAY_CURRENCIES.includes(currency)) {
+                return res.status(400).json({ message: `Unsupported currency: ${displayCurrency}` });
+            }
+            updates.displayCurrency = currency;
+        }
+
+        if (chartIndicators !== undefined) {
+            const error = validateChartIndicators(chartIndicators);
+            if (error) {
+                return res.status(400).json({ message: error });
+            }
+            updates.chartIndicators = chartIndicators;
+        }
+
+        // null resets to the default weights and targets
+        if (healthScoreSettings === null) {
+            updates.$unset = { healthScoreSettings: 1 };
+        } else if (healthScoreSettings !== undefined) {
+            const error = validateHealthSettings(healthScoreSettings);
+            if (error) {
+                return res.status(400).json({ message: error });
+            }
+            updates.healthScoreSettings = {
+                weights: { ...req.user.healthScoreSettings?.weights?.toObject?.(), ...healthScoreSettings.weights },
+                targets: { ...req.user.healthScoreSettings?.targets?.toObject?.(), ...healthScoreSettings.targets }
+            };
+        }
+
+        const user = await User.findByIdAndUpdate(req.user._id, updates, { new: true, runValidators: true });
+
+        res.json({
+            _id: user._id,
+            name: user.name,
+            email: user.email,
+            displayCurrency: user.displayCurrency,
+            chartIndicators: user.chartIndicators,
+            healthScoreSettings: user.healthScoreSettings
+        });
+    } catch (error) {
+        // Schema validators (runValidators) reject bad values the checks above let through
+        if (error.name === 'ValidationError' || error.name === 'CastError') {
+            return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,103 @@
+import mongoose from 'mongoose';
+import CorporateAction from '../models/CorporateAction.js';
+import { syncCorporateActions, undoCorporateAction as undoAction } from '../services/corporateActionsService.js';
+
+// status query param -> filter
+const STATUS_FILTERS = {
+    applied: { status: 'applied' },
+    confirmed: { status: 'confirmed' },
+    undone: { status: 'undone' },
+    all: {}
+};
+
+/**
+ * Load an action the user owns; sends the error response and returns null otherwise
+ */
+async function findOwnedAction(req, res) {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(404).json({ message: 'Corporate action not found' });
+        return null;
+    }
+
+    const action = await CorporateAction.findById(req.params.id);
+    if (!action) {
+        res.status(404).json({ message: 'Corporate action not found' });
+        return null;
+    }
+
+    // Make sure user owns the action
+    if (action.user.toString() !== req.user._id.toString()) {
+        res.status(401).json({ message: 'Not authorized' });
+        return null;
+    }
+
+    return action;
+}
+
+// @desc    Apply any new splits / spinoffs / ticker changes, then list adjustments (newest first)
+// @route   GET /api/corporate-actions?status=applied|confirmed|undone|all
+// @access  Private
+export const getCorporateActions = async (req, res) => {
+    try {
+        const status = req.query.status || 'all';
+        if (!STATUS_FILTERS[status]) {
+            return res.status(400).json({ message: `Unknown status: ${status}` });
+        }
+
+        // A failed sync still lists what was applied before, so adjustments can be confirmed or undone
+        const applied = await syncCorporateActions(req.user._id).catch((error) => {
+            console.error('❌ [CORP ACTION] Sync failed:', error.message);
+            return [];
+        });
+
+        const actions = await CorporateAction.find({
+            user: req.user._id,
+            ...req.portfolioFilter,
+            ...STATUS_FILTERS[status]
+        }).sort({ effectiveDate: -1, createdAt: -1 });
+
+        res.json({
+            actions: actions.map(CorporateAction.toClient),
+            newlyApplied: applied.length
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Accept an applied adjustment
+// @route   POST /api/corporate-actions/:id/confirm
+// @access  Private
+export const confirmCorporateAction = async (req, res) => {
+    try {
+        const action = await findOwnedAction(req, res);
+        if (!action) return;
+
+        if (action.status !== 'applied') {
+            return res.status(400).json({ message: `This adjustment is already ${action.status}` });
+        }
+
+        action.status = 'confirmed';
+        action.confirmedAt = new Date();
+        await action.save();
+
+        res.json(CorporateAction.toClient(action));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Roll an adjustment back, restoring the lots as they were
+// @route   POST /api/corporate-actions/:id/undo
+// @access  Private
+export const undoCorporateAction = async (req, res) => {
+    try {
+        const action = await findOwnedAction(req, res);
+        if (!action) return;
+
+        await undoAction(action);
+        res.json(CorporateAction.toClient(action));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
@@ -0,0 +1,185 @@
+import Position from '../models/Position.js';
+import Transaction, { cashImpact } from '../models/Transaction.js';
+import * as stockData from '../services/stockDataService.js';
+import { withHealthScore } from '../services/healthScoreService.js';
+import { withBenchmarks, resolvePortfolioBenchmarks } from '../services/benchmarkService.js';
+
+export const EXPORT_DATASETS = ['positions', 'lots', 'transactions', 'health', 'benchmark', 'dividends', 'correlation'];
+
+const isoDate = (date) => (date ? new Date(date).toISOString().slice(0, 10) : '');
+const round = (value, digits = 4) => (typeof value === 'number' && isFinite(value) ? Number(value.toFixed(digits)) : value);
+
+/**
+ * Serialize rows to RFC 4180 CSV (quotes fields containing , " or newlines).
+ */
+export function toCsv(headers, rows) {
+    const escape = (value) => {
+        if (value === null || value === undefined) return '';
+        const str = String(value);
+        return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    return [headers, ...rows].map(row => row.map(escape).join(',')).join('\r\n');
+}
+
+/**
+ * Gather everything the export needs in one pass: positions with current prices,
+ * the ledger and the same analytics payload the Insights view uses.
+ */
+async function buildSnapshot(user, portfolioFilter = {}) {
+    const [positions, transactions] = await Promise.all([
+        Position.find({ user: user._id, ...portfolioFilter }).sort({ createdAt: -1 }).lean(),
+        Transaction.find({ user: user._id, ...portfolioFilter }).sort({ date: 1, createdAt: 1 }).lean()
+    ]);
+
+    const prices = {};
+    await Promise.all(positions.map(async (pos) => {
+        try {
+            const quote = await stockData.getQuote(pos.symbol);
+            prices[pos.symbol] = quote?.c || null;
+        } catch (error) {
+            console.warn(`[EXPORT] No quote for ${pos.symbol}: ${error.message}`);
+            prices[pos.symbol] = null;
+        }
+    }));
+
+    let analytics = null;
+    if (positions.length > 0) {
+        try {
+            analytics = await withBenchmarks(
+                withHealthScore(await stockData.getPortfolioHealthAndBenchmark(positions), user.healthScoreSettings),
+                await resolvePortfolioBenchmarks(portfolioFilter.portfolio)
+            );
+        } catch (error) {
+            console.warn(`[EXPORT] Analytics unavailable: ${error.message}`);
+        }
+    }
+
+    let balance = 0;
+    const ledger = transactions.map(tx => {
+        const impact = cashImpact(tx);
+        balance += impact;
+        return { ...tx, cashImpact: impact, runningBalance: balance };
+    });
+
+    return {
+        exportedAt: new Date().toISOString(),
+        portfolio: portfolioFilter.portfolio || 'all',
+        positions: positions.map(pos => {
+            const currentPrice = prices[pos.symbol];
+            const marketValue = currentPrice !== null ? currentPrice * pos.quantity : null;
+            return {
+                ...pos,
+                currentPrice,
+                marketValue,
+                unrealizedGain: marketValue !== null ? marketValue - pos.quantity * pos.averagePrice : null
+            };
+        }),
+        transactions: ledger,
+        cashBalance: balance,
+        analytics
+    };
+}
+
+/**
+ * Flatten one dataset of the snapshot to CSV.
+ */
+function datasetToCsv(snapshot, dataset) {
+    const { positions, transactions, analytics } = snapshot;
+
+    switch (dataset) {
+        case 'positions':
+            return toCsv(
+                ['symbol', 'name', 'quantity', 'averagePrice', 'currentPrice', 'marketValue', 'unrealizedGain', 'realizedGain', 'lots'],
+                positions.map(p => [
+                    p.symbol, p.name, round(p.quantity), round(p.averagePrice), round(p.currentPrice),
+                    round(p.marketValue, 2), round(p.unrealizedGain, 2), round(p.realizedGain || 0, 2), (p.lots || []).length
+                ])
+            );
+        case 'lots':
+            return toCsv(
+                ['symbol', 'lotId', 'date', 'quantity', 'price', 'soldQuantity', 'openQuantity', 'costBasis', 'currentPrice', 'marketValue'],
+                positions.flatMap(p => (p.lots || []).map(lot => {
+                    const open = Math.max(0, lot.quantity - (lot.soldQuantity || 0));
+                    return [
+                        p.symbol, lot._id, isoDate(lot.date), round(lot.quantity), round(lot.price),
+                        round(lot.soldQuantity || 0), round(open), round(open * lot.price, 2),
+                        round(p.currentPrice), p.currentPrice !== null ? round(open * p.currentPrice, 2) : ''
+                    ];
+                }))
+            );
+        case 'transactions':
+            return toCsv(
+                ['date', 'type', 'symbol', 'quantity', 'price', 'amount', 'fee', 'cashImpact', 'runningBalance', 'note'],
+                transactions.map(tx => [
+                    isoDate(tx.date), tx.type, tx.symbol, round(tx.quantity), round(tx.price),
+                    round(tx.amount, 2), round(tx.fee, 2), round(tx.cashImpact, 2), round(tx.runningBalance, 2), tx.note
+                ])
+            );
+        case 'health':
+            return toCsv(
+                ['metric', 'value'],
+                analytics ? [
+                    ['healthScore', analytics.healthScore],
+                    ...Object.entries(analytics.components || {}),
+                    ['portfolioBeta', round(analytics.portfolioBeta)],
+                    ['maxSectorPct', round(analytics.maxSectorPct, 2)],
+                    ['lastUpdated', analytics.lastUpdated]
+                ] : []
+            );
+        case 'benchmark': {
+            // One column per benchmark the portfolio compares against (empty when its prices are missing)
+            const benchmarks = analytics?.benchmarks || [];
+            const values = benchmarks.map(b => new Map(b.series.map(point => [point.date, point.value])));
+            return toCsv(
+                ['date', 'portfolio', ...benchmarks.map(b => b.name)],
+                (analytics?.benchmarkData || []).map(d => [d.date, round(d.portfolio), ...values.map(v => round(v.get(d.date)))])
+            );
+        }
+        case 'dividends':
+            return toCsv(
+                ['symbol', 'exDate', 'paymentDate', 'amount', 'estimatedPayout', 'status'],
+                [
+                    ...(analytics?.dividends || []).map(d => [d.symbol, isoDate(d.exDate), isoDate(d.paymentDate), d.amount, round(d.estimatedPayout, 2), 'upcoming']),
+                    ...(analytics?.pendingPayouts || []).map(d => [d.symbol, isoDate(d.exDate), isoDate(d.paymentDate), d.amount, round(d.estimatedPayout, 2), 'pending'])
+                ]
+            );
+        case 'correlation': {
+            const { symbols = [], matrix = [] } = analytics?.correlationMatrix || {};
+            return toCsv(['', ...symbols], symbols.map((sym, i) => [sym, ...(matrix[i] || []).map(v => round(v))]));
+        }
+        default:
+            throw new Error(`Unknown dataset: ${dataset}`);
+    }
+}
+
+// @desc    Export portfolio snapshot (JSON = everything, CSV = one dataset)
+// @route   GET /api/export?format=json|csv&dataset=positions|lots|...
+// @access  Private
+export const exportPortfolio = async (req, res) => {
+    try {
+        const format = (req.query.format || 'json').toLowerCase();
+        const dataset = (req.query.dataset || 'positions').toLowerCase();
+
+        if (!['json', 'csv'].includes(format)) {
+            return res.status(400).json({ message: `Unsupported format: ${format}` });
+        }
+        if (format === 'csv' && !EXPORT_DATASETS.includes(dataset)) {
+            return res.status(400).json({ message: `Unknown dataset: ${dataset}` });
+        }
+
+        const snapshot = await buildSnapshot(req.user, req.portfolioFilter);
+        const stamp = snapshot.exportedAt.slice(0, 10);
+
+        if (format === 'json') {
+            res.setHeader('Content-Disposition', `attachment; filename="portfolio-${stamp}.json"`);
+            return res.json(snapshot);
+        }
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="portfolio-${dataset}-${stamp}.csv"`);
+        res.send(datasetToCsv(snapshot, dataset));
+    } catch (error) {
+        console.error('[EXPORT] Error exporting portfolio:', error);
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,137 @@
+import Portfolio from '../models/Portfolio.js';
+import Position from '../models/Position.js';
+import Transaction from '../models/Transaction.js';
+import { validateBenchmarks } from '../services/benchmarkService.js';
+
+// @desc    Get all portfolios for logged-in user (with position counts)
+// @route   GET /api/portfolios
+// @access  Private
+export const getPortfolios = async (req, res) => {
+    try {
+        await Portfolio.ensureDefault(req.user._id);
+
+        const [portfolios, counts] = await Promise.all([
+            Portfolio.find({ user: req.user._id }).sort({ createdAt: 1 }).lean(),
+            Position.aggregate([
+                { $match: { user: req.user._id, quantity: { $gt: 0 } } },
+                { $group: { _id: '$portfolio', count: { $sum: 1 } } }
+            ])
+        ]);
+
+        const countByPortfolio = new Map(counts.map(c => [String(c._id), c.count]));
+        res.json(portfolios.map(p => ({ ...p, positionCount: countByPortfolio.get(String(p._id)) || 0 })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Create a portfolio
+// @route   POST /api/portfolios
+// @access  Private
+export const createPortfolio = async (req, res) => {
+    try {
+        const name = String(req.body.name || '').trim();
+        if (!name) {
+            return res.status(400).json({ message: 'Portfolio name is required' });
+        }
+
+        const portfolio = await Portfolio.create({ user: req.user._id, name });
+        res.status(201).json({ ...portfolio.toObject(), positionCount: 0 });
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(400).json({ message: 'A portfolio with this name already exists' });
+        }
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Rename a portfolio, toggle dividend reinvestment and/or set its benchmarks (null resets to SPY)
+// @route   PUT /api/portfolios/:id
+// @access  Private
+export const updatePortfolio = async (req, res) => {
+    try {
+        const portfolio = await Portfolio.findById(req.params.id);
+
+        if (!portfolio) {
+            return res.status(404).json({ message: 'Portfolio not found' });
+        }
+
+        // Make sure user owns the portfolio
+        if (portfolio.user.toString() !== req.user._id.toString()) {
+            return res.status(401).json({ message: 'Not authorized' });
+        }
+
+        const { dividendReinvestment } = req.body;
+        if (dividendReinvestment !== undefined && typeof dividendReinvestment !== 'boolean') {
+            return res.status(400).json({ message: 'dividendReinvestment must be true or false' });
+        }
+
+        let benchmarks;
+        if (req.body.benchmarks !== undefined) {
+            if (req.body.benchmarks === null) {
+                benchmarks = [];
+            } else {
+                const result = validateBenchmarks(req.body.benchmarks);
+                if (result.error) {
+                    return res.status(400).json({ message: result.error });
+                }
+                benchmarks = result.benchmarks;
+            }
+        }
+
+        // Name is optional when only settings change
+        if (req.body.name !== undefined || (dividendReinvestment === undefined && benchmarks === undefined)) {
+            const name = String(req.body.name || '').trim();
+            if (!name) {
+                return res.status(400).json({ message: 'Portfolio name is required' });
+            }
+            portfolio.name = name;
+        }
+
+        if (dividendReinvestment !== undefined) portfolio.dividendReinvestment = dividendReinvestment;
+        if (benchmarks !== undefined) portfolio.benchmarks = benchmarks;
+        const updated = await portfolio.save();
+        res.json(updated);
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(400).json({ message: 'A portfolio with this name already exists' });
+        }
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete an empty portfolio
+// @route   DELETE /api/portfolios/:id
+// @access  Private
+export const deletePortfolio = async (req, res) => {
+    try {
+        const portfolio = await Portfolio.findById(req.params.id);
+
+        if (!portfolio) {
+            return res.status(404).json({ message: 'Portfolio not found' });
+        }
+
+        // Make sure user owns the portfolio
+        if (portfolio.user.toString() !== req.user._id.toString()) {
+            return res.status(401).json({ message: 'Not authorized' });
+        }
+
+        const [portfolioCount, positionCount, transactionCount] = await Promise.all([
+            Portfolio.countDocuments({ user: req.user._id }),
+            Position.countDocuments({ portfolio: portfolio._id }),
+            Transaction.countDocuments({ portfolio: portfolio._id })
+        ]);
+
+        if (portfolioCount <= 1) {
+            return res.status(400).json({ message: 'You need at least one portfolio' });
+        }
+        if (positionCount > 0 || transactionCount > 0) {
+            return res.status(400).json({ message: 'Remove this portfolio\'s positions and transactions before deleting it' });
+        }
+
+        await portfolio.deleteOne();
+        res.json({ message: 'Portfolio deleted', id: req.params.id });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -1,21 +1,66 @@
+import mongoose from 'mongoose';
 import Position from '../models/Position.js';
+import Transaction from '../models/Transaction.js';
+import { resolveTargetPortfolio } from '../middleware/portfolioScope.js';
 import * as stockData from '../services/stockDataService.js';
 
-// @desc    Get all positions for logged-in user
+// @desc    Get all positions for logged-in user (active portfolio, or all)
 // @route   GET /api/positions
 // @access  Private
 export const getPositions = async (req, res) => {
     try {
-        const positions = await Position.find({ user: req.user._id }).sort({ createdAt: -1 });
+        const positions = await Position.find({ user: req.user._id, ...req.portfolioFilter }).sort({ createdAt: -1 });
         res.json(positions);
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
 };
 
-// @desc    Add new position
-// @route   POST /api/positions
-// @access  Private
+/**
+ * Ledger row for a lot bought outside POST /api/transactions
+ */
+const lotTransaction = (position, lot) => ({
+    user: position.user,
+    portfolio: position.portfolio,
+    type: 'buy',
+    symbol: position.symbol,
+    quantity: lot.quantity,
+    price: lot.price,
+    amount: lot.quantity * lot.price,
+    date: lot.date,
+    position: position._id,
+    lot: lot._id
+});
+
+/**
+ * Keep the buy rows in step with the lot editor: removed lots lose their buy, added or changed
+ * lots get theirs written (lots from before the ledger get one the first time they're edited).
+ */
+async function syncLotTransactions(position, previousLots, session) {
+    const before = new Map(previousLots.map(lot => [String(lot._id), lot]));
+    const current = new Set(position.lots.map(lot => String(lot._id)));
+
+    const removed = previousLots.filter(lot => !current.has(String(lot._id))).map(lot => lot._id);
+    if (removed.length > 0) {
+        await Transaction.deleteMany({ position: position._id, type: 'buy', lot: { $in: removed } }, { session });
+    }
+
+    for (const lot of position.lots) {
+        const old = before.get(String(lot._id));
+        const unchanged = old &&
+            old.quantity === lot.quantity &&
+            old.price === lot.price &&
+            new Date(old.date).getTime() === new Date(lot.date).getTime();
+        if (unchanged) continue;
+
+        const { user, portfolio, symbol, quantity, price, amount, date } = lotTransaction(position, lot);
+        await Transaction.updateOne(
+            { position: position._id, type: 'buy', lot: lot._id },
+            { $set: { quantity, price, amount, date }, $setOnInsert: { user, portfolio, symbol, note: 'Lot editor' } },
+            { upsert: true, session }
+        );
+    }
+}
 
 // @desc    Add new position
 // @route   POST /api/positions
@@ -34,17 +79,23 @@ export const addPosition = async (req, res) => {
             });
         }
 
-        const position = await Position.create({
+        const portfolio = await resolveTargetPortfolio(req);
+
+        const position = new Position({
             user: req.user._id,
+            portfolio,
             symbol: symbol.toUpperCase(),
             name,
-            quantity,
-            averagePrice,
-            lots: [{
-                quantity,
-                price: averagePrice,
-                date: date || Date.now()
-            }]
+            quantity: 0,
+            averagePrice: 0,
+            lots: []
+        });
+        const lot = position.addLot({ quantity: Number(quantity), price: Number(averagePrice), date });
+
+        // Positions are derived from the ledger: the lot and its buy are written together
+        await mongoose.connection.transaction(async (session) => {
+            await position.save({ session });
+            await Transaction.create([lotTransaction(position, lot)], { session });
         });
 
         res.status(201).json(position);
@@ -69,30 +120,70 @@ export const updatePosition = async (req, res) => {
             return res.status(401).json({ message: 'Not authorized' });
         }
 
-        const { quantity, averagePrice, lots } = req.body;
+        const { quantity, averagePrice, lots, tags } = req.body;
+
+        if (tags !== undefined) {
+            if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+                return res.status(400).json({ message: 'tags must be a list of names' });
+            }
+            position.tags = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+        }
 
         console.log(`[UPDATE] Updating position ${position.symbol} (${position._id})`);
         console.log(`[UPDATE] Payload lots:`, lots ? `${lots.length} lots provided` : 'No lots provided');
 
+        const previousLots = position.lots.map(lot => lot.toObject());
+
         // If 'lots' are provided, they take precedence and will trigger auto-calc
         if (lots && Array.isArray(lots)) {
+            // Lots that sales closed shares from must stay, with at least the shares sold from them
+            const stored = new Map(position.lots.map(lot => [String(lot._id), lot]));
+            const kept = new Set(lots.filter(lot => lot._id).map(lot => String(lot._id)));
+            const matched = new Set(position.sales.flatMap(sale => sale.matches.map(match => String(match.lot))));
+
+            const removedSold = position.lots.find(lot => matched.has(String(lot._id)) && !kept.has(String(lot._id)));
+            if (removedSold) {
+                return res.status(400).json({
+                    message: `Shares from the lot bought ${removedSold.date.toISOString().slice(0, 10)} have been sold. Delete the sell first.`
+                });
+            }
+
+            const soldFrom = (lot) => (lot._id && stored.get(String(lot._id))?.soldQuantity) || 0;
+            const shrunk = lots.find(lot => Number(lot.quantity) < soldFrom(lot) - 1e-9);
+            if (shrunk) {
+                return res.status(400).json({
+                    message: `A lot can't go below the ${soldFrom(shrunk)} shares already sold from it`
+                });
+            }
+
             // FIX: Explicitly map to new objects to force Mongoose to replace the array content
             // instead of trying to update/merge existing subdocuments by ID.
+            // Keep _id and the stored soldQuantity so recorded sales still point at the right lots.
             position.lots = lots.map(lot => ({
+                ...(lot._id ? { _id: lot._id } : {}),
                 quantity: Number(lot.quantity),
                 price: Number(lot.price),
-                date: lot.date ? new Date(lot.date) : new Date() // Ensure standard Date object
+                date: lot.date ? new Date(lot.date) : new Date(), // Ensure standard Date object
+                soldQuantity: soldFrom(lot)
             }));
 
             // Mark as modified to ensure save hooks run
             position.markModified('lots');
-        } else {
-            // Fallback for legacy updates (though UI should send lots)
-            if (quantity !== undefined) position.quantity = quantity;
-            if (averagePrice !== undefined) position.averagePrice = averagePrice;
+        } else if (quantity !== undefined || averagePrice !== undefined) {
+            // Legacy updates (the UI sends lots): edit the position's only lot
+            position.materializeLegacyLot();
+            if (position.lots.length !== 1) {
+                return res.status(400).json({ message: 'Edit the lots of a position with more than one lot' });
+            }
+            if (quantity !== undefined) position.lots[0].quantity = Number(quantity);
+            if (averagePrice !== undefined) position.lots[0].price = Number(averagePrice);
         }
 
-        const updatedPosition = await position.save();
+        const updatedPosition = await mongoose.connection.transaction(async (session) => {
+            const saved = await position.save({ session });
+            await syncLotTransactions(saved, previousLots, session);
+            return saved;
+        });
         console.log(`[UPDATE] Saved successfully. New Qty: ${updatedPosition.quantity}, AvgPrice: ${updatedPosition.averagePrice}, Lots: ${updatedPosition.lots.length}`);
 
         res.json(updatedPosition);
@@ -102,6 +193,247 @@ export const updatePosition = async (req, res) => {
     }
 };
 
+// @desc    Sell shares from a position (records realized P&L per lot)
+// @route   POST /api/positions/:id/sell
+// @access  Private
+export const sellPosition = async (req, res) => {
+    try {
+        const position = await Position.findById(req.params.id);
+
+        if (!position) {
+            return res.status(404).json({ message: 'Position not found' });
+        }
+
+        // Make sure user owns the position
+        if (position.user.toString() !== req.user._id.toString()) {
+            return res.status(401).json({ message: 'Not authorized' });
+        }
+
+        const { quantity, price, date, method, lotSelections } = req.body;
+
+        let sale;
+        try {
+            sale = position.recordSale({ quantity, price, date, method, lotSelections });
+        } catch (error) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        // Same ledger row POST /api/transactions writes for a sell, so the proceeds land in cash
+        const updatedPosition = await mongoose.connection.transaction(async (session) => {
+            const saved = await position.save({ session });
+            await Transaction.create([{
+                user: position.user,
+                portfolio: position.portfolio,
+                type: 'sell',
+                symbol: position.symbol,
+                quantity: sale.quantity,
+                price: sale.price,
+                amount: sale.proceeds,
+                date: sale.date,
+                costBasisMethod: sale.method,
+                position: position._id,
+                sale: sale._id
+            }], { session });
+            return saved;
+        });
+        console.log(`[SELL] ${position.symbol}: sold ${quantity} @ ${price} (${method || 'fifo'}). Remaining: ${updatedPosition.quantity}, Realized: ${updatedPosition.realizedGain.toFixed(2)}`);
+
+        res.json(updatedPosition);
+    } catch (error) {
+        console.error('[SELL] Error recording sale:', error);
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// ============================================
+// BULK IMPORT (broker CSV)
+// ============================================
+
+const IMPORT_SIDES = ['buy', 'sell'];
+const MAX_IMPORT_ROWS = 2000;
+
+const sameDay = (a, b) => new Date(a).toISOString().slice(0, 10) === new Date(b).toISOString().slice(0, 10);
+const nearlyEqual = (a, b) => Math.abs(Number(a) - Number(b)) < 1e-6;
+
+/**
+ * Validate a single mapped CSV row. Returns the normalized row or { error }.
+ */
+function normalizeImportRow(row) {
+    const symbol = String(row.symbol || '').trim().toUpperCase();
+    const side = String(row.side || 'buy').trim().toLowerCase();
+    const quantity = Number(row.quantity);
+    const price = Number(row.price);
+    const date = row.date ? new Date(row.date) : null;
+
+    if (!symbol) return { error: 'Missing symbol' };
+    if (!IMPORT_SIDES.includes(side)) return { error: `Unknown side: ${row.side}` };
+    if (!(quantity > 0)) return { error: 'Quantity must be greater than 0' };
+    if (isNaN(price) || price < 0) return { error: 'Price must be a positive number' };
+    if (!date || isNaN(date.getTime())) return { error: `Invalid date: ${row.date}` };
+    if (date > new Date()) return { error: 'Date is in the future' };
+
+    return { symbol, side, quantity, price, date, name: row.name ? String(row.name).trim() : undefined };
+}
+
+/**
+ * A row is a duplicate if the position already has a lot (buy) or sale (sell)
+ * on the same day with the same quantity and price.
+ */
+function isDuplicateRow(position, row) {
+    if (!position) return false;
+    const existing = row.side === 'buy' ? (position.lots || []) : (position.sales || []);
+    return existing.some(entry =>
+        sameDay(entry.date, row.date) &&
+        nearlyEqual(entry.quantity, row.quantity) &&
+        nearlyEqual(entry.price, row.price)
+    );
+}
+
+// Same side, symbol, day, quantity and price as another row of the file
+const importRowKey = (row) =>
+    [row.side, row.symbol, row.date.toISOString().slice(0, 10), Number(row.quantity.toFixed(6)), Number(row.price.toFixed(6))].join('|');
+
+// @desc    Bulk import lots from a mapped broker CSV (dryRun = preview only)
+// @route   POST /api/positions/import
+// @access  Private
+export const importPositions = async (req, res) => {
+    try {
+        const { rows, dryRun = true } = req.body;
+
+        if (!Array.isArray(rows) || rows.length === 0) {
+            return res.status(400).json({ message: 'No rows to import' });
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({ message: `Too many rows (max ${MAX_IMPORT_ROWS})` });
+        }
+
+        const portfolio = await resolveTargetPortfolio(req);
+        const existingPositions = await Position.find({ user: req.user._id, portfolio });
+        const bySymbol = new Map(existingPositions.map(p => [p.symbol, p]));
+
+        // 1. Normalize + dedupe each row, against stored lots / sales and earlier rows of the file
+        const seen = new Set();
+        const results = rows.map((raw, index) => {
+            const row = normalizeImportRow(raw);
+            if (row.error) return { index, ...raw, status: 'error', error: row.error };
+            const key = importRowKey(row);
+            if (isDuplicateRow(bySymbol.get(row.symbol), row) || seen.has(key)) {
+                return { index, ...row, status: 'duplicate' };
+            }
+            seen.add(key);
+            return { index, ...row, status: 'ok' };
+        });
+
+        // 2. Validate new symbols (same check as addPosition). Sequential to stay within provider rate limits.
+        const newSymbols = [...new Set(results.filter(r => r.status === 'ok' && !bySymbol.has(r.symbol)).map(r => r.symbol))];
+        const invalidSymbols = new Set();
+        for (const symbol of newSymbols) {
+            try {
+                await stockData.getQuote(symbol);
+            } catch (error) {
+                console.warn(`❌ Validation failed for symbol ${symbol}: ${error.message}`);
+                invalidSymbols.add(symbol);
+            }
+        }
+        for (const result of results) {
+            if (result.status === 'ok' && invalidSymbols.has(result.symbol)) {
+                result.status = 'error';
+                result.error = `Invalid ticker symbol: ${result.symbol}`;
+            }
+        }
+
+        // 3. Apply chronologically per symbol (buys before sells on the same day)
+        const toApply = results
+            .filter(r => r.status === 'ok')
+            .sort((a, b) => (a.date - b.date) || (a.side === b.side ? 0 : a.side === 'buy' ? -1 : 1));
+
+        const touched = new Map();
+        const transactions = [];
+        let created = 0;
+
+        for (const row of toApply) {
+            let position = touched.get(row.symbol) || bySymbol.get(row.symbol);
+
+            if (!position) {
+                if (row.side === 'sell') {
+                    row.status = 'error';
+                    row.error = `No ${row.symbol} shares held before this sell`;
+                    continue;
+                }
+                position = new Position({
+                    user: req.user._id,
+                    portfolio,
+                    symbol: row.symbol,
+                    name: row.name || row.symbol,
+                    quantity: 0,
+                    averagePrice: 0,
+                    lots: []
+                });
+                created++;
+            }
+            touched.set(row.symbol, position);
+
+            const txData = {
+                user: req.user._id,
+                portfolio,
+                type: row.side,
+                symbol: row.symbol,
+                quantity: row.quantity,
+                price: row.price,
+                amount: row.quantity * row.price,
+                date: row.date,
+                note: 'Imported from CSV',
+                position: position._id
+            };
+
+            if (row.side === 'buy') {
+                txData.lot = position.addLot({ quantity: row.quantity, price: row.price, date: row.date })._id;
+            } else {
+                try {
+                    const sale = position.recordSale({ quantity: row.quantity, price: row.price, date: row.date });
+                    txData.sale = sale._id;
+                    txData.costBasisMethod = sale.method;
+                } catch (error) {
+                    row.status = 'error';
+                    row.error = error.message;
+                    continue;
+                }
+            }
+            transactions.push(txData);
+        }
+
+        const summary = {
+            total: results.length,
+            valid: results.filter(r => r.status === 'ok').length,
+            duplicates: results.filter(r => r.status === 'duplicate').length,
+            errors: results.filter(r => r.status === 'error').length,
+            created,
+            merged: [...touched.keys()].filter(symbol => bySymbol.has(symbol)).length
+        };
+
+        if (dryRun) {
+            return res.json({ dryRun: true, rows: results, summary });
+        }
+
+        const positions = await mongoose.connection.transaction(async (session) => {
+            const saved = [];
+            for (const position of touched.values()) {
+                saved.push(await position.save({ session }));
+            }
+            if (transactions.length > 0) {
+                await Transaction.insertMany(transactions, { session });
+            }
+            return saved;
+        });
+
+        console.log(`[IMPORT] ${req.user._id}: ${summary.valid} rows into ${positions.length} positions (${summary.duplicates} duplicates, ${summary.errors} errors)`);
+        res.status(201).json({ dryRun: false, rows: results, summary, positions });
+    } catch (error) {
+        console.error('[IMPORT] Error importing positions:', error);
+        res.status(400).json({ message: error.message });
+    }
+};
+
 // @desc    Delete position
 // @route   DELETE /api/positions/:id
 // @access  Private
@@ -118,7 +450,11 @@ export const deletePosition = async (req, res) => {
             return res.status(401).json({ message: 'Not authorized' });
         }
 
-        await position.deleteOne();
+        // Its buys and sells go with it, so they stop moving the cash balance
+        await mongoose.connection.transaction(async (session) => {
+            await position.deleteOne({ session });
+            await Transaction.deleteMany({ position: position._id }, { session });
+        });
         res.json({ message: 'Position deleted', id: req.params.id });
     } catch (error) {
         res.status(500).json({ message: error.message });
@@ -0,0 +1,261 @@
+import mongoose from 'mongoose';
+import Portfolio, { ALLOCATION_GROUPINGS } from '../models/Portfolio.js';
+import Position from '../models/Position.js';
+import Transaction from '../models/Transaction.js';
+import * as stockData from '../services/stockDataService.js';
+import { planRebalance } from '../services/rebalanceService.js';
+
+const PLAN_MODES = ['full', 'buyOnly'];
+
+/**
+ * Targets belong to one portfolio; sends the error response and returns null in the "all" view
+ */
+async function findActivePortfolio(req, res) {
+    if (!req.portfolioId) {
+        res.status(400).json({ message: 'Select a portfolio to plan its allocation' });
+        return null;
+    }
+    return Portfolio.findById(req.portfolioId);
+}
+
+function toTargetsResponse(portfolio) {
+    const { groupBy = 'symbol', targets = [], driftBand = 5 } = portfolio.allocation || {};
+    return {
+        groupBy,
+        targets: targets.map(t => ({ key: t.key, weight: t.weight, band: t.band ?? null })),
+        driftBand,
+        fractionalShares: Boolean(portfolio.fractionalShares)
+    };
+}
+
+/**
+ * Check a targets payload; returns an error message, or null when valid
+ */
+function validateAllocation({ groupBy, targets, driftBand }) {
+    if (!ALLOCATION_GROUPINGS.includes(groupBy)) return `groupBy must be one of: ${ALLOCATION_GROUPINGS.join(', ')}`;
+    if (!Array.isArray(targets)) return 'targets must be a list';
+    if (!(Number.isFinite(driftBand) && driftBand >= 0 && driftBand <= 50)) return 'Drift band must be between 0 and 50 points';
+
+    const keys = new Set();
+    for (const target of targets) {
+        if (typeof target?.key !== 'string' || !target.key.trim()) return 'Every target needs a name';
+        if (!(Number.isFinite(target.weight) && target.weight >= 0 && target.weight <= 100)) return `Target for ${target.key} must be between 0 and 100%`;
+        if (target.band != null && !(Number.isFinite(target.band) && target.band >= 0 && target.band <= 50)) return `Drift band for ${target.key} must be between 0 and 50 points`;
+        if (keys.has(target.key)) return `${target.key} has more than one target`;
+        keys.add(target.key);
+    }
+
+    const sum = targets.reduce((total, t) => total + t.weight, 0);
+    if (sum > 100.01) return `Targets add up to ${sum.toFixed(1)}%; they can't exceed 100%`;
+    return null;
+}
+
+// @desc    Get the active portfolio's allocation targets
+// @route   GET /api/rebalance/targets
+// @access  Private
+export const getTargets = async (req, res) => {
+    try {
+        const portfolio = await findActivePortfolio(req, res);
+        if (!portfolio) return;
+        res.json(toTargetsResponse(portfolio));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Save allocation targets and the fractional-shares setting
+// @route   PUT /api/rebalance/targets
+// @access  Private
+export const updateTargets = async (req, res) => {
+    try {
+        const portfolio = await findActivePortfolio(req, res);
+        if (!portfolio) return;
+
+        const current = toTargetsResponse(portfolio);
+        const groupBy = req.body.groupBy ?? current.groupBy;
+        const driftBand = req.body.driftBand !== undefined ? Number(req.body.driftBand) : current.driftBand;
+        const targets = req.body.targets === undefined
+            ? current.targets
+            : Array.isArray(req.body.targets)
+                ? req.body.targets.map(t => ({
+                    key: typeof t?.key === 'string'
+                        ? (groupBy === 'symbol' ? t.key.trim().toUpperCase() : groupBy === 'tag' ? t.key.trim().toLowerCase() : t.key.trim())
+                        : t?.key,
+                    weight: Number(t?.weight),
+                    band: t?.band === null || t?.band === undefined || t?.band === '' ? null : Number(t.band)
+                }))
+                : req.body.targets;
+
+        const validationError = validateAllocation({ groupBy, targets, driftBand });
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+
+        const { fractionalShares } = req.body;
+        if (fractionalShares !== undefined && typeof fractionalShares !== 'boolean') {
+            return res.status(400).json({ message: 'fractionalShares must be true or false' });
+        }
+
+        portfolio.allocation = { groupBy, targets, driftBand };
+        if (fractionalShares !== undefined) portfolio.fractionalShares = fractionalShares;
+        await portfolio.save();
+
+        res.json(toTargetsResponse(portfolio));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Current drift and the trades that bring the portfolio back to its targets
+// @route   POST /api/rebalance/plan
+// @access  Private
+export const getPlan = async (req, res) => {
+    try {
+        const portfolio = await findActivePortfolio(req, res);
+        if (!portfolio) return;
+
+        const mode = req.body.mode || 'full';
+        if (!PLAN_MODES.includes(mode)) {
+            return res.status(400).json({ message: `mode must be one of: ${PLAN_MODES.join(', ')}` });
+        }
+        const cash = Number(req.body.cash) || 0;
+        if (cash < 0) {
+            return res.status(400).json({ message: 'Cash to invest cannot be negative' });
+        }
+
+        const allocation = toTargetsResponse(portfolio);
+        const positions = await Position.find({ user: req.user._id, portfolio: portfolio._id, quantity: { $gt: 0 } }).lean();
+
+        // Symbol targets not held yet are planned as zero-share holdings
+        const held = new Set(positions.map(p => p.symbol));
+        const unheld = allocation.groupBy === 'symbol'
+            ? allocation.targets.filter(t => t.weight > 0 && !held.has(t.key)).map(t => t.key)
+            : [];
+
+        const symbols = [...held, ...unheld];
+        const [quotes, profiles] = await Promise.all([
+            stockData.getBatchExtendedQuotes(symbols).catch(() => ({})),
+            allocation.groupBy === 'sector'
+                ? Promise.all(symbols.map(s => stockData.getCompanyProfile(s).catch(() => null)))
+                : Promise.resolve([])
+        ]);
+        const sectorBySymbol = new Map(profiles.map((profile, i) => [symbols[i], profile?.finnhubIndustry || null]));
+
+        const holdings = [
+            ...positions.map(p => ({ symbol: p.symbol, name: p.name, quantity: p.quantity, tags: p.tags || [] })),
+            ...unheld.map(symbol => ({ symbol, name: symbol, quantity: 0, tags: [] }))
+        ].map(h => ({
+            ...h,
+            price: quotes[h.symbol]?.regularMarketPrice || null,
+            sector: sectorBySymbol.get(h.symbol) || null
+        }));
+
+        res.json({
+            ...planRebalance(holdings, allocation, { cash, mode, fractional: allocation.fractionalShares }),
+            driftBand: allocation.driftBand
+        });
+    } catch (error) {
+        console.error('[REBALANCE] Error planning rebalance:', error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Record proposed trades in the lot ledger (sells first, then buys)
+// @route   POST /api/rebalance/apply
+// @access  Private
+export const applyTrades = async (req, res) => {
+    try {
+        const portfolio = await findActivePortfolio(req, res);
+        if (!portfolio) return;
+
+        const { trades } = req.body;
+        if (!Array.isArray(trades) || trades.length === 0) {
+            return res.status(400).json({ message: 'No trades to apply' });
+        }
+        const date = req.body.date ? new Date(req.body.date) : new Date();
+        if (isNaN(date.getTime()) || date > new Date()) {
+            return res.status(400).json({ message: 'Trade date must be a valid date, not in the future' });
+        }
+
+        const rows = trades.map(t => ({
+            symbol: String(t?.symbol || '').toUpperCase(),
+            name: t?.name,
+            side: t?.side,
+            quantity: Number(t?.quantity),
+            price: Number(t?.price)
+        }));
+        const invalid = rows.find(r => !r.symbol || !['buy', 'sell'].includes(r.side) || !(r.quantity > 0) || !(r.price > 0));
+        if (invalid) {
+            return res.status(400).json({ message: `Invalid trade${invalid.symbol ? ` for ${invalid.symbol}` : ''}` });
+        }
+
+        const existing = await Position.find({ user: req.user._id, portfolio: portfolio._id });
+        const bySymbol = new Map(existing.map(p => [p.symbol, p]));
+        const touched = new Map();
+        const transactions = [];
+
+        // Everything is applied in memory first, so one bad sell returns before anything is written
+        const ordered = [...rows].sort((a, b) => (a.side === b.side ? 0 : a.side === 'sell' ? -1 : 1));
+        for (const row of ordered) {
+            let position = touched.get(row.symbol) || bySymbol.get(row.symbol);
+
+            if (!position) {
+                if (row.side === 'sell') {
+                    return res.status(400).json({ message: `No ${row.symbol} shares held to sell` });
+                }
+                position = new Position({
+                    user: req.user._id,
+                    portfolio: portfolio._id,
+                    symbol: row.symbol,
+                    name: row.name || row.symbol,
+                    quantity: 0,
+                    averagePrice: 0,
+                    lots: []
+                });
+            }
+            touched.set(row.symbol, position);
+
+            const txData = {
+                user: req.user._id,
+                portfolio: portfolio._id,
+                type: row.side,
+                symbol: row.symbol,
+                quantity: row.quantity,
+                price: row.price,
+                amount: row.quantity * row.price,
+                date,
+                note: 'Rebalance',
+                position: position._id
+            };
+
+            if (row.side === 'buy') {
+                txData.lot = position.addLot({ quantity: row.quantity, price: row.price, date })._id;
+            } else {
+                try {
+                    const sale = position.recordSale({ quantity: row.quantity, price: row.price, date });
+                    txData.sale = sale._id;
+                    txData.costBasisMethod = sale.method;
+                } catch (error) {
+                    return res.status(400).json({ message: `${row.symbol}: ${error.message}` });
+                }
+            }
+            transactions.push(txData);
+        }
+
+        // Positions and ledger rows are written together: a failed save rolls back the ones before it
+        const positions = await mongoose.connection.transaction(async (session) => {
+            const saved = [];
+            for (const position of touched.values()) {
+                saved.push(await position.save({ session }));
+            }
+            await Transaction.insertMany(transactions, { session });
+            return saved;
+        });
+
+        console.log(`[REBALANCE] ${req.user._id}: ${transactions.length} trades applied to ${portfolio.name}`);
+        res.status(201).json({ applied: transactions.length, positions });
+    } catch (error) {
+        console.error('[REBALANCE] Error applying trades:', error);
+        res.status(400).json({ message: error.message });
+    }
+};
@@ -1,11 +1,15 @@
 import Position from '../models/Position.js';
+import Transaction from '../models/Transaction.js';
+import Portfolio from '../models/Portfolio.js';
+import { DISPLAY_CURRENCIES } from '../models/User.js';
 import * as stockData from '../services/stockDataService.js';
-
-// ============================================
-// LEGACY: Keep local cache only for candles (Yahoo chart API)
-// since stockDataService doesn't handle chart data
-// ============================================
-const candleCache = new Map();
+import { getDividendIncome } from '../services/dividendService.js';
+import { withHealthScore, recordHealthScore, getHealthHistory as readHealthHistory } from '../services/healthScoreService.js';
+import { withBenchmarks, resolvePortfolioBenchmarks } from '../services/benchmarkService.js';
+import { getPerformanceAttribution } from '../services/attributionService.js';
+import { EXCHANGES } from '../services/exchangeService.js';
+import { getMarketDataHealth } from '../services/marketDataService.js';
+import { getCacheStats as readCacheStats } from '../services/cacheService.js';
 
 // @desc    Search for stocks
 // @route   GET /api/stocks/search?q=query
@@ -30,23 +34,33 @@ export const searchStocks = async (req, res) => {
 // @access  Private
 export const getPortfolioAnalytics = async (req, res) => {
     try {
-        // Fetch positions from DB to ensure TWR accuracy with lots
-        const positions = await Position.find({ user: req.user._id }).lean(); // .lean() for plain objects
+        // Fetch positions from DB to ensure TWR accuracy with lots (scoped to the active portfolio)
+        const positions = await Position.find({ user: req.user._id, ...req.portfolioFilter }).lean(); // .lean() for plain objects
 
         if (!positions || positions.length === 0) {
             // Return empty/default structure if no positions
             return res.json({
                 healthScore: 0,
                 components: { diversification: 0, volatility: 0, sentiment: 0 },
+                healthFactors: [],
                 portfolioBeta: 0,
                 maxSectorPct: 0,
                 benchmarkData: [],
                 dividends: [],
-                correlationMatrix: { symbols: [], matrix: [] }
+                correlationMatrix: { symbols: [], matrix: [] },
+                risk: null,
+                returns: null,
+                benchmarks: []
             });
         }
 
-        const data = await stockData.getPortfolioHealthAndBenchmark(positions);
+        const data = await withBenchmarks(
+            withHealthScore(await stockData.getPortfolioHealthAndBenchmark(positions), req.user.healthScoreSettings),
+            await resolvePortfolioBenchmarks(req.portfolioId)
+        );
+        // Today's entry in the score history; a failed write doesn't fail the request
+        recordHealthScore(req.user._id, req.portfolioId, data)
+            .catch(error => console.warn(`[Health] Snapshot not saved: ${error.message}`));
         res.json(data);
     } catch (error) {
         console.error('❌ Error in getPortfolioAnalytics:', error.message);
@@ -54,6 +68,89 @@ export const getPortfolioAnalytics = async (req, res) => {
     }
 };
 
+// @desc    Get daily health score history (oldest first)
+// @route   GET /api/stocks/health-history?days=365
+// @access  Private
+export const getHealthHistory = async (req, res) => {
+    try {
+        const days = parseInt(req.query.days, 10) || 365;
+        const history = await readHealthHistory(req.user._id, req.portfolioId, days);
+        res.json({ history });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get dividend income: received per ex-date, 12-month forecast, monthly calendar, yield on cost
+// @route   GET /api/stocks/portfolio-dividends
+// @access  Private
+export const getPortfolioDividends = async (req, res) => {
+    try {
+        const [positions, portfolios] = await Promise.all([
+            Position.find({ user: req.user._id, ...req.portfolioFilter }).lean(),
+            Portfolio.find({ user: req.user._id, ...(req.portfolioId && { _id: req.portfolioId }) }).lean()
+        ]);
+
+        const reinvesting = new Set(portfolios.filter(p => p.dividendReinvestment).map(p => String(p._id)));
+        const data = await getDividendIncome(positions, reinvesting);
+        res.json({
+            ...data,
+            // The active portfolio's DRIP setting; null in the aggregated view
+            dividendReinvestment: req.portfolioId ? reinvesting.has(String(req.portfolioId)) : null
+        });
+    } catch (error) {
+        console.error('❌ Error in getPortfolioDividends:', error.message);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get portfolio value time series (replays lots, sales and cash ledger)
+// @route   GET /api/stocks/portfolio-history?range=1W|1M|3M|YTD|1Y|5Y|MAX&currency=USD|ILS|...
+// @access  Private
+export const getPortfolioHistory = async (req, res) => {
+    try {
+        const range = (req.query.range || '1M').toUpperCase();
+        if (!stockData.HISTORY_RANGES.includes(range)) {
+            return res.status(400).json({ message: `Unknown range: ${range}` });
+        }
+
+        const currency = (req.query.currency || req.user.displayCurrency || 'USD').toUpperCase();
+        if (!DISPLAY_CURRENCIES.includes(currency)) {
+            return res.status(400).json({ message: `Unsupported currency: ${currency}` });
+        }
+
+        const [positions, transactions] = await Promise.all([
+            Position.find({ user: req.user._id, ...req.portfolioFilter }).lean(),
+            Transaction.find({ user: req.user._id, ...req.portfolioFilter }).lean()
+        ]);
+
+        const data = await stockData.getPortfolioValueHistory(positions, transactions, range, currency);
+        res.json(data);
+    } catch (error) {
+        console.error('❌ Error in getPortfolioHistory:', error.message);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Get contribution to return per holding / sector / lot and the allocation vs selection breakdown
+// @route   GET /api/stocks/portfolio-attribution?range=1Y
+// @access  Private
+export const getPortfolioAttribution = async (req, res) => {
+    try {
+        const range = (req.query.range || '1Y').toUpperCase();
+        if (!stockData.HISTORY_RANGES.includes(range)) {
+            return res.status(400).json({ message: `Unknown range: ${range}` });
+        }
+
+        const positions = await Position.find({ user: req.user._id, ...req.portfolioFilter }).lean();
+        const data = await getPerformanceAttribution(positions, range);
+        res.json(data);
+    } catch (error) {
+        console.error('❌ Error in getPortfolioAttribution:', error.message);
+        res.status(500).json({ message: error.message });
+    }
+};
+
 // @desc    Get stock quote (price, change, etc.)
 // @route   GET /api/stocks/:symbol/quote
 // @access  Private
@@ -93,6 +190,46 @@ export const getMarketNews = async (req, res) => {
     }
 };
 
+// @desc    Get exchange metadata (hours, holidays, currency, price units)
+// @route   GET /api/stocks/exchanges
+// @access  Private
+export const getExchanges = async (req, res) => {
+    res.json(Object.values(EXCHANGES));
+};
+
+// @desc    Get market data provider health (circuit breakers, priorities)
+// @route   GET /api/stocks/providers/health
+// @access  Private
+export const getProviderHealth = async (req, res) => {
+    res.json(getMarketDataHealth());
+};
+
+// @desc    Get market data cache stats (hit/miss, tiers)
+// @route   GET /api/stocks/cache/stats
+// @access  Private
+export const getCacheStats = async (req, res) => {
+    res.json(readCacheStats());
+};
+
+// @desc    Get forex exchange rate for a currency pair
+// @route   GET /api/stocks/forex?from=USD&to=EUR
+// @access  Private
+export const getFxRate = async (req, res) => {
+    try {
+        const from = (req.query.from || 'USD').toUpperCase();
+        const to = (req.query.to || req.user.displayCurrency || 'USD').toUpperCase();
+        if (!DISPLAY_CURRENCIES.includes(from) || !DISPLAY_CURRENCIES.includes(to)) {
+            return res.status(400).json({ message: `Unsupported currency pair: ${from}/${to}` });
+        }
+
+        const data = await stockData.getFxRate(from, to);
+        res.json(data);
+    } catch (error) {
+        console.error('❌ Error fetching forex rate:', error.message);
+        res.status(500).json({ message: error.message });
+    }
+};
+
 // @desc    Get forex exchange rate (USD to ILS)
 // @route   GET /api/stocks/forex/usd-ils
 // @access  Private
@@ -102,67 +239,34 @@ export const getForexRate = async (req, res) => {
         res.json(data);
     } catch (error) {
         console.error('❌ Error fetching forex rate:', error.message);
-        res.json({ rate: 3.6, source: 'fallback', error: error.message, lastUpdate: new Date().toISOString() });
+        res.status(500).json({ message: error.message });
     }
 };
 
-// @desc    Get stock candles (historical data) from Yahoo Finance
-// @route   GET /api/stocks/:symbol/history
+// @desc    Get stock candles (OHLCV, splits, dividends)
+// @route   GET /api/stocks/:symbol/history?from=&to=&interval=1m|5m|15m|1h|1d|1wk
 // @access  Private
 export const getStockCandles = async (req, res) => {
-    try {
-        const { symbol } = req.params;
-        const { from, to } = req.query;
-
-        if (!from || !to) {
-            return res.status(400).json({ message: 'Missing from/to parameters' });
-        }
-
-        const cacheKey = `candles_yahoo_${symbol}_${from}_${to}`;
-
-        // Check cache (1 hour)
-        const cached = candleCache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < 60 * 60 * 1000) {
-            return res.json(cached.data);
-        }
-
-        const yahooUrl = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${from}&period2=${to}&interval=1d&includePrePost=false`;
+    const { symbol } = req.params;
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+    const interval = req.query.interval || '1d';
 
-        const response = await fetch(yahooUrl, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-            }
-        });
-
-        if (!response.ok) {
-            console.error(`❌ Yahoo Finance error for ${symbol}: HTTP ${response.status}`);
-            return res.json({ c: [], t: [], s: 'no_data', error: `HTTP ${response.status}` });
-        }
-
-        const data = await response.json();
-        const chart = data?.chart?.result?.[0];
-        if (!chart || !chart.timestamp || !chart.indicators?.quote?.[0]?.close) {
-            return res.json({ c: [], t: [], s: 'no_data' });
-        }
-
-        const timestamps = chart.timestamp;
-        const closes = chart.indicators.quote[0].close;
-
-        const validData = timestamps.reduce((acc, ts, i) => {
-            if (closes[i] !== null) {
-                acc.t.push(ts);
-                acc.c.push(closes[i]);
-            }
-            return acc;
-        }, { t: [], c: [] });
-
-        const result = { ...validData, s: 'ok' };
+    if (!req.query.from || !req.query.to) {
+        return res.status(400).json({ message: 'Missing from/to parameters' });
+    }
+    const invalid = stockData.validateCandleRequest(interval, from, to);
+    if (invalid) {
+        return res.status(400).json({ message: invalid });
+    }
 
-        candleCache.set(cacheKey, { data: result, timestamp: Date.now() });
-        res.json(result);
+    try {
+        const data = await stockData.getCandles(symbol, { from, to, interval });
+        res.json(data);
     } catch (error) {
-        console.error(`❌ Error in getStockCandles:`, error);
-        res.status(500).json({ message: error.message });
+        // Every provider failed: distinct from a symbol that simply has no bars (s: 'no_data')
+        console.error(`❌ Error in getStockCandles for ${symbol}:`, error.message);
+        res.status(502).json({ s: 'error', message: error.message });
     }
 };
 
@@ -241,6 +345,19 @@ export const getCompanyProfile = async (req, res) => {
     }
 };
 
+// @desc    Get basic financials (52-week range, beta, valuation ratios)
+// @route   GET /api/stocks/:symbol/metrics
+// @access  Private
+export const getBasicFinancials = async (req, res) => {
+    try {
+        const { symbol } = req.params;
+        const data = await stockData.getBasicFinancials(symbol);
+        res.json(data);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
 // @desc    Batch fetch insights (recs + targets + profiles) for multiple symbols
 // @route   GET /api/stocks/batch-insights?symbols=NVDA,AAPL,...
 // @access  Private
@@ -0,0 +1,98 @@
+import Position from '../models/Position.js';
+import { buildTaxReport, TAX_RULES } from '../services/taxService.js';
+import { toCsv } from './exportController.js';
+
+/**
+ * Validate the query and build the report; returns { report } or { error }
+ */
+async function reportFor(req) {
+    const rules = (req.query.rules || 'us').toLowerCase();
+    if (!TAX_RULES.includes(rules)) {
+        return { error: `Unknown tax rules: ${rules}` };
+    }
+
+    let year = null;
+    if (req.query.year !== undefined) {
+        year = parseInt(req.query.year, 10);
+        if (!(year >= 1970 && year <= 9999)) {
+            return { error: `Invalid tax year: ${req.query.year}` };
+        }
+    }
+
+    // Wash sales look for replacement buys in every portfolio, not just the one reported on
+    const [positions, allPositions] = await Promise.all([
+        Position.find({ user: req.user._id, ...req.portfolioFilter }).lean(),
+        Position.find({ user: req.user._id }).lean()
+    ]);
+    return { report: await buildTaxReport(positions, allPositions, { year, rules }) };
+}
+
+/**
+ * One row per disposal, with the year's totals at the end
+ */
+function reportToCsv(report) {
+    const { disposals, summary } = report;
+
+    if (report.rules === 'il') {
+        return toCsv(
+            ['symbol', 'acquired', 'sold', 'quantity', 'costUsd', 'proceedsUsd', 'fxBuy', 'fxSale', 'costIls', 'proceedsIls', 'nominalGainIls', 'inflationaryIls', 'realGainIls'],
+            [
+                ...disposals.map(d => [
+                    d.symbol, d.acquired, d.sold, d.quantity, d.costBasis, d.proceeds, d.fxBuy, d.fxSale,
+                    d.costIls, d.proceedsIls, d.nominalGainIls, d.inflationaryIls, d.realGainIls
+                ]),
+                [],
+                ['Total', '', '', '', '', '', '', '', summary.costIls, summary.proceedsIls, summary.nominalGainIls, summary.inflationaryIls, summary.netRealGainIls],
+                [`Estimated tax (${summary.rate}%)`, '', '', '', '', '', '', '', '', '', '', '', summary.estimatedTaxIls]
+            ]
+        );
+    }
+
+    return toCsv(
+        ['symbol', 'acquired', 'sold', 'quantity', 'term', 'proceeds', 'costBasis', 'basisAdjustment', 'gain', 'washSaleDisallowed', 'reportableGain'],
+        [
+            ...disposals.map(d => [
+                d.symbol, d.acquired || 'Various', d.sold, d.quantity, d.term || 'unknown',
+                d.proceeds, d.costBasis, d.basisAdjustment, d.gain, d.washSaleDisallowed, d.reportableGain
+            ]),
+            [],
+            ...[['Short-term', summary.shortTerm], ['Long-term', summary.longTerm], ['Unknown term', summary.unknownTerm]]
+                .filter(([, bucket]) => bucket.count > 0)
+                .map(([label, bucket]) => [label, '', '', '', '', bucket.proceeds, bucket.costBasis, '', bucket.gain, bucket.washSaleDisallowed, bucket.reportableGain])
+        ]
+    );
+}
+
+// @desc    Realized gains report for a tax year (US or Israeli rules)
+// @route   GET /api/tax/report?year=2025&rules=us|il
+// @access  Private
+export const getTaxReport = async (req, res) => {
+    try {
+        const { report, error } = await reportFor(req);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+        res.json(report);
+    } catch (error) {
+        console.error('❌ Error in getTaxReport:', error.message);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Download the tax year's report as CSV
+// @route   GET /api/tax/report.csv?year=2025&rules=us|il
+// @access  Private
+export const exportTaxReport = async (req, res) => {
+    try {
+        const { report, error } = await reportFor(req);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="tax-report-${report.year}-${report.rules}.csv"`);
+        res.send(reportToCsv(report));
+    } catch (error) {
+        console.error('❌ Error in exportTaxReport:', error.message);
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import Transaction, { TRANSACTION_TYPES, TRADE_TYPES, cashImpact } from '../models/Transaction.js';
+import Position from '../models/Position.js';
+import * as stockData from '../services/stockDataService.js';
+import { resolveTargetPortfolio } from '../middleware/portfolioScope.js';
+
+/**
+ * Build the ledger view: transactions with a running cash balance
+ * (oldest-first accumulation, returned newest-first like other list routes).
+ */
+function buildLedger(transactions) {
+    const chronological = [...transactions].sort((a, b) =>
+        (new Date(a.date) - new Date(b.date)) || (new Date(a.createdAt) - new Date(b.createdAt))
+    );
+
+    let balance = 0;
+    const totals = { deposits: 0, withdrawals: 0, buys: 0, sells: 0, dividends: 0, fees: 0 };
+
+    const withBalance = chronological.map(tx => {
+        const impact = cashImpact(tx);
+        balance += impact;
+
+        const amount = Number(tx.amount) || 0;
+        const fee = Number(tx.fee) || 0;
+        if (tx.type === 'deposit') totals.deposits += amount;
+        if (tx.type === 'withdrawal') totals.withdrawals += amount;
+        if (tx.type === 'buy') totals.buys += amount;
+        if (tx.type === 'sell') totals.sells += amount;
+        if (tx.type === 'dividend') totals.dividends += amount;
+        totals.fees += (tx.type === 'fee' ? amount : 0) + fee;
+
+        return { ...tx, cashImpact: impact, runningBalance: balance };
+    });
+
+    return {
+        transactions: withBalance.reverse(),
+        cashBalance: balance,
+        totals
+    };
+}
+
+// @desc    Get ledger (transactions + running cash balance) for the active portfolio, or all
+// @route   GET /api/transactions
+// @access  Private
+export const getTransactions = async (req, res) => {
+    try {
+        const transactions = await Transaction.find({ user: req.user._id, ...req.portfolioFilter }).lean();
+        res.json(buildLedger(transactions));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// @desc    Add a ledger transaction (buys/sells also update the derived position)
+// @route   POST /api/transactions
+// @access  Private
+export const addTransaction = async (req, res) => {
+    try {
+        const { type, name, note, costBasisMethod, lotSelections } = req.body;
+        const symbol = req.body.symbol ? String(req.body.symbol).toUpperCase() : undefined;
+        const quantity = req.body.quantity !== undefined ? Number(req.body.quantity) : undefined;
+        const price = req.body.price !== undefined ? Number(req.body.price) : undefined;
+        const fee = Number(req.body.fee) || 0;
+        const date = req.body.date ? new Date(req.body.date) : new Date();
+
+        if (!TRANSACTION_TYPES.includes(type)) {
+            return res.status(400).json({ message: `Invalid transaction type: ${type}` });
+        }
+
+        const portfolio = await resolveTargetPortfolio(req);
+        const txData = { user: req.user._id, portfolio, type, symbol, fee, date, note };
+
+        if (TRADE_TYPES.includes(type)) {
+            if (!symbol) return res.status(400).json({ message: 'Symbol is required for trades' });
+            if (!(quantity > 0)) return res.status(400).json({ message: 'Quantity must be greater than 0' });
+            if (price === undefined || isNaN(price) || price < 0) {
+                return res.status(400).json({ message: 'Price must be a positive number' });
+            }
+            txData.quantity = quantity;
+            txData.price = price;
+            txData.amount = quantity * price;
+        } else {
+            const amount = Number(req.body.amount);
+            if (!(amount > 0)) return res.status(400).json({ message: 'Amount must be greater than 0' });
+            txData.amount = amount;
+        }
+
+        let position = null;
+
+        if (type === 'buy') {
+            position = await Position.findOne({ user: req.user._id, portfolio, symbol });
+
+            if (!position) {
+                // Validate symbol existence (same check as addPosition)
+                try {
+                    await stockData.getQuote(symbol);
+                } catch (error) {
+                    console.warn(`❌ Validation failed for symbol ${symbol}: ${error.message}`);
+                    return res.status(400).json({
+                        message: `Invalid ticker symbol: ${symbol}. Please check and try again.`
+                    });
+                }
+
+                position = new Position({
+                    user: req.user._id,
+                    portfolio,
+                    symbol,
+                    name: name || symbol,
+                    quantity: 0,
+                    averagePrice: 0,
+                    lots: []
+                });
+            }
+
+            txData.lot = position.addLot({ quantity, price, date })._id;
+        }
+
+        if (type === 'sell') {
+            position = await Position.findOne({ user: req.user._id, portfolio, symbol });
+            if (!position) {
+                return res.status(400).json({ message: `No ${symbol} position to sell from` });
+            }
+
+            try {
+                const sale = position.recordSale({
+                    quantity,
+                    price,
+                    date,
+                    method: costBasisMethod || 'fifo',
+                    lotSelections
+                });
+                txData.sale = sale._id;
+                txData.costBasisMethod = sale.method;
+            } catch (error) {
+                return res.status(400).json({ message: error.message });
+            }
+        }
+
+        if (position) txData.position = position._id;
+
+        // The position and its ledger row are written together, or neither is
+        const transaction = await mongoose.connection.transaction(async (session) => {
+            if (position) await position.save({ session });
+            const [created] = await Transaction.create([txData], { session });
+            return created;
+        });
+        res.status(201).json({ transaction, position });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+// @desc    Delete a transaction (reverses its effect on the derived position)
+// @route   DELETE /api/transactions/:id
+// @access  Private
+export const deleteTransaction = async (req, res) => {
+    try {
+        const transaction = await Transaction.findById(req.params.id);
+
+        if (!transaction) {
+            return res.status(404).json({ message: 'Transaction not found' });
+        }
+
+        // Make sure user owns the transaction
+        if (transaction.user.toString() !== req.user._id.toString()) {
+            return res.status(401).json({ message: 'Not authorized' });
+        }
+
+        let position = null;
+        let removePosition = false;
+
+        if (TRADE_TYPES.includes(transaction.type) && transaction.position) {
+            position = await Position.findById(transaction.position);
+        }
+
+        if (position && transaction.type === 'buy' && transaction.lot) {
+            const lot = position.lots.id(transaction.lot);
+            if (lot && (lot.soldQuantity || 0) > 0) {
+                return res.status(400).json({
+                    message: 'Shares from this buy have already been sold. Delete the sell first.'
+                });
+            }
+            if (lot) position.lots.pull(lot._id);
+            removePosition = position.lots.length === 0 && position.sales.length === 0;
+        }
+
+        if (position && transaction.type === 'sell' && transaction.sale) {
+            try {
+                position.reverseSale(transaction.sale);
+            } catch (error) {
+                console.warn(`[LEDGER] Could not reverse sale ${transaction.sale}: ${error.message}`);
+            }
+        }
+
+        await mongoose.connection.transaction(async (session) => {
+            if (position && removePosition) await position.deleteOne({ session });
+            else if (position) await position.save({ session });
+            await transaction.deleteOne({ session });
+        });
+        if (removePosition) position = null;
+
+        res.json({ message: 'Transaction deleted', id: req.params.id, type: transaction.type, position });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
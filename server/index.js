@@ -1,9 +1,15 @@
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import mongoose from 'mongoose';
 import app, { corsOptions } from './app.js';
 import { socketAuthMiddleware } from './middleware/socketAuth.js';
-import { startNewsPollingService } from './services/newsPollingService.js';
-import { startLiveAlertsService } from './services/liveAlertsService.js';
+import { startNewsPollingService, sendBufferedNews } from './services/newsPollingService.js';
+import { startLiveAlertsService, sendInitialAlerts } from './services/liveAlertsService.js';
+import { startPriceStreamService, stopPriceStreamService } from './services/priceStreamService.js';
+import { startCorporateActionsService } from './services/corporateActionsService.js';
+import { startHealthHistoryService } from './services/healthScoreService.js';
+import { closeCache } from './services/cacheService.js';
+import { ALL_PORTFOLIOS } from './middleware/portfolioScope.js';
 
 const httpServer = createServer(app);
 const PORT = process.env.PORT || 5000;
@@ -16,6 +22,23 @@ const io = new Server(httpServer, {
 // Socket.io authentication middleware
 io.use(socketAuthMiddleware);
 
+// Active portfolio scope for alerts/news (null = all portfolios).
+// Registered before the services so their connection handlers see it.
+const toPortfolioScope = (id) => (id && id !== ALL_PORTFOLIOS && mongoose.isValidObjectId(id) ? String(id) : null);
+
+io.on('connection', (socket) => {
+    socket.portfolioId = toPortfolioScope(socket.handshake.auth?.portfolioId);
+
+    socket.on('set-portfolio', async ({ portfolioId } = {}) => {
+        socket.portfolioId = toPortfolioScope(portfolioId);
+        console.log(`📁 User ${socket.userId} switched to portfolio ${socket.portfolioId || ALL_PORTFOLIOS}`);
+        await Promise.all([
+            sendInitialAlerts(socket),
+            sendBufferedNews(socket, true)
+        ]);
+    });
+});
+
 // Start HTTP server with Socket.io
 httpServer.listen(PORT, () => {
     console.log(`🚀 Server is running on http://localhost:${PORT}`);
@@ -27,11 +50,22 @@ httpServer.listen(PORT, () => {
 
     // Start the live alerts service
     startLiveAlertsService(io);
+
+    // Start the price stream hub (one upstream feed, fanned out to clients)
+    startPriceStreamService(io);
+
+    // Start the corporate actions scan (splits, spinoffs, ticker changes)
+    startCorporateActionsService();
+
+    // Start the daily health score snapshots
+    startHealthHistoryService();
 });
 
 // Graceful Shutdown
 const shutdown = async () => {
     console.log('🛑 Shutting down server...');
+    stopPriceStreamService();
+    closeCache();
     io.close();
     httpServer.close(async () => {
         console.log('HTTP server closed');
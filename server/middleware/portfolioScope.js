@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+import Portfolio from '../models/Portfolio.js';
+
+export const ALL_PORTFOLIOS = 'all';
+
+/**
+ * Resolve the active portfolio from the X-Portfolio-Id header (or ?portfolio=).
+ * Sets req.portfolioId (null for "all") and req.portfolioFilter for Mongo queries.
+ * Must run after protect.
+ */
+export const portfolioScope = async (req, res, next) => {
+    try {
+        // Guarantees legacy positions are attached to a portfolio before any scoped query
+        const defaultPortfolio = await Portfolio.ensureDefault(req.user._id);
+        req.defaultPortfolioId = defaultPortfolio._id;
+
+        const requested = req.headers['x-portfolio-id'] || req.query.portfolio;
+
+        if (!requested || requested === ALL_PORTFOLIOS) {
+            req.portfolioId = null;
+            req.portfolioFilter = {};
+            return next();
+        }
+
+        if (!mongoose.isValidObjectId(requested)) {
+            return res.status(400).json({ message: 'Invalid portfolio id' });
+        }
+
+        const portfolio = await Portfolio.findOne({ _id: requested, user: req.user._id });
+        if (!portfolio) {
+            return res.status(404).json({ message: 'Portfolio not found' });
+        }
+
+        req.portfolioId = portfolio._id;
+        req.portfolioFilter = { portfolio: portfolio._id };
+        next();
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+/**
+ * Portfolio that a write should land in: an explicit body.portfolio,
+ * else the active one, else the user's default (when viewing "all").
+ * Throws if body.portfolio doesn't belong to the user.
+ */
+export async function resolveTargetPortfolio(req) {
+    const requested = req.body?.portfolio;
+
+    if (requested) {
+        const portfolio = mongoose.isValidObjectId(requested)
+            ? await Portfolio.findOne({ _id: requested, user: req.user._id })
+            : null;
+        if (!portfolio) throw new Error('Portfolio not found');
+        return portfolio._id;
+    }
+
+    return req.portfolioId || req.defaultPortfolioId;
+}
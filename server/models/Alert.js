@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+
+export const ALERT_TYPES = [
+    'gain', 'loss', 'news', 'earnings',
+    'price-above', 'price-below', 'cost-basis', 'volume-spike', '52w-high', '52w-low'
+];
+
+// History is kept for this long, then MongoDB's TTL monitor removes it
+const ALERT_RETENTION_DAYS = 180;
+
+const alertSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    type: {
+        type: String,
+        enum: ALERT_TYPES,
+        required: true
+    },
+    ticker: {
+        type: String,
+        required: true,
+        uppercase: true,
+        trim: true
+    },
+    companyName: {
+        type: String,
+        trim: true
+    },
+    message: {
+        type: String,
+        required: true
+    },
+    value: {
+        type: Number,
+        default: null
+    },
+    rule: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'AlertRule',
+        default: null
+    },
+    readAt: {
+        type: Date,
+        default: null
+    },
+    dismissedAt: {
+        type: Date,
+        default: null
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+        expires: ALERT_RETENTION_DAYS * 24 * 60 * 60
+    }
+});
+
+alertSchema.index({ user: 1, createdAt: -1 });
+alertSchema.index({ user: 1, readAt: 1, dismissedAt: 1 });
+
+/**
+ * Format relative time
+ */
+function formatRelativeTime(date) {
+    const diff = Date.now() - new Date(date).getTime();
+    const minutes = Math.floor(diff / 60000);
+    const hours = Math.floor(minutes / 60);
+
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (hours < 24) return `${hours}h ago`;
+    return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Mongo filter for the alerts a user sees in a portfolio scope: tickers held in
+ * that portfolio, plus tickers not held anywhere (watchlist / explicit rule symbols).
+ */
+alertSchema.statics.scopeFilter = async function (userId, portfolioId = null) {
+    const Position = mongoose.model('Position');
+    if (!portfolioId) return { user: userId };
+
+    const [scoped, held] = await Promise.all([
+        Position.symbolsForScope(userId, portfolioId),
+        Position.symbolsForScope(userId)
+    ]);
+    return { user: userId, $or: [{ ticker: { $in: scoped } }, { ticker: { $nin: held } }] };
+};
+
+/**
+ * Shape sent to the client (same fields the in-memory alerts used to have)
+ */
+alertSchema.statics.toClient = function (alert) {
+    return {
+        id: alert._id.toString(),
+        type: alert.type,
+        ticker: alert.ticker,
+        companyName: alert.companyName,
+        message: alert.message,
+        value: alert.value ?? undefined,
+        ruleId: alert.rule ? alert.rule.toString() : undefined,
+        timestamp: alert.createdAt,
+        relativeTime: formatRelativeTime(alert.createdAt),
+        read: Boolean(alert.readAt),
+        dismissed: Boolean(alert.dismissedAt)
+    };
+};
+
+const Alert = mongoose.model('Alert', alertSchema);
+
+export default Alert;
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+
+/**
+ * Rule types and what `threshold` means for each:
+ *  price-above / price-below  absolute price
+ *  daily-move                 % change vs. previous close (either direction)
+ *  cost-basis                 % from average cost (negative = drawdown, positive = gain)
+ *  volume-spike               multiple of the 10-day average volume
+ *  52w-high / 52w-low         % distance from the 52-week high / low
+ */
+export const ALERT_RULE_TYPES = ['price-above', 'price-below', 'daily-move', 'cost-basis', 'volume-spike', '52w-high', '52w-low'];
+
+// Mirrors the thresholds that used to be hard-coded in liveAlertsService
+const DEFAULT_RULES = [
+    { type: 'daily-move', threshold: 2, cooldownMinutes: 5 },
+    { type: '52w-low', threshold: 2, cooldownMinutes: 5 }
+];
+
+const alertRuleSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    // Empty = every held and watchlisted symbol
+    symbol: {
+        type: String,
+        uppercase: true,
+        trim: true,
+        default: null
+    },
+    type: {
+        type: String,
+        enum: ALERT_RULE_TYPES,
+        required: [true, 'Rule type is required']
+    },
+    threshold: {
+        type: Number,
+        required: [true, 'Threshold is required']
+    },
+    cooldownMinutes: {
+        type: Number,
+        default: 60,
+        min: [1, 'Cooldown must be at least 1 minute']
+    },
+    enabled: {
+        type: Boolean,
+        default: true
+    },
+    lastTriggeredAt: {
+        type: Date,
+        default: null
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+/**
+ * Give a user the default rule set the first time their rules are needed.
+ * Tracked on the user so deleting every rule doesn't bring the defaults back.
+ */
+alertRuleSchema.statics.ensureDefaults = async function (userId) {
+    const User = mongoose.model('User');
+    const claimed = await User.findOneAndUpdate(
+        { _id: userId, alertRulesSeeded: { $ne: true } },
+        { alertRulesSeeded: true }
+    );
+    if (!claimed) return;
+
+    await this.insertMany(DEFAULT_RULES.map(rule => ({ ...rule, user: userId })));
+    console.log(`[ALERT-RULES] Seeded default rules for user ${userId}`);
+};
+
+const AlertRule = mongoose.model('AlertRule', alertRuleSchema);
+
+export default AlertRule;
@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+
+// Shared market data cache (CACHE_BACKEND=mongo). Payloads are stored as JSON
+// so provider keys with dots ('TEVA.TA', '52WeekHigh') never hit Mongo's field rules.
+const cacheEntrySchema = new mongoose.Schema({
+    key: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    payload: {
+        type: String,
+        required: true
+    },
+    storedAt: {
+        type: Date,
+        required: true
+    },
+    freshUntil: {
+        type: Date,
+        required: true
+    },
+    // MongoDB's TTL monitor removes the document once this passes (checked about once a minute)
+    expiresAt: {
+        type: Date,
+        required: true,
+        expires: 0
+    }
+});
+
+const CacheEntry = mongoose.model('CacheEntry', cacheEntrySchema);
+
+export default CacheEntry;
@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+
+export const CORPORATE_ACTION_TYPES = ['split', 'reverseSplit', 'spinoff', 'tickerChange'];
+
+// applied: lots adjusted, waiting for the user to confirm or undo
+export const CORPORATE_ACTION_STATUSES = ['applied', 'confirmed', 'undone'];
+
+// A position as it was before the action; existed: false marks one the action created
+const snapshotSchema = new mongoose.Schema({
+    position: { type: mongoose.Schema.Types.ObjectId, ref: 'Position', required: true },
+    existed: { type: Boolean, required: true },
+    data: { type: mongoose.Schema.Types.Mixed, default: null }
+}, { _id: false });
+
+const corporateActionSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    portfolio: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Portfolio'
+    },
+    position: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Position',
+        required: true
+    },
+    symbol: {
+        type: String,
+        required: true,
+        uppercase: true,
+        trim: true
+    },
+    type: {
+        type: String,
+        enum: CORPORATE_ACTION_TYPES,
+        required: true
+    },
+    effectiveDate: {
+        type: Date,
+        required: true
+    },
+    // New shares per old share (splits) or per parent share (spinoffs)
+    numerator: { type: Number, default: 1 },
+    denominator: { type: Number, default: 1 },
+    newSymbol: { type: String, uppercase: true, trim: true },
+    costAllocation: { type: Number, min: 0, max: 1 },
+    sharesBefore: { type: Number, default: 0 },
+    sharesAfter: { type: Number, default: 0 },
+    summary: {
+        type: String,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: CORPORATE_ACTION_STATUSES,
+        default: 'applied'
+    },
+    snapshots: [snapshotSchema],
+    // The position's buys and sells as they were before the action (restored on undo)
+    transactions: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    appliedAt: { type: Date, default: null },
+    confirmedAt: { type: Date, default: null },
+    undoneAt: { type: Date, default: null },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// One record per event and position: undone actions stay so a later sync doesn't re-apply them
+corporateActionSchema.index({ position: 1, type: 1, effectiveDate: 1 }, { unique: true });
+corporateActionSchema.index({ user: 1, status: 1, effectiveDate: -1 });
+
+/**
+ * Shape sent to the client (snapshots stay on the server)
+ */
+corporateActionSchema.statics.toClient = function (action) {
+    return {
+        _id: action._id.toString(),
+        portfolio: action.portfolio ? action.portfolio.toString() : null,
+        position: action.position.toString(),
+        symbol: action.symbol,
+        type: action.type,
+        effectiveDate: action.effectiveDate,
+        numerator: action.numerator,
+        denominator: action.denominator,
+        newSymbol: action.newSymbol || null,
+        costAllocation: action.costAllocation ?? null,
+        sharesBefore: action.sharesBefore,
+        sharesAfter: action.sharesAfter,
+        summary: action.summary,
+        status: action.status,
+        appliedAt: action.appliedAt,
+        confirmedAt: action.confirmedAt,
+        undoneAt: action.undoneAt
+    };
+};
+
+const CorporateAction = mongoose.model('CorporateAction', corporateActionSchema);
+
+export default CorporateAction;
@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+
+// One health score per user, portfolio and day (portfolio null = all portfolios)
+const healthScoreSnapshotSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    portfolio: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Portfolio',
+        default: null
+    },
+    date: {
+        type: String, // YYYY-MM-DD (UTC)
+        required: true
+    },
+    score: {
+        type: Number,
+        required: true
+    },
+    // Factor scores that day (null when a factor had no data)
+    components: {
+        type: mongoose.Schema.Types.Mixed,
+        default: {}
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+healthScoreSnapshotSchema.index({ user: 1, portfolio: 1, date: 1 }, { unique: true });
+
+const HealthScoreSnapshot = mongoose.model('HealthScoreSnapshot', healthScoreSnapshotSchema);
+
+export default HealthScoreSnapshot;
@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+
+export const DEFAULT_PORTFOLIO_NAME = 'Main';
+
+// What allocation targets are set on: a symbol, a sector or a position tag
+export const ALLOCATION_GROUPINGS = ['symbol', 'sector', 'tag'];
+
+// Target weight for one symbol / sector / tag; band overrides the portfolio's drift band
+const allocationTargetSchema = new mongoose.Schema({
+    key: { type: String, required: true, trim: true },
+    weight: { type: Number, required: true, min: 0, max: 100 },
+    band: { type: Number, min: 0, max: 50, default: null }
+}, { _id: false });
+
+// A benchmark: one symbol, or a blend of symbols by weight (%), rebalanced daily
+const benchmarkSchema = new mongoose.Schema({
+    name: { type: String, required: true, trim: true, maxlength: 40 },
+    components: [{
+        _id: false,
+        symbol: { type: String, required: true, uppercase: true, trim: true },
+        weight: { type: Number, required: true, min: 0, max: 100 }
+    }]
+}, { _id: false });
+
+const portfolioSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    name: {
+        type: String,
+        required: [true, 'Portfolio name is required'],
+        trim: true,
+        maxlength: [40, 'Portfolio name is too long']
+    },
+    // DRIP: dividends buy more shares of the paying holding instead of being taken as cash
+    dividendReinvestment: {
+        type: Boolean,
+        default: false
+    },
+    // Target allocation for the rebalancing planner. Weights under 100% leave the rest in cash.
+    allocation: {
+        groupBy: { type: String, enum: ALLOCATION_GROUPINGS, default: 'symbol' },
+        targets: { type: [allocationTargetSchema], default: [] },
+        // Allowed drift from target, in percentage points, before a group needs rebalancing
+        driftBand: { type: Number, min: 0, max: 50, default: 5 }
+    },
+    // Whether the broker fills fractional shares (otherwise trades are rounded to whole shares)
+    fractionalShares: {
+        type: Boolean,
+        default: false
+    },
+    // What the performance chart compares against; empty = S&P 500 (SPY)
+    benchmarks: {
+        type: [benchmarkSchema],
+        default: []
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Prevent duplicate names per user
+portfolioSchema.index({ user: 1, name: 1 }, { unique: true });
+
+/**
+ * Return the user's first portfolio, creating "Main" if they have none yet.
+ * On creation, positions/transactions from before portfolios existed are moved into it.
+ */
+portfolioSchema.statics.ensureDefault = async function (userId) {
+    const existing = await this.findOne({ user: userId }).sort({ createdAt: 1 });
+    if (existing) return existing;
+
+    let portfolio;
+    try {
+        portfolio = await this.create({ user: userId, name: DEFAULT_PORTFOLIO_NAME });
+    } catch (error) {
+        // Concurrent request created it first
+        if (error.code === 11000) return this.findOne({ user: userId }).sort({ createdAt: 1 });
+        throw error;
+    }
+
+    const orphanFilter = { user: userId, portfolio: null };
+    await Promise.all([
+        mongoose.model('Position').updateMany(orphanFilter, { portfolio: portfolio._id }),
+        mongoose.model('Transaction').updateMany(orphanFilter, { portfolio: portfolio._id })
+    ]);
+    console.log(`[PORTFOLIO] Created default portfolio for user ${userId}`);
+
+    return portfolio;
+};
+
+const Portfolio = mongoose.model('Portfolio', portfolioSchema);
+
+export default Portfolio;
@@ -1,11 +1,47 @@
 import mongoose from 'mongoose';
 
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'specific', 'average'];
+
+const lotSchema = new mongoose.Schema({
+    quantity: { type: Number, required: true },
+    price: { type: Number, required: true },
+    date: { type: Date, default: Date.now },
+    // Shares from this lot already closed out by sales
+    soldQuantity: { type: Number, default: 0, min: 0 }
+});
+
+// One lot consumed (fully or partially) by a sale
+const saleMatchSchema = new mongoose.Schema({
+    lot: { type: mongoose.Schema.Types.ObjectId },
+    lotDate: { type: Date },
+    lotPrice: { type: Number, required: true },
+    quantity: { type: Number, required: true },
+    costBasis: { type: Number, required: true },
+    realizedGain: { type: Number, required: true }
+}, { _id: false });
+
+const saleSchema = new mongoose.Schema({
+    quantity: { type: Number, required: true, min: [0, 'Quantity must be positive'] },
+    price: { type: Number, required: true, min: [0, 'Price must be positive'] },
+    date: { type: Date, default: Date.now },
+    method: { type: String, enum: COST_BASIS_METHODS, default: 'fifo' },
+    proceeds: { type: Number, required: true },
+    costBasis: { type: Number, required: true },
+    realizedGain: { type: Number, required: true },
+    matches: [saleMatchSchema]
+});
+
 const positionSchema = new mongoose.Schema({
     user: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
         required: true
     },
+    portfolio: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Portfolio',
+        index: true
+    },
     symbol: {
         type: String,
         required: [true, 'Stock symbol is required'],
@@ -17,11 +53,8 @@ const positionSchema = new mongoose.Schema({
         required: [true, 'Stock name is required'],
         trim: true
     },
-    lots: [{
-        quantity: { type: Number, required: true },
-        price: { type: Number, required: true },
-        date: { type: Date, default: Date.now }
-    }],
+    lots: [lotSchema],
+    sales: [saleSchema],
     quantity: {
         type: Number,
         required: [true, 'Quantity is required'],
@@ -32,6 +65,15 @@ const positionSchema = new mongoose.Schema({
         required: [true, 'Average price is required'],
         min: [0, 'Price must be positive']
     },
+    realizedGain: {
+        type: Number,
+        default: 0
+    },
+    // Custom groups for allocation targets (e.g. "core", "income")
+    tags: {
+        type: [{ type: String, trim: true, lowercase: true, maxlength: 30 }],
+        default: []
+    },
     createdAt: {
         type: Date,
         default: Date.now
@@ -46,22 +88,278 @@ const positionSchema = new mongoose.Schema({
 positionSchema.pre('save', function (next) {
     this.updatedAt = Date.now();
 
-    // Auto-calculate aggregates if lots exist
+    try {
+        this.syncAggregates();
+    } catch (error) {
+        return next(error);
+    }
+
+    next();
+});
+
+/**
+ * Recalculate quantity / average price from the lots (if any) and realized gain from the sales.
+ * Only the still-open part of each lot counts towards quantity / average price.
+ */
+positionSchema.methods.syncAggregates = function () {
     if (this.lots && this.lots.length > 0) {
         let totalQty = 0;
         let totalCost = 0;
 
         for (const lot of this.lots) {
-            totalQty += lot.quantity;
-            totalCost += (lot.quantity * lot.price);
+            const sold = lot.soldQuantity || 0;
+            if (sold > lot.quantity + 1e-9) {
+                throw new Error(`Lot quantity (${lot.quantity}) cannot be lower than the ${sold} shares already sold from it`);
+            }
+            const open = Math.max(0, lot.quantity - sold);
+            totalQty += open;
+            totalCost += (open * lot.price);
         }
 
         this.quantity = totalQty;
         this.averagePrice = totalQty > 0 ? totalCost / totalQty : 0;
     }
 
-    next();
-});
+    this.realizedGain = (this.sales || []).reduce((sum, sale) => sum + (sale.realizedGain || 0), 0);
+};
+
+/**
+ * Pick which lots a sale closes out and how many shares from each.
+ * Returns [{ lot, quantity }] or throws if the request can't be satisfied.
+ */
+function selectLotsForSale(openLots, quantity, method, lotSelections = []) {
+    const EPSILON = 1e-9;
+    const openQty = (lot) => Math.max(0, lot.quantity - (lot.soldQuantity || 0));
+    const totalOpen = openLots.reduce((sum, lot) => sum + openQty(lot), 0);
+
+    if (quantity > totalOpen + EPSILON) {
+        throw new Error(`Cannot sell ${quantity} shares, only ${totalOpen} held`);
+    }
+
+    if (method === 'specific') {
+        const picks = [];
+        let selectedQty = 0;
+        for (const sel of lotSelections) {
+            const lot = openLots.find(l => l._id.toString() === String(sel.lotId));
+            const qty = Number(sel.quantity);
+            if (!lot) throw new Error(`Lot ${sel.lotId} not found`);
+            if (!(qty > 0)) continue;
+            if (qty > openQty(lot) + EPSILON) {
+                throw new Error(`Lot ${sel.lotId} only has ${openQty(lot)} open shares`);
+            }
+            picks.push({ lot, quantity: qty });
+            selectedQty += qty;
+        }
+        if (Math.abs(selectedQty - quantity) > EPSILON) {
+            throw new Error(`Selected lots add up to ${selectedQty} shares, expected ${quantity}`);
+        }
+        return picks;
+    }
+
+    if (method === 'average') {
+        // Close every open lot pro-rata so the remaining average price is unchanged
+        return openLots
+            .filter(lot => openQty(lot) > 0)
+            .map(lot => ({ lot, quantity: quantity * (openQty(lot) / totalOpen) }));
+    }
+
+    const ordered = openLots
+        .filter(lot => openQty(lot) > 0)
+        .sort((a, b) => new Date(a.date) - new Date(b.date));
+    if (method === 'lifo') ordered.reverse();
+
+    const picks = [];
+    let remaining = quantity;
+    for (const lot of ordered) {
+        if (remaining <= EPSILON) break;
+        const qty = Math.min(openQty(lot), remaining);
+        picks.push({ lot, quantity: qty });
+        remaining -= qty;
+    }
+    return picks;
+}
+
+/**
+ * Legacy positions without lots: materialize a single lot from the aggregates
+ * so new lots / sales don't wipe the existing quantity on the next save.
+ */
+positionSchema.methods.materializeLegacyLot = function () {
+    if ((!this.lots || this.lots.length === 0) && this.quantity > 0) {
+        this.lots = [{
+            quantity: this.quantity,
+            price: this.averagePrice,
+            date: this.createdAt || Date.now()
+        }];
+    }
+};
+
+/**
+ * Add a bought lot. Stored positions without lots get their legacy lot first; new positions
+ * start empty (quantity 0) so the first buy is their only lot.
+ * Mutates lots in memory; caller is responsible for save().
+ */
+positionSchema.methods.addLot = function ({ quantity, price, date }) {
+    if (!this.isNew) this.materializeLegacyLot();
+    this.lots.push({ quantity, price, date: date || Date.now() });
+    return this.lots[this.lots.length - 1];
+};
+
+/**
+ * Record a sale against this position's lots using the given cost-basis method.
+ * Mutates lots/sales in memory; caller is responsible for save().
+ *
+ * @param {Object} sale - { quantity, price, date, method, lotSelections }
+ */
+positionSchema.methods.recordSale = function ({ quantity, price, date, method = 'fifo', lotSelections = [] }) {
+    const qty = Number(quantity);
+    const salePrice = Number(price);
+
+    if (!(qty > 0)) throw new Error('Sell quantity must be greater than 0');
+    if (isNaN(salePrice) || salePrice <= 0) throw new Error('Sell price must be a positive number');
+    if (!COST_BASIS_METHODS.includes(method)) throw new Error(`Unknown cost basis method: ${method}`);
+
+    this.materializeLegacyLot();
+
+    const saleDate = date ? new Date(date) : new Date();
+    const eligibleLots = this.lots.filter(lot => new Date(lot.date) <= saleDate);
+    const picks = selectLotsForSale(eligibleLots, qty, method, lotSelections);
+
+    const matches = picks.map(({ lot, quantity: matchedQty }) => {
+        lot.soldQuantity = (lot.soldQuantity || 0) + matchedQty;
+        const costBasis = matchedQty * lot.price;
+        return {
+            lot: lot._id,
+            lotDate: lot.date,
+            lotPrice: lot.price,
+            quantity: matchedQty,
+            costBasis,
+            realizedGain: matchedQty * salePrice - costBasis
+        };
+    });
+
+    const costBasis = matches.reduce((sum, m) => sum + m.costBasis, 0);
+    const proceeds = qty * salePrice;
+
+    this.sales.push({
+        quantity: qty,
+        price: salePrice,
+        date: saleDate,
+        method,
+        proceeds,
+        costBasis,
+        realizedGain: proceeds - costBasis,
+        matches
+    });
+
+    this.markModified('lots');
+    return this.sales[this.sales.length - 1];
+};
+
+/**
+ * Undo a previously recorded sale: give the matched shares back to their lots.
+ * Mutates lots/sales in memory; caller is responsible for save().
+ */
+positionSchema.methods.reverseSale = function (saleId) {
+    const sale = this.sales.id(saleId);
+    if (!sale) throw new Error('Sale not found');
+
+    for (const match of sale.matches) {
+        const lot = match.lot ? this.lots.id(match.lot) : null;
+        if (lot) {
+            lot.soldQuantity = Math.max(0, (lot.soldQuantity || 0) - match.quantity);
+        }
+    }
+
+    this.sales.pull(sale._id);
+    this.markModified('lots');
+};
+
+/**
+ * Shares of a lot sold before a date, from the sales' lot matches
+ */
+function soldBefore(position, lot, date) {
+    return (position.sales || [])
+        .filter(sale => new Date(sale.date) < date)
+        .flatMap(sale => sale.matches || [])
+        .filter(match => match.lot && match.lot.toString() === lot._id.toString())
+        .reduce((sum, match) => sum + match.quantity, 0);
+}
+
+/**
+ * Shares held going into a date: lots bought before it, less what was sold from them before it
+ */
+positionSchema.methods.sharesHeldBefore = function (date) {
+    if (!this.lots || this.lots.length === 0) {
+        return new Date(this.createdAt) < date ? this.quantity : 0;
+    }
+    return this.lots
+        .filter(lot => new Date(lot.date) < date)
+        .reduce((sum, lot) => sum + Math.max(0, lot.quantity - soldBefore(this, lot, date)), 0);
+};
+
+/**
+ * Restate lots and sales from before a split in post-split shares (ratio = new shares per old).
+ * Cost and proceeds are unchanged; quantities scale up and prices down. Shares sold after the
+ * split were entered in post-split units already and are left as they are.
+ * Mutates lots/sales in memory; caller is responsible for save().
+ */
+positionSchema.methods.applySplit = function (ratio, date) {
+    this.materializeLegacyLot();
+
+    for (const lot of this.lots) {
+        if (new Date(lot.date) >= date) continue;
+        const before = soldBefore(this, lot, date);
+        lot.soldQuantity = (lot.soldQuantity || 0) - before + before * ratio;
+        lot.quantity *= ratio;
+        lot.price /= ratio;
+    }
+
+    for (const sale of this.sales) {
+        if (new Date(sale.date) >= date) continue;
+        sale.quantity *= ratio;
+        sale.price /= ratio;
+        for (const match of sale.matches) {
+            match.quantity *= ratio;
+            match.lotPrice /= ratio;
+        }
+    }
+
+    this.markModified('lots');
+    this.markModified('sales');
+};
+
+/**
+ * Spin off a new company: every lot held going into the date gets a matching lot of the new
+ * shares (ratio per parent share, same purchase date) carrying costAllocation of its cost.
+ * Returns the new lots; the parent lots keep the rest of the cost.
+ * Mutates lots in memory; caller is responsible for save().
+ */
+positionSchema.methods.spinOff = function (ratio, costAllocation, date) {
+    this.materializeLegacyLot();
+
+    const spunOff = [];
+    for (const lot of this.lots) {
+        if (new Date(lot.date) >= date) continue;
+        const held = Math.max(0, lot.quantity - soldBefore(this, lot, date));
+        if (held <= 0) continue;
+        spunOff.push({ quantity: held * ratio, price: (lot.price * costAllocation) / ratio, date: lot.date });
+        lot.price *= 1 - costAllocation;
+    }
+
+    this.markModified('lots');
+    return spunOff;
+};
+
+/**
+ * Unique symbols a user holds, optionally limited to one portfolio (null = all portfolios).
+ * Used by the socket services to scope alerts / news to the active portfolio.
+ */
+positionSchema.statics.symbolsForScope = async function (userId, portfolioId = null) {
+    const filter = { user: userId };
+    if (portfolioId) filter.portfolio = portfolioId;
+    const positions = await this.find(filter, 'symbol').lean();
+    return [...new Set(positions.map(p => p.symbol.toUpperCase()))];
+};
 
 const Position = mongoose.model('Position', positionSchema);
 
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import mongoose from 'mongoose';
+import Position from './Position.js';
+
+const newPosition = () => new Position({
+    user: new mongoose.Types.ObjectId(),
+    symbol: 'AAPL',
+    name: 'Apple',
+    quantity: 0,
+    averagePrice: 0,
+    lots: []
+});
+
+describe('Position.addLot', () => {
+    it('gives a new position exactly the first buy', () => {
+        const position = newPosition();
+        position.addLot({ quantity: 5, price: 100, date: new Date('2024-01-02') });
+        position.syncAggregates();
+
+        expect(position.lots).toHaveLength(1);
+        expect(position.quantity).toBe(5);
+        expect(position.averagePrice).toBe(100);
+    });
+
+    it('doesn\'t turn an unsaved position\'s aggregates into a second lot', () => {
+        const position = newPosition();
+        position.quantity = 5;
+        position.averagePrice = 100;
+        position.addLot({ quantity: 5, price: 100 });
+        position.syncAggregates();
+
+        expect(position.lots).toHaveLength(1);
+        expect(position.quantity).toBe(5);
+    });
+
+    it('keeps a stored legacy position\'s shares as a lot before adding the buy', () => {
+        const position = Position.hydrate({
+            _id: new mongoose.Types.ObjectId(),
+            user: new mongoose.Types.ObjectId(),
+            symbol: 'AAPL',
+            name: 'Apple',
+            quantity: 10,
+            averagePrice: 50,
+            lots: [],
+            sales: [],
+            createdAt: new Date('2023-06-01')
+        });
+        position.addLot({ quantity: 5, price: 110, date: new Date('2024-01-02') });
+        position.syncAggregates();
+
+        expect(position.lots).toHaveLength(2);
+        expect(position.quantity).toBe(15);
+        expect(position.averagePrice).toBeCloseTo((10 * 50 + 5 * 110) / 15, 10);
+    });
+
+    it('adds later buys to the existing lots', () => {
+        const position = newPosition();
+        position.addLot({ quantity: 5, price: 100, date: new Date('2024-01-02') });
+        position.addLot({ quantity: 3, price: 120, date: new Date('2024-02-02') });
+        position.syncAggregates();
+
+        expect(position.lots).toHaveLength(2);
+        expect(position.quantity).toBe(8);
+    });
+});
+
+// Three lots bought at 10, 20 and 30, five shares each
+const threeLots = () => {
+    const position = newPosition();
+    position.addLot({ quantity: 5, price: 10, date: new Date('2024-01-02') });
+    position.addLot({ quantity: 5, price: 20, date: new Date('2024-02-02') });
+    position.addLot({ quantity: 5, price: 30, date: new Date('2024-03-02') });
+    return position;
+};
+
+const soldPerLot = (position) => position.lots.map(lot => lot.soldQuantity);
+
+describe('Position.recordSale', () => {
+    const sell = (position, fields) => position.recordSale({ price: 40, date: new Date('2024-06-03'), ...fields });
+
+    it('closes the oldest lots first with fifo', () => {
+        const position = threeLots();
+        const sale = sell(position, { quantity: 7, method: 'fifo' });
+
+        expect(soldPerLot(position)).toEqual([5, 2, 0]);
+        expect(sale.costBasis).toBe(5 * 10 + 2 * 20);
+        expect(sale.realizedGain).toBe(7 * 40 - 90);
+    });
+
+    it('closes the newest lots first with lifo', () => {
+        const position = threeLots();
+        const sale = sell(position, { quantity: 7, method: 'lifo' });
+
+        expect(soldPerLot(position)).toEqual([0, 2, 5]);
+        expect(sale.costBasis).toBe(5 * 30 + 2 * 20);
+    });
+
+    it('closes exactly the chosen lots with specific', () => {
+        const position = threeLots();
+        const [, middle, last] = position.lots;
+        const sale = sell(position, {
+            quantity: 4,
+            method: 'specific',
+            lotSelections: [{ lotId: last._id, quantity: 1 }, { lotId: middle._id, quantity: 3 }]
+        });
+
+        expect(soldPerLot(position)).toEqual([0, 3, 1]);
+        expect(sale.costBasis).toBe(3 * 20 + 1 * 30);
+    });
+
+    it('rejects specific selections that don\'t add up to the sale', () => {
+        const position = threeLots();
+        expect(() => sell(position, {
+            quantity: 4,
+            method: 'specific',
+            lotSelections: [{ lotId: position.lots[0]._id, quantity: 3 }]
+        })).toThrow('Selected lots add up to 3 shares, expected 4');
+    });
+
+    it('closes every lot pro-rata with average, keeping the average price', () => {
+        const position = threeLots();
+        const sale = sell(position, { quantity: 6, method: 'average' });
+        position.syncAggregates();
+
+        expect(soldPerLot(position)).toEqual([2, 2, 2]);
+        expect(sale.costBasis).toBeCloseTo(2 * 10 + 2 * 20 + 2 * 30, 10);
+        expect(position.quantity).toBeCloseTo(9, 10);
+        expect(position.averagePrice).toBeCloseTo(20, 10);
+    });
+
+    it('only matches lots bought on or before the sale date', () => {
+        const position = threeLots();
+        expect(() => position.recordSale({ quantity: 11, price: 40, date: new Date('2024-02-15') }))
+            .toThrow('Cannot sell 11 shares, only 10 held');
+    });
+
+    it('rejects a price of 0', () => {
+        const position = threeLots();
+        expect(() => sell(position, { quantity: 1, price: 0 })).toThrow('Sell price must be a positive number');
+    });
+});
+
+describe('Position.reverseSale', () => {
+    it('gives the matched shares back to their lots', () => {
+        const position = threeLots();
+        const first = position.recordSale({ quantity: 7, price: 40, date: new Date('2024-06-03') });
+        position.recordSale({ quantity: 2, price: 50, date: new Date('2024-07-01') });
+
+        position.reverseSale(first._id);
+        position.syncAggregates();
+
+        expect(soldPerLot(position)).toEqual([0, 2, 0]);
+        expect(position.sales).toHaveLength(1);
+        expect(position.quantity).toBe(13);
+        expect(position.realizedGain).toBe(2 * 50 - 2 * 20);
+    });
+});
+
+describe('Position pre-save', () => {
+    it('refuses a lot reduced below the shares sold from it', async () => {
+        const position = threeLots();
+        position.recordSale({ quantity: 4, price: 40, date: new Date('2024-06-03') });
+        position.lots[0].quantity = 3;
+
+        // The hook fails before anything is sent to the database
+        await expect(position.save()).rejects.toThrow('Lot quantity (3) cannot be lower than the 4 shares already sold from it');
+    });
+});
@@ -0,0 +1,103 @@
+import mongoose from 'mongoose';
+import { COST_BASIS_METHODS } from './Position.js';
+
+export const TRANSACTION_TYPES = ['deposit', 'withdrawal', 'buy', 'sell', 'dividend', 'fee'];
+
+// Types that move shares and therefore need a symbol/quantity/price
+export const TRADE_TYPES = ['buy', 'sell'];
+
+const transactionSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    portfolio: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Portfolio'
+    },
+    type: {
+        type: String,
+        enum: TRANSACTION_TYPES,
+        required: [true, 'Transaction type is required']
+    },
+    symbol: {
+        type: String,
+        uppercase: true,
+        trim: true
+    },
+    quantity: {
+        type: Number,
+        min: [0, 'Quantity must be positive']
+    },
+    price: {
+        type: Number,
+        min: [0, 'Price must be positive']
+    },
+    // Gross cash amount (quantity * price for trades, entered amount otherwise)
+    amount: {
+        type: Number,
+        required: [true, 'Amount is required'],
+        min: [0, 'Amount must be positive']
+    },
+    fee: {
+        type: Number,
+        default: 0,
+        min: [0, 'Fee must be positive']
+    },
+    date: {
+        type: Date,
+        default: Date.now
+    },
+    note: {
+        type: String,
+        trim: true
+    },
+    costBasisMethod: {
+        type: String,
+        enum: COST_BASIS_METHODS
+    },
+    // Links back to the holdings this transaction produced
+    position: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Position'
+    },
+    lot: {
+        type: mongoose.Schema.Types.ObjectId
+    },
+    sale: {
+        type: mongoose.Schema.Types.ObjectId
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+transactionSchema.index({ user: 1, portfolio: 1, date: 1 });
+
+/**
+ * Signed effect of a transaction on the cash balance.
+ * Works on both documents and lean objects.
+ */
+export function cashImpact(tx) {
+    const amount = Number(tx.amount) || 0;
+    const fee = Number(tx.fee) || 0;
+
+    switch (tx.type) {
+        case 'deposit':
+        case 'dividend':
+        case 'sell':
+            return amount - fee;
+        case 'withdrawal':
+        case 'fee':
+        case 'buy':
+            return -amount - fee;
+        default:
+            return 0;
+    }
+}
+
+const Transaction = mongoose.model('Transaction', transactionSchema);
+
+export default Transaction;
@@ -1,6 +1,49 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export const DISPLAY_CURRENCIES = ['USD', 'ILS', 'EUR', 'GBP', 'JPY', 'CAD', 'CHF', 'AUD'];
+
+// Chart indicators a user can turn on, with the [min, max] each parameter accepts
+export const CHART_INDICATOR_PARAMS = {
+    sma: { period: [2, 250] },
+    ema: { period: [2, 250] },
+    bollinger: { period: [2, 250], stdDev: [0.5, 5] },
+    rsi: { period: [2, 100] },
+    macd: { fast: [2, 100], slow: [3, 250], signal: [2, 100] },
+    vwap: {}
+};
+
+const indicatorSettingSchema = (params) => new mongoose.Schema({
+    enabled: { type: Boolean, default: false },
+    ...Object.fromEntries(Object.entries(params).map(([name, [min, max]]) => [name, { type: Number, min, max }]))
+}, { _id: false });
+
+const chartIndicatorsSchema = new mongoose.Schema(
+    Object.fromEntries(Object.entries(CHART_INDICATOR_PARAMS).map(([name, params]) => [name, indicatorSettingSchema(params)])),
+    { _id: false }
+);
+
+// Health score factors (each weighted 0-100) and the [min, max] each target accepts
+export const HEALTH_FACTORS = ['diversification', 'concentration', 'volatility', 'drawdown', 'liquidity', 'sentiment'];
+export const HEALTH_TARGET_RANGES = {
+    maxSectorPct: [5, 100], // Largest sector, % of the portfolio
+    maxPositionPct: [1, 100], // Largest single holding, % of the portfolio
+    maxBeta: [0.1, 3],
+    maxDrawdownPct: [1, 90], // Worst peak-to-trough fall over the last year
+    minDollarVolumeM: [0, 10000] // Average daily traded value, USD millions
+};
+
+const healthScoreSettingsSchema = new mongoose.Schema({
+    weights: new mongoose.Schema(
+        Object.fromEntries(HEALTH_FACTORS.map(factor => [factor, { type: Number, min: 0, max: 100 }])),
+        { _id: false }
+    ),
+    targets: new mongoose.Schema(
+        Object.fromEntries(Object.entries(HEALTH_TARGET_RANGES).map(([name, [min, max]]) => [name, { type: Number, min, max }])),
+        { _id: false }
+    )
+}, { _id: false });
+
 const userSchema = new mongoose.Schema({
     email: {
         type: String,
@@ -20,6 +63,25 @@ const userSchema = new mongoose.Schema({
         required: [true, 'Name is required'],
         trim: true
     },
+    displayCurrency: {
+        type: String,
+        enum: DISPLAY_CURRENCIES,
+        default: 'ILS'
+    },
+    // Unset until the user first saves a choice; the client falls back to its defaults
+    chartIndicators: {
+        type: chartIndicatorsSchema,
+        default: undefined
+    },
+    // Unset until the user first changes a weight or target; the health score uses its defaults
+    healthScoreSettings: {
+        type: healthScoreSettingsSchema,
+        default: undefined
+    },
+    alertRulesSeeded: {
+        type: Boolean,
+        default: false
+    },
     createdAt: {
         type: Date,
         default: Date.now
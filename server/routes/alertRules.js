@@ -0,0 +1,23 @@
+import express from 'express';
+import {
+    getAlertRules,
+    createAlertRule,
+    updateAlertRule,
+    deleteAlertRule
+} from '../controllers/alertRulesController.js';
+import { protect } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication)
+router.use(protect);
+
+router.route('/')
+    .get(getAlertRules)
+    .post(createAlertRule);
+
+router.route('/:id')
+    .put(updateAlertRule)
+    .delete(deleteAlertRule);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { getAlerts } from '../controllers/alertsController.js';
+import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication)
+router.use(protect, portfolioScope);
+
+// Read / dismiss state changes go over the socket so every open tab stays in sync
+router.get('/', getAlerts);
+
+export default router;
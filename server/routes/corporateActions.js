@@ -0,0 +1,19 @@
+import express from 'express';
+import {
+    getCorporateActions,
+    confirmCorporateAction,
+    undoCorporateAction
+} from '../controllers/corporateActionsController.js';
+import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication)
+router.use(protect, portfolioScope);
+
+router.get('/', getCorporateActions);
+router.post('/:id/confirm', confirmCorporateAction);
+router.post('/:id/undo', undoCorporateAction);
+
+export default router;
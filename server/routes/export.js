@@ -0,0 +1,13 @@
+import express from 'express';
+import { exportPortfolio } from '../controllers/exportController.js';
+import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication) and scope them to the active portfolio
+router.use(protect, portfolioScope);
+
+router.get('/', exportPortfolio);
+
+export default router;
@@ -0,0 +1,23 @@
+import express from 'express';
+import {
+    getPortfolios,
+    createPortfolio,
+    updatePortfolio,
+    deletePortfolio
+} from '../controllers/portfoliosController.js';
+import { protect } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication)
+router.use(protect);
+
+router.route('/')
+    .get(getPortfolios)
+    .post(createPortfolio);
+
+router.route('/:id')
+    .put(updatePortfolio)
+    .delete(deletePortfolio);
+
+export default router;
@@ -3,21 +3,28 @@ import {
     getPositions,
     addPosition,
     updatePosition,
+    sellPosition,
+    importPositions,
     deletePosition
 } from '../controllers/positionsController.js';
 import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
 
 const router = express.Router();
 
-// Protect all routes (require authentication)
-router.use(protect);
+// Protect all routes (require authentication) and scope them to the active portfolio
+router.use(protect, portfolioScope);
 
 router.route('/')
     .get(getPositions)
     .post(addPosition);
 
+router.post('/import', importPositions);
+
 router.route('/:id')
     .put(updatePosition)
     .delete(deletePosition);
 
+router.post('/:id/sell', sellPosition);
+
 export default router;
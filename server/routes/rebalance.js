@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+    getTargets,
+    updateTargets,
+    getPlan,
+    applyTrades
+} from '../controllers/rebalanceController.js';
+import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication)
+router.use(protect, portfolioScope);
+
+router.route('/targets')
+    .get(getTargets)
+    .put(updateTargets);
+router.post('/plan', getPlan);
+router.post('/apply', applyTrades);
+
+export default router;
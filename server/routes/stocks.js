@@ -1,6 +1,7 @@
 import express from 'express';
-import { getQuote, getNews, getMarketNews, getForexRate, getStockCandles, getExtendedQuote, getBatchExtendedQuote, searchStocks, getAnalystRecommendations, getPriceTarget, getCompanyProfile, getBatchInsights, getPortfolioAnalytics } from '../controllers/stocksController.js';
+import { getQuote, getNews, getMarketNews, getForexRate, getFxRate, getExchanges, getProviderHealth, getCacheStats, getStockCandles, getExtendedQuote, getBatchExtendedQuote, searchStocks, getAnalystRecommendations, getPriceTarget, getCompanyProfile, getBasicFinancials, getBatchInsights, getPortfolioAnalytics, getHealthHistory, getPortfolioDividends, getPortfolioHistory, getPortfolioAttribution } from '../controllers/stocksController.js';
 import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
 
 const router = express.Router();
 
@@ -10,8 +11,16 @@ router.use(protect);
 // Batch endpoints MUST come before :symbol routes
 router.get('/batch-extended-quote', getBatchExtendedQuote);
 router.get('/batch-insights', getBatchInsights);
-router.get('/portfolio-analytics', getPortfolioAnalytics);
+router.get('/portfolio-analytics', portfolioScope, getPortfolioAnalytics);
+router.get('/health-history', portfolioScope, getHealthHistory);
+router.get('/portfolio-dividends', portfolioScope, getPortfolioDividends);
+router.get('/portfolio-history', portfolioScope, getPortfolioHistory);
+router.get('/portfolio-attribution', portfolioScope, getPortfolioAttribution);
 router.get('/market/news', getMarketNews);
+router.get('/exchanges', getExchanges);
+router.get('/providers/health', getProviderHealth);
+router.get('/cache/stats', getCacheStats);
+router.get('/forex', getFxRate);
 router.get('/forex/usd-ils', getForexRate);
 router.get('/search', searchStocks); // Add Search Route
 
@@ -22,5 +31,6 @@ router.get('/:symbol/history', getStockCandles);
 router.get('/:symbol/recommendation', getAnalystRecommendations);
 router.get('/:symbol/price-target', getPriceTarget);
 router.get('/:symbol/profile', getCompanyProfile);
+router.get('/:symbol/metrics', getBasicFinancials);
 
 export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { getTaxReport, exportTaxReport } from '../controllers/taxController.js';
+import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication) and scope them to the active portfolio
+router.use(protect, portfolioScope);
+
+router.get('/report', getTaxReport);
+router.get('/report.csv', exportTaxReport);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+    getTransactions,
+    addTransaction,
+    deleteTransaction
+} from '../controllers/transactionsController.js';
+import { protect } from '../middleware/auth.js';
+import { portfolioScope } from '../middleware/portfolioScope.js';
+
+const router = express.Router();
+
+// Protect all routes (require authentication) and scope them to the active portfolio
+router.use(protect, portfolioScope);
+
+router.route('/')
+    .get(getTransactions)
+    .post(addTransaction);
+
+router.route('/:id')
+    .delete(deleteTransaction);
+
+export default router;
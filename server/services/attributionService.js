@@ -0,0 +1,353 @@
+/**
+ * Performance Attribution Service
+ * Explains the portfolio's time-weighted return over a range:
+ * - Contribution to return per lot, rolled up per holding and per sector (finnhubIndustry).
+ *   Each day's P&L is divided by the portfolio's start-of-day value plus that day's buys
+ *   (the TWR denominator) and scaled by the growth so far, so contributions add up exactly
+ *   to the compounded return.
+ * - Brinson-Fachler allocation / selection / interaction against the S&P 500, using the
+ *   SPDR sector funds for sector returns. The index's sector weights are a fixed approximation,
+ *   so the sector blend doesn't match SPY exactly; the gap is reported as a residual.
+ * Price returns in USD; dividends aren't included (same as the benchmark chart).
+ */
+
+import { fetchUsdChart, getCompanyProfile, rangeStartDate } from './stockDataService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+// S&P 500 sectors, their approximate index weights (%) and the fund tracking each.
+// Holdings are matched by their profile's sector / industry, first pattern wins.
+export const BENCHMARK_SECTORS = [
+    { sector: 'Real Estate', etf: 'XLRE', weight: 2, pattern: /real estate|reit/ },
+    { sector: 'Communication Services', etf: 'XLC', weight: 9.5, pattern: /communication|media|telecom|entertainment|interactive/ },
+    { sector: 'Information Technology', etf: 'XLK', weight: 33.5, pattern: /tech|software|semiconductor|electronic|computer|it services/ },
+    { sector: 'Health Care', etf: 'XLV', weight: 9.5, pattern: /health|pharma|biotech|life sciences|medical/ },
+    { sector: 'Financials', etf: 'XLF', weight: 13.5, pattern: /financ|bank|insurance|capital markets|credit|asset management/ },
+    { sector: 'Consumer Staples', etf: 'XLP', weight: 5.5, pattern: /consumer defensive|staples|food|beverage|tobacco|household products|personal products/ },
+    { sector: 'Consumer Discretionary', etf: 'XLY', weight: 10.5, pattern: /consumer cyclical|discretionary|retail|auto|hotel|restaurant|leisure|textile|apparel|luxury|household durables|distributors|diversified consumer/ },
+    { sector: 'Utilities', etf: 'XLU', weight: 2.5, pattern: /utilit/ },
+    { sector: 'Energy', etf: 'XLE', weight: 3, pattern: /energy|oil|gas|coal/ },
+    { sector: 'Materials', etf: 'XLB', weight: 2, pattern: /material|chemical|metal|mining|paper|forest|packaging/ },
+    { sector: 'Industrials', etf: 'XLI', weight: 8.5, pattern: /industrial|aerospace|defense|machinery|airline|transport|logistics|road|rail|marine|building|construction|electrical equipment|professional services|commercial services|trading companies|conglomerate/ }
+];
+
+// Funds and anything unmatched: no index weight, compared with the index as a whole
+export const OTHER_SECTOR = 'Other';
+
+const BENCHMARK_SYMBOL = 'SPY';
+
+const round = (value, digits = 2) => (value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits)));
+
+const dayOf = (date) => new Date(date).toISOString().split('T')[0];
+
+export function benchmarkSectorFor(industry) {
+    const name = String(industry || '').toLowerCase();
+    if (!name || name === 'exchange traded fund') return OTHER_SECTOR;
+    return BENCHMARK_SECTORS.find(s => s.pattern.test(name))?.sector || OTHER_SECTOR;
+}
+
+/**
+ * One attribution unit per lot, with its dated share changes. Sales close the lots their
+ * matches name; older sales without matches close the earliest lots first.
+ */
+function lotUnits(positions) {
+    const units = [];
+    for (const pos of positions) {
+        const lots = pos.lots && pos.lots.length > 0
+            ? pos.lots
+            : (pos.quantity > 0 ? [{ quantity: pos.quantity, price: pos.averagePrice, date: pos.createdAt }] : []);
+
+        const posUnits = lots.map(lot => ({
+            lotId: lot._id ? String(lot._id) : null,
+            symbol: pos.symbol,
+            name: pos.name || pos.symbol,
+            date: dayOf(lot.date || pos.createdAt || Date.now()),
+            price: Number(lot.price) || 0,
+            quantity: Number(lot.quantity) || 0,
+            openQuantity: Math.max(0, (Number(lot.quantity) || 0) - (Number(lot.soldQuantity) || 0)),
+            events: [{ date: dayOf(lot.date || pos.createdAt || Date.now()), shares: Number(lot.quantity) || 0, amount: (Number(lot.quantity) || 0) * (Number(lot.price) || 0) }],
+            sold: 0
+        }));
+        units.push(...posUnits);
+
+        const byId = new Map(posUnits.filter(u => u.lotId).map(u => [u.lotId, u]));
+        const sales = [...(pos.sales || [])].sort((a, b) => new Date(a.date) - new Date(b.date));
+        for (const sale of sales) {
+            const date = dayOf(sale.date);
+            const close = (unit, shares) => {
+                unit.events.push({ date, shares: -shares, amount: -shares * sale.price });
+                unit.sold += shares;
+            };
+
+            let unmatched = Number(sale.quantity) || 0;
+            for (const match of sale.matches || []) {
+                const unit = byId.get(String(match.lot));
+                if (!unit) continue;
+                close(unit, match.quantity);
+                unmatched -= match.quantity;
+            }
+            for (const unit of [...posUnits].sort((a, b) => a.date.localeCompare(b.date))) {
+                if (unmatched <= EPSILON) break;
+                const available = unit.quantity - unit.sold;
+                if (available <= EPSILON) continue;
+                const shares = Math.min(available, unmatched);
+                close(unit, shares);
+                unmatched -= shares;
+            }
+        }
+    }
+
+    units.forEach(u => u.events.sort((a, b) => a.date.localeCompare(b.date)));
+    return units;
+}
+
+/**
+ * Closes on each calendar date, carrying the last close forward (null before the first)
+ */
+function alignCloses(chart, dates) {
+    const closes = new Map((chart?.dates || []).map((d, i) => [d, chart.closes[i]]));
+    let last = null;
+    return dates.map(date => {
+        const close = closes.get(date);
+        if (close) last = close;
+        return last;
+    });
+}
+
+/**
+ * Brinson-Fachler attribution of the active return, per S&P 500 sector
+ *
+ * @param {Map} portfolio - sector -> { weight, contribution } (decimals)
+ * @param {Map} sectorReturns - sector -> fund return over the range (decimal)
+ * @param {number} benchmarkReturn - SPY over the range (decimal)
+ */
+function brinson(portfolio, sectorReturns, benchmarkReturn) {
+    const rows = [...BENCHMARK_SECTORS, { sector: OTHER_SECTOR, etf: null, weight: 0 }].map(({ sector, etf, weight }) => {
+        const held = portfolio.get(sector) || { weight: 0, contribution: 0 };
+        const wb = weight / 100;
+        const rb = sectorReturns.get(sector) ?? benchmarkReturn;
+        const wp = held.weight;
+        // A sector the portfolio doesn't hold has nothing to select
+        const rp = wp > EPSILON ? held.contribution / wp : rb;
+        return {
+            sector,
+            etf,
+            wp, wb, rp, rb,
+            allocation: (wp - wb) * (rb - benchmarkReturn),
+            selection: wb * (rp - rb),
+            interaction: (wp - wb) * (rp - rb)
+        };
+    }).filter(r => r.wp > EPSILON || r.wb > 0);
+
+    const sum = (key) => rows.reduce((total, r) => total + r[key], 0);
+    const notional = rows.reduce((total, r) => total + r.wb * r.rb, 0);
+
+    return {
+        benchmark: BENCHMARK_SYMBOL,
+        sectors: rows.map(r => ({
+            sector: r.sector,
+            etf: r.etf,
+            portfolioWeight: round(r.wp * 100),
+            benchmarkWeight: round(r.wb * 100),
+            portfolioReturn: r.wp > EPSILON ? round(r.rp * 100) : null,
+            benchmarkReturn: round(r.rb * 100),
+            allocation: round(r.allocation * 100),
+            selection: round(r.selection * 100),
+            interaction: round(r.interaction * 100)
+        })),
+        allocation: round(sum('allocation') * 100),
+        selection: round(sum('selection') * 100),
+        interaction: round(sum('interaction') * 100),
+        sectorBenchmarkReturn: round(notional * 100),
+        residual: round((notional - benchmarkReturn) * 100)
+    };
+}
+
+/**
+ * Contribution to return per holding, sector and lot, and the Brinson breakdown vs SPY
+ *
+ * @param {Array} positions - Position objects with lots and sales (may repeat symbols across portfolios)
+ * @param {string} range - One of HISTORY_RANGES
+ */
+export async function getPerformanceAttribution(positions, range = '1Y') {
+    const units = lotUnits(positions).filter(u => u.quantity > 0);
+    const empty = { range, start: null, end: null, days: 0, portfolioReturn: null, benchmarkReturn: null, activeReturn: null, positions: [], sectors: [], brinson: null, notes: [] };
+    if (units.length === 0) return empty;
+
+    const earliest = new Date(units.reduce((min, u) => (u.date < min ? u.date : min), units[0].date));
+    const start = new Date(Math.max(rangeStartDate(range, earliest).getTime(), earliest.getTime()));
+    const startDay = dayOf(start);
+    // A week of look-back so lots held at the start have a previous close; floored for the chart cache
+    const fetchFrom = new Date(Math.floor((start.getTime() - 7 * DAY_MS) / DAY_MS) * DAY_MS);
+
+    const symbols = [...new Set(units.map(u => u.symbol))];
+    const etfs = BENCHMARK_SECTORS.map(s => s.etf);
+    const [spyChart, symbolCharts, etfCharts, profiles] = await Promise.all([
+        fetchUsdChart(BENCHMARK_SYMBOL, fetchFrom),
+        Promise.all(symbols.map(s => fetchUsdChart(s, fetchFrom).catch(() => null))),
+        Promise.all(etfs.map(s => fetchUsdChart(s, fetchFrom).catch(() => null))),
+        Promise.all(symbols.map(s => getCompanyProfile(s).catch(() => null)))
+    ]);
+
+    const notes = [];
+    const missing = symbols.filter((_, i) => !(symbolCharts[i]?.closes?.length > 0));
+    if (missing.length > 0) notes.push(`No prices for ${missing.join(', ')}; left out of the attribution`);
+
+    // SPY's trading days are the calendar, as for the benchmark chart
+    const dates = spyChart?.dates || [];
+    const first = dates.findIndex(d => d >= startDay);
+    if (first < 1) return { ...empty, notes: [...notes, 'Not enough price history for this range'] };
+
+    const closesBySymbol = new Map(symbols.map((s, i) => [s, alignCloses(symbolCharts[i], dates)]));
+    const industryBySymbol = new Map(symbols.map((s, i) => [s, profiles[i]?.finnhubIndustry || null]));
+    const priced = units.filter(u => !missing.includes(u.symbol));
+
+    const state = priced.map(unit => ({
+        unit,
+        shares: 0,
+        next: 0,
+        value: 0,
+        base: 0, // Start-of-day value plus the day's buys (less sales)
+        dayPnl: 0,
+        contribution: 0,
+        pnl: 0,
+        weightSum: 0
+    }));
+
+    let growth = 1;
+    let days = 0;
+    let firstDay = null;
+    let lastDay = null;
+    // SPY and the sector funds compound over the same days as the portfolio
+    const spyCloses = alignCloses(spyChart, dates);
+    let spyGrowth = 1;
+    const funds = etfCharts.map(chart => ({ closes: alignCloses(chart, dates), growth: 1, priced: chart?.closes?.length > 0 }));
+
+    for (let t = 0; t < dates.length; t++) {
+        const date = dates[t];
+        const tracking = t >= first;
+
+        let denominator = 0;
+        for (const s of state) {
+            let flow = 0;
+            while (s.next < s.unit.events.length && s.unit.events[s.next].date <= date) {
+                const event = s.unit.events[s.next++];
+                s.shares += event.shares;
+                flow += event.amount;
+            }
+            // Before the first close, a lot is worth what was paid for it
+            const close = closesBySymbol.get(s.unit.symbol)[t] ?? s.unit.price;
+            const value = Math.max(0, s.shares) * close;
+            s.base = s.value + flow;
+            s.dayPnl = value - s.base;
+            s.value = value;
+            denominator += s.base;
+        }
+
+        if (!tracking || denominator <= EPSILON) continue;
+
+        firstDay = firstDay ?? date;
+        lastDay = date;
+        days++;
+        let dailyReturn = 0;
+        for (const s of state) {
+            const share = s.dayPnl / denominator;
+            s.contribution += share * growth;
+            s.pnl += s.dayPnl;
+            s.weightSum += s.base / denominator;
+            dailyReturn += share;
+        }
+        growth *= 1 + dailyReturn;
+        if (spyCloses[t] && spyCloses[t - 1]) spyGrowth *= spyCloses[t] / spyCloses[t - 1];
+        for (const fund of funds) {
+            if (fund.closes[t] && fund.closes[t - 1]) fund.growth *= fund.closes[t] / fund.closes[t - 1];
+        }
+    }
+
+    if (days === 0) return { ...empty, notes: [...notes, 'Nothing was held during this range'] };
+
+    const portfolioReturn = growth - 1;
+    const benchmarkReturn = spyGrowth - 1;
+
+    // Roll lots up into holdings, and holdings into sectors
+    const holdings = new Map();
+    for (const s of state) {
+        const { symbol, name } = s.unit;
+        if (!holdings.has(symbol)) {
+            holdings.set(symbol, { symbol, name, sector: industryBySymbol.get(symbol) || null, contribution: 0, pnl: 0, weight: 0, lots: [] });
+        }
+        const holding = holdings.get(symbol);
+        holding.contribution += s.contribution;
+        holding.pnl += s.pnl;
+        holding.weight += s.weightSum / days;
+        // Lots closed before the range or bought after it add nothing
+        if (Math.abs(s.weightSum) > EPSILON || Math.abs(s.pnl) > EPSILON) {
+            holding.lots.push({
+                lotId: s.unit.lotId,
+                date: s.unit.date,
+                price: round(s.unit.price, 4),
+                quantity: s.unit.quantity,
+                openQuantity: s.unit.openQuantity,
+                contribution: round(s.contribution * 100),
+                pnl: round(s.pnl)
+            });
+        }
+    }
+
+    const sectors = new Map();
+    const benchmarkSectors = new Map();
+    for (const holding of holdings.values()) {
+        const sectorName = holding.sector || 'Unknown';
+        const sector = sectors.get(sectorName) || { sector: sectorName, contribution: 0, pnl: 0, weight: 0, symbols: [] };
+        sector.contribution += holding.contribution;
+        sector.pnl += holding.pnl;
+        sector.weight += holding.weight;
+        sector.symbols.push(holding.symbol);
+        sectors.set(sectorName, sector);
+
+        const key = benchmarkSectorFor(holding.sector);
+        const grouped = benchmarkSectors.get(key) || { weight: 0, contribution: 0 };
+        grouped.weight += holding.weight;
+        grouped.contribution += holding.contribution;
+        benchmarkSectors.set(key, grouped);
+    }
+
+    const sectorReturns = new Map();
+    BENCHMARK_SECTORS.forEach((s, i) => {
+        if (funds[i].priced) sectorReturns.set(s.sector, funds[i].growth - 1);
+    });
+    const missingFunds = BENCHMARK_SECTORS.filter(s => !sectorReturns.has(s.sector)).map(s => s.etf);
+    if (missingFunds.length > 0) notes.push(`No prices for ${missingFunds.join(', ')}; those sectors use SPY's return`);
+
+    const byContribution = (a, b) => b.contribution - a.contribution;
+
+    return {
+        range,
+        start: firstDay,
+        end: lastDay,
+        days,
+        portfolioReturn: round(portfolioReturn * 100),
+        benchmarkReturn: round(benchmarkReturn * 100),
+        activeReturn: round((portfolioReturn - benchmarkReturn) * 100),
+        positions: [...holdings.values()].sort(byContribution).map(h => ({
+            symbol: h.symbol,
+            name: h.name,
+            sector: h.sector,
+            benchmarkSector: benchmarkSectorFor(h.sector),
+            contribution: round(h.contribution * 100),
+            pnl: round(h.pnl),
+            averageWeight: round(h.weight * 100),
+            lots: h.lots.sort((a, b) => a.date.localeCompare(b.date))
+        })),
+        sectors: [...sectors.values()].sort(byContribution).map(s => ({
+            sector: s.sector,
+            contribution: round(s.contribution * 100),
+            pnl: round(s.pnl),
+            averageWeight: round(s.weight * 100),
+            symbols: s.symbols
+        })),
+        brinson: brinson(benchmarkSectors, sectorReturns, benchmarkReturn),
+        notes
+    };
+}
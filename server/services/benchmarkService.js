@@ -0,0 +1,141 @@
+/**
+ * Benchmark Service
+ * Compares the portfolio with the benchmarks chosen for it: single funds or indexes (QQQ, VTI,
+ * TA-125...) or weighted blends such as 60/40 VTI/BND, rebalanced daily. Prices are converted
+ * to USD like the holdings. Each benchmark gets a cumulative series for the chart, starting at
+ * 0% with the chart, and alpha / beta / tracking error / information ratio from paired daily returns.
+ *
+ * The analytics service caches the portfolio's daily returns (benchmarkInputs); the comparison
+ * runs per request, so changing benchmarks doesn't refetch the holdings' data.
+ */
+
+import Portfolio from '../models/Portfolio.js';
+import { fetchUsdChart } from './stockDataService.js';
+import { relativeStats } from './riskService.js';
+
+export const MAX_BENCHMARKS = 3;
+export const MAX_BENCHMARK_COMPONENTS = 5;
+
+// Used when a portfolio has none saved, and for the all-portfolios view
+export const DEFAULT_BENCHMARKS = [
+    { name: 'S&P 500', components: [{ symbol: 'SPY', weight: 100 }] }
+];
+
+const SYMBOL_PATTERN = /^[A-Z0-9^][A-Z0-9.\-=^]{0,19}$/;
+
+const round = (value, digits = 2) => Number(value.toFixed(digits));
+
+/**
+ * Normalize and check a benchmarks update; returns { benchmarks } or { error }
+ */
+export function validateBenchmarks(input) {
+    if (!Array.isArray(input)) return { error: 'benchmarks must be a list' };
+    if (input.length === 0) return { error: 'Choose at least one benchmark' };
+    if (input.length > MAX_BENCHMARKS) return { error: `Choose up to ${MAX_BENCHMARKS} benchmarks` };
+
+    const benchmarks = [];
+    for (const entry of input) {
+        const components = Array.isArray(entry?.components) ? entry.components : [];
+        if (components.length === 0 || components.length > MAX_BENCHMARK_COMPONENTS) {
+            return { error: `A benchmark needs 1 to ${MAX_BENCHMARK_COMPONENTS} symbols` };
+        }
+
+        const normalized = [];
+        for (const component of components) {
+            const symbol = String(component?.symbol || '').trim().toUpperCase();
+            const weight = Number(component?.weight);
+            if (!SYMBOL_PATTERN.test(symbol)) return { error: `Invalid benchmark symbol: ${symbol || '(empty)'}` };
+            if (!(weight > 0 && weight <= 100)) return { error: `Weight for ${symbol} must be between 0 and 100` };
+            if (normalized.some(c => c.symbol === symbol)) return { error: `${symbol} appears twice in one benchmark` };
+            normalized.push({ symbol, weight });
+        }
+
+        const total = normalized.reduce((sum, c) => sum + c.weight, 0);
+        if (Math.abs(total - 100) > 0.01) return { error: `Blend weights must add up to 100% (got ${round(total, 1)}%)` };
+
+        const name = String(entry?.name || '').trim().slice(0, 40)
+            || normalized.map(c => (normalized.length > 1 ? `${c.weight}% ${c.symbol}` : c.symbol)).join(' / ');
+        benchmarks.push({ name, components: normalized });
+    }
+    return { benchmarks };
+}
+
+/**
+ * Benchmarks saved on the active portfolio, or the default for "all" and unset portfolios
+ */
+export async function resolvePortfolioBenchmarks(portfolioId) {
+    if (!portfolioId) return DEFAULT_BENCHMARKS;
+    const portfolio = await Portfolio.findById(portfolioId, 'benchmarks').lean();
+    return portfolio?.benchmarks?.length > 0 ? portfolio.benchmarks : DEFAULT_BENCHMARKS;
+}
+
+/**
+ * Daily blend returns on the given dates. A component without a close that day keeps its last
+ * close (e.g. TASE trades Sunday-Thursday), so it reads as flat.
+ */
+function blendReturns(benchmark, charts, dates) {
+    const componentCharts = benchmark.components.map(c => charts.get(c.symbol));
+    const closeMaps = componentCharts.map(chart => new Map(chart.dates.map((d, i) => [d, chart.closes[i]])));
+    // Latest close on or before the first date, so day one has a base
+    const last = componentCharts.map(chart => {
+        let close = null;
+        for (let j = 0; j < chart.dates.length && chart.dates[j] <= dates[0]; j++) close = chart.closes[j];
+        return close;
+    });
+
+    return dates.map((date, index) => {
+        let dailyReturn = 0;
+        benchmark.components.forEach((c, i) => {
+            const close = closeMaps[i].get(date);
+            if (close && last[i] && index > 0) dailyReturn += (c.weight / 100) * (close / last[i] - 1);
+            if (close) last[i] = close;
+        });
+        return dailyReturn;
+    });
+}
+
+/**
+ * Add the chosen benchmarks' series and statistics to analytics (returns a new object)
+ *
+ * @param {Object} analytics - From getPortfolioHealthAndBenchmark
+ * @param {Array} benchmarks - [{ name, components: [{ symbol, weight }] }]
+ */
+export async function withBenchmarks(analytics, benchmarks = DEFAULT_BENCHMARKS) {
+    const { benchmarkInputs, ...rest } = analytics;
+    const dates = (analytics.benchmarkData || []).map(d => d.date);
+    if (dates.length < 2) return { ...rest, benchmarks: [] };
+
+    const symbols = [...new Set(benchmarks.flatMap(b => b.components.map(c => c.symbol)))];
+    // A week before the chart starts, so the first day has a previous close to compare with
+    const from = new Date(new Date(dates[0]).getTime() - 7 * 24 * 60 * 60 * 1000);
+    const charts = new Map(await Promise.all(symbols.map(async symbol => {
+        const chart = await fetchUsdChart(symbol, from).catch(() => null);
+        return [symbol, chart];
+    })));
+
+    const portfolioReturns = new Map((benchmarkInputs?.returns || []).map(r => [r.date, r.portfolio]));
+
+    return {
+        ...rest,
+        benchmarks: benchmarks.map(benchmark => {
+            const components = benchmark.components.map(({ symbol, weight }) => ({ symbol, weight }));
+            const missing = components.filter(c => !(charts.get(c.symbol)?.closes?.length > 0)).map(c => c.symbol);
+            if (missing.length > 0) {
+                return { name: benchmark.name, components, series: [], stats: null, error: `No prices for ${missing.join(', ')}` };
+            }
+
+            const daily = blendReturns(benchmark, charts, dates);
+            let growth = 1;
+            const series = dates.map((date, i) => {
+                growth *= 1 + daily[i];
+                return { date, value: round((growth - 1) * 100) };
+            });
+
+            const pairs = dates
+                .map((date, i) => ({ date, portfolio: portfolioReturns.get(date), benchmark: daily[i] }))
+                .filter(p => p.portfolio !== undefined);
+
+            return { name: benchmark.name, components, series, stats: relativeStats(pairs), error: null };
+        })
+    };
+}
@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import Redis from 'ioredis';
+import CacheEntry from '../models/CacheEntry.js';
+
+/**
+ * Cache backends sit behind cacheService. Each one is a plain object:
+ *
+ *   name                 label for logs and stats
+ *   get(key)             resolves { data, storedAt, freshUntil, expiresAt } (ms timestamps) or null
+ *   set(key, entry)      stores an entry until entry.expiresAt
+ *   delete(key)          removes an entry
+ *   stats()              backend-specific counters ({ entries, evictions, ... })
+ *   close()              release connections (optional)
+ *
+ * Backends only enforce expiresAt; whether an entry is fresh or stale is cacheService's call.
+ * Select the shared tier with CACHE_BACKEND=memory|mongo|redis (default memory).
+ */
+
+// ============================================
+// MEMORY (LRU, per process)
+// ============================================
+
+export function createMemoryCache({ maxEntries = 5000 } = {}) {
+    // Map iteration order is insertion order: re-inserting on read keeps the oldest use first
+    const entries = new Map();
+    let evictions = 0;
+    let expirations = 0;
+
+    return {
+        name: 'memory',
+        async get(key) {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            if (entry.expiresAt <= Date.now()) {
+                entries.delete(key);
+                expirations++;
+                return null;
+            }
+            entries.delete(key);
+            entries.set(key, entry);
+            return entry;
+        },
+        async set(key, entry) {
+            entries.delete(key);
+            entries.set(key, entry);
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value);
+                evictions++;
+            }
+        },
+        async delete(key) {
+            entries.delete(key);
+        },
+        stats() {
+            return { entries: entries.size, maxEntries, evictions, expirations };
+        }
+    };
+}
+
+// ============================================
+// MONGODB (TTL collection, shared across instances)
+// ============================================
+
+export function createMongoCache() {
+    // Reads before the connection is up are misses, not waits (bufferCommands is off)
+    const connected = () => mongoose.connection.readyState === 1;
+
+    return {
+        name: 'mongo',
+        async get(key) {
+            if (!connected()) return null;
+            const doc = await CacheEntry.findOne({ key }).lean();
+            // The TTL monitor lags by up to a minute
+            if (!doc || doc.expiresAt.getTime() <= Date.now()) return null;
+            return {
+                data: JSON.parse(doc.payload),
+                storedAt: doc.storedAt.getTime(),
+                freshUntil: doc.freshUntil.getTime(),
+                expiresAt: doc.expiresAt.getTime()
+            };
+        },
+        async set(key, { data, storedAt, freshUntil, expiresAt }) {
+            if (!connected()) return;
+            await CacheEntry.updateOne(
+                { key },
+                { payload: JSON.stringify(data), storedAt, freshUntil, expiresAt },
+                { upsert: true }
+            );
+        },
+        async delete(key) {
+            if (!connected()) return;
+            await CacheEntry.deleteOne({ key });
+        },
+        stats() {
+            return { connected: connected() };
+        }
+    };
+}
+
+// ============================================
+// REDIS (ioredis; works with Redis, Valkey, KeyDB, Upstash)
+// ============================================
+
+const REDIS_COMMAND_TIMEOUT_MS = 2000;
+
+export function createRedisCache({ url = process.env.REDIS_URL, prefix = 'traderai:cache:' } = {}) {
+    if (!url) throw new Error('REDIS_URL not set');
+
+    // Connects on the first command and reconnects by itself; a slow or down Redis fails the
+    // command quickly so cacheService falls back to the local tier instead of waiting
+    const client = new Redis(url, {
+        keyPrefix: prefix,
+        lazyConnect: true,
+        commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+        maxRetriesPerRequest: 1
+    });
+    client.on('error', (error) => {
+        console.error('❌ [CACHE] Redis error:', error.message);
+    });
+
+    return {
+        name: 'redis',
+        async get(key) {
+            const raw = await client.get(key);
+            return raw ? JSON.parse(raw) : null;
+        },
+        async set(key, entry) {
+            const ttlMs = Math.max(1, Math.round(entry.expiresAt - Date.now()));
+            await client.set(key, JSON.stringify(entry), 'PX', ttlMs);
+        },
+        async delete(key) {
+            await client.del(key);
+        },
+        stats() {
+            return { connected: client.status === 'ready', status: client.status };
+        },
+        close() {
+            client.quit().catch(() => client.disconnect());
+        }
+    };
+}
+
+/**
+ * Shared cache tier picked by CACHE_BACKEND, or null for memory only
+ */
+export function createSharedCacheBackend(name = process.env.CACHE_BACKEND || 'memory') {
+    switch (name) {
+        case 'memory': return null;
+        case 'mongo': return createMongoCache();
+        case 'redis': return createRedisCache();
+        default: throw new Error(`Unknown cache backend: ${name}`);
+    }
+}
@@ -0,0 +1,203 @@
+import { createMemoryCache, createSharedCacheBackend } from './cacheBackends.js';
+
+// ============================================
+// CACHE SERVICE
+// ============================================
+// Two tiers: a per-process LRU in front of an optional shared backend (MongoDB or
+// Redis) so restarts and serverless cold starts don't re-fetch everything.
+// Entries are kept past their TTL for a stale window; stale data backs up failed
+// fetches and, with stale-while-revalidate on, is served while a refresh runs.
+//
+//   CACHE_BACKEND                   memory | mongo | redis (default memory)
+//   CACHE_MAX_ENTRIES               in-process LRU size (default 5000)
+//   CACHE_MAX_ENTRY_BYTES           largest payload written to the shared tier (default 512KB)
+//   CACHE_STALE_WHILE_REVALIDATE    "true" to serve stale entries while refreshing
+
+let tiers = null;
+
+const metrics = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    writes: 0,
+    oversized: 0,
+    revalidations: 0,
+    errors: 0
+};
+
+// Built lazily: dotenv loads after the service modules are imported
+function getTiers() {
+    if (tiers) return tiers;
+
+    const maxEntries = Number(process.env.CACHE_MAX_ENTRIES) || 5000;
+    tiers = {
+        local: createMemoryCache({ maxEntries }),
+        shared: createSharedCacheBackend(),
+        maxEntryBytes: Number(process.env.CACHE_MAX_ENTRY_BYTES) || 512 * 1024,
+        staleWhileRevalidate: process.env.CACHE_STALE_WHILE_REVALIDATE === 'true'
+    };
+    console.log(`🗄️ [CACHE] Backend: memory${tiers.shared ? ` + ${tiers.shared.name}` : ''} (LRU ${maxEntries} entries)`);
+    return tiers;
+}
+
+/**
+ * Entry from the nearest tier that has it, or null. Shared-tier hits are copied to the local LRU.
+ */
+async function readEntry(key) {
+    const { local, shared } = getTiers();
+
+    const entry = await local.get(key);
+    if (entry || !shared) return entry;
+
+    try {
+        const remote = await shared.get(key);
+        if (remote) await local.set(key, remote);
+        return remote;
+    } catch (error) {
+        metrics.errors++;
+        console.warn(`⚠️ [CACHE] ${shared.name} read failed for ${key}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Key for data built from one user's holdings. The shared tier is visible to every process,
+ * so these keys carry the user id and two accounts can never read each other's entries.
+ */
+export function userCacheKey(userId, key) {
+    if (!userId) throw new Error(`User-scoped cache key without a user: ${key}`);
+    return `user_${userId}:${key}`;
+}
+
+/**
+ * Fresh cached data for a key, or null
+ */
+export async function getCached(key) {
+    const entry = await readEntry(key);
+    if (entry && entry.freshUntil > Date.now()) {
+        metrics.hits++;
+        return entry.data;
+    }
+    metrics.misses++;
+    return null;
+}
+
+/**
+ * Cached data for a key even if past its TTL (still inside the stale window), or null
+ */
+export async function getStale(key) {
+    const entry = await readEntry(key);
+    return entry ? entry.data : null;
+}
+
+/**
+ * Store data for ttlMs, kept another staleMs (default: one more TTL) for stale reads
+ */
+export async function setCache(key, data, ttlMs, { staleMs = ttlMs } = {}) {
+    const { local, shared, maxEntryBytes } = getTiers();
+    const storedAt = Date.now();
+    const entry = { data, storedAt, freshUntil: storedAt + ttlMs, expiresAt: storedAt + ttlMs + staleMs };
+
+    metrics.writes++;
+    await local.set(key, entry);
+    if (!shared) return;
+
+    try {
+        if (Buffer.byteLength(JSON.stringify(data)) > maxEntryBytes) {
+            metrics.oversized++;
+            return;
+        }
+        await shared.set(key, entry);
+    } catch (error) {
+        metrics.errors++;
+        console.warn(`⚠️ [CACHE] ${shared.name} write failed for ${key}: ${error.message}`);
+    }
+}
+
+// ============================================
+// IN-FLIGHT DEDUPLICATION
+// ============================================
+const inFlightRequests = new Map(); // key -> Promise
+
+/**
+ * Execute a function with in-flight deduplication.
+ * If a request with the same key is already in progress,
+ * return the existing promise instead of making a new call.
+ */
+export async function dedupedFetch(key, fetchFn) {
+    // If there's already an in-flight request for this key, wait for it
+    if (inFlightRequests.has(key)) {
+        return inFlightRequests.get(key);
+    }
+
+    // Create new request and store promise
+    const promise = fetchFn()
+        .finally(() => {
+            // Clean up after completion
+            inFlightRequests.delete(key);
+        });
+
+    inFlightRequests.set(key, promise);
+    return promise;
+}
+
+/**
+ * Cache-aside fetch: fresh entry → returned; stale entry with stale-while-revalidate on →
+ * returned while a deduped refresh runs in the background; otherwise fetched (deduped).
+ * Null/undefined results are not cached.
+ */
+export async function cachedFetch(key, ttlMs, fetchFn, { staleMs } = {}) {
+    const entry = await readEntry(key);
+    const now = Date.now();
+
+    if (entry && entry.freshUntil > now) {
+        metrics.hits++;
+        return entry.data;
+    }
+
+    const refresh = () => dedupedFetch(key, async () => {
+        const data = await fetchFn();
+        if (data !== null && data !== undefined) await setCache(key, data, ttlMs, { staleMs });
+        return data;
+    });
+
+    if (entry && getTiers().staleWhileRevalidate) {
+        metrics.staleHits++;
+        if (!inFlightRequests.has(key)) {
+            metrics.revalidations++;
+            refresh().catch(error => {
+                console.warn(`⚠️ [CACHE] Revalidation failed for ${key}: ${error.message}`);
+            });
+        }
+        return entry.data;
+    }
+
+    metrics.misses++;
+    return refresh();
+}
+
+/**
+ * Hit/miss counters and per-tier stats
+ */
+export function getCacheStats() {
+    const { local, shared, staleWhileRevalidate } = getTiers();
+    const lookups = metrics.hits + metrics.staleHits + metrics.misses;
+
+    return {
+        ...metrics,
+        hitRate: lookups > 0 ? Number(((metrics.hits + metrics.staleHits) / lookups).toFixed(3)) : null,
+        inFlight: inFlightRequests.size,
+        staleWhileRevalidate,
+        tiers: {
+            local: local.stats(),
+            ...(shared && { [shared.name]: shared.stats() })
+        }
+    };
+}
+
+/**
+ * Release shared-tier connections (graceful shutdown)
+ */
+export function closeCache() {
+    tiers?.shared?.close?.();
+}
@@ -0,0 +1,327 @@
+/**
+ * Corporate Actions Service
+ * Fetches splits, reverse splits, spinoffs and ticker changes for held symbols and applies
+ * them to lots. Each adjustment is stored as a CorporateAction with a snapshot of every
+ * position and ledger row it touched, so the user can confirm it or undo it.
+ */
+
+import mongoose from 'mongoose';
+import Position from '../models/Position.js';
+import Transaction, { TRADE_TYPES } from '../models/Transaction.js';
+import CorporateAction from '../models/CorporateAction.js';
+import { getCorporateActions, fetchUsdChart } from './stockDataService.js';
+import { getCached, setCache, dedupedFetch, userCacheKey } from './cacheService.js';
+
+// Configuration
+const USER_SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000; // On-demand syncs per user at most this often
+const SCAN_INTERVAL_MS = 24 * 60 * 60 * 1000; // Background pass over every user
+
+const toDay = (date) => date.toISOString().split('T')[0];
+
+const formatShares = (shares) => Number(shares.toFixed(4)).toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+function describe(action) {
+    const { type, numerator, denominator, newSymbol, sharesBefore, sharesAfter, costAllocation } = action;
+    switch (type) {
+        case 'split':
+            return `${numerator}-for-${denominator} split: ${formatShares(sharesBefore)} → ${formatShares(sharesAfter)} shares`;
+        case 'reverseSplit':
+            return `${denominator}-for-${numerator} reverse split: ${formatShares(sharesBefore)} → ${formatShares(sharesAfter)} shares`;
+        case 'spinoff':
+            return `Spinoff of ${newSymbol}: ${formatShares(sharesAfter)} ${newSymbol} shares received, ${(costAllocation * 100).toFixed(1)}% of cost basis moved`;
+        case 'tickerChange':
+            return `Ticker changed to ${newSymbol}`;
+        default:
+            return type;
+    }
+}
+
+/**
+ * Spinoff cost share by market value on the first day both trade:
+ * new shares per parent share × their price, over that plus the parent's price.
+ * Null when either chart has no bar yet.
+ */
+async function marketValueAllocation(symbol, newSymbol, ratio, date) {
+    const [parent, child] = await Promise.all([fetchUsdChart(symbol, date), fetchUsdChart(newSymbol, date)]);
+    const day = toDay(date);
+    const firstClose = (chart) => {
+        const i = chart.dates.findIndex(d => d >= day);
+        return i >= 0 ? chart.closes[i] : null;
+    };
+
+    const parentPrice = firstClose(parent);
+    const childPrice = firstClose(child);
+    if (!parentPrice || !childPrice) return null;
+    return (childPrice * ratio) / (childPrice * ratio + parentPrice);
+}
+
+/**
+ * Put back the positions an action touched: snapshots are restored, positions it created are removed,
+ * and the position's buys and sells get their quantity, price, symbol and position back
+ */
+async function restoreSnapshots(action) {
+    for (const snapshot of action.snapshots) {
+        if (snapshot.existed) {
+            await Position.replaceOne({ _id: snapshot.position }, snapshot.data, { upsert: true });
+        } else {
+            await Position.deleteOne({ _id: snapshot.position });
+        }
+    }
+    for (const tx of action.transactions || []) {
+        await Transaction.replaceOne({ _id: tx._id }, tx, { upsert: true });
+    }
+}
+
+/**
+ * Restate buys and sells in the shares the split left their lots and sales in.
+ * The cash amount stays: a split changes the share count, not what was paid or received.
+ */
+async function restateTrades(position, transactions) {
+    for (const tx of transactions) {
+        const entry = tx.type === 'buy'
+            ? (tx.lot && position.lots.id(tx.lot))
+            : (tx.sale && position.sales.id(tx.sale));
+        if (!entry) continue;
+        tx.quantity = entry.quantity;
+        tx.price = entry.price;
+        if (tx.isModified()) await tx.save();
+    }
+}
+
+/**
+ * Apply one provider event to a position and record it. Returns the record, or null when the
+ * position held no shares going into the event or the event is already recorded for it.
+ */
+async function applyEvent(position, event) {
+    const effectiveDate = new Date(event.timestamp * 1000);
+    const sharesBefore = position.sharesHeldBefore(effectiveDate);
+    const ratio = event.numerator / event.denominator;
+    if (!(sharesBefore > 0) || !(ratio > 0)) return null;
+    if (['spinoff', 'tickerChange'].includes(event.type) && !event.newSymbol) return null;
+    if (await CorporateAction.exists({ position: position._id, type: event.type, effectiveDate })) return null;
+
+    let costAllocation = event.costAllocation;
+    if (event.type === 'spinoff' && !(costAllocation >= 0 && costAllocation <= 1)) {
+        costAllocation = await marketValueAllocation(position.symbol, event.newSymbol, ratio, effectiveDate);
+        // Retried on the next sync once the new listing has prices
+        if (costAllocation === null) return null;
+    }
+
+    const transactions = await Transaction.find({ position: position._id, type: { $in: TRADE_TYPES } });
+
+    // Recorded before anything changes: the unique index stops a concurrent sync applying it twice
+    let action;
+    try {
+        action = await CorporateAction.create({
+            user: position.user,
+            portfolio: position.portfolio,
+            position: position._id,
+            symbol: position.symbol,
+            type: event.type,
+            effectiveDate,
+            numerator: event.numerator,
+            denominator: event.denominator,
+            newSymbol: event.newSymbol,
+            costAllocation: event.type === 'spinoff' ? costAllocation : undefined,
+            sharesBefore,
+            summary: event.type,
+            snapshots: [{ position: position._id, existed: true, data: position.toObject() }],
+            transactions: transactions.map(tx => tx.toObject())
+        });
+    } catch (error) {
+        if (error.code === 11000) return null;
+        throw error;
+    }
+
+    try {
+        const toSave = [position];
+        let toDelete = null;
+        let sharesAfter = sharesBefore;
+        // Where the position's ledger rows point afterwards (ticker changes)
+        let ledgerTarget = null;
+
+        switch (event.type) {
+            case 'split':
+            case 'reverseSplit':
+                position.applySplit(ratio, effectiveDate);
+                sharesAfter = sharesBefore * ratio;
+                break;
+
+            case 'spinoff': {
+                const lots = position.spinOff(ratio, costAllocation, effectiveDate);
+                let spunOff = await Position.findOne({ user: position.user, portfolio: position.portfolio, symbol: event.newSymbol });
+                action.snapshots.push({
+                    position: spunOff ? spunOff._id : new mongoose.Types.ObjectId(),
+                    existed: Boolean(spunOff),
+                    data: spunOff ? spunOff.toObject() : null
+                });
+                if (!spunOff) {
+                    spunOff = new Position({
+                        _id: action.snapshots[action.snapshots.length - 1].position,
+                        user: position.user,
+                        portfolio: position.portfolio,
+                        symbol: event.newSymbol,
+                        name: event.newSymbol,
+                        quantity: 0,
+                        averagePrice: 0
+                    });
+                }
+                spunOff.materializeLegacyLot();
+                spunOff.lots.push(...lots);
+                toSave.push(spunOff);
+                sharesAfter = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+                break;
+            }
+
+            case 'tickerChange': {
+                // Already holding the new ticker in this portfolio: fold the lots and sales into it
+                const existing = await Position.findOne({
+                    user: position.user, portfolio: position.portfolio, symbol: event.newSymbol, _id: { $ne: position._id }
+                });
+                if (existing) {
+                    action.snapshots.push({ position: existing._id, existed: true, data: existing.toObject() });
+                    position.materializeLegacyLot();
+                    existing.materializeLegacyLot();
+                    existing.lots.push(...position.lots.map(lot => lot.toObject()));
+                    existing.sales.push(...position.sales.map(sale => sale.toObject()));
+                    toSave[0] = existing;
+                    toDelete = position;
+                    ledgerTarget = existing;
+                } else {
+                    position.symbol = event.newSymbol;
+                    ledgerTarget = position;
+                }
+                break;
+            }
+
+            default:
+                throw new Error(`Unknown corporate action: ${event.type}`);
+        }
+
+        for (const doc of toSave) await doc.save();
+        if (toDelete) await toDelete.deleteOne();
+
+        // Spinoff shares cost nothing in cash, so the ledger only follows splits and ticker changes
+        if (event.type === 'split' || event.type === 'reverseSplit') {
+            await restateTrades(position, transactions);
+        }
+        if (ledgerTarget) {
+            await Transaction.updateMany(
+                { position: position._id, type: { $in: TRADE_TYPES } },
+                { position: ledgerTarget._id, symbol: ledgerTarget.symbol }
+            );
+        }
+
+        action.sharesAfter = sharesAfter;
+        action.summary = describe(action);
+        action.appliedAt = new Date();
+        await action.save();
+        console.log(`🏢 [CORP ACTION] ${action.symbol} (${position.user}): ${action.summary}`);
+        return action;
+    } catch (error) {
+        await restoreSnapshots(action);
+        await CorporateAction.deleteOne({ _id: action._id });
+        throw error;
+    }
+}
+
+/**
+ * Fetch and apply new corporate actions for a user's positions.
+ * Throttled per user unless forced; returns the newly applied records.
+ */
+export async function syncCorporateActions(userId, { force = false } = {}) {
+    const throttleKey = userCacheKey(userId, 'corporate_actions_synced');
+    if (!force && await getCached(throttleKey)) return [];
+
+    return dedupedFetch(`corporate_actions_sync_${userId}`, async () => {
+        const applied = [];
+        try {
+            const positions = await Position.find({ user: userId });
+
+            for (const position of positions) {
+                const dates = (position.lots || []).map(lot => new Date(lot.date).getTime());
+                const since = new Date(dates.length > 0 ? Math.min(...dates) : new Date(position.createdAt).getTime());
+
+                let events;
+                try {
+                    events = await getCorporateActions(position.symbol, since);
+                } catch (error) {
+                    console.warn(`⚠️ [CORP ACTION] Lookup failed for ${position.symbol}: ${error.message}`);
+                    continue;
+                }
+
+                for (const event of events) {
+                    if (event.timestamp * 1000 > Date.now()) continue;
+                    let action;
+                    try {
+                        action = await applyEvent(position, event);
+                    } catch (error) {
+                        // The position was restored but this copy is half-adjusted: retry it next sync
+                        console.error(`❌ [CORP ACTION] ${event.type} for ${position.symbol} (${userId}) failed:`, error.message);
+                        break;
+                    }
+                    if (!action) continue;
+                    applied.push(action);
+                    // Renamed or merged away: later events belong to the new ticker's next sync
+                    if (event.type === 'tickerChange') break;
+                }
+            }
+        } finally {
+            // Throttled even after a failure, so a broken provider or event isn't retried on every request
+            await setCache(throttleKey, true, USER_SYNC_INTERVAL_MS);
+        }
+        return applied;
+    });
+}
+
+/**
+ * Roll an applied action back. Refused when a touched position changed afterwards
+ * (a later sale, edit or corporate action), since restoring would discard that change.
+ */
+export async function undoCorporateAction(action) {
+    if (action.status === 'undone') throw new Error('This adjustment was already undone');
+
+    for (const snapshot of action.snapshots) {
+        const current = await Position.findById(snapshot.position, 'symbol updatedAt').lean();
+        if (current && current.updatedAt > action.appliedAt) {
+            throw new Error(`${current.symbol} changed after this adjustment; undo the later changes first`);
+        }
+    }
+
+    await restoreSnapshots(action);
+    action.status = 'undone';
+    action.undoneAt = new Date();
+    await action.save();
+    return action;
+}
+
+async function scanAllUsers() {
+    let userIds;
+    try {
+        userIds = await Position.distinct('user');
+    } catch (error) {
+        console.error('❌ [CORP ACTION] Scan failed:', error.message);
+        return;
+    }
+
+    // One user's failure doesn't hold up the rest
+    for (const userId of userIds) {
+        try {
+            const applied = await syncCorporateActions(userId, { force: true });
+            if (applied.length > 0) console.log(`🏢 [CORP ACTION] Applied ${applied.length} adjustment(s) for user ${userId}`);
+        } catch (error) {
+            console.error(`❌ [CORP ACTION] Scan failed for user ${userId}:`, error.message);
+        }
+    }
+}
+
+/**
+ * Daily background pass; users also sync on demand when they open their adjustments
+ */
+export function startCorporateActionsService() {
+    console.log(`🏢 Corporate actions scan every ${SCAN_INTERVAL_MS / (60 * 60 * 1000)}h`);
+
+    // First pass once the server has settled
+    setTimeout(scanAllUsers, 60 * 1000);
+    setInterval(scanAllUsers, SCAN_INTERVAL_MS);
+}
@@ -0,0 +1,234 @@
+/**
+ * Dividend Income Service
+ * Replays each holding against its dividend history:
+ * - Received: every ex-date since the first lot, paid on the shares held that day
+ *   (buys before the ex-date collect it, sales before it forfeit it)
+ * - Forecast: the last 12 months' payment schedule rolled forward a year at the latest amount
+ * - DRIP: in portfolios that reinvest, each payment buys shares at that day's close, which
+ *   then earn later payments. Reinvested shares are modelled here, not written as lots.
+ * Amounts are USD, converted at the ex-date FX rate.
+ */
+
+import { fetchUsdChart, fetchDividendInfo, positionEvents } from './stockDataService.js';
+import { cachedFetch } from './cacheService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+const CALENDAR_MONTHS_BACK = 12; // Received income shown before the current month
+const CALENDAR_MONTHS_AHEAD = 12; // Forecast shown after it
+
+const toDay = (date) => date.toISOString().split('T')[0];
+
+/**
+ * Close on or before a day, null before the first bar
+ */
+function closeOn(chart, day) {
+    let lo = 0;
+    let hi = chart.dates.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (chart.dates[mid] <= day) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found >= 0 ? chart.closes[found] : null;
+}
+
+/**
+ * Announced next ex-date / payment date, cached: it changes once a quarter at most
+ */
+function getDividendInfo(symbol) {
+    return cachedFetch(`dividend_info_${symbol}`, 6 * 60 * 60 * 1000, () => fetchDividendInfo(symbol));
+}
+
+/**
+ * Payments received and forecast for one position
+ *
+ * @param {Object} pos - Position with lots and sales
+ * @param {Object} chart - USD daily closes and dividends (fetchUsdChart) covering the position's life
+ * @param {Object|null} info - Announced dividend ({ exDate, paymentDate }), used to place the next payment
+ * @param {boolean} reinvest - Whether the position's portfolio reinvests dividends
+ */
+function replayPosition(pos, chart, info, reinvest, now) {
+    const events = positionEvents(pos);
+    const payments = [];
+    let lotShares = 0;
+    let reinvestedShares = 0;
+    let index = 0;
+
+    const applyEventsBefore = (day) => {
+        while (index < events.length && toDay(events[index].date) < day) {
+            const { shares } = events[index++];
+            // A sale takes the same fraction of the reinvested shares as of the bought ones
+            if (shares < 0 && lotShares > 0) reinvestedShares *= Math.max(0, (lotShares + shares) / lotShares);
+            lotShares = Math.max(0, lotShares + shares);
+        }
+    };
+
+    for (const dividend of chart.dividends) {
+        const exDate = new Date(dividend.timestamp * 1000);
+        if (exDate > now) break;
+        applyEventsBefore(toDay(exDate));
+
+        const shares = lotShares + reinvestedShares;
+        if (shares <= 0) continue;
+
+        const income = shares * dividend.amount;
+        const price = reinvest ? closeOn(chart, toDay(exDate)) : null;
+        const bought = price ? income / price : 0;
+        reinvestedShares += bought;
+        payments.push({ symbol: pos.symbol, exDate, amount: dividend.amount, shares, income, reinvestedShares: bought, projected: false });
+    }
+    applyEventsBefore('9999-12-31');
+
+    // Forecast: last year's ex-dates a year on, the announced one replacing its nearest match
+    const yearAgo = new Date(now.getTime() - YEAR_MS);
+    const trailing = chart.dividends.filter(d => d.timestamp * 1000 > yearAgo.getTime() && d.timestamp * 1000 <= now.getTime());
+    const latestAmount = trailing.length > 0 ? trailing[trailing.length - 1].amount : 0;
+    const price = chart.closes.length > 0 ? chart.closes[chart.closes.length - 1] : null;
+
+    const projectedDates = trailing.map(d => new Date(d.timestamp * 1000 + YEAR_MS));
+    const announced = info?.exDate ? new Date(info.exDate) : null;
+    if (announced && announced > now && projectedDates.length > 0) {
+        const distance = (date) => Math.abs(date - announced);
+        const nearest = projectedDates.reduce((best, date, i) => (distance(date) < distance(projectedDates[best]) ? i : best), 0);
+        projectedDates[nearest] = announced;
+    }
+
+    let shares = lotShares + reinvestedShares;
+    for (const exDate of projectedDates.sort((a, b) => a - b)) {
+        if (shares <= 0) break;
+        const income = shares * latestAmount;
+        const bought = reinvest && price ? income / price : 0;
+        payments.push({ symbol: pos.symbol, exDate, amount: latestAmount, shares, income, reinvestedShares: bought, projected: true });
+        shares += bought;
+    }
+
+    return {
+        symbol: pos.symbol,
+        reinvest,
+        shares: lotShares + reinvestedShares,
+        reinvestedShares,
+        costBasis: events.reduce((sum, e) => sum + e.cost, 0),
+        price,
+        frequency: trailing.length,
+        annualDividend: latestAmount * trailing.length,
+        nextExDate: payments.find(p => p.projected)?.exDate || null,
+        nextPaymentDate: announced && announced > now && info.paymentDate ? new Date(info.paymentDate) : null,
+        payments
+    };
+}
+
+/**
+ * Dividend history, 12-month forecast and monthly income calendar for a set of positions.
+ * Positions of the same symbol (several portfolios) are replayed separately, each with
+ * its own portfolio's DRIP setting, then summed per symbol.
+ *
+ * @param {Array} positions - Position objects with lots, sales and portfolio
+ * @param {Set<string>} reinvestingPortfolios - Ids of portfolios with dividendReinvestment on
+ */
+export async function getDividendIncome(positions, reinvestingPortfolios = new Set()) {
+    const now = new Date();
+    const held = positions.filter(pos => positionEvents(pos).length > 0);
+    const symbols = [...new Set(held.map(pos => pos.symbol))];
+
+    // One chart per symbol from the earliest lot (at least a year back for the forecast schedule).
+    // Floored to midnight so repeated requests hit the chart cache.
+    const earliest = Math.min(now.getTime() - YEAR_MS, ...held.map(pos => positionEvents(pos)[0].date.getTime()));
+    const fetchFrom = new Date(Math.floor((earliest - 7 * DAY_MS) / DAY_MS) * DAY_MS);
+
+    const [charts, infos] = await Promise.all([
+        Promise.all(symbols.map(symbol => fetchUsdChart(symbol, fetchFrom))),
+        Promise.all(symbols.map(symbol => getDividendInfo(symbol).catch(() => null)))
+    ]);
+    const chartBySymbol = new Map(symbols.map((symbol, i) => [symbol, { ...charts[i], dividends: charts[i].dividends || [] }]));
+    const infoBySymbol = new Map(symbols.map((symbol, i) => [symbol, infos[i]]));
+
+    const replays = held.map(pos => replayPosition(
+        pos,
+        chartBySymbol.get(pos.symbol),
+        infoBySymbol.get(pos.symbol),
+        reinvestingPortfolios.has(String(pos.portfolio)),
+        now
+    ));
+
+    const yearAgo = new Date(now.getTime() - YEAR_MS);
+    const payments = replays.flatMap(r => r.payments).sort((a, b) => a.exDate - b.exDate);
+    const sumIncome = (list) => list.reduce((sum, p) => sum + p.income, 0);
+
+    // --- Per symbol ---
+    const bySymbol = new Map();
+    for (const r of replays) {
+        const own = r.payments;
+        const received = own.filter(p => !p.projected);
+        const existing = bySymbol.get(r.symbol);
+        const row = existing || {
+            symbol: r.symbol,
+            reinvest: false,
+            shares: 0,
+            reinvestedShares: 0,
+            costBasis: 0,
+            price: r.price,
+            frequency: r.frequency,
+            annualDividend: r.annualDividend,
+            nextExDate: r.nextExDate,
+            nextPaymentDate: r.nextPaymentDate,
+            totalReceived: 0,
+            trailingIncome: 0,
+            projectedIncome: 0
+        };
+        row.reinvest = row.reinvest || r.reinvest;
+        row.shares += r.shares;
+        row.reinvestedShares += r.reinvestedShares;
+        row.costBasis += r.costBasis;
+        row.totalReceived += sumIncome(received);
+        row.trailingIncome += sumIncome(received.filter(p => p.exDate > yearAgo));
+        row.projectedIncome += sumIncome(own.filter(p => p.projected));
+        bySymbol.set(r.symbol, row);
+    }
+
+    const holdings = [...bySymbol.values()]
+        .filter(row => row.totalReceived > 0 || row.projectedIncome > 0)
+        .map(row => ({
+            ...row,
+            // Forward yields: the next 12 months' income over today's value / the open cost
+            currentYield: row.price && row.shares > 0 ? (row.annualDividend / row.price) * 100 : 0,
+            yieldOnCost: row.costBasis > 0 ? (row.projectedIncome / row.costBasis) * 100 : 0
+        }))
+        .sort((a, b) => b.projectedIncome - a.projectedIncome || b.totalReceived - a.totalReceived);
+
+    // --- Monthly calendar: received before, forecast from the current month on ---
+    const monthKey = (date) => toDay(date).slice(0, 7);
+    const calendar = [];
+    for (let offset = -CALENDAR_MONTHS_BACK; offset < CALENDAR_MONTHS_AHEAD; offset++) {
+        const month = monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)));
+        const inMonth = payments.filter(p => monthKey(p.exDate) === month);
+        calendar.push({
+            month,
+            received: sumIncome(inMonth.filter(p => !p.projected)),
+            projected: sumIncome(inMonth.filter(p => p.projected))
+        });
+    }
+
+    const projectedIncome = sumIncome(payments.filter(p => p.projected));
+    const costBasis = holdings.reduce((sum, row) => sum + Math.max(0, row.costBasis), 0);
+    const marketValue = holdings.reduce((sum, row) => sum + row.shares * (row.price || 0), 0);
+
+    return {
+        holdings,
+        payments,
+        calendar,
+        totals: {
+            totalReceived: sumIncome(payments.filter(p => !p.projected)),
+            trailingIncome: sumIncome(payments.filter(p => !p.projected && p.exDate > yearAgo)),
+            projectedIncome,
+            currentYield: marketValue > 0 ? (projectedIncome / marketValue) * 100 : 0,
+            yieldOnCost: costBasis > 0 ? (projectedIncome / costBasis) * 100 : 0
+        },
+        lastUpdated: now.toISOString()
+    };
+}
@@ -0,0 +1,240 @@
+// ============================================
+// EXCHANGE METADATA
+// ============================================
+// Trading hours are exchange-local wall clock times. Holiday lists follow the
+// exchanges' published calendars and need extending once a year.
+
+export const EXCHANGES = {
+    US: {
+        code: 'US',
+        name: 'NYSE / Nasdaq',
+        suffixes: [],
+        timezone: 'America/New_York',
+        currency: 'USD',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { preMarket: '04:00', open: '09:30', close: '16:00', postMarket: '20:00' },
+        earlyCloses: {
+            '2026-11-27': '13:00', '2026-12-24': '13:00',
+            '2027-11-26': '13:00'
+        },
+        holidays: [
+            '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25',
+            '2026-06-19', '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+            '2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31',
+            '2027-06-18', '2027-07-05', '2027-09-06', '2027-11-25', '2027-12-24'
+        ],
+        // Finnhub's trade stream only carries US listings
+        streaming: true
+    },
+    TASE: {
+        code: 'TASE',
+        name: 'Tel Aviv Stock Exchange',
+        suffixes: ['.TA'],
+        timezone: 'Asia/Jerusalem',
+        currency: 'ILS',
+        // Yahoo quotes TASE in agorot (ILA)
+        minorUnits: 100,
+        // Monday–Friday since January 2026, short session on Fridays
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '09:59', close: '17:25' },
+        weekdayCloses: { 5: '13:50' },
+        earlyCloses: {},
+        holidays: [
+            '2026-03-03', '2026-04-01', '2026-04-02', '2026-04-07', '2026-04-08',
+            '2026-04-22', '2026-05-22', '2026-07-23', '2026-09-11', '2026-09-21',
+            '2026-09-25', '2026-10-02',
+            '2027-03-23', '2027-04-21', '2027-04-22', '2027-04-27', '2027-04-28',
+            '2027-05-12', '2027-06-11', '2027-08-12', '2027-10-01', '2027-10-11',
+            '2027-10-15', '2027-10-22'
+        ],
+        streaming: false
+    },
+    LSE: {
+        code: 'LSE',
+        name: 'London Stock Exchange',
+        suffixes: ['.L'],
+        timezone: 'Europe/London',
+        currency: 'GBP',
+        // Yahoo quotes LSE in pence (GBp)
+        minorUnits: 100,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '08:00', close: '16:30' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    XETRA: {
+        code: 'XETRA',
+        name: 'Xetra',
+        suffixes: ['.DE'],
+        timezone: 'Europe/Berlin',
+        currency: 'EUR',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '09:00', close: '17:30' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    EURONEXT: {
+        code: 'EURONEXT',
+        name: 'Euronext',
+        suffixes: ['.PA', '.AS', '.BR', '.LS'],
+        timezone: 'Europe/Paris',
+        currency: 'EUR',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '09:00', close: '17:30' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    MIL: {
+        code: 'MIL',
+        name: 'Borsa Italiana',
+        suffixes: ['.MI'],
+        timezone: 'Europe/Rome',
+        currency: 'EUR',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '09:00', close: '17:30' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    SIX: {
+        code: 'SIX',
+        name: 'SIX Swiss Exchange',
+        suffixes: ['.SW'],
+        timezone: 'Europe/Zurich',
+        currency: 'CHF',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '09:00', close: '17:30' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    TSX: {
+        code: 'TSX',
+        name: 'Toronto Stock Exchange',
+        suffixes: ['.TO'],
+        timezone: 'America/Toronto',
+        currency: 'CAD',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '09:30', close: '16:00' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    TSE: {
+        code: 'TSE',
+        name: 'Tokyo Stock Exchange',
+        suffixes: ['.T'],
+        timezone: 'Asia/Tokyo',
+        currency: 'JPY',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        // The 11:30–12:30 lunch break is reported as regular hours
+        hours: { open: '09:00', close: '15:30' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    },
+    ASX: {
+        code: 'ASX',
+        name: 'Australian Securities Exchange',
+        suffixes: ['.AX'],
+        timezone: 'Australia/Sydney',
+        currency: 'AUD',
+        minorUnits: 1,
+        tradingDays: [1, 2, 3, 4, 5],
+        hours: { open: '10:00', close: '16:00' },
+        earlyCloses: {},
+        holidays: [],
+        streaming: false
+    }
+};
+
+const EXCHANGE_BY_SUFFIX = new Map(
+    Object.values(EXCHANGES).flatMap(exchange => exchange.suffixes.map(suffix => [suffix, exchange]))
+);
+
+/**
+ * Exchange a symbol is listed on, from its Yahoo suffix. Unsuffixed symbols
+ * (and class shares like BRK.B) are US listings.
+ */
+export function exchangeForSymbol(symbol) {
+    const dot = symbol.lastIndexOf('.');
+    if (dot > 0) {
+        const exchange = EXCHANGE_BY_SUFFIX.get(symbol.slice(dot).toUpperCase());
+        if (exchange) return exchange;
+    }
+    return EXCHANGES.US;
+}
+
+/**
+ * Currency a symbol trades in, and how many quoted units make one of that currency
+ */
+export function listingCurrency(symbol) {
+    const { currency, minorUnits } = exchangeForSymbol(symbol);
+    return { currency, minorUnits };
+}
+
+// Yahoo currency codes for listings quoted in minor units: agorot, pence
+const MINOR_UNIT_CODES = { ILA: 'ILS', GBp: 'GBP', GBX: 'GBP' };
+
+/**
+ * Currency and minor-unit divisor for a price as quoted by a provider.
+ * Trusts the quote's own currency code over the suffix table; falls back to
+ * the symbol's listing when the provider didn't report one.
+ */
+export function quotedCurrency(code, symbol) {
+    if (!code) return listingCurrency(symbol);
+    if (MINOR_UNIT_CODES[code]) return { currency: MINOR_UNIT_CODES[code], minorUnits: 100 };
+    return { currency: code.toUpperCase(), minorUnits: 1 };
+}
+
+const toMinutes = (hhmm) => {
+    const [h, m] = hhmm.split(':').map(Number);
+    return h * 60 + m;
+};
+
+const WEEKDAYS = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Wall clock in the exchange's timezone: { date: 'YYYY-MM-DD', weekday: 0-6, minutes }
+ */
+function localClock(timezone, now) {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+    }).formatToParts(now).map(p => [p.type, p.value]));
+
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: WEEKDAYS[parts.weekday],
+        minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+}
+
+/**
+ * Session an exchange is in right now: 'regular' | 'pre-market' | 'after-hours' | 'closed'.
+ * Exchanges without extended hours are only ever regular or closed.
+ */
+export function getMarketStatus(exchange, now = new Date()) {
+    const { date, weekday, minutes } = localClock(exchange.timezone, now);
+
+    if (!exchange.tradingDays.includes(weekday) || exchange.holidays.includes(date)) return 'closed';
+
+    const { hours } = exchange;
+    const close = toMinutes(exchange.earlyCloses[date] || exchange.weekdayCloses?.[weekday] || hours.close);
+
+    if (minutes >= toMinutes(hours.open) && minutes < close) return 'regular';
+    if (hours.preMarket && minutes >= toMinutes(hours.preMarket) && minutes < toMinutes(hours.open)) return 'pre-market';
+    if (hours.postMarket && minutes >= close && minutes < toMinutes(hours.postMarket)) return 'after-hours';
+    return 'closed';
+}
@@ -0,0 +1,364 @@
+/**
+ * Health Score Service
+ * Scores a portfolio 0-100 from weighted factors, each starting at 100 and losing points
+ * for every breach of the user's targets. Every deduction carries its reason, so the
+ * breakdown explains the score. Factors without data are left out and the remaining
+ * weights rescaled, rather than filled with assumed values.
+ *
+ * The analytics service caches the raw inputs (getPortfolioHealthAndBenchmark → healthInputs);
+ * scoring runs per request, so a settings change applies without refetching market data.
+ * A daily pass records each portfolio's score for the history chart.
+ */
+
+import Position from '../models/Position.js';
+import Portfolio from '../models/Portfolio.js';
+import User, { HEALTH_FACTORS, HEALTH_TARGET_RANGES } from '../models/User.js';
+import HealthScoreSnapshot from '../models/HealthScoreSnapshot.js';
+import { getPortfolioHealthAndBenchmark } from './stockDataService.js';
+
+// Configuration
+const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY_DAYS = 730;
+
+export const DEFAULT_HEALTH_SETTINGS = {
+    weights: { diversification: 25, concentration: 20, volatility: 20, drawdown: 15, liquidity: 10, sentiment: 10 },
+    targets: { maxSectorPct: 30, maxPositionPct: 20, maxBeta: 1.0, maxDrawdownPct: 20, minDollarVolumeM: 10 }
+};
+
+const FACTOR_LABELS = {
+    diversification: 'Diversification',
+    concentration: 'Concentration',
+    volatility: 'Volatility',
+    drawdown: 'Drawdown',
+    liquidity: 'Liquidity',
+    sentiment: 'Sentiment'
+};
+
+const toDay = (date) => date.toISOString().split('T')[0];
+const pct = (value) => `${value.toFixed(1)}%`;
+const round = (value, digits = 1) => Number(value.toFixed(digits));
+
+/**
+ * Saved settings (possibly partial or unset) over the defaults
+ */
+export function resolveHealthSettings(saved) {
+    const pick = (defaults, values = {}) => Object.fromEntries(
+        Object.entries(defaults).map(([key, fallback]) => [key, Number.isFinite(values?.[key]) ? values[key] : fallback])
+    );
+    return {
+        weights: pick(DEFAULT_HEALTH_SETTINGS.weights, saved?.weights),
+        targets: pick(DEFAULT_HEALTH_SETTINGS.targets, saved?.targets)
+    };
+}
+
+/**
+ * Validate a health score settings update; returns an error message or null
+ */
+export function validateHealthSettings(settings) {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+        return 'healthScoreSettings must be an object';
+    }
+    for (const [factor, weight] of Object.entries(settings.weights || {})) {
+        if (!HEALTH_FACTORS.includes(factor)) return `Unknown health factor: ${factor}`;
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 100) {
+            return `weights.${factor} must be between 0 and 100`;
+        }
+    }
+    for (const [target, value] of Object.entries(settings.targets || {})) {
+        const range = HEALTH_TARGET_RANGES[target];
+        if (!range) return `Unknown health target: ${target}`;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < range[0] || value > range[1]) {
+            return `targets.${target} must be between ${range[0]} and ${range[1]}`;
+        }
+    }
+    const { weights } = resolveHealthSettings(settings);
+    if (!Object.values(weights).some(weight => weight > 0)) {
+        return 'At least one health factor needs a weight above 0';
+    }
+    return null;
+}
+
+// ============================================
+// FACTORS
+// Each returns { value, target, unit, deductions: [{ points, reason }], notes } or null without data
+// ============================================
+
+// Share of the portfolio (0-100) per key, over the holdings that have one
+function sharesBy(holdings, keyOf) {
+    const total = holdings.reduce((sum, h) => sum + h.value, 0);
+    const byKey = new Map();
+    for (const h of holdings) byKey.set(keyOf(h), (byKey.get(keyOf(h)) || 0) + h.value);
+    return [...byKey.entries()]
+        .map(([key, value]) => ({ key, pct: total > 0 ? (value / total) * 100 : 0 }))
+        .sort((a, b) => b.pct - a.pct);
+}
+
+// Share of the portfolio held in holdings missing a data point, as a note
+function coverageNote(holdings, covered, what) {
+    const total = holdings.reduce((sum, h) => sum + h.value, 0);
+    const missing = holdings.filter(h => !covered.includes(h));
+    if (missing.length === 0 || total <= 0) return [];
+    const missingPct = (missing.reduce((sum, h) => sum + h.value, 0) / total) * 100;
+    return [`No ${what} for ${missing.map(h => h.symbol).join(', ')} (${pct(missingPct)} of the portfolio), left out`];
+}
+
+const FACTORS = {
+    diversification(holdings, targets) {
+        const covered = holdings.filter(h => h.sector);
+        if (covered.length === 0) return null;
+
+        const sectors = sharesBy(covered, h => h.sector);
+        const limit = targets.maxSectorPct;
+        const deductions = sectors
+            .filter(s => s.pct > limit)
+            .map(s => ({
+                points: (s.pct - limit) * 2.5,
+                reason: `${s.key} is ${pct(s.pct)} of the portfolio, over the ${pct(limit)} sector limit`
+            }));
+
+        return {
+            value: round(sectors[0].pct),
+            target: limit,
+            unit: '%',
+            deductions,
+            notes: coverageNote(holdings, covered, 'sector')
+        };
+    },
+
+    concentration(holdings, targets) {
+        if (holdings.length === 0) return null;
+
+        const positions = sharesBy(holdings, h => h.symbol);
+        const limit = targets.maxPositionPct;
+        const deductions = positions
+            .filter(p => p.pct > limit)
+            .map(p => ({
+                points: (p.pct - limit) * 2,
+                reason: `${p.key} is ${pct(p.pct)} of the portfolio, over the ${pct(limit)} single-stock limit`
+            }));
+
+        return { value: round(positions[0].pct), target: limit, unit: '%', deductions, notes: [] };
+    },
+
+    volatility(holdings, targets) {
+        const covered = holdings.filter(h => h.beta !== null);
+        const total = covered.reduce((sum, h) => sum + h.value, 0);
+        if (covered.length === 0 || total <= 0) return null;
+
+        const beta = covered.reduce((sum, h) => sum + h.beta * h.value, 0) / total;
+        const limit = targets.maxBeta;
+        const deductions = beta > limit
+            ? [{ points: (beta - limit) * 50, reason: `Weighted beta ${beta.toFixed(2)} is above the ${limit.toFixed(2)} limit` }]
+            : [];
+
+        return { value: round(beta, 2), target: limit, unit: 'β', deductions, notes: coverageNote(holdings, covered, 'beta') };
+    },
+
+    drawdown(holdings, targets, inputs) {
+        if (inputs.maxDrawdownPct === null || inputs.maxDrawdownPct === undefined) return null;
+
+        const drawdown = inputs.maxDrawdownPct;
+        const limit = targets.maxDrawdownPct;
+        const deductions = drawdown > limit
+            ? [{ points: (drawdown - limit) * 2.5, reason: `Current holdings fell ${pct(drawdown)} from a peak in the last year, beyond the ${pct(limit)} limit` }]
+            : [];
+
+        return { value: round(drawdown), target: limit, unit: '%', deductions, notes: [] };
+    },
+
+    liquidity(holdings, targets) {
+        const covered = holdings.filter(h => h.dollarVolume !== null);
+        if (covered.length === 0) return null;
+
+        const total = holdings.reduce((sum, h) => sum + h.value, 0);
+        const minimum = targets.minDollarVolumeM * 1e6;
+        const thin = covered.filter(h => h.dollarVolume < minimum);
+        // One point per percent of the portfolio held in thinly traded names
+        const deductions = thin.map(h => {
+            const share = total > 0 ? (h.value / total) * 100 : 0;
+            return {
+                points: share,
+                reason: `${h.symbol} trades about $${(h.dollarVolume / 1e6).toFixed(1)}M a day, under the $${targets.minDollarVolumeM}M minimum (${pct(share)} of the portfolio)`
+            };
+        });
+        const lowest = Math.min(...covered.map(h => h.dollarVolume));
+
+        return {
+            value: round(lowest / 1e6),
+            target: targets.minDollarVolumeM,
+            unit: '$M/day',
+            deductions,
+            notes: coverageNote(holdings, covered, 'trading volume')
+        };
+    },
+
+    sentiment(holdings) {
+        // Funds have no analyst coverage of their own
+        const covered = holdings.filter(h => !h.isETF && h.buyRatio !== null);
+        if (covered.length === 0) return null;
+
+        const buyRatio = covered.reduce((sum, h) => sum + h.buyRatio, 0) / covered.length;
+        const weakest = covered.filter(h => h.buyRatio < 0.5).map(h => h.symbol);
+        const deductions = buyRatio < 1
+            ? [{
+                points: (1 - buyRatio) * 100,
+                reason: `${pct(buyRatio * 100)} of analyst ratings are buy across ${covered.length} covered holding(s)` +
+                    (weakest.length > 0 ? `; mostly hold/sell on ${weakest.join(', ')}` : '')
+            }]
+            : [];
+
+        return { value: round(buyRatio * 100), target: null, unit: '% buy', deductions, notes: [] };
+    }
+};
+
+/**
+ * Score raw health inputs with the user's settings.
+ *
+ * @param {Object} inputs - { holdings: [{ symbol, value, sector, beta, dollarVolume, buyRatio, isETF }], maxDrawdownPct }
+ * @param {Object} settings - Resolved settings (resolveHealthSettings)
+ * @returns {{ healthScore: number|null, components: Object, healthFactors: Array, portfolioBeta: number|null, maxSectorPct: number|null }}
+ */
+export function scoreHealth(inputs, settings) {
+    const holdings = (inputs?.holdings || []).filter(h => h.value > 0);
+    const { weights, targets } = settings;
+
+    const factors = HEALTH_FACTORS.map(key => {
+        const result = FACTORS[key](holdings, targets, inputs || {});
+        if (!result) {
+            return { key, label: FACTOR_LABELS[key], weight: weights[key], share: 0, score: null, missing: true, deductions: [], notes: ['Not enough data'] };
+        }
+        const deductions = result.deductions
+            .map(d => ({ ...d, points: round(Math.min(100, d.points)) }))
+            .filter(d => d.points > 0)
+            .sort((a, b) => b.points - a.points);
+        const lost = deductions.reduce((sum, d) => sum + d.points, 0);
+        return {
+            key,
+            label: FACTOR_LABELS[key],
+            weight: weights[key],
+            share: 0,
+            score: Math.round(Math.max(0, 100 - lost)),
+            missing: false,
+            value: result.value,
+            target: result.target,
+            unit: result.unit,
+            deductions,
+            notes: result.notes
+        };
+    });
+
+    // Weights rescaled over the factors that have data
+    const scored = factors.filter(f => !f.missing && f.weight > 0);
+    const totalWeight = scored.reduce((sum, f) => sum + f.weight, 0);
+    for (const f of scored) f.share = round((f.weight / totalWeight) * 100);
+
+    const healthScore = totalWeight > 0
+        ? Math.round(scored.reduce((sum, f) => sum + f.score * f.weight, 0) / totalWeight)
+        : null;
+
+    const byKey = Object.fromEntries(factors.map(f => [f.key, f]));
+    return {
+        healthScore,
+        components: Object.fromEntries(factors.map(f => [f.key, f.score])),
+        healthFactors: factors,
+        portfolioBeta: byKey.volatility.missing ? null : byKey.volatility.value,
+        maxSectorPct: byKey.diversification.missing ? null : byKey.diversification.value
+    };
+}
+
+/**
+ * Analytics with the health score applied. Results without inputs (the service's
+ * error fallback) are returned as they are.
+ */
+export function withHealthScore(analytics, savedSettings) {
+    if (!analytics?.healthInputs) return analytics;
+    const { healthInputs, ...rest } = analytics;
+    const settings = resolveHealthSettings(savedSettings);
+    return { ...rest, ...scoreHealth(healthInputs, settings), healthSettings: settings };
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+/**
+ * Store today's score for a portfolio (null = all portfolios); later calls the same day overwrite it
+ */
+export async function recordHealthScore(userId, portfolioId, analytics) {
+    if (analytics?.healthScore === null || analytics?.healthScore === undefined || analytics.error) return;
+
+    await HealthScoreSnapshot.updateOne(
+        { user: userId, portfolio: portfolioId || null, date: toDay(new Date()) },
+        { $set: { score: analytics.healthScore, components: analytics.components, updatedAt: new Date() } },
+        { upsert: true }
+    );
+}
+
+/**
+ * Daily scores for a portfolio (null = all portfolios), oldest first
+ */
+export async function getHealthHistory(userId, portfolioId, days = 365) {
+    const span = Math.min(MAX_HISTORY_DAYS, Math.max(1, days));
+    const since = toDay(new Date(Date.now() - span * 24 * 60 * 60 * 1000));
+    const snapshots = await HealthScoreSnapshot.find({ user: userId, portfolio: portfolioId || null, date: { $gte: since } })
+        .sort({ date: 1 })
+        .lean();
+    return snapshots.map(s => ({ date: s.date, score: s.score, components: s.components || {} }));
+}
+
+/**
+ * Today's score for each of a user's portfolios and for all of them together
+ */
+async function snapshotUser(userId) {
+    // Moves positions from before portfolios existed into the default one
+    await Portfolio.ensureDefault(userId);
+
+    const [user, positions] = await Promise.all([
+        User.findById(userId, 'healthScoreSettings').lean(),
+        Position.find({ user: userId }).lean()
+    ]);
+    if (!user || positions.length === 0) return;
+
+    // Each portfolio, then the aggregated view; positions still without one only count in the latter
+    const portfolioIds = [...new Set(positions.filter(p => p.portfolio).map(p => String(p.portfolio)))];
+    const scopes = [...portfolioIds.map(id => [id, positions.filter(p => String(p.portfolio) === id)]), [null, positions]];
+
+    for (const [portfolioId, scoped] of scopes) {
+        try {
+            const analytics = withHealthScore(await getPortfolioHealthAndBenchmark(scoped), user.healthScoreSettings);
+            await recordHealthScore(userId, portfolioId, analytics);
+        } catch (error) {
+            console.error(`❌ [HEALTH] Snapshot failed for user ${userId} (${portfolioId || 'all portfolios'}):`, error.message);
+        }
+    }
+}
+
+async function snapshotAllUsers() {
+    let userIds;
+    try {
+        userIds = await Position.distinct('user');
+    } catch (error) {
+        console.error('❌ [HEALTH] Daily snapshot failed:', error.message);
+        return;
+    }
+
+    // One user's failure doesn't hold up the rest
+    for (const userId of userIds) {
+        try {
+            await snapshotUser(userId);
+        } catch (error) {
+            console.error(`❌ [HEALTH] Snapshot failed for user ${userId}:`, error.message);
+        }
+    }
+}
+
+/**
+ * Daily health score snapshots; opening the insights view also records the day's score
+ */
+export function startHealthHistoryService() {
+    console.log(`🩺 Health score snapshot every ${SNAPSHOT_INTERVAL_MS / (60 * 60 * 1000)}h`);
+
+    // First pass once the server has settled
+    setTimeout(snapshotAllUsers, 5 * 60 * 1000);
+    setInterval(snapshotAllUsers, SNAPSHOT_INTERVAL_MS);
+}
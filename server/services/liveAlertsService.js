@@ -1,20 +1,22 @@
 /**
  * Live Alerts Service
- * Generates real-time alerts for portfolio price movements (>2%) and news events
+ * Evaluates each user's alert rules (price levels, daily moves, cost basis,
+ * volume spikes, 52-week range) and generates news / earnings alerts
  */
 
+import mongoose from 'mongoose';
 import Position from '../models/Position.js';
-import { getQuote as fetchQuoteFromService, getBasicFinancials, getEarningsCalendar } from './stockDataService.js';
+import Watchlist from '../models/Watchlist.js';
+import AlertRule from '../models/AlertRule.js';
+import Alert from '../models/Alert.js';
+import { getQuote as fetchQuoteFromService, getBatchExtendedQuotes, getBasicFinancials, getEarningsCalendar } from './stockDataService.js';
 
 // Configuration
-const PRICE_THRESHOLD_PERCENT = 2.0; // Alert when price moves more than 2%
-const MAX_ALERTS_PER_USER = 5; // Keep only the 5 most recent alerts
-const ALERT_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes between same ticker alerts
+const RECENT_ALERTS_LIMIT = 10; // Alerts sent to the panel on connect (full history via /api/alerts)
+const ALERT_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes between same ticker news/earnings alerts
 
-// In-memory storage
-const userAlerts = new Map(); // userId -> array of alerts
+// In-memory cooldown tracking (alerts themselves are stored in MongoDB)
 const lastAlertTime = new Map(); // `${userId}-${ticker}` -> timestamp
-let alertIdCounter = 0;
 
 // Company name mapping (common tickers)
 const companyNames = {
@@ -50,36 +52,14 @@ function getCompanyName(ticker) {
     return companyNames[ticker.toUpperCase()] || ticker;
 }
 
-/**
- * Format relative time
- */
-function formatRelativeTime(date) {
-    const now = Date.now();
-    const diff = now - new Date(date).getTime();
-    const minutes = Math.floor(diff / 60000);
-    const hours = Math.floor(minutes / 60);
-
-    if (minutes < 1) return 'just now';
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    return `${Math.floor(hours / 24)}d ago`;
-}
-
-/**
- * Generate unique alert ID
- */
-function generateAlertId() {
-    return `alert-${Date.now()}-${++alertIdCounter}`;
-}
-
 /**
  * Check if we can send an alert for this ticker (cooldown)
  */
-function canSendAlert(userId, ticker) {
+function canSendAlert(userId, ticker, cooldownMs = ALERT_COOLDOWN_MS) {
     const key = `${userId}-${ticker}`;
     const lastTime = lastAlertTime.get(key);
     if (!lastTime) return true;
-    return Date.now() - lastTime > ALERT_COOLDOWN_MS;
+    return Date.now() - lastTime > cooldownMs;
 }
 
 /**
@@ -91,39 +71,56 @@ function recordAlertSent(userId, ticker) {
 }
 
 /**
- * Add alert to user's list
+ * Store an alert and return its client payload
  */
-function addAlert(userId, alert) {
-    if (!userAlerts.has(userId)) {
-        userAlerts.set(userId, []);
-    }
+async function addAlert(userId, alert) {
+    const saved = await Alert.create({ user: userId, ...alert });
+    return Alert.toClient(saved);
+}
 
-    const alerts = userAlerts.get(userId);
-    alerts.unshift(alert); // Add to beginning (newest first)
+/**
+ * Unread, undismissed alert count within a socket's portfolio scope
+ */
+async function countUnread(socket) {
+    const filter = await Alert.scopeFilter(socket.userId, socket.portfolioId);
+    return Alert.countDocuments({ ...filter, readAt: null, dismissedAt: null });
+}
+
+/**
+ * Store an alert once for a user and push it to each of their sockets that can see the ticker
+ */
+async function deliverAlert(sockets, userPortfolios, userId, alert) {
+    const saved = await addAlert(userId, alert);
 
-    // Keep only MAX_ALERTS_PER_USER
-    if (alerts.length > MAX_ALERTS_PER_USER) {
-        alerts.pop();
+    for (const socket of sockets) {
+        if (socket.userId !== userId) continue;
+        if (!tickerVisibleTo(socket, userPortfolios)(saved.ticker)) continue;
+        socket.emit('live-alert', { alert: saved });
     }
 
-    userAlerts.set(userId, alerts);
-    return alerts;
+    return saved;
 }
 
 /**
- * Get alerts for a user
+ * Key into the portfolio ticker map for a socket's scope:
+ * `${userId}` for all portfolios, `${userId}:${portfolioId}` for one.
  */
-export function getAlertsForUser(userId) {
-    const alerts = userAlerts.get(userId) || [];
-    // Update relative times
-    return alerts.map(alert => ({
-        ...alert,
-        relativeTime: formatRelativeTime(alert.timestamp)
-    }));
+function scopeKey(socket) {
+    return socket.portfolioId ? `${socket.userId}:${socket.portfolioId}` : socket.userId;
 }
 
 /**
- * Get all portfolio tickers for all users
+ * Whether a ticker belongs in a socket's alert feed: held in its active portfolio,
+ * or not held at all (watchlist / explicit rule symbols show in every portfolio).
+ */
+function tickerVisibleTo(socket, userPortfolios) {
+    const scoped = userPortfolios.get(scopeKey(socket));
+    const held = userPortfolios.get(socket.userId);
+    return (ticker) => Boolean(scoped?.has(ticker)) || !held?.has(ticker);
+}
+
+/**
+ * Get all portfolio tickers for all users (keyed per user and per user+portfolio)
  */
 async function getAllUserPortfolios() {
     try {
@@ -144,13 +141,16 @@ async function getAllUserPortfolios() {
             }
 
             const userId = pos.user.toString();
-            if (!userPortfolios.has(userId)) {
-                userPortfolios.set(userId, new Set());
-            }
-            userPortfolios.get(userId).add(pos.symbol);
+            const keys = pos.portfolio ? [userId, `${userId}:${pos.portfolio}`] : [userId];
+            keys.forEach(key => {
+                if (!userPortfolios.has(key)) {
+                    userPortfolios.set(key, new Set());
+                }
+                userPortfolios.get(key).add(pos.symbol);
+            });
         });
 
-        console.log(`🔔 [ALERTS] User portfolios mapped: ${userPortfolios.size} users`);
+        console.log(`🔔 [ALERTS] User portfolios mapped: ${userPortfolios.size} scopes`);
         return userPortfolios;
     } catch (error) {
         console.error('❌ Error fetching portfolios for alerts:', error.message);
@@ -158,65 +158,6 @@ async function getAllUserPortfolios() {
     }
 }
 
-/**
- * Process a price update and generate alert if threshold crossed
- */
-export function processPriceUpdate(io, ticker, currentPrice, previousClose, changePercent) {
-    const absChange = Math.abs(changePercent);
-
-    // Only alert if change exceeds threshold
-    if (absChange < PRICE_THRESHOLD_PERCENT) {
-        return;
-    }
-
-    const alertType = changePercent > 0 ? 'gain' : 'loss';
-    const direction = changePercent > 0 ? 'up' : 'down';
-    const companyName = getCompanyName(ticker);
-
-    // Get all connected sockets and check their portfolios
-    io.fetchSockets().then(async (sockets) => {
-        const userPortfolios = await getAllUserPortfolios();
-
-        for (const socket of sockets) {
-            const userId = socket.userId;
-            if (!userId) continue;
-
-            const userTickers = userPortfolios.get(userId);
-            if (!userTickers || !userTickers.has(ticker)) continue;
-
-            // Check cooldown
-            if (!canSendAlert(userId, ticker)) continue;
-
-            // Create alert
-            const alert = {
-                id: generateAlertId(),
-                type: alertType,
-                ticker: ticker,
-                companyName: companyName,
-                message: `${companyName} ${direction} ${absChange.toFixed(1)}% today`,
-                value: changePercent,
-                timestamp: new Date(),
-                relativeTime: 'just now'
-            };
-
-            // Add to user's alerts
-            const alerts = addAlert(userId, alert);
-            recordAlertSent(userId, ticker);
-
-            // Emit to this user's socket
-            socket.emit('live-alert', {
-                alert: alert,
-                allAlerts: alerts.map(a => ({
-                    ...a,
-                    relativeTime: formatRelativeTime(a.timestamp)
-                }))
-            });
-
-            console.log(`🔔 Alert sent to user ${userId}: ${alert.message}`);
-        }
-    });
-}
-
 /**
  * Generate news-based alert
  */
@@ -226,52 +167,93 @@ export function processNewsAlert(io, ticker, headline, newsType = 'news') {
     io.fetchSockets().then(async (sockets) => {
         const userPortfolios = await getAllUserPortfolios();
 
-        for (const socket of sockets) {
-            const userId = socket.userId;
-            if (!userId) continue;
-
-            const userTickers = userPortfolios.get(userId);
-            if (!userTickers || !userTickers.has(ticker)) continue;
+        // One alert per user holding the ticker, however many tabs they have open
+        const userIds = new Set(sockets
+            .filter(socket => socket.userId && userPortfolios.get(socket.userId)?.has(ticker))
+            .map(socket => socket.userId));
 
+        for (const userId of userIds) {
             // Check cooldown for news
             if (!canSendAlert(userId, `news-${ticker}`)) continue;
+            recordAlertSent(userId, `news-${ticker}`);
 
-            const alert = {
-                id: generateAlertId(),
+            await deliverAlert(sockets, userPortfolios, userId, {
                 type: 'news',
                 ticker: ticker,
                 companyName: companyName,
-                message: headline,
-                timestamp: new Date(),
-                relativeTime: 'just now'
-            };
-
-            const alerts = addAlert(userId, alert);
-            recordAlertSent(userId, `news-${ticker}`);
-
-            socket.emit('live-alert', {
-                alert: alert,
-                allAlerts: alerts.map(a => ({
-                    ...a,
-                    relativeTime: formatRelativeTime(a.timestamp)
-                }))
+                message: headline
             });
 
             console.log(`📰 News alert sent to user ${userId}: ${headline.substring(0, 50)}...`);
         }
-    });
+    }).catch(error => console.error('❌ Error sending news alert:', error.message));
 }
 
 /**
- * Send initial alerts to newly connected user
+ * Send the recent alerts and unread count for the socket's active portfolio
+ * (on connect, refresh request, or portfolio switch)
  */
-export function sendInitialAlerts(socket) {
+export async function sendInitialAlerts(socket) {
     if (!socket.userId) return;
 
-    const alerts = getAlertsForUser(socket.userId);
-    if (alerts.length > 0) {
-        socket.emit('live-alerts-init', { alerts });
+    try {
+        const filter = await Alert.scopeFilter(socket.userId, socket.portfolioId);
+        const [alerts, unreadCount] = await Promise.all([
+            Alert.find({ ...filter, dismissedAt: null }).sort({ createdAt: -1 }).limit(RECENT_ALERTS_LIMIT).lean(),
+            Alert.countDocuments({ ...filter, readAt: null, dismissedAt: null })
+        ]);
+
+        socket.emit('live-alerts-init', { alerts: alerts.map(Alert.toClient), unreadCount });
         console.log(`📤 Sent ${alerts.length} initial alerts to user ${socket.userId}`);
+    } catch (error) {
+        console.error('❌ Error sending initial alerts:', error.message);
+    }
+}
+
+/**
+ * Apply a read / dismiss change from one socket and sync it to all of the user's sockets.
+ * `ids` targets specific alerts; `all` targets every alert in the sender's portfolio scope.
+ */
+async function updateAlertState(io, socket, { ids, all = false }, change) {
+    if (!socket.userId) return;
+
+    try {
+        let filter;
+        let validIds = null;
+        if (all) {
+            filter = await Alert.scopeFilter(socket.userId, socket.portfolioId);
+        } else {
+            validIds = (Array.isArray(ids) ? ids : []).filter(id => mongoose.isValidObjectId(id));
+            if (validIds.length === 0) return;
+            filter = { user: socket.userId, _id: { $in: validIds } };
+        }
+
+        // Dismissing also marks read; existing timestamps are kept
+        const now = new Date();
+        await Alert.updateMany({ ...filter, readAt: null }, { readAt: now });
+        if (change.dismissed) {
+            await Alert.updateMany({ ...filter, dismissedAt: null }, { dismissedAt: now });
+        }
+
+        const sockets = await io.fetchSockets();
+        for (const other of sockets) {
+            if (other.userId !== socket.userId) continue;
+
+            // "All" was relative to the sender's portfolio; other scopes just reload
+            if (all && other.portfolioId !== socket.portfolioId) {
+                await sendInitialAlerts(other);
+                continue;
+            }
+
+            other.emit('alerts-state', {
+                ids: validIds,
+                all,
+                ...change,
+                unreadCount: await countUnread(other)
+            });
+        }
+    } catch (error) {
+        console.error('❌ Error updating alert state:', error.message);
     }
 }
 
@@ -290,52 +272,243 @@ async function fetchQuote(ticker) {
 }
 
 /**
- * Poll prices and generate alerts
+ * Fetch everything the rules need, for every ticker at once. One batch quote covers price,
+ * previous close, volume and the 52-week range; tickers it misses fall back to single quotes,
+ * and Finnhub metrics only fill in a missing 52-week range for tickers whose rules need it.
  */
-async function pollPricesForAlerts(io) {
+async function fetchMarketData(tickers) {
+    const symbols = [...tickers.keys()];
+    const batch = await getBatchExtendedQuotes(symbols).catch(() => ({}));
+    const marketData = new Map(); // ticker -> data
+
+    await Promise.all(symbols.map(async (ticker) => {
+        const extended = batch[ticker];
+        let price = extended?.regularMarketPrice;
+        let previousClose = extended?.regularMarketPreviousClose;
+        if (!price || !previousClose) {
+            const quote = await fetchQuote(ticker);
+            price = quote?.c;
+            previousClose = quote?.pc;
+        }
+        if (!price || !previousClose) return;
+
+        const data = {
+            price,
+            changePercent: ((price - previousClose) / previousClose) * 100,
+            high52w: extended?.fiftyTwoWeekHigh || null,
+            low52w: extended?.fiftyTwoWeekLow || null,
+            volume: extended?.regularMarketVolume || null,
+            avgVolume: extended?.averageDailyVolume10Day || null
+        };
+
+        if (tickers.get(ticker) && (!data.high52w || !data.low52w)) {
+            try {
+                const metrics = await getBasicFinancials(ticker);
+                data.high52w = data.high52w || metrics?.metric?.['52WeekHigh'] || null;
+                data.low52w = data.low52w || metrics?.metric?.['52WeekLow'] || null;
+            } catch (error) {
+                // leave range unknown; 52-week rules just won't fire
+            }
+        }
+
+        marketData.set(ticker, data);
+    }));
+
+    return marketData;
+}
+
+/**
+ * Evaluate one rule against one ticker. Returns alert fields or null.
+ */
+function evaluateRule(rule, ticker, data, costBasis) {
+    const companyName = getCompanyName(ticker);
+    const { price, changePercent } = data;
+    const threshold = rule.threshold;
+
+    switch (rule.type) {
+        case 'price-above':
+            if (price < threshold) return null;
+            return { type: 'price-above', message: `${companyName} rose above $${threshold.toFixed(2)} ($${price.toFixed(2)})`, value: price };
+        case 'price-below':
+            if (price > threshold) return null;
+            return { type: 'price-below', message: `${companyName} fell below $${threshold.toFixed(2)} ($${price.toFixed(2)})`, value: price };
+        case 'daily-move': {
+            if (Math.abs(changePercent) < threshold) return null;
+            const direction = changePercent > 0 ? 'up' : 'down';
+            return {
+                type: changePercent > 0 ? 'gain' : 'loss',
+                message: `${companyName} ${direction} ${Math.abs(changePercent).toFixed(1)}% today`,
+                value: changePercent
+            };
+        }
+        case 'cost-basis': {
+            if (!costBasis) return null;
+            const fromCost = ((price - costBasis) / costBasis) * 100;
+            if (threshold > 0 ? fromCost < threshold : fromCost > threshold) return null;
+            return {
+                type: 'cost-basis',
+                message: `${companyName} is ${fromCost >= 0 ? 'up' : 'down'} ${Math.abs(fromCost).toFixed(1)}% from your cost basis`,
+                value: fromCost
+            };
+        }
+        case 'volume-spike': {
+            if (!data.volume || !data.avgVolume) return null;
+            const multiple = data.volume / data.avgVolume;
+            if (multiple < threshold) return null;
+            return { type: 'volume-spike', message: `${companyName} volume is ${multiple.toFixed(1)}x its 10-day average`, value: multiple };
+        }
+        case '52w-high': {
+            if (!data.high52w) return null;
+            const distance = ((data.high52w - price) / data.high52w) * 100;
+            if (distance > threshold) return null;
+            return { type: '52w-high', message: `${companyName} is near its 52-week high ($${data.high52w.toFixed(2)})`, value: price };
+        }
+        case '52w-low': {
+            if (!data.low52w) return null;
+            const distance = ((price - data.low52w) / data.low52w) * 100;
+            if (distance > threshold) return null;
+            return { type: '52w-low', message: `${companyName} is near its 52-week low ($${data.low52w.toFixed(2)})`, value: price };
+        }
+        default:
+            return null;
+    }
+}
+
+// Users whose default rules have already been ensured this process
+const seededUsers = new Set();
+
+// Set while a rule poll runs, so a slow poll isn't joined by the next tick
+let rulePollRunning = false;
+
+/**
+ * Evaluate enabled rules against current prices and emit triggered alerts.
+ * Users with a connected socket get all their rules checked; offline users only the rules
+ * they set on a specific symbol, which still land in their alert history.
+ */
+async function pollAlertRules(io) {
+    if (rulePollRunning) {
+        console.log('🔔 [ALERTS] Previous rule poll still running, skipping this tick');
+        return;
+    }
+    rulePollRunning = true;
+
     try {
-        const userPortfolios = await getAllUserPortfolios();
+        const sockets = await io.fetchSockets();
+        const onlineUsers = [...new Set(sockets.map(socket => socket.userId).filter(Boolean))];
+        const symbolRuleUsers = (await AlertRule.distinct('user', { enabled: true, symbol: { $ne: null } }))
+            .map(id => id.toString());
+        const activeUsers = [...new Set([...onlineUsers, ...symbolRuleUsers])];
+
+        if (activeUsers.length === 0) {
+            console.log('🔔 [ALERTS] No connected users or symbol rules');
+            return;
+        }
 
-        // Get all unique tickers across all users
-        const allTickers = new Set();
-        userPortfolios.forEach(tickers => {
-            tickers.forEach(ticker => allTickers.add(ticker));
+        const [userPortfolios, positions, watchlistItems] = await Promise.all([
+            getAllUserPortfolios(),
+            Position.find({ user: { $in: activeUsers }, quantity: { $gt: 0 } }).select('user symbol quantity averagePrice').lean(),
+            Watchlist.find({ user: { $in: activeUsers } }).select('user symbol').lean()
+        ]);
+
+        // Symbols that rules without their own symbol apply to: held + watchlisted
+        const userSymbols = new Map(); // userId -> Set
+        const addSymbol = (userId, symbol) => {
+            if (!userSymbols.has(userId)) userSymbols.set(userId, new Set());
+            userSymbols.get(userId).add(symbol);
+        };
+
+        // Average cost across portfolios per user + symbol
+        const costTotals = new Map(); // `${userId}-${symbol}` -> { quantity, cost }
+        positions.forEach(pos => {
+            const userId = pos.user.toString();
+            addSymbol(userId, pos.symbol);
+            const key = `${userId}-${pos.symbol}`;
+            const entry = costTotals.get(key) || { quantity: 0, cost: 0 };
+            entry.quantity += pos.quantity;
+            entry.cost += pos.quantity * pos.averagePrice;
+            costTotals.set(key, entry);
         });
+        watchlistItems.forEach(item => addSymbol(item.user.toString(), item.symbol));
+
+        for (const userId of onlineUsers) {
+            if (seededUsers.has(userId) || !userSymbols.has(userId)) continue;
+            await AlertRule.ensureDefaults(userId);
+            seededUsers.add(userId);
+        }
 
-        if (allTickers.size === 0) {
-            console.log('🔔 [ALERTS] No tickers to check (no portfolios found)');
+        const rules = await AlertRule.find({
+            enabled: true,
+            $or: [{ user: { $in: onlineUsers } }, { symbol: { $ne: null } }]
+        }).lean();
+        if (rules.length === 0) {
+            console.log('🔔 [ALERTS] No enabled alert rules');
             return;
         }
 
-        console.log(`🔔 [ALERTS] Checking ${allTickers.size} tickers: ${[...allTickers].join(', ')}`);
+        // Expand rules into (rule, ticker) checks and collect what market data is needed
+        const checks = [];
+        const tickers = new Map(); // ticker -> needsExtended
+        rules.forEach(rule => {
+            const userId = rule.user.toString();
+            const targets = rule.symbol ? [rule.symbol] : [...(userSymbols.get(userId) || [])];
+            const needsExtended = ['volume-spike', '52w-high', '52w-low'].includes(rule.type);
+            targets.forEach(ticker => {
+                checks.push({ rule, userId, ticker });
+                tickers.set(ticker, tickers.get(ticker) || needsExtended);
+            });
+        });
 
-        let alertsTriggered = 0;
-        for (const ticker of allTickers) {
-            const quote = await fetchQuote(ticker);
-            if (!quote || !quote.c || !quote.pc) {
+        if (tickers.size === 0) {
+            console.log('🔔 [ALERTS] No tickers to check (no portfolios or watchlists found)');
+            return;
+        }
+
+        console.log(`🔔 [ALERTS] Checking ${rules.length} rules across ${tickers.size} tickers: ${[...tickers.keys()].join(', ')}`);
+
+        const marketData = await fetchMarketData(tickers);
+        for (const ticker of tickers.keys()) {
+            const data = marketData.get(ticker);
+            if (data) {
+                console.log(`   📈 ${ticker}: $${data.price.toFixed(2)} (${data.changePercent >= 0 ? '+' : ''}${data.changePercent.toFixed(2)}%)`);
+            } else {
                 console.log(`   ⚠️ ${ticker}: No quote data`);
-                continue;
             }
+        }
 
-            const currentPrice = quote.c;
-            const previousClose = quote.pc;
-            const changePercent = ((currentPrice - previousClose) / previousClose) * 100;
+        let alertsTriggered = 0;
 
-            console.log(`   📈 ${ticker}: $${currentPrice.toFixed(2)} (${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%) ${Math.abs(changePercent) >= PRICE_THRESHOLD_PERCENT ? '🚨 ALERT!' : ''}`);
+        for (const { rule, userId, ticker } of checks) {
+            const data = marketData.get(ticker);
+            if (!data) continue;
 
-            // Process price update (will generate alert if >2% change)
-            if (Math.abs(changePercent) >= PRICE_THRESHOLD_PERCENT) {
-                alertsTriggered++;
-                processPriceUpdate(io, ticker, currentPrice, previousClose, changePercent);
-            }
+            const cooldownKey = `rule-${rule._id}-${ticker}`;
+            if (!canSendAlert(userId, cooldownKey, rule.cooldownMinutes * 60 * 1000)) continue;
+
+            const cost = costTotals.get(`${userId}-${ticker}`);
+            const result = evaluateRule(rule, ticker, data, cost && cost.quantity > 0 ? cost.cost / cost.quantity : null);
+            if (!result) continue;
+
+            recordAlertSent(userId, cooldownKey);
+            alertsTriggered++;
+
+            const alert = await deliverAlert(sockets, userPortfolios, userId, {
+                ...result,
+                ticker: ticker,
+                companyName: getCompanyName(ticker),
+                rule: rule._id
+            });
 
-            // Small delay to avoid rate limiting
-            await new Promise(r => setTimeout(r, 200));
+            AlertRule.updateOne({ _id: rule._id }, { lastTriggeredAt: alert.timestamp })
+                .catch(err => console.error('❌ Failed to stamp alert rule:', err.message));
+
+            console.log(`🔔 Alert for user ${userId} (${rule.type}): ${alert.message}`);
         }
 
         console.log(`🔔 [ALERTS] Poll complete. Alerts triggered: ${alertsTriggered}`);
     } catch (error) {
-        console.error('❌ Error polling prices for alerts:', error.message);
+        console.error('❌ Error polling alert rules:', error.message);
+    } finally {
+        rulePollRunning = false;
     }
 }
 
@@ -344,10 +517,9 @@ const PRICE_POLL_INTERVAL = 60 * 1000;
 
 // Special alerts polling interval (5 minutes)
 const SPECIAL_POLL_INTERVAL = 5 * 60 * 1000;
-const WEEK_LOW_THRESHOLD = 0.02; // 2% proximity to 52-week low
 
 /**
- * Poll for 52-week low proximity and upcoming earnings
+ * Poll for upcoming earnings
  */
 async function pollSpecialAlerts(io) {
     try {
@@ -360,36 +532,7 @@ async function pollSpecialAlerts(io) {
 
         if (allTickers.size === 0) return;
 
-        console.log(`🔔 [SPECIAL-ALERTS] Checking ${allTickers.size} tickers for 52-week low & earnings...`);
-
-        // ── 52-Week Low Check ─────────────────────────────────
-        for (const ticker of allTickers) {
-            try {
-                const [metrics, quote] = await Promise.all([
-                    getBasicFinancials(ticker),
-                    fetchQuoteFromService(ticker)
-                ]);
-
-                const low52w = metrics?.metric?.['52WeekLow'];
-                const currentPrice = quote?.c;
-
-                if (low52w && currentPrice && low52w > 0) {
-                    const proximity = (currentPrice - low52w) / low52w;
-                    if (proximity <= WEEK_LOW_THRESHOLD) {
-                        const companyName = getCompanyName(ticker);
-                        emitSpecialAlert(io, userPortfolios, ticker, {
-                            type: '52w-low',
-                            message: `${companyName} is near its 52-week low ($${low52w.toFixed(2)})`,
-                            value: currentPrice
-                        });
-                    }
-                }
-            } catch (err) {
-                // silently skip individual ticker errors
-            }
-
-            await new Promise(r => setTimeout(r, 200)); // rate-limit
-        }
+        console.log(`🔔 [SPECIAL-ALERTS] Checking ${allTickers.size} tickers for upcoming earnings...`);
 
         // ── Earnings Calendar Check ──────────────────────────
         try {
@@ -426,45 +569,30 @@ async function pollSpecialAlerts(io) {
 }
 
 /**
- * Emit a special alert (52w-low or earnings) to relevant users
+ * Emit a special alert (earnings) to relevant users
  */
 function emitSpecialAlert(io, userPortfolios, ticker, alertData) {
-    io.fetchSockets().then(sockets => {
-        for (const socket of sockets) {
-            const userId = socket.userId;
-            if (!userId) continue;
-
-            const userTickers = userPortfolios.get(userId);
-            if (!userTickers || !userTickers.has(ticker)) continue;
+    io.fetchSockets().then(async (sockets) => {
+        const userIds = new Set(sockets
+            .filter(socket => socket.userId && userPortfolios.get(socket.userId)?.has(ticker))
+            .map(socket => socket.userId));
 
+        for (const userId of userIds) {
             const cooldownKey = `${alertData.type}-${ticker}`;
             if (!canSendAlert(userId, cooldownKey)) continue;
+            recordAlertSent(userId, cooldownKey);
 
-            const alert = {
-                id: generateAlertId(),
+            await deliverAlert(sockets, userPortfolios, userId, {
                 type: alertData.type,
                 ticker: ticker,
                 companyName: getCompanyName(ticker),
                 message: alertData.message,
-                value: alertData.value,
-                timestamp: new Date(),
-                relativeTime: 'just now'
-            };
-
-            const alerts = addAlert(userId, alert);
-            recordAlertSent(userId, cooldownKey);
-
-            socket.emit('live-alert', {
-                alert: alert,
-                allAlerts: alerts.map(a => ({
-                    ...a,
-                    relativeTime: formatRelativeTime(a.timestamp)
-                }))
+                value: alertData.value
             });
 
             console.log(`🔔 [SPECIAL] ${alertData.type} alert -> user ${userId}: ${alertData.message}`);
         }
-    });
+    }).catch(error => console.error('❌ Error sending special alert:', error.message));
 }
 
 /**
@@ -475,9 +603,9 @@ export function startLiveAlertsService(io) {
     console.log('========================================');
     console.log('🔔 LIVE ALERTS SERVICE STARTED');
     console.log('========================================');
-    console.log(`   📊 Price threshold: ${PRICE_THRESHOLD_PERCENT}%`);
-    console.log(`   ⏱️ Alert cooldown: ${ALERT_COOLDOWN_MS / 1000}s`);
-    console.log(`   📋 Max alerts per user: ${MAX_ALERTS_PER_USER}`);
+    console.log(`   📊 Thresholds: per-user alert rules`);
+    console.log(`   ⏱️ News/earnings cooldown: ${ALERT_COOLDOWN_MS / 1000}s`);
+    console.log(`   📋 Recent alerts on connect: ${RECENT_ALERTS_LIMIT}`);
     console.log(`   🔄 Price poll interval: ${PRICE_POLL_INTERVAL / 1000}s`);
     console.log('========================================');
     console.log('');
@@ -492,22 +620,31 @@ export function startLiveAlertsService(io) {
         socket.on('request-alerts-refresh', () => {
             sendInitialAlerts(socket);
         });
+
+        // Read / dismiss state, synced to the user's other sockets
+        socket.on('alerts-mark-read', (payload = {}) => {
+            updateAlertState(io, socket, payload, { read: true });
+        });
+
+        socket.on('alerts-dismiss', (payload = {}) => {
+            updateAlertState(io, socket, payload, { read: true, dismissed: true });
+        });
     });
 
-    // Initial price poll after 10 seconds (give server time to start)
-    console.log('🔔 [ALERTS] First price poll in 10 seconds...');
+    // Initial rule poll after 10 seconds (give server time to start)
+    console.log('🔔 [ALERTS] First rule poll in 10 seconds...');
     setTimeout(() => {
-        console.log('🔔 [ALERTS] Starting first price poll NOW');
-        pollPricesForAlerts(io);
+        console.log('🔔 [ALERTS] Starting first rule poll NOW');
+        pollAlertRules(io);
     }, 10000);
 
-    // Regular price polling every minute
+    // Regular rule polling every minute
     setInterval(() => {
-        console.log('🔔 [ALERTS] Running scheduled price poll...');
-        pollPricesForAlerts(io);
+        console.log('🔔 [ALERTS] Running scheduled rule poll...');
+        pollAlertRules(io);
     }, PRICE_POLL_INTERVAL);
 
-    // Special alerts (52-week low + earnings) after 15 seconds, then every 5 min
+    // Earnings alerts after 15 seconds, then every 5 min
     console.log('🔔 [SPECIAL-ALERTS] First poll in 15 seconds...');
     setTimeout(() => {
         pollSpecialAlerts(io);
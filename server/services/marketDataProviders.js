@@ -0,0 +1,690 @@
+import fetch from 'node-fetch';
+import YahooFinance from 'yahoo-finance2';
+import { exchangeForSymbol, listingCurrency } from './exchangeService.js';
+
+/**
+ * Market data providers sit behind marketDataService. Each one is a plain object
+ * with a name, a `configured` flag, and any subset of these capabilities:
+ *
+ *   quote(symbol)                      { c, d, dp, h, l, o, pc, t, currency } in the quoted currency
+ *   extendedQuotes(symbols)            Yahoo-shaped quote objects
+ *   candles(symbol, { from, to, interval })
+ *                                      bars over a unix-second range, interval 1m|5m|15m|1h|1d|1wk (default 1d):
+ *                                      { timestamps, dates, opens, highs, lows, closes, adjCloses, volumes,
+ *                                        splits: [{ timestamp, numerator, denominator }],
+ *                                        dividends: [{ timestamp, amount }], currency }
+ *                                      closes are split-adjusted, adjCloses also dividend-adjusted
+ *   profile(symbol)                    Finnhub profile2 shape ({ name, ticker, finnhubIndustry, ... })
+ *   metrics(symbol)                    Finnhub metric shape ({ metric: { beta, 52WeekHigh, ... } })
+ *   news(symbol, from, to)             Finnhub company-news items, dates as YYYY-MM-DD
+ *   marketNews()                       Finnhub general news items
+ *   earnings(from, to)                 Finnhub earnings calendar entries
+ *   nextEarningsDate(symbol)           unix seconds of the next report
+ *   dividends(symbol)                  { exDate, paymentDate, dividendRate }
+ *   corporateActions(symbol, { from, to })
+ *                                      [{ type: split|reverseSplit|spinoff|tickerChange, timestamp,
+ *                                         numerator, denominator, newSymbol?, costAllocation? }]
+ *                                      numerator/denominator: new shares per old (split) or per parent
+ *                                      share (spinoff); costAllocation: cost fraction moved to the spinoff
+ *   forex(from, to)                    { rate }
+ *   forexHistory(from, to, range)      daily rates, same shape as candles
+ *   recommendations(symbol)            Finnhub recommendation trend entries
+ *   priceTarget(symbol)                { targetHigh, targetLow, targetMean, targetMedian, lastUpdated }
+ *   search(query)                      Finnhub search results ({ symbol, description, displaySymbol, type })
+ *
+ * A capability resolves null when the provider has no data for that input (the next
+ * provider is tried, no penalty) and throws when the provider itself failed.
+ */
+
+// Rough USD rates: offline fixtures and the last-resort forex fallback
+export const REFERENCE_USD_RATES = {
+    USD: 1, ILS: 3.65, EUR: 0.92, GBP: 0.79, JPY: 150, CAD: 1.36, CHF: 0.88, AUD: 1.52
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const toDay = (seconds) => new Date(seconds * 1000).toISOString().split('T')[0];
+
+// Midnight UTC today, in unix seconds
+const startOfToday = () => Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * fetch that gives up after REQUEST_TIMEOUT_MS: a hung upstream throws like any other outage,
+ * so it counts against the provider's breaker and the next provider gets tried
+ */
+async function timedFetch(url, options = {}) {
+    try {
+        return await fetch(url, { ...options, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+        if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+            throw new Error(`timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+        }
+        throw error;
+    }
+}
+
+// ============================================
+// FINNHUB (REST)
+// ============================================
+
+const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
+
+export function createFinnhubMarketData() {
+    // Read lazily: dotenv loads after the service modules are imported
+    const apiKey = () => process.env.FINNHUB_API_KEY;
+
+    const get = async (path, params = {}) => {
+        const query = new URLSearchParams({ ...params, token: apiKey() });
+        const response = await timedFetch(`${FINNHUB_BASE_URL}${path}?${query}`);
+
+        // Premium-only endpoints answer 403 on the free plan: no data, not an outage
+        if (response.status === 403) return null;
+        if (!response.ok) {
+            throw new Error(`Finnhub ${path} failed: ${response.status}`);
+        }
+        return response.json();
+    };
+
+    return {
+        name: 'finnhub',
+        get configured() {
+            return Boolean(apiKey());
+        },
+
+        async quote(symbol) {
+            // The free plan only carries US listings
+            if (listingCurrency(symbol).currency !== 'USD') return null;
+
+            const data = await get('/quote', { symbol });
+            // Unknown symbols come back as all zeros
+            if (!data || data.c === undefined || (data.c === 0 && data.pc === 0)) return null;
+            return { ...data, currency: 'USD' };
+        },
+
+        async profile(symbol) {
+            const data = await get('/stock/profile2', { symbol });
+            return data?.ticker ? data : null;
+        },
+
+        async metrics(symbol) {
+            const data = await get('/stock/metric', { symbol, metric: 'all' });
+            return data?.metric && Object.keys(data.metric).length > 0 ? data : null;
+        },
+
+        async news(symbol, from, to) {
+            const data = await get('/company-news', { symbol, from, to });
+            return Array.isArray(data) ? data : null;
+        },
+
+        async marketNews() {
+            const data = await get('/news', { category: 'general' });
+            return Array.isArray(data) ? data : null;
+        },
+
+        async earnings(from, to) {
+            const data = await get('/calendar/earnings', { from, to });
+            return data ? data.earningsCalendar || [] : null;
+        },
+
+        async corporateActions(symbol, { from, to }) {
+            // Split history is premium-only (403 -> null) and US-only
+            if (listingCurrency(symbol).currency !== 'USD') return null;
+
+            const data = await get('/stock/split', { symbol, from: toDay(from), to: toDay(to) });
+            if (!Array.isArray(data)) return null;
+            return data.map(split => ({
+                type: split.toFactor >= split.fromFactor ? 'split' : 'reverseSplit',
+                timestamp: Math.floor(new Date(split.date).getTime() / 1000),
+                numerator: split.toFactor,
+                denominator: split.fromFactor
+            }));
+        },
+
+        async recommendations(symbol) {
+            const data = await get('/stock/recommendation', { symbol });
+            return Array.isArray(data) && data.length > 0 ? data : null;
+        },
+
+        async priceTarget(symbol) {
+            const data = await get('/stock/price-target', { symbol });
+            // { targetMean: 0 } means no coverage
+            return data?.targetMean > 0 ? data : null;
+        },
+
+        async search(query) {
+            const data = await get('/search', { q: query });
+            return data ? data.result || [] : null;
+        }
+    };
+}
+
+// ============================================
+// YAHOO FINANCE (yahoo-finance2 + v8 chart)
+// ============================================
+
+/**
+ * Yahoo symbol for a pair: ILS=X is USD/ILS, EURILS=X is EUR/ILS
+ */
+const fxSymbol = (from, to) => (from === 'USD' ? `${to}=X` : `${from}${to}=X`);
+
+// Yahoo's name for each candle interval
+const YAHOO_INTERVALS = { '1m': '1m', '5m': '5m', '15m': '15m', '1h': '60m', '1d': '1d', '1wk': '1wk' };
+
+export function createYahooMarketData() {
+    const yahooFinance = new YahooFinance();
+
+    async function candles(symbol, { from, to, interval = '1d' }) {
+        const params = new URLSearchParams({
+            period1: from,
+            period2: to,
+            interval: YAHOO_INTERVALS[interval],
+            includePrePost: 'false',
+            events: 'div,splits'
+        });
+        const response = await timedFetch(`https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?${params}`, {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+            }
+        });
+
+        // Unknown symbols are a 404 with an error body, not an outage
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new Error(`Yahoo chart failed: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const chart = data?.chart?.result?.[0];
+        const quote = chart?.indicators?.quote?.[0];
+        if (!chart?.timestamp || !quote?.close) return null;
+
+        const adjClose = chart.indicators.adjclose?.[0]?.adjclose;
+        const bars = {
+            timestamps: [], dates: [], opens: [], highs: [], lows: [], closes: [], adjCloses: [], volumes: []
+        };
+        chart.timestamp.forEach((timestamp, i) => {
+            const close = quote.close[i];
+            // Yahoo leaves null bars for halts and the still-forming candle
+            if (close === null || close === undefined) return;
+            bars.timestamps.push(timestamp);
+            bars.dates.push(toDay(timestamp));
+            bars.opens.push(quote.open?.[i] ?? close);
+            bars.highs.push(quote.high?.[i] ?? close);
+            bars.lows.push(quote.low?.[i] ?? close);
+            bars.closes.push(close);
+            bars.adjCloses.push(adjClose?.[i] ?? close);
+            bars.volumes.push(quote.volume?.[i] ?? 0);
+        });
+        if (bars.timestamps.length === 0) return null;
+
+        const events = chart.events || {};
+        return {
+            ...bars,
+            splits: Object.values(events.splits || {})
+                .map(split => ({ timestamp: split.date, numerator: split.numerator, denominator: split.denominator }))
+                .sort((a, b) => a.timestamp - b.timestamp),
+            dividends: Object.values(events.dividends || {})
+                .map(dividend => ({ timestamp: dividend.date, amount: dividend.amount }))
+                .sort((a, b) => a.timestamp - b.timestamp),
+            currency: chart.meta?.currency
+        };
+    }
+
+    return {
+        name: 'yahoo',
+        configured: true,
+
+        async quote(symbol) {
+            const quote = await yahooFinance.quote(symbol);
+            if (!quote || quote.regularMarketPrice === undefined) return null;
+
+            const previousClose = quote.regularMarketPreviousClose ?? (quote.regularMarketPrice - (quote.regularMarketChange || 0));
+            return {
+                c: quote.regularMarketPrice,
+                d: quote.regularMarketChange || 0,
+                dp: quote.regularMarketChangePercent || 0,
+                h: quote.regularMarketDayHigh || 0,
+                l: quote.regularMarketDayLow || 0,
+                o: quote.regularMarketOpen || 0,
+                pc: previousClose,
+                t: Math.floor((quote.regularMarketTime?.getTime?.() ?? Date.now()) / 1000),
+                currency: quote.currency
+            };
+        },
+
+        async extendedQuotes(symbols) {
+            const quotes = await yahooFinance.quote(symbols);
+            const list = (Array.isArray(quotes) ? quotes : [quotes]).filter(quote => quote?.symbol);
+            return list.length > 0 ? list : null;
+        },
+
+        candles,
+
+        // The chart only carries splits; spinoffs and ticker changes need another provider
+        async corporateActions(symbol, range) {
+            const bars = await candles(symbol, { ...range, interval: '1d' });
+            return bars && bars.splits.map(split => ({
+                type: split.numerator >= split.denominator ? 'split' : 'reverseSplit',
+                ...split
+            }));
+        },
+
+        async profile(symbol) {
+            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['assetProfile', 'price'] });
+            const price = summary?.price;
+            if (!price) return null;
+
+            const profile = summary.assetProfile || {};
+            return {
+                name: price.longName || price.shortName || symbol,
+                ticker: symbol,
+                // Same label Finnhub uses, so ETF detection keeps working on failover
+                finnhubIndustry: price.quoteType === 'ETF' ? 'Exchange Traded Fund' : profile.sector || '',
+                country: profile.country || '',
+                currency: price.currency || '',
+                exchange: price.exchangeName || '',
+                weburl: profile.website || '',
+                marketCapitalization: price.marketCap ? price.marketCap / 1e6 : undefined
+            };
+        },
+
+        async metrics(symbol) {
+            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['summaryDetail', 'defaultKeyStatistics'] });
+            const detail = summary?.summaryDetail;
+            if (!detail) return null;
+
+            return {
+                symbol,
+                metric: {
+                    beta: detail.beta ?? summary.defaultKeyStatistics?.beta ?? null,
+                    '52WeekHigh': detail.fiftyTwoWeekHigh ?? null,
+                    '52WeekLow': detail.fiftyTwoWeekLow ?? null,
+                    peTTM: detail.trailingPE ?? null,
+                    dividendYieldIndicatedAnnual: detail.dividendYield !== undefined ? detail.dividendYield * 100 : null,
+                    // Millions of shares, as Finnhub reports it
+                    '10DayAverageTradingVolume': detail.averageDailyVolume10Day !== undefined ? detail.averageDailyVolume10Day / 1e6 : null
+                }
+            };
+        },
+
+        async news(symbol, from) {
+            const result = await yahooFinance.search(symbol, { quotesCount: 0, newsCount: 10 });
+            const since = new Date(from).getTime();
+
+            return (result?.news || [])
+                .filter(item => item.providerPublishTime?.getTime() >= since)
+                .map(item => ({
+                    id: item.uuid,
+                    category: 'company',
+                    datetime: Math.floor(item.providerPublishTime.getTime() / 1000),
+                    headline: item.title,
+                    image: item.thumbnail?.resolutions?.[0]?.url || '',
+                    related: symbol,
+                    source: item.publisher,
+                    summary: '',
+                    url: item.link
+                }));
+        },
+
+        async nextEarningsDate(symbol) {
+            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['calendarEvents'] });
+            const next = summary?.calendarEvents?.earnings?.earningsDate?.[0];
+            if (!(next instanceof Date)) return null;
+
+            const timestamp = Math.floor(next.getTime() / 1000);
+            return timestamp > Date.now() / 1000 ? timestamp : null;
+        },
+
+        async dividends(symbol) {
+            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['calendarEvents', 'summaryDetail'] });
+            const calendar = summary?.calendarEvents || {};
+            const detail = summary?.summaryDetail || {};
+
+            // Calendar events first, summary detail as the fallback
+            const exDate = calendar.exDividendDate || detail.exDividendDate;
+            if (!exDate) return null;
+
+            return {
+                exDate,
+                paymentDate: calendar.dividendDate,
+                dividendRate: detail.dividendRate || detail.trailingAnnualDividendRate || 0
+            };
+        },
+
+        async forex(from, to) {
+            const quote = await yahooFinance.quote(fxSymbol(from, to));
+            return quote?.regularMarketPrice ? { rate: quote.regularMarketPrice } : null;
+        },
+
+        async forexHistory(from, to, range) {
+            return candles(fxSymbol(from, to), range);
+        },
+
+        async recommendations(symbol) {
+            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['recommendationTrend'] });
+            const trend = summary?.recommendationTrend?.trend || [];
+            if (trend.length === 0) return null;
+
+            // Yahoo labels periods relative to this month ('0m', '-1m'); Finnhub uses the month's first day
+            const now = new Date();
+            return trend.map(entry => {
+                const offset = parseInt(entry.period, 10) || 0;
+                const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1));
+                return {
+                    symbol,
+                    period: month.toISOString().split('T')[0],
+                    strongBuy: entry.strongBuy,
+                    buy: entry.buy,
+                    hold: entry.hold,
+                    sell: entry.sell,
+                    strongSell: entry.strongSell
+                };
+            });
+        },
+
+        async priceTarget(symbol) {
+            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['financialData'] });
+            const financials = summary?.financialData;
+            if (!financials?.targetMeanPrice) return null;
+
+            return {
+                targetHigh: financials.targetHighPrice || 0,
+                targetLow: financials.targetLowPrice || 0,
+                targetMean: financials.targetMeanPrice || 0,
+                targetMedian: financials.targetMedianPrice || 0,
+                lastUpdated: new Date().toISOString()
+            };
+        },
+
+        async search(query) {
+            const result = await yahooFinance.search(query, { newsCount: 0 });
+            return (result?.quotes || [])
+                .filter(quote => quote.symbol)
+                .map(quote => ({
+                    symbol: quote.symbol,
+                    displaySymbol: quote.symbol,
+                    description: quote.shortname || quote.longname || quote.symbol,
+                    type: quote.quoteType || ''
+                }));
+        }
+    };
+}
+
+// ============================================
+// FIXTURES (deterministic offline data, for development and tests)
+// ============================================
+
+const FIXTURE_SECTORS = ['Technology', 'Health Care', 'Financial Services', 'Consumer Cyclical', 'Industrials', 'Energy', 'Utilities'];
+
+const FIXTURE_BAR_SECONDS = { '1m': 60, '5m': 300, '15m': 900, '1h': 3600, '1d': DAY_SECONDS, '1wk': 7 * DAY_SECONDS };
+
+const hashOf = (text) => [...text].reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+// Pseudo-random in [0, 1) that only depends on the seed
+const noise = (seed) => {
+    const x = Math.sin(seed) * 10000;
+    return x - Math.floor(x);
+};
+
+export function createFixtureMarketData() {
+    // Price for a symbol at a moment: a slow wave plus daily noise and an intraday ripple
+    // around a per-symbol base. Keyed by time alone so every range and every quote agree.
+    const closeOn = (seed, base, seconds) => {
+        const day = Math.floor(seconds / DAY_SECONDS);
+        return base * (1 + 0.15 * Math.sin(day / 40 + seed) + 0.03 * (noise(seed + day) - 0.5) + 0.004 * Math.sin(seconds / 1800 + seed));
+    };
+
+    // Bar starts between from and to, weekdays only (intraday bars run around the clock)
+    const barsBetween = (from, to, step) => {
+        const bars = [];
+        for (let t = Math.floor(from / step) * step; t <= to; t += step) {
+            const weekday = new Date(t * 1000).getUTCDay();
+            if (weekday !== 0 && weekday !== 6) bars.push(t);
+        }
+        return bars;
+    };
+
+    const basePrice = (symbol) => 20 + (hashOf(symbol) % 480);
+
+    // Quarterly ex-dates on a fixed per-symbol cycle (unix days); roughly a third of symbols pay nothing
+    const DIVIDEND_CYCLE_DAYS = 91;
+    const dividendDays = (symbol, fromDay, toDay) => {
+        const seed = hashOf(symbol);
+        if (seed % 3 === 0) return [];
+
+        const days = [];
+        const first = fromDay + (DIVIDEND_CYCLE_DAYS - ((fromDay + seed) % DIVIDEND_CYCLE_DAYS)) % DIVIDEND_CYCLE_DAYS;
+        for (let day = first; day <= toDay; day += DIVIDEND_CYCLE_DAYS) days.push(day);
+        return days;
+    };
+    const dividendRate = (symbol) => Number((basePrice(symbol) * 0.02).toFixed(2));
+
+    // A few symbols get one corporate action each, on a fixed day between Oct 2024 and May 2026
+    const corporateAction = (symbol) => {
+        const seed = hashOf(symbol);
+        const timestamp = (20000 + (seed % 600)) * DAY_SECONDS;
+        const renamed = (tag) => symbol.replace(/^[^.]+/, base => `${base}${tag}`);
+        switch (seed % 29) {
+            case 1: return { type: 'split', timestamp, numerator: 2, denominator: 1 };
+            case 2: return { type: 'reverseSplit', timestamp, numerator: 1, denominator: 4 };
+            case 3: return { type: 'spinoff', timestamp, numerator: 1, denominator: 2, newSymbol: renamed('SP'), costAllocation: 0.2 };
+            case 4: return { type: 'tickerChange', timestamp, numerator: 1, denominator: 1, newSymbol: renamed('N') };
+            default: return null;
+        }
+    };
+    const splitsBetween = (symbol, from, to) => {
+        const action = corporateAction(symbol);
+        return action && ['split', 'reverseSplit'].includes(action.type) && action.timestamp >= from && action.timestamp <= to
+            ? [{ timestamp: action.timestamp, numerator: action.numerator, denominator: action.denominator }]
+            : [];
+    };
+
+    const series = (seed, base, { from, to, interval = '1d' }) => {
+        const timestamps = barsBetween(from, to, FIXTURE_BAR_SECONDS[interval]);
+        const closes = timestamps.map(t => Number(closeOn(seed, base, t).toFixed(4)));
+        // Open at the previous close, wicks a little past the body
+        const opens = closes.map((close, i) => (i > 0 ? closes[i - 1] : close));
+        return {
+            timestamps,
+            dates: timestamps.map(toDay),
+            opens,
+            highs: closes.map((close, i) => Number((Math.max(close, opens[i]) * 1.004).toFixed(4))),
+            lows: closes.map((close, i) => Number((Math.min(close, opens[i]) * 0.996).toFixed(4))),
+            closes,
+            adjCloses: closes,
+            volumes: timestamps.map(t => 1000 + Math.floor(noise(seed + t) * 100000)),
+            splits: [],
+            dividends: []
+        };
+    };
+
+    const snapshot = (symbol) => {
+        const seed = hashOf(symbol);
+        const today = startOfToday();
+        const { closes } = series(seed, basePrice(symbol), { from: today - 10 * DAY_SECONDS, to: today });
+        const price = closes[closes.length - 1];
+        const previousClose = closes[closes.length - 2];
+        return { seed, price, previousClose, change: price - previousClose };
+    };
+
+    const fixtureNews = (symbol, category) => {
+        const today = startOfToday();
+        return [0, 1, 2].map(i => ({
+            id: hashOf(`${symbol}-${today - i * DAY_SECONDS}`),
+            category,
+            datetime: today - i * DAY_SECONDS + 14 * 3600,
+            headline: `${symbol} fixture headline ${i + 1}`,
+            image: '',
+            related: category === 'company' ? symbol : '',
+            source: 'Fixtures',
+            summary: 'Offline fixture data.',
+            url: 'https://example.com/'
+        }));
+    };
+
+    return {
+        name: 'fixtures',
+        configured: true,
+
+        async quote(symbol) {
+            const { price, previousClose, change } = snapshot(symbol);
+            return {
+                c: price,
+                d: change,
+                dp: (change / previousClose) * 100,
+                h: Math.max(price, previousClose),
+                l: Math.min(price, previousClose),
+                o: previousClose,
+                pc: previousClose,
+                t: Math.floor(Date.now() / 1000),
+                currency: listingCurrency(symbol).currency
+            };
+        },
+
+        async extendedQuotes(symbols) {
+            return symbols.map(symbol => {
+                const { seed, price, previousClose, change } = snapshot(symbol);
+                return {
+                    symbol,
+                    currency: listingCurrency(symbol).currency,
+                    regularMarketPrice: price,
+                    regularMarketPreviousClose: previousClose,
+                    regularMarketChange: change,
+                    regularMarketChangePercent: (change / previousClose) * 100,
+                    marketState: 'REGULAR',
+                    exchangeTimezoneName: exchangeForSymbol(symbol).timezone,
+                    fiftyTwoWeekLow: basePrice(symbol) * 0.82,
+                    fiftyTwoWeekHigh: basePrice(symbol) * 1.18,
+                    regularMarketVolume: 100000 + (seed % 900000),
+                    averageDailyVolume10Day: 100000 + (seed % 800000)
+                };
+            });
+        },
+
+        async candles(symbol, range) {
+            const days = dividendDays(symbol, Math.ceil(range.from / DAY_SECONDS), Math.floor(range.to / DAY_SECONDS));
+            return {
+                ...series(hashOf(symbol), basePrice(symbol), range),
+                splits: splitsBetween(symbol, range.from, range.to),
+                dividends: days.map(day => ({ timestamp: day * DAY_SECONDS, amount: dividendRate(symbol) / 4 })),
+                currency: listingCurrency(symbol).currency
+            };
+        },
+
+        async profile(symbol) {
+            const exchange = exchangeForSymbol(symbol);
+            return {
+                name: `${symbol} Fixture Corp`,
+                ticker: symbol,
+                finnhubIndustry: FIXTURE_SECTORS[hashOf(symbol) % FIXTURE_SECTORS.length],
+                country: exchange.code === 'US' ? 'US' : '',
+                currency: exchange.currency,
+                exchange: exchange.name,
+                weburl: ''
+            };
+        },
+
+        async metrics(symbol) {
+            const base = basePrice(symbol);
+            return {
+                symbol,
+                metric: {
+                    beta: 0.6 + (hashOf(symbol) % 120) / 100,
+                    '52WeekHigh': base * 1.18,
+                    '52WeekLow': base * 0.82,
+                    '10DayAverageTradingVolume': (100000 + (hashOf(symbol) % 800000)) / 1e6
+                }
+            };
+        },
+
+        async news(symbol) {
+            return fixtureNews(symbol, 'company');
+        },
+
+        async marketNews() {
+            return fixtureNews('Market', 'general');
+        },
+
+        async earnings() {
+            return [];
+        },
+
+        async nextEarningsDate(symbol) {
+            const today = startOfToday();
+            return today + (5 + (hashOf(symbol) % 60)) * DAY_SECONDS;
+        },
+
+        async dividends(symbol) {
+            const today = startOfToday() / DAY_SECONDS;
+            const [nextDay] = dividendDays(symbol, today, today + DIVIDEND_CYCLE_DAYS);
+            if (nextDay === undefined) return null;
+
+            const exDate = new Date(nextDay * DAY_SECONDS * 1000);
+            return {
+                exDate,
+                paymentDate: new Date(exDate.getTime() + 14 * DAY_SECONDS * 1000),
+                dividendRate: dividendRate(symbol)
+            };
+        },
+
+        async corporateActions(symbol, { from, to }) {
+            const action = corporateAction(symbol);
+            return action && action.timestamp >= from && action.timestamp <= to ? [action] : [];
+        },
+
+        async forex(from, to) {
+            if (!REFERENCE_USD_RATES[from] || !REFERENCE_USD_RATES[to]) return null;
+            return { rate: REFERENCE_USD_RATES[to] / REFERENCE_USD_RATES[from] };
+        },
+
+        async forexHistory(from, to, range) {
+            if (!REFERENCE_USD_RATES[from] || !REFERENCE_USD_RATES[to]) return null;
+            return series(hashOf(`${from}${to}`), REFERENCE_USD_RATES[to] / REFERENCE_USD_RATES[from], range);
+        },
+
+        async recommendations(symbol) {
+            const seed = hashOf(symbol);
+            const now = new Date();
+            return [{
+                symbol,
+                period: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().split('T')[0],
+                strongBuy: seed % 7,
+                buy: seed % 11,
+                hold: seed % 9,
+                sell: seed % 4,
+                strongSell: seed % 2
+            }];
+        },
+
+        async priceTarget(symbol) {
+            const { price } = snapshot(symbol);
+            return {
+                targetHigh: price * 1.3,
+                targetLow: price * 0.85,
+                targetMean: price * 1.1,
+                targetMedian: price * 1.08,
+                lastUpdated: new Date().toISOString()
+            };
+        },
+
+        async search(query) {
+            const symbol = query.trim().toUpperCase();
+            if (!symbol) return [];
+            return [{ symbol, displaySymbol: symbol, description: `${symbol} Fixture Corp`, type: 'Common Stock' }];
+        }
+    };
+}
+
+/**
+ * Provider by name, as listed in MARKET_DATA_PROVIDERS
+ */
+export function createMarketDataProvider(name) {
+    switch (name) {
+        case 'finnhub': return createFinnhubMarketData();
+        case 'yahoo': return createYahooMarketData();
+        case 'fixtures': return createFixtureMarketData();
+        default: throw new Error(`Unknown market data provider: ${name}`);
+    }
+}
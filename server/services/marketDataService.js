@@ -0,0 +1,211 @@
+import { createMarketDataProvider } from './marketDataProviders.js';
+
+// ============================================
+// MARKET DATA ROUTER
+// ============================================
+// Every capability has an ordered provider list. A request walks the list until a
+// provider returns data; each provider/capability pair has its own circuit breaker
+// so a failing endpoint is skipped for a while instead of slowing every request.
+//
+//   MARKET_DATA_PROVIDERS   enabled providers (default "finnhub,yahoo"; "fixtures" works offline)
+//   MARKET_DATA_PRIORITY    per-capability order, e.g. "quote:yahoo,finnhub;news:yahoo"
+//
+// Enabled providers missing from a capability's list are tried last.
+
+export const CAPABILITIES = [
+    'quote', 'extendedQuotes', 'candles', 'profile', 'metrics', 'news', 'marketNews',
+    'earnings', 'nextEarningsDate', 'dividends', 'corporateActions', 'forex', 'forexHistory',
+    'recommendations', 'priceTarget', 'search'
+];
+
+const DEFAULT_PRIORITY = {
+    quote: ['finnhub', 'yahoo'],
+    extendedQuotes: ['yahoo'],
+    candles: ['yahoo'],
+    profile: ['finnhub', 'yahoo'],
+    metrics: ['finnhub', 'yahoo'],
+    news: ['finnhub', 'yahoo'],
+    marketNews: ['finnhub'],
+    earnings: ['finnhub'],
+    nextEarningsDate: ['yahoo'],
+    dividends: ['yahoo'],
+    corporateActions: ['yahoo', 'finnhub'],
+    forex: ['yahoo'],
+    forexHistory: ['yahoo'],
+    recommendations: ['finnhub', 'yahoo'],
+    priceTarget: ['finnhub', 'yahoo'],
+    search: ['finnhub', 'yahoo']
+};
+
+const BREAKER_FAILURE_THRESHOLD = 5;       // consecutive failures before opening
+const BREAKER_COOLDOWN_MS = 60 * 1000;     // how long an open breaker skips the provider
+const CALL_TIMEOUT_MS = 15 * 1000;         // whole capability call, incl. library clients without their own timeout
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+
+/**
+ * closed → (threshold consecutive failures) → open → (cooldown) → half-open:
+ * one trial request; success closes the breaker, failure re-opens it.
+ */
+function createCircuitBreaker() {
+    let state = 'closed';
+    let consecutiveFailures = 0;
+    let openedAt = null;
+    let trialInFlight = false;
+    const stats = { successes: 0, failures: 0, lastError: null, lastFailureAt: null, lastSuccessAt: null, totalLatencyMs: 0 };
+
+    const open = () => {
+        state = 'open';
+        openedAt = Date.now();
+    };
+
+    return {
+        allowRequest() {
+            if (state === 'open' && Date.now() - openedAt >= BREAKER_COOLDOWN_MS) {
+                state = 'half-open';
+            }
+            if (state === 'closed') return true;
+            if (state === 'half-open' && !trialInFlight) {
+                trialInFlight = true;
+                return true;
+            }
+            return false;
+        },
+        recordSuccess(latencyMs) {
+            state = 'closed';
+            consecutiveFailures = 0;
+            trialInFlight = false;
+            stats.successes++;
+            stats.totalLatencyMs += latencyMs;
+            stats.lastSuccessAt = new Date().toISOString();
+        },
+        recordFailure(error) {
+            consecutiveFailures++;
+            trialInFlight = false;
+            stats.failures++;
+            stats.lastError = error.message;
+            stats.lastFailureAt = new Date().toISOString();
+            if (state === 'half-open' || consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) open();
+        },
+        snapshot() {
+            const { totalLatencyMs, ...rest } = stats;
+            return {
+                state,
+                consecutiveFailures,
+                ...rest,
+                avgLatencyMs: stats.successes > 0 ? Math.round(totalLatencyMs / stats.successes) : null,
+                retryAt: state === 'open' ? new Date(openedAt + BREAKER_COOLDOWN_MS).toISOString() : null
+            };
+        }
+    };
+}
+
+// ============================================
+// REGISTRY (built lazily: dotenv loads after imports)
+// ============================================
+
+let registry = null;
+
+function parsePriorityOverrides(value = '') {
+    return Object.fromEntries(value.split(';')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([capability, list]) => CAPABILITIES.includes(capability) && list)
+        .map(([capability, list]) => [capability, list.split(',').map(name => name.trim()).filter(Boolean)]));
+}
+
+function getRegistry() {
+    if (registry) return registry;
+
+    const names = (process.env.MARKET_DATA_PROVIDERS || 'finnhub,yahoo')
+        .split(',').map(name => name.trim()).filter(Boolean);
+    const providers = new Map(names.map(name => [name, createMarketDataProvider(name)]));
+    const overrides = parsePriorityOverrides(process.env.MARKET_DATA_PRIORITY);
+
+    const chains = Object.fromEntries(CAPABILITIES.map(capability => {
+        const preferred = overrides[capability] || DEFAULT_PRIORITY[capability];
+        const ordered = [...new Set([...preferred, ...names])]
+            .filter(name => typeof providers.get(name)?.[capability] === 'function');
+        return [capability, ordered];
+    }));
+
+    const breakers = new Map();
+    for (const [capability, chain] of Object.entries(chains)) {
+        chain.forEach(name => breakers.set(`${name}:${capability}`, createCircuitBreaker()));
+    }
+
+    console.log(`📡 [MARKET DATA] Providers: ${names.join(', ')}`);
+    registry = { providers, chains, breakers };
+    return registry;
+}
+
+/**
+ * Reject when a call takes longer than ms, so a hung provider counts as a failure
+ */
+function withTimeout(promise, ms) {
+    let timer;
+    const timeout = new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${ms / 1000}s`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run a capability against the first provider that has data.
+ * Resolves null when every provider answered "no data"; throws when none could answer.
+ */
+export async function requestMarketData(capability, ...args) {
+    const { providers, chains, breakers } = getRegistry();
+    const errors = [];
+    let attempted = false;
+
+    for (const name of chains[capability] || []) {
+        const provider = providers.get(name);
+        const breaker = breakers.get(`${name}:${capability}`);
+        if (!provider.configured || !breaker.allowRequest()) continue;
+
+        attempted = true;
+        const startedAt = Date.now();
+        try {
+            const result = await withTimeout(provider[capability](...args), CALL_TIMEOUT_MS);
+            breaker.recordSuccess(Date.now() - startedAt);
+            if (result !== null && result !== undefined) return result;
+        } catch (error) {
+            breaker.recordFailure(error);
+            errors.push(`${name}: ${error.message}`);
+            console.warn(`⚠️ [MARKET DATA] ${name}.${capability} failed: ${error.message}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`${capability} failed (${errors.join('; ')})`);
+    }
+    if (!attempted) {
+        throw new Error(`No market data provider available for ${capability}`);
+    }
+    return null;
+}
+
+/**
+ * Breaker state and call stats per provider and capability, plus the active priorities
+ */
+export function getMarketDataHealth() {
+    const { providers, chains, breakers } = getRegistry();
+
+    const providerHealth = [...providers.values()].map(provider => {
+        const capabilities = Object.fromEntries(CAPABILITIES
+            .filter(capability => breakers.has(`${provider.name}:${capability}`))
+            .map(capability => [capability, breakers.get(`${provider.name}:${capability}`).snapshot()]));
+        const states = Object.values(capabilities).map(snapshot => snapshot.state);
+
+        let status = 'healthy';
+        if (!provider.configured) status = 'unconfigured';
+        else if (states.length > 0 && states.every(state => state === 'open')) status = 'down';
+        else if (states.some(state => state !== 'closed')) status = 'degraded';
+
+        return { name: provider.name, status, capabilities };
+    });
+
+    return { providers: providerHealth, priorities: chains };
+}
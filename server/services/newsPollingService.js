@@ -11,15 +11,12 @@ const MAX_BUFFER_SIZE = 20; // 5 pages x 4 items per page
 const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 const NEWS_PER_TICKER = 10; // Max news items per ticker
 
-// Rolling buffer of news items per user
-const newsBuffer = new Map(); // userId -> NewsItem[]
+// Rolling buffer of news items per user + active portfolio
+const newsBuffer = new Map(); // `${userId}` or `${userId}:${portfolioId}` -> NewsItem[]
 
 // Global buffer of recent news (for new connections)
 let globalRecentNews = [];
 
-// Track already-seen items to avoid duplicates
-const seenItems = new Set();
-
 /**
  * Sanitize HTML content - remove all HTML tags
  */
@@ -51,18 +48,24 @@ async function getAllActiveTickers() {
 }
 
 /**
- * Get tickers for a specific user
+ * Get tickers for a specific user (limited to one portfolio when portfolioId is set)
  */
-async function getUserTickers(userId) {
+async function getUserTickers(userId, portfolioId = null) {
   try {
-    const positions = await Position.find({ user: userId }, 'symbol').lean();
-    return positions.map(p => p.symbol.toUpperCase());
+    return await Position.symbolsForScope(userId, portfolioId);
   } catch (error) {
     console.error(`❌ Error fetching tickers for user ${userId}:`, error.message);
     return [];
   }
 }
 
+/**
+ * Buffer key for a socket's scope (user, or user + active portfolio)
+ */
+function scopeKey(socket) {
+  return socket.portfolioId ? `${socket.userId}:${socket.portfolioId}` : socket.userId;
+}
+
 /**
  * Fetch news from Finnhub for a specific ticker
  */
@@ -98,20 +101,22 @@ async function fetchFinnhubNews(ticker) {
 }
 
 /**
- * Add news items to user's buffer - maintains chronological order (newest first)
+ * Add news items to a scope's buffer - maintains chronological order (newest first)
  */
-function addToBuffer(userId, items) {
-  if (!newsBuffer.has(userId)) {
-    newsBuffer.set(userId, []);
+function addToBuffer(key, items) {
+  if (!newsBuffer.has(key)) {
+    newsBuffer.set(key, []);
   }
 
-  const buffer = newsBuffer.get(userId);
+  const buffer = newsBuffer.get(key);
   const now = Date.now();
 
   // Add new items (only if not seen before)
+  // Dedup within this buffer (the same item may land in several scopes)
+  const bufferIds = new Set(buffer.map(item => item.id));
   items.forEach(item => {
-    if (!seenItems.has(item.id)) {
-      seenItems.add(item.id);
+    if (!bufferIds.has(item.id)) {
+      bufferIds.add(item.id);
       buffer.push(item);
     }
   });
@@ -122,15 +127,15 @@ function addToBuffer(userId, items) {
     .filter(item => (now - new Date(item.pubDate).getTime()) < MAX_AGE_MS)
     .slice(0, MAX_BUFFER_SIZE);
 
-  newsBuffer.set(userId, sorted);
+  newsBuffer.set(key, sorted);
   return sorted;
 }
 
 /**
- * Get buffered news for a user
+ * Get buffered news for a scope
  */
-function getBufferedNews(userId) {
-  return newsBuffer.get(userId) || [];
+function getBufferedNews(key) {
+  return newsBuffer.get(key) || [];
 }
 
 /**
@@ -204,7 +209,7 @@ async function pollNews(io) {
   for (const socket of sockets) {
     if (!socket.userId) continue;
 
-    const userTickers = await getUserTickers(socket.userId);
+    const userTickers = await getUserTickers(socket.userId, socket.portfolioId);
     if (userTickers.length === 0) continue;
 
     // Filter news to only items matching user's portfolio
@@ -217,13 +222,13 @@ async function pollNews(io) {
     if (userItems.length === 0) continue;
 
     // Check for new items not in user's buffer
-    const existingBuffer = getBufferedNews(socket.userId);
+    const existingBuffer = getBufferedNews(scopeKey(socket));
     const existingIds = new Set(existingBuffer.map(item => item.id));
     const newItems = userItems.filter(item => !existingIds.has(item.id));
 
     if (newItems.length > 0) {
       // Add to buffer and emit
-      const updatedBuffer = addToBuffer(socket.userId, newItems);
+      const updatedBuffer = addToBuffer(scopeKey(socket), newItems);
 
       // Format for frontend
       const formattedItems = updatedBuffer.map(item => ({
@@ -241,6 +246,69 @@ async function pollNews(io) {
   }
 }
 
+/**
+ * Send the buffered news for the socket's active portfolio.
+ * Falls back to recent global news when the buffer is empty.
+ *
+ * @param {boolean} always - emit even when empty (portfolio switch must clear the feed)
+ */
+export async function sendBufferedNews(socket, always = false) {
+  if (!socket.userId) return;
+
+  // Get user's tickers (active portfolio only, if one is selected)
+  const userTickers = await getUserTickers(socket.userId, socket.portfolioId);
+  const userTickerSet = new Set(userTickers);
+  const key = scopeKey(socket);
+
+  let buffer = getBufferedNews(key);
+
+  // If buffer is empty, use global news (all items, sorted by date)
+  if (buffer.length === 0 && globalRecentNews.length > 0) {
+    // Take ALL global news items and sort by date (newest first)
+    buffer = [...globalRecentNews]
+      .sort((a, b) => new Date(b.pubDate) - new Date(a.pubDate))
+      .slice(0, MAX_BUFFER_SIZE);
+
+    // A specific portfolio only gets news for its own holdings
+    if (socket.portfolioId) {
+      buffer = buffer.filter(item =>
+        item.tickers.some(t => userTickerSet.has(t)) ||
+        item.related?.some(t => userTickerSet.has(t))
+      );
+    }
+
+    // Mark matching tickers for highlighting
+    buffer = buffer.map(item => ({
+      ...item,
+      tickers: item.tickers.filter(t => userTickerSet.has(t)).length > 0
+        ? item.tickers.filter(t => userTickerSet.has(t))
+        : item.tickers
+    }));
+
+    if (buffer.length > 0) {
+      addToBuffer(key, buffer);
+    }
+  }
+
+  console.log(`📦 Buffer has ${buffer.length} items for ${key}`);
+
+  if (buffer.length > 0 || always) {
+    // Sort by date (newest first) before sending
+    const sortedBuffer = [...buffer].sort((a, b) => new Date(b.pubDate) - new Date(a.pubDate));
+
+    const formattedItems = sortedBuffer.map(item => ({
+      ...item,
+      relativeTime: formatRelativeTime(item.pubDate)
+    }));
+
+    socket.emit('market-news-update', {
+      items: formattedItems,
+      newCount: 0 // Not new on initial connect / switch
+    });
+    console.log(`📤 Sent ${buffer.length} buffered news items to ${key}`);
+  }
+}
+
 /**
  * Start the news polling service
  */
@@ -260,52 +328,7 @@ export function startNewsPollingService(io) {
   io.on('connection', async (socket) => {
     console.log(`🔌 Socket connected: ${socket.id} (User: ${socket.userId})`);
 
-    if (socket.userId) {
-      // Get user's tickers
-      const userTickers = await getUserTickers(socket.userId);
-      const userTickerSet = new Set(userTickers);
-
-      // Send buffered news on connect
-      let buffer = getBufferedNews(socket.userId);
-
-      // If user buffer is empty, use global news (all items, sorted by date)
-      if (buffer.length === 0 && globalRecentNews.length > 0) {
-        // Take ALL global news items and sort by date (newest first)
-        buffer = [...globalRecentNews]
-          .sort((a, b) => new Date(b.pubDate) - new Date(a.pubDate))
-          .slice(0, MAX_BUFFER_SIZE);
-
-        // Mark matching tickers for highlighting
-        buffer = buffer.map(item => ({
-          ...item,
-          tickers: item.tickers.filter(t => userTickerSet.has(t)).length > 0
-            ? item.tickers.filter(t => userTickerSet.has(t))
-            : item.tickers
-        }));
-
-        if (buffer.length > 0) {
-          addToBuffer(socket.userId, buffer);
-        }
-      }
-
-      console.log(`📦 Buffer has ${buffer.length} items for user ${socket.userId}`);
-
-      if (buffer.length > 0) {
-        // Sort by date (newest first) before sending
-        const sortedBuffer = [...buffer].sort((a, b) => new Date(b.pubDate) - new Date(a.pubDate));
-
-        const formattedItems = sortedBuffer.map(item => ({
-          ...item,
-          relativeTime: formatRelativeTime(item.pubDate)
-        }));
-
-        socket.emit('market-news-update', {
-          items: formattedItems,
-          newCount: 0 // Not new on initial connect
-        });
-        console.log(`📤 Sent ${buffer.length} buffered news items to user ${socket.userId}`);
-      }
-    }
+    await sendBufferedNews(socket);
 
     socket.on('disconnect', () => {
       console.log(`🔌 Socket disconnected: ${socket.id}`);
@@ -314,7 +337,7 @@ export function startNewsPollingService(io) {
     // Handle manual refresh request
     socket.on('request-news-refresh', async () => {
       if (socket.userId) {
-        const buffer = getBufferedNews(socket.userId);
+        const buffer = getBufferedNews(scopeKey(socket));
         const formattedItems = buffer.map(item => ({
           ...item,
           relativeTime: formatRelativeTime(item.pubDate)
@@ -330,4 +353,4 @@ export function startNewsPollingService(io) {
   });
 }
 
-export default { startNewsPollingService };
+export default { startNewsPollingService, sendBufferedNews };
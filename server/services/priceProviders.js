@@ -0,0 +1,174 @@
+import WebSocket from 'ws';
+
+/**
+ * Price providers feed the price stream hub. Each one is a plain object:
+ *
+ *   name                  label for logs
+ *   connect()             open the upstream feed (reconnects on its own until close())
+ *   subscribe(symbol)     start receiving trades for a symbol
+ *   unsubscribe(symbol)   stop receiving trades for a symbol
+ *   onTrade(callback)     callback({ symbol, price, volume, timestamp }); returns an unsubscribe fn
+ *   close()               tear down the feed
+ *
+ * The fake provider also has trade(trade) to push a trade by hand (tests).
+ *
+ * Select one with PRICE_STREAM_PROVIDER=finnhub|fake (default finnhub).
+ */
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60 * 1000;
+
+// ============================================
+// FINNHUB (one upstream WebSocket for the whole server)
+// ============================================
+
+export function createFinnhubProvider(apiKey = process.env.FINNHUB_API_KEY) {
+    const symbols = new Set();
+    const listeners = new Set();
+    let ws = null;
+    let reconnectAttempts = 0;
+    let reconnectTimer = null;
+    let closed = false;
+
+    const send = (type, symbol) => {
+        if (ws?.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({ type, symbol }));
+        }
+    };
+
+    // Exponential backoff with jitter, capped — never gives up
+    const scheduleReconnect = () => {
+        if (closed || reconnectTimer) return;
+        const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** reconnectAttempts) * (0.5 + Math.random() / 2);
+        reconnectAttempts++;
+        console.log(`📈 [FINNHUB] Reconnecting in ${Math.round(delay / 1000)}s (attempt ${reconnectAttempts})`);
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, delay);
+    };
+
+    function connect() {
+        if (!apiKey) {
+            console.error('❌ [FINNHUB] FINNHUB_API_KEY not set, price stream disabled');
+            return;
+        }
+        closed = false;
+
+        ws = new WebSocket(`wss://ws.finnhub.io?token=${apiKey}`);
+
+        ws.on('open', () => {
+            console.log(`📈 [FINNHUB] Connected, subscribing ${symbols.size} symbols`);
+            reconnectAttempts = 0;
+            symbols.forEach(symbol => send('subscribe', symbol));
+        });
+
+        ws.on('message', (raw) => {
+            try {
+                const message = JSON.parse(raw.toString());
+                if (message.type !== 'trade' || !Array.isArray(message.data)) return;
+
+                for (const trade of message.data) {
+                    const tick = { symbol: trade.s, price: trade.p, volume: trade.v || 0, timestamp: trade.t };
+                    listeners.forEach(callback => callback(tick));
+                }
+            } catch (error) {
+                console.error('❌ [FINNHUB] Bad message:', error.message);
+            }
+        });
+
+        ws.on('error', (error) => {
+            console.error('❌ [FINNHUB] WebSocket error:', error.message);
+        });
+
+        ws.on('close', () => {
+            ws = null;
+            if (!closed) {
+                console.log('📈 [FINNHUB] Disconnected');
+                scheduleReconnect();
+            }
+        });
+    }
+
+    return {
+        name: 'finnhub',
+        connect,
+        subscribe(symbol) {
+            symbols.add(symbol);
+            send('subscribe', symbol);
+        },
+        unsubscribe(symbol) {
+            symbols.delete(symbol);
+            send('unsubscribe', symbol);
+        },
+        onTrade(callback) {
+            listeners.add(callback);
+            return () => listeners.delete(callback);
+        },
+        close() {
+            closed = true;
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+            ws?.close();
+        }
+    };
+}
+
+// ============================================
+// FAKE (local random walk, for development and tests)
+// ============================================
+
+export function createFakeProvider({ intervalMs = 500, startPrices = {}, volatility = 0.001 } = {}) {
+    const prices = new Map();
+    const listeners = new Set();
+    let timer = null;
+
+    const publish = (trade) => listeners.forEach(callback => callback(trade));
+
+    const tick = () => {
+        const timestamp = Date.now();
+        for (const [symbol, price] of prices) {
+            const next = Math.max(0.01, price * (1 + (Math.random() * 2 - 1) * volatility));
+            prices.set(symbol, next);
+            publish({ symbol, price: Number(next.toFixed(4)), volume: Math.ceil(Math.random() * 500), timestamp });
+        }
+    };
+
+    return {
+        name: 'fake',
+        connect() {
+            if (!timer) timer = setInterval(tick, intervalMs);
+        },
+        subscribe(symbol) {
+            if (!prices.has(symbol)) prices.set(symbol, startPrices[symbol] ?? 100);
+        },
+        unsubscribe(symbol) {
+            prices.delete(symbol);
+        },
+        onTrade(callback) {
+            listeners.add(callback);
+            return () => listeners.delete(callback);
+        },
+        // Only subscribed symbols trade, like upstream
+        trade({ symbol, price, volume = 0, timestamp = Date.now() }) {
+            if (!prices.has(symbol)) return;
+            prices.set(symbol, price);
+            publish({ symbol, price, volume, timestamp });
+        },
+        close() {
+            clearInterval(timer);
+            timer = null;
+        }
+    };
+}
+
+/**
+ * Provider picked by PRICE_STREAM_PROVIDER
+ */
+export function createPriceProvider(name = process.env.PRICE_STREAM_PROVIDER || 'finnhub') {
+    switch (name) {
+        case 'fake': return createFakeProvider();
+        case 'finnhub': return createFinnhubProvider();
+        default: throw new Error(`Unknown price provider: ${name}`);
+    }
+}
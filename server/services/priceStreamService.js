@@ -0,0 +1,138 @@
+import { createPriceProvider } from './priceProviders.js';
+import { exchangeForSymbol } from './exchangeService.js';
+
+// ============================================
+// PRICE STREAM HUB
+// ============================================
+// One upstream provider connection for the whole server. Sockets join a
+// `price:<SYMBOL>` room per symbol they watch; the provider is subscribed while
+// a room exists. Trades are aggregated per symbol and flushed on an interval so
+// busy tickers don't flood the browser.
+
+const ROOM_PREFIX = 'price:';
+const FLUSH_INTERVAL_MS = 1000;
+const MAX_SYMBOLS_PER_SOCKET = 200;
+const SYMBOL_PATTERN = /^[A-Z0-9.\-^=]{1,20}$/;
+
+let provider = null;
+let flushTimer = null;
+const pending = new Map();   // symbol -> aggregated tick since the last flush
+const lastTicks = new Map(); // symbol -> last flushed tick (snapshot for new subscribers)
+
+const roomFor = (symbol) => `${ROOM_PREFIX}${symbol}`;
+
+/**
+ * Keep the symbols a socket asked for that the upstream feed actually carries
+ */
+function streamableSymbols(symbols) {
+    if (!Array.isArray(symbols)) return [];
+    return [...new Set(symbols
+        .filter(symbol => typeof symbol === 'string')
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(symbol => SYMBOL_PATTERN.test(symbol) && exchangeForSymbol(symbol).streaming))];
+}
+
+/**
+ * Fold a trade into the pending aggregate for its symbol
+ */
+function recordTrade({ symbol, price, volume, timestamp }) {
+    const current = pending.get(symbol);
+    if (!current) {
+        pending.set(symbol, { symbol, price, volume, high: price, low: price, trades: 1, timestamp });
+        return;
+    }
+    current.price = price;
+    current.volume += volume;
+    current.high = Math.max(current.high, price);
+    current.low = Math.min(current.low, price);
+    current.trades++;
+    current.timestamp = timestamp;
+}
+
+/**
+ * Emit one aggregated update per symbol to its room
+ */
+function flush(io) {
+    if (pending.size === 0) return;
+    for (const tick of pending.values()) {
+        lastTicks.set(tick.symbol, tick);
+        io.to(roomFor(tick.symbol)).emit('price-update', tick);
+    }
+    pending.clear();
+}
+
+function subscribeSocket(socket, symbols) {
+    const joinable = streamableSymbols(symbols)
+        .slice(0, Math.max(0, MAX_SYMBOLS_PER_SOCKET - (socket.rooms.size - 1)));
+    if (joinable.length === 0) return;
+
+    socket.join(joinable.map(roomFor));
+
+    // Last known price so the client doesn't wait for the next trade
+    joinable.forEach(symbol => {
+        const tick = lastTicks.get(symbol);
+        if (tick) socket.emit('price-update', tick);
+    });
+}
+
+function unsubscribeSocket(socket, symbols) {
+    streamableSymbols(symbols).forEach(symbol => socket.leave(roomFor(symbol)));
+}
+
+/**
+ * Start the price stream hub
+ * @param {Server} io - Socket.io server
+ * @param {object} [priceProvider] - Provider (see priceProviders.js); defaults to PRICE_STREAM_PROVIDER
+ */
+export function startPriceStreamService(io, priceProvider = createPriceProvider()) {
+    provider = priceProvider;
+    const adapter = io.of('/').adapter;
+
+    console.log('');
+    console.log('========================================');
+    console.log('📈 PRICE STREAM SERVICE STARTED');
+    console.log('========================================');
+    console.log(`   🔌 Provider: ${provider.name}`);
+    console.log(`   ⏱️ Flush interval: ${FLUSH_INTERVAL_MS}ms`);
+    console.log('========================================');
+    console.log('');
+
+    // Upstream subscriptions follow room lifetime: first watcher subscribes, last one leaving unsubscribes
+    adapter.on('create-room', (room) => {
+        if (!room.startsWith(ROOM_PREFIX)) return;
+        const symbol = room.slice(ROOM_PREFIX.length);
+        console.log(`📈 [PRICES] Subscribing ${symbol}`);
+        provider.subscribe(symbol);
+    });
+
+    adapter.on('delete-room', (room) => {
+        if (!room.startsWith(ROOM_PREFIX)) return;
+        const symbol = room.slice(ROOM_PREFIX.length);
+        console.log(`📈 [PRICES] Unsubscribing ${symbol}`);
+        provider.unsubscribe(symbol);
+        pending.delete(symbol);
+        lastTicks.delete(symbol);
+    });
+
+    provider.onTrade(recordTrade);
+    provider.connect();
+
+    flushTimer = setInterval(() => flush(io), FLUSH_INTERVAL_MS);
+
+    io.on('connection', (socket) => {
+        socket.on('prices-subscribe', ({ symbols } = {}) => subscribeSocket(socket, symbols));
+        socket.on('prices-unsubscribe', ({ symbols } = {}) => unsubscribeSocket(socket, symbols));
+    });
+}
+
+/**
+ * Close the upstream connection (graceful shutdown)
+ */
+export function stopPriceStreamService() {
+    clearInterval(flushTimer);
+    flushTimer = null;
+    provider?.close();
+    provider = null;
+    pending.clear();
+    lastTicks.clear();
+}
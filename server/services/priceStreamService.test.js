@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeProvider } from './priceProviders.js';
+import { startPriceStreamService, stopPriceStreamService } from './priceStreamService.js';
+
+/**
+ * Just enough of a Socket.io server for the hub: an adapter that reports room creation and
+ * deletion, room broadcasts, and sockets that record what they were sent
+ */
+function createFakeIo() {
+    const io = new EventEmitter();
+    const adapter = new EventEmitter();
+    const rooms = new Map(); // room -> Set<socket>
+
+    io.of = () => ({ adapter });
+    io.to = (room) => ({
+        emit: (event, payload) => rooms.get(room)?.forEach(socket => socket.received.push({ event, payload }))
+    });
+
+    io.connectSocket = (id) => {
+        const socket = new EventEmitter();
+        socket.id = id;
+        socket.rooms = new Set([id]);
+        socket.received = [];
+        // Server -> client
+        socket.emit = (event, payload) => socket.received.push({ event, payload });
+        // Client -> server
+        socket.send = (event, payload) => EventEmitter.prototype.emit.call(socket, event, payload);
+        socket.join = (names) => [].concat(names).forEach(room => {
+            if (!rooms.has(room)) {
+                rooms.set(room, new Set());
+                adapter.emit('create-room', room);
+            }
+            rooms.get(room).add(socket);
+            socket.rooms.add(room);
+        });
+        socket.leave = (room) => {
+            rooms.get(room)?.delete(socket);
+            socket.rooms.delete(room);
+            if (rooms.get(room)?.size === 0) {
+                rooms.delete(room);
+                adapter.emit('delete-room', room);
+            }
+        };
+        io.emit('connection', socket);
+        return socket;
+    };
+
+    return io;
+}
+
+const priceUpdates = (socket) => socket.received.filter(m => m.event === 'price-update').map(m => m.payload);
+
+describe('price stream hub', () => {
+    let io;
+    let provider;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        io = createFakeIo();
+        // Random-walk ticks far apart so only the trades pushed by the tests arrive
+        provider = createFakeProvider({ intervalMs: 60 * 60 * 1000 });
+        startPriceStreamService(io, provider);
+    });
+
+    afterEach(() => {
+        stopPriceStreamService();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('aggregates the trades of a second into one update per symbol', () => {
+        const socket = io.connectSocket('a');
+        socket.send('prices-subscribe', { symbols: ['aapl', 'MSFT'] });
+
+        provider.trade({ symbol: 'AAPL', price: 100, volume: 10, timestamp: 1 });
+        provider.trade({ symbol: 'AAPL', price: 103, volume: 5, timestamp: 2 });
+        provider.trade({ symbol: 'AAPL', price: 101, volume: 1, timestamp: 3 });
+
+        vi.advanceTimersByTime(999);
+        expect(priceUpdates(socket)).toEqual([]);
+
+        vi.advanceTimersByTime(1);
+        expect(priceUpdates(socket)).toEqual([
+            { symbol: 'AAPL', price: 101, volume: 16, high: 103, low: 100, trades: 3, timestamp: 3 }
+        ]);
+
+        // Nothing traded since: nothing sent on the next flush
+        vi.advanceTimersByTime(1000);
+        expect(priceUpdates(socket)).toHaveLength(1);
+    });
+
+    it('only sends a symbol to the sockets watching it', () => {
+        const watching = io.connectSocket('a');
+        const other = io.connectSocket('b');
+        watching.send('prices-subscribe', { symbols: ['AAPL'] });
+        other.send('prices-subscribe', { symbols: ['MSFT'] });
+
+        provider.trade({ symbol: 'AAPL', price: 100, volume: 1 });
+        vi.advanceTimersByTime(1000);
+
+        expect(priceUpdates(watching).map(t => t.symbol)).toEqual(['AAPL']);
+        expect(priceUpdates(other)).toEqual([]);
+    });
+
+    it('stops the upstream symbol when its last watcher leaves', () => {
+        const first = io.connectSocket('a');
+        const second = io.connectSocket('b');
+        first.send('prices-subscribe', { symbols: ['AAPL'] });
+        second.send('prices-subscribe', { symbols: ['AAPL'] });
+
+        first.send('prices-unsubscribe', { symbols: ['AAPL'] });
+        provider.trade({ symbol: 'AAPL', price: 100, volume: 1 });
+        vi.advanceTimersByTime(1000);
+        expect(priceUpdates(second)).toHaveLength(1);
+
+        second.send('prices-unsubscribe', { symbols: ['AAPL'] });
+        provider.trade({ symbol: 'AAPL', price: 105, volume: 1 });
+        vi.advanceTimersByTime(1000);
+        expect(priceUpdates(second)).toHaveLength(1);
+    });
+
+    it('sends the last flushed price to a late subscriber right away', () => {
+        const early = io.connectSocket('a');
+        early.send('prices-subscribe', { symbols: ['AAPL'] });
+        provider.trade({ symbol: 'AAPL', price: 100, volume: 1 });
+        vi.advanceTimersByTime(1000);
+
+        const late = io.connectSocket('b');
+        late.send('prices-subscribe', { symbols: ['AAPL'] });
+        expect(priceUpdates(late).map(t => t.price)).toEqual([100]);
+    });
+});
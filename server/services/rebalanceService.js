@@ -0,0 +1,222 @@
+/**
+ * Rebalancing Service
+ * Compares holdings with a portfolio's target allocation and proposes the trades that
+ * bring it back:
+ * - Groups: targets are set per symbol, sector or position tag. Holdings in a group without
+ *   a target have a 0% target; weights under 100% leave the rest as a cash target.
+ * - Drift: a group is out of band when its weight is further from target than its band
+ *   (percentage points). Bands say when to rebalance; a plan always aims at the targets.
+ * - full: sells overweight holdings and buys underweight ones, with the given cash on top.
+ * - buyOnly: no sales; the cash is spread over underweight holdings in proportion to their
+ *   shortfall (all of it when the cash covers every shortfall).
+ * A group's target is split over its holdings in proportion to their current value.
+ * Without fractional shares buys are rounded down and sells to the nearest share, then any
+ * cash left buys single shares of the most underweight holdings it can afford while that
+ * gets them closer to target.
+ * Prices and amounts are USD.
+ */
+
+// Trades smaller than this are left out
+const MIN_TRADE_USD = 1;
+const SHARE_DECIMALS = 4;
+
+const UNGROUPED = {
+    sector: 'Unknown',
+    tag: 'Untagged'
+};
+
+const roundShares = (quantity) => Number(quantity.toFixed(SHARE_DECIMALS));
+const round2 = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Group a holding belongs to: its symbol, its sector, or its first tag that has a target
+ */
+function groupOf(holding, groupBy, targetKeys) {
+    if (groupBy === 'sector') return holding.sector || UNGROUPED.sector;
+    if (groupBy === 'tag') return (holding.tags || []).find(tag => targetKeys.has(tag)) || holding.tags?.[0] || UNGROUPED.tag;
+    return holding.symbol;
+}
+
+/**
+ * Current weights against the targets
+ *
+ * @param {Array} holdings - [{ symbol, quantity, price, sector, tags }]; price USD, null when unknown
+ * @param {Object} allocation - { groupBy, targets: [{ key, weight, band }], driftBand }
+ * @param {number} cash - Cash counted towards the total (and the cash target)
+ */
+export function measureAllocation(holdings, allocation, cash = 0) {
+    const { groupBy = 'symbol', targets = [], driftBand = 5 } = allocation || {};
+    const targetByKey = new Map(targets.map(t => [groupBy === 'symbol' ? t.key.toUpperCase() : t.key, t]));
+    const targetKeys = new Set(targetByKey.keys());
+
+    const priced = holdings.map(h => ({ ...h, value: h.price ? h.quantity * h.price : 0, group: groupOf(h, groupBy, targetKeys) }));
+    const total = priced.reduce((sum, h) => sum + h.value, 0) + Math.max(0, cash);
+
+    const keys = [...new Set([...targetKeys, ...priced.filter(h => h.value > 0).map(h => h.group)])];
+    const targetSum = targets.reduce((sum, t) => sum + t.weight, 0);
+
+    const groups = keys.map(key => {
+        const target = targetByKey.get(key);
+        const members = priced.filter(h => h.group === key);
+        const value = members.reduce((sum, h) => sum + h.value, 0);
+        const currentPct = total > 0 ? (value / total) * 100 : 0;
+        const targetPct = target ? target.weight : 0;
+        const band = target?.band ?? driftBand;
+        const drift = currentPct - targetPct;
+        return {
+            key,
+            symbols: members.map(h => h.symbol),
+            value: round2(value),
+            currentPct: round2(currentPct),
+            targetPct,
+            band,
+            drift: round2(drift),
+            outOfBand: Math.abs(drift) > band,
+            hasTarget: Boolean(target)
+        };
+    }).sort((a, b) => b.targetPct - a.targetPct || b.value - a.value);
+
+    const cashTargetPct = Math.max(0, 100 - targetSum);
+    const cashPct = total > 0 ? (Math.max(0, cash) / total) * 100 : 0;
+
+    return {
+        groupBy,
+        total: round2(total),
+        groups,
+        cash: {
+            value: round2(Math.max(0, cash)),
+            currentPct: round2(cashPct),
+            targetPct: round2(cashTargetPct),
+            drift: round2(cashPct - cashTargetPct)
+        },
+        targetSum: round2(targetSum),
+        needsRebalance: groups.some(g => g.outOfBand),
+        priced
+    };
+}
+
+/**
+ * Target value per holding: each group's target split by current value
+ * (evenly when nothing in the group is held yet)
+ */
+function holdingTargets(measured) {
+    const desired = new Map();
+    const notes = [];
+
+    for (const group of measured.groups) {
+        const groupValue = (group.targetPct / 100) * measured.total;
+        const members = measured.priced.filter(h => h.group === group.key && h.price);
+        if (members.length === 0) {
+            if (groupValue > 0) notes.push(`Nothing held in ${group.key} to buy into; add a holding to it first`);
+            continue;
+        }
+        const held = members.reduce((sum, h) => sum + h.value, 0);
+        for (const h of members) {
+            const share = held > 0 ? h.value / held : 1 / members.length;
+            desired.set(h.symbol, (desired.get(h.symbol) || 0) + groupValue * share);
+        }
+    }
+
+    const unpriced = measured.priced.filter(h => !h.price && h.quantity > 0).map(h => h.symbol);
+    if (unpriced.length > 0) notes.push(`No price for ${unpriced.join(', ')}; left out of the plan`);
+
+    return { desired, notes };
+}
+
+/**
+ * Propose trades back to the target allocation
+ *
+ * @param {Array} holdings - [{ symbol, name, quantity, price, sector, tags }]
+ * @param {Object} allocation - Portfolio allocation settings
+ * @param {Object} options - { cash, mode: 'full'|'buyOnly', fractional }
+ */
+export function planRebalance(holdings, allocation, { cash = 0, mode = 'full', fractional = false } = {}) {
+    const available = Math.max(0, Number(cash) || 0);
+    const measured = measureAllocation(holdings, allocation, available);
+    const { desired, notes } = holdingTargets(measured);
+
+    const rows = measured.priced
+        .filter(h => h.price)
+        .map(h => ({ ...h, gap: (desired.get(h.symbol) || 0) - h.value }));
+
+    // --- Sells (full mode only) ---
+    const trades = [];
+    let budget = available;
+    if (mode === 'full') {
+        for (const row of rows.filter(r => r.gap < 0)) {
+            let quantity = -row.gap / row.price;
+            quantity = fractional ? roundShares(quantity) : Math.round(quantity);
+            // Selling (almost) everything closes the position, odd fractions included
+            if (quantity >= row.quantity || row.quantity - quantity < 10 ** -SHARE_DECIMALS) quantity = row.quantity;
+            if (quantity <= 0 || quantity * row.price < MIN_TRADE_USD) continue;
+            trades.push({ symbol: row.symbol, name: row.name, group: row.group, side: 'sell', quantity, price: row.price });
+            budget += quantity * row.price;
+            row.gap += quantity * row.price;
+        }
+    }
+
+    // --- Buys: the shortfalls, scaled down to what the budget covers ---
+    const short = rows.filter(r => r.gap > 0);
+    const shortfall = short.reduce((sum, r) => sum + r.gap, 0);
+    const scale = shortfall > budget ? budget / shortfall : 1;
+    const buys = new Map();
+    for (const row of short) {
+        const amount = row.gap * scale;
+        const quantity = fractional ? Math.floor((amount / row.price) * 10 ** SHARE_DECIMALS) / 10 ** SHARE_DECIMALS : Math.floor(amount / row.price);
+        if (quantity <= 0) continue;
+        buys.set(row.symbol, quantity);
+        budget -= quantity * row.price;
+        row.gap -= quantity * row.price;
+    }
+
+    // Whole shares: spend what rounding left on the most underweight holding that still fits,
+    // as long as one more share lands closer to its target than stopping short
+    if (!fractional) {
+        for (let guard = 0; guard < 1000; guard++) {
+            const next = rows
+                .filter(r => r.gap > r.price / 2 && r.price <= budget + 1e-9)
+                .sort((a, b) => b.gap - a.gap)[0];
+            if (!next) break;
+            buys.set(next.symbol, (buys.get(next.symbol) || 0) + 1);
+            budget -= next.price;
+            next.gap -= next.price;
+        }
+    }
+
+    for (const row of rows) {
+        const quantity = buys.get(row.symbol);
+        if (!quantity || quantity * row.price < MIN_TRADE_USD) continue;
+        trades.push({ symbol: row.symbol, name: row.name, group: row.group, side: 'buy', quantity, price: row.price });
+    }
+
+    for (const trade of trades) trade.amount = round2(trade.quantity * trade.price);
+
+    // --- Weights after the trades ---
+    const after = new Map(measured.priced.map(h => [h.symbol, h.quantity]));
+    for (const trade of trades) after.set(trade.symbol, after.get(trade.symbol) + (trade.side === 'buy' ? trade.quantity : -trade.quantity));
+    const afterHoldings = measured.priced.map(h => ({ ...h, quantity: after.get(h.symbol) }));
+    const cashAfter = Math.max(0, budget);
+    const afterMeasured = measureAllocation(afterHoldings, allocation, cashAfter);
+    const afterByKey = new Map(afterMeasured.groups.map(g => [g.key, g]));
+
+    const sold = trades.filter(t => t.side === 'sell').reduce((sum, t) => sum + t.amount, 0);
+    const bought = trades.filter(t => t.side === 'buy').reduce((sum, t) => sum + t.amount, 0);
+
+    return {
+        mode,
+        fractional,
+        groupBy: measured.groupBy,
+        total: measured.total,
+        needsRebalance: measured.needsRebalance,
+        targetSum: measured.targetSum,
+        groups: measured.groups.map(g => ({
+            ...g,
+            afterPct: afterByKey.get(g.key)?.currentPct ?? 0,
+            afterOutOfBand: afterByKey.get(g.key)?.outOfBand ?? false
+        })),
+        cash: { ...measured.cash, after: round2(cashAfter), afterPct: afterMeasured.cash.currentPct },
+        trades: trades.sort((a, b) => (a.side === b.side ? b.amount - a.amount : a.side === 'sell' ? -1 : 1)),
+        totals: { sold: round2(sold), bought: round2(bought), net: round2(sold - bought) },
+        notes
+    };
+}
@@ -0,0 +1,134 @@
+/**
+ * Money-Weighted Return Service
+ * XIRR: the annual rate at which the dated cash flows (buys out, sales in, today's market value
+ * in) net to zero. Unlike the time-weighted return it rewards or punishes the timing and size of
+ * contributions, so the two differ for anyone who added money over time.
+ * The solver brackets the root and bisects when Newton's method steps outside it, and reports why
+ * no rate exists instead of returning a misleading number.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-7;
+// Search range for the annual rate: -99.99% to +1,000,000%
+const MIN_RATE = -0.9999;
+const MAX_RATE = 1e4;
+
+// Why there is no rate
+export const XIRR_STATUSES = {
+    ok: 'ok',
+    sameSign: 'sameSign', // Only money in or only money out: no rate can balance the flows
+    noRoot: 'noRoot', // The flows never net to zero within the search range
+    noConvergence: 'noConvergence',
+    tooShort: 'tooShort' // Less than a day between the first and last flow
+};
+
+const round = (value, digits = 2) => (value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits)));
+
+/**
+ * Net present value of the flows at an annual rate, and its derivative
+ */
+function npv(flows, rate) {
+    let value = 0;
+    let derivative = 0;
+    for (const { years, amount } of flows) {
+        const discount = (1 + rate) ** years;
+        value += amount / discount;
+        derivative -= (years * amount) / (discount * (1 + rate));
+    }
+    return { value, derivative };
+}
+
+/**
+ * Annual rate that sets the NPV of dated cash flows to zero
+ *
+ * @param {Array} cashFlows - [{ date, amount }]; negative = money in (buys), positive = money out (sales, final value)
+ * @param {Object} options - guess: starting rate; maxIterations: solver steps before giving up
+ * @returns {{ rate: number|null, status: string, iterations: number }}
+ */
+export function xirr(cashFlows, { guess = 0.1, maxIterations = MAX_ITERATIONS } = {}) {
+    const dated = cashFlows
+        .map(cf => ({ time: new Date(cf.date).getTime(), amount: Number(cf.amount) }))
+        .filter(cf => Number.isFinite(cf.time) && Number.isFinite(cf.amount) && cf.amount !== 0)
+        .sort((a, b) => a.time - b.time);
+
+    if (!dated.some(cf => cf.amount < 0) || !dated.some(cf => cf.amount > 0)) {
+        return { rate: null, status: XIRR_STATUSES.sameSign, iterations: 0 };
+    }
+    const start = dated[0].time;
+    if (dated[dated.length - 1].time - start < DAY_MS) {
+        return { rate: null, status: XIRR_STATUSES.tooShort, iterations: 0 };
+    }
+
+    const flows = dated.map(cf => ({ years: (cf.time - start) / (DAY_MS * YEAR_DAYS), amount: cf.amount }));
+
+    // Bracket a sign change: NPV falls as the rate rises for a typical invest-then-withdraw pattern,
+    // but scan both ends so unusual flow orders still find their root
+    let low = MIN_RATE;
+    let high = MAX_RATE;
+    let fLow = npv(flows, low).value;
+    const fHigh = npv(flows, high).value;
+    if (!Number.isFinite(fLow) || Math.sign(fLow) === Math.sign(fHigh)) {
+        // Narrow the lower end until NPV is finite, then look for a sign change between scan points
+        const scan = [-0.99, -0.9, -0.5, -0.2, 0, 0.2, 0.5, 1, 3, 10, 100, MAX_RATE];
+        let bracket = null;
+        for (let i = 0; i < scan.length - 1 && !bracket; i++) {
+            const a = npv(flows, scan[i]).value;
+            const b = npv(flows, scan[i + 1]).value;
+            if (Number.isFinite(a) && Number.isFinite(b) && Math.sign(a) !== Math.sign(b)) bracket = [scan[i], scan[i + 1], a];
+        }
+        if (!bracket) return { rate: null, status: XIRR_STATUSES.noRoot, iterations: 0 };
+        [low, high, fLow] = bracket;
+    }
+
+    // Newton steps, falling back to bisection whenever a step leaves the bracket
+    let rate = Math.min(Math.max(guess, low), high);
+    for (let i = 1; i <= maxIterations; i++) {
+        const { value, derivative } = npv(flows, rate);
+        if (Math.abs(value) < TOLERANCE) return { rate, status: XIRR_STATUSES.ok, iterations: i };
+
+        if (Math.sign(value) === Math.sign(fLow)) {
+            low = rate;
+            fLow = value;
+        } else {
+            high = rate;
+        }
+
+        const newton = derivative !== 0 ? rate - value / derivative : NaN;
+        const next = Number.isFinite(newton) && newton > low && newton < high ? newton : (low + high) / 2;
+        if (Math.abs(next - rate) < TOLERANCE * Math.max(1, Math.abs(rate))) {
+            return { rate: next, status: XIRR_STATUSES.ok, iterations: i };
+        }
+        rate = next;
+    }
+
+    return { rate: null, status: XIRR_STATUSES.noConvergence, iterations: maxIterations };
+}
+
+/**
+ * XIRR as a % plus the return over the whole period it covers. Periods under a year are also
+ * reported un-annualized, since annualizing a few weeks' move gives extreme figures.
+ *
+ * @param {Array} cashFlows - As for xirr, including the final market value
+ */
+export function moneyWeightedReturn(cashFlows) {
+    const { rate, status } = xirr(cashFlows);
+    const times = cashFlows.map(cf => new Date(cf.date).getTime()).filter(Number.isFinite);
+    const days = times.length > 0 ? Math.round((Math.max(...times) - Math.min(...times)) / DAY_MS) : 0;
+
+    return {
+        annualized: rate === null ? null : round(rate * 100),
+        cumulative: rate === null ? null : round(((1 + rate) ** (days / YEAR_DAYS) - 1) * 100),
+        days,
+        status
+    };
+}
+
+/**
+ * Cumulative TWR (%) over a number of days, annualized the same way for a like-for-like comparison
+ */
+export function annualizeReturn(cumulativePct, days) {
+    if (cumulativePct === null || !Number.isFinite(cumulativePct) || !(days > 0)) return null;
+    return round(((1 + cumulativePct / 100) ** (YEAR_DAYS / days) - 1) * 100);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { XIRR_STATUSES, moneyWeightedReturn, xirr } from './returnsService.js';
+
+// Example from the spreadsheet XIRR documentation: 37.34% a year
+const SPREADSHEET_FLOWS = [
+    { date: '2008-01-01', amount: -10000 },
+    { date: '2008-03-01', amount: 2750 },
+    { date: '2008-10-30', amount: 4250 },
+    { date: '2009-02-15', amount: 3250 },
+    { date: '2009-04-01', amount: 2750 }
+];
+
+describe('xirr', () => {
+    it('matches the spreadsheet XIRR for irregular flows', () => {
+        const { rate, status } = xirr(SPREADSHEET_FLOWS);
+
+        expect(status).toBe(XIRR_STATUSES.ok);
+        expect(rate).toBeCloseTo(0.373362535, 6);
+    });
+
+    it('gives the plain yearly return for one buy and one sale a year apart', () => {
+        const { rate, status } = xirr([
+            { date: '2021-01-01', amount: -1000 },
+            { date: '2022-01-01', amount: 1100 }
+        ]);
+
+        expect(status).toBe(XIRR_STATUSES.ok);
+        expect(rate).toBeCloseTo(0.1, 8);
+    });
+
+    it('finds losses down to the bottom of the range', () => {
+        const { rate, status } = xirr([
+            { date: '2021-01-01', amount: -1000 },
+            { date: '2022-01-01', amount: 250 }
+        ]);
+
+        expect(status).toBe(XIRR_STATUSES.ok);
+        expect(rate).toBeCloseTo(-0.75, 8);
+    });
+
+    it('reports sameSign when money only goes one way', () => {
+        expect(xirr([
+            { date: '2021-01-01', amount: -1000 },
+            { date: '2022-01-01', amount: -500 }
+        ])).toEqual({ rate: null, status: XIRR_STATUSES.sameSign, iterations: 0 });
+    });
+
+    it('reports sameSign for fewer than two usable flows', () => {
+        expect(xirr([]).status).toBe(XIRR_STATUSES.sameSign);
+        expect(xirr([{ date: '2021-01-01', amount: -1000 }]).status).toBe(XIRR_STATUSES.sameSign);
+        // Zero amounts and bad dates are dropped before the check
+        expect(xirr([
+            { date: '2021-01-01', amount: -1000 },
+            { date: '2022-01-01', amount: 0 },
+            { date: 'not a date', amount: 1100 }
+        ]).status).toBe(XIRR_STATUSES.sameSign);
+    });
+
+    it('reports tooShort when all flows fall within a day', () => {
+        expect(xirr([
+            { date: '2021-01-01T09:00:00Z', amount: -1000 },
+            { date: '2021-01-01T16:00:00Z', amount: 1010 }
+        ]).status).toBe(XIRR_STATUSES.tooShort);
+    });
+
+    it('reports noRoot when the flows never net to zero', () => {
+        // 100 - 200x + 101x² stays positive for every discount factor x
+        expect(xirr([
+            { date: '2021-01-01', amount: 100 },
+            { date: '2022-01-01', amount: -200 },
+            { date: '2023-01-01', amount: 101 }
+        ])).toEqual({ rate: null, status: XIRR_STATUSES.noRoot, iterations: 0 });
+    });
+
+    it('reports noConvergence when the solver runs out of steps', () => {
+        expect(xirr(SPREADSHEET_FLOWS, { maxIterations: 1 }))
+            .toEqual({ rate: null, status: XIRR_STATUSES.noConvergence, iterations: 1 });
+    });
+});
+
+describe('moneyWeightedReturn', () => {
+    it('reports the annual rate and the return over the period', () => {
+        expect(moneyWeightedReturn([
+            { date: '2021-01-01', amount: -1000 },
+            { date: '2023-01-01', amount: 1210 }
+        ])).toEqual({ annualized: 10, cumulative: 21, days: 730, status: XIRR_STATUSES.ok });
+    });
+
+    it('leaves the figures empty when there is no rate', () => {
+        expect(moneyWeightedReturn([{ date: '2021-01-01', amount: -1000 }]))
+            .toEqual({ annualized: null, cumulative: null, days: 0, status: XIRR_STATUSES.sameSign });
+    });
+});
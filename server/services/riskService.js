@@ -0,0 +1,221 @@
+/**
+ * Risk Metrics Service
+ * Risk statistics from the portfolio's daily time-weighted returns (the series the benchmark
+ * chart compounds, so buys and sells don't read as gains or losses):
+ * - Volatility: standard deviation of daily returns, annualized by √252
+ * - Max drawdown: worst peak-to-trough fall of the compounded series, with its dates
+ * - Sharpe / Sortino: mean daily excess return over total / downside deviation, annualized
+ * - VaR / CVaR: 1-day loss not exceeded at 95% / 99% confidence, and the average loss beyond it;
+ *   historical (observed returns) and parametric (normal distribution)
+ * - Downside capture: compounded portfolio return on SPY's down days over SPY's, in %
+ *   (under 100 means the portfolio fell less than the market)
+ * Headline figures cover the last year; the rolling series cover all available history.
+ * relativeStats compares the same daily returns with any benchmark (alpha, tracking error, IR).
+ */
+
+const TRADING_DAYS = 252;
+const HEADLINE_DAYS = TRADING_DAYS;
+const MIN_RETURNS = 20;
+
+// Rolling chart windows, in trading days
+export const ROLLING_WINDOWS = { '1M': 21, '3M': 63, '6M': 126 };
+
+// Annual risk-free rate for Sharpe / Sortino (decimal, e.g. 0.04)
+const RISK_FREE_RATE = Number.isFinite(Number(process.env.RISK_FREE_RATE)) && process.env.RISK_FREE_RATE !== ''
+    ? Number(process.env.RISK_FREE_RATE)
+    : 0.04;
+
+// One-sided standard normal quantiles and densities at them
+const CONFIDENCE_LEVELS = [
+    { level: 95, z: 1.6449, density: 0.1031 },
+    { level: 99, z: 2.3263, density: 0.0267 }
+];
+
+const round = (value, digits = 2) => (value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits)));
+
+const mean = (values) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function stdDev(values) {
+    if (values.length < 2) return 0;
+    const avg = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+const compound = (returns) => returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+
+function sharpeRatio(returns, dailyRf) {
+    const sd = stdDev(returns);
+    return sd > 0 ? ((mean(returns) - dailyRf) / sd) * Math.sqrt(TRADING_DAYS) : null;
+}
+
+function sortinoRatio(returns, dailyRf) {
+    const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(0, r - dailyRf) ** 2, 0) / returns.length);
+    return downside > 0 ? ((mean(returns) - dailyRf) / downside) * Math.sqrt(TRADING_DAYS) : null;
+}
+
+/**
+ * Worst peak-to-trough fall, with the peak, trough and recovery dates (recovery null while under water)
+ */
+function maxDrawdown(series) {
+    let growth = 1;
+    let peak = 1;
+    let peakDate = series[0]?.date ?? null;
+    let worst = { pct: 0, peakDate: null, troughDate: null, recoveryDate: null };
+    let current = null;
+
+    for (const { date, portfolio } of series) {
+        growth *= 1 + portfolio;
+        if (growth >= peak) {
+            if (current && !current.recoveryDate) current.recoveryDate = date;
+            peak = growth;
+            peakDate = date;
+            current = null;
+            continue;
+        }
+        const pct = ((peak - growth) / peak) * 100;
+        if (pct > worst.pct) {
+            current = { pct, peakDate, troughDate: date, recoveryDate: null };
+            worst = current;
+        }
+    }
+
+    return {
+        pct: round(worst.pct),
+        peakDate: worst.peakDate,
+        troughDate: worst.troughDate,
+        recoveryDate: worst.recoveryDate
+    };
+}
+
+/**
+ * Historical and parametric VaR / CVaR as positive % losses over one day
+ */
+function valueAtRisk(returns) {
+    const sorted = [...returns].sort((a, b) => a - b);
+    const avg = mean(returns);
+    const sd = stdDev(returns);
+
+    return CONFIDENCE_LEVELS.map(({ level, z, density }) => {
+        const tail = 1 - level / 100;
+        const cutoff = Math.max(1, Math.floor(sorted.length * tail));
+        const worst = sorted.slice(0, cutoff);
+        return {
+            level,
+            historicalVaR: round(-sorted[cutoff - 1] * 100),
+            historicalCVaR: round(-mean(worst) * 100),
+            parametricVaR: round(-(avg - z * sd) * 100),
+            parametricCVaR: round(-(avg - sd * density / tail) * 100)
+        };
+    });
+}
+
+function downsideCapture(series) {
+    const downDays = series.filter(d => d.spy !== null && d.spy < 0);
+    if (downDays.length < 5) return null;
+    const n = downDays.length;
+    const portfolio = (1 + compound(downDays.map(d => d.portfolio))) ** (1 / n) - 1;
+    const market = (1 + compound(downDays.map(d => d.spy))) ** (1 / n) - 1;
+    return market !== 0 ? round((portfolio / market) * 100, 1) : null;
+}
+
+/**
+ * Annualized volatility and Sharpe over each trailing window, one point per day once the window fills
+ */
+function rollingSeries(series, dailyRf) {
+    const result = {};
+    for (const [label, window] of Object.entries(ROLLING_WINDOWS)) {
+        const points = [];
+        for (let end = window; end <= series.length; end++) {
+            const returns = series.slice(end - window, end).map(d => d.portfolio);
+            points.push({
+                date: series[end - 1].date,
+                volatility: round(stdDev(returns) * Math.sqrt(TRADING_DAYS) * 100),
+                sharpe: round(sharpeRatio(returns, dailyRf))
+            });
+        }
+        result[label] = points;
+    }
+    return result;
+}
+
+/**
+ * Distance below the running peak each day, in % (0 at a new high)
+ */
+function underwaterSeries(series) {
+    let growth = 1;
+    let peak = 1;
+    return series.map(({ date, portfolio }) => {
+        growth *= 1 + portfolio;
+        peak = Math.max(peak, growth);
+        return { date, drawdown: round(-((peak - growth) / peak) * 100) };
+    });
+}
+
+/**
+ * Risk metrics from daily returns
+ *
+ * @param {Array} series - [{ date: 'YYYY-MM-DD', portfolio: daily return, spy: daily return | null }], oldest first
+ * @returns {Object|null} null when there are too few days to say anything
+ */
+export function computeRiskMetrics(series) {
+    if (!series || series.length < MIN_RETURNS) return null;
+
+    const dailyRf = (1 + RISK_FREE_RATE) ** (1 / TRADING_DAYS) - 1;
+    const recent = series.slice(-HEADLINE_DAYS);
+    const returns = recent.map(d => d.portfolio);
+    const spyReturns = recent.filter(d => d.spy !== null).map(d => d.spy);
+
+    return {
+        period: { start: recent[0].date, end: recent[recent.length - 1].date, days: recent.length },
+        riskFreeRate: RISK_FREE_RATE * 100,
+        annualizedReturn: round(((1 + compound(returns)) ** (TRADING_DAYS / returns.length) - 1) * 100),
+        volatility: round(stdDev(returns) * Math.sqrt(TRADING_DAYS) * 100),
+        benchmarkVolatility: spyReturns.length >= MIN_RETURNS ? round(stdDev(spyReturns) * Math.sqrt(TRADING_DAYS) * 100) : null,
+        maxDrawdown: maxDrawdown(recent),
+        sharpe: round(sharpeRatio(returns, dailyRf)),
+        sortino: round(sortinoRatio(returns, dailyRf)),
+        valueAtRisk: valueAtRisk(returns),
+        downsideCapture: downsideCapture(recent),
+        rolling: rollingSeries(series, dailyRf),
+        drawdownSeries: underwaterSeries(series)
+    };
+}
+
+/**
+ * Performance against a benchmark over the last year of paired daily returns:
+ * - beta: sensitivity to the benchmark's moves
+ * - alpha: annualized return beyond what beta and the risk-free rate explain (Jensen's alpha), in %
+ * - trackingError: annualized standard deviation of the daily return difference, in %
+ * - informationRatio: annualized mean return difference over the tracking error
+ *
+ * @param {Array} pairs - [{ portfolio, benchmark }] daily returns, oldest first
+ * @returns {Object|null} null with too few days
+ */
+export function relativeStats(pairs) {
+    const recent = (pairs || []).slice(-HEADLINE_DAYS);
+    if (recent.length < MIN_RETURNS) return null;
+
+    const dailyRf = (1 + RISK_FREE_RATE) ** (1 / TRADING_DAYS) - 1;
+    const portfolio = recent.map(p => p.portfolio);
+    const benchmark = recent.map(p => p.benchmark);
+    const active = recent.map(p => p.portfolio - p.benchmark);
+
+    const meanP = mean(portfolio);
+    const meanB = mean(benchmark);
+    let covariance = 0;
+    let variance = 0;
+    for (let i = 0; i < recent.length; i++) {
+        covariance += (portfolio[i] - meanP) * (benchmark[i] - meanB);
+        variance += (benchmark[i] - meanB) ** 2;
+    }
+    const beta = variance > 0 ? covariance / variance : null;
+    const trackingSd = stdDev(active);
+
+    return {
+        days: recent.length,
+        beta: round(beta),
+        alpha: beta === null ? null : round(((meanP - dailyRf) - beta * (meanB - dailyRf)) * TRADING_DAYS * 100),
+        trackingError: round(trackingSd * Math.sqrt(TRADING_DAYS) * 100),
+        informationRatio: trackingSd > 0 ? round((mean(active) / trackingSd) * Math.sqrt(TRADING_DAYS)) : null
+    };
+}
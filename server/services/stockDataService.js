@@ -5,27 +5,22 @@
  * - In-flight request deduplication (concurrent requests share one API call)
  * - Batch Yahoo Finance queries (one call for multiple symbols)
  * - Tiered cache durations
+ * Fetching itself goes through marketDataService (provider failover + circuit breakers).
  */
 
-import fetch from 'node-fetch';
-import YahooFinance from 'yahoo-finance2';
-const yahooFinance = new YahooFinance();
-
-const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
-
-// Helper to get API key
-const getApiKey = () => {
-    const key = process.env.FINNHUB_API_KEY;
-    if (!key) {
-        console.error('ג CRITICAL: FINNHUB_API_KEY is not set!');
-    }
-    return key;
-};
+import { createHash } from 'crypto';
+import { cashImpact } from '../models/Transaction.js';
+import { exchangeForSymbol, listingCurrency, quotedCurrency, getMarketStatus } from './exchangeService.js';
+import { requestMarketData } from './marketDataService.js';
+import { getCached, getStale, setCache, cachedFetch, dedupedFetch, userCacheKey } from './cacheService.js';
+import { REFERENCE_USD_RATES } from './marketDataProviders.js';
+import { computeRiskMetrics } from './riskService.js';
+import { moneyWeightedReturn, annualizeReturn } from './returnsService.js';
 
 // ============================================
-// CACHE LAYER
+// CACHE DURATIONS
 // ============================================
-const cache = new Map();
+// Storage, stale handling and in-flight dedup live in cacheService.
 
 const CACHE_DURATIONS = {
     quote: 30 * 1000,          // 30 seconds for price quotes
@@ -36,18 +31,6 @@ const CACHE_DURATIONS = {
     projectedEarnings: 7 * 24 * 60 * 60 * 1000, // 7 days
 };
 
-function getCached(key, duration) {
-    const cached = cache.get(key);
-    if (cached && Date.now() - cached.timestamp < duration) {
-        return cached.data;
-    }
-    return null;
-}
-
-function setCache(key, data) {
-    cache.set(key, { data, timestamp: Date.now() });
-}
-
 // ============================================
 // FUTURE EARNINGS FALLBACK
 // ============================================
@@ -59,233 +42,143 @@ function setCache(key, data) {
 async function getFutureEarningsDate(symbol) {
     // Busting cache using v2 key to clear out any stale 'none' entries from earlier bugs
     const cacheKey = `projected_earnings_v2_${symbol}`;
-    const cached = getCached(cacheKey, CACHE_DURATIONS.projectedEarnings);
+    const cached = await getCached(cacheKey);
     if (cached !== null) return cached === 'none' ? null : cached;
 
     return dedupedFetch(cacheKey, async () => {
         try {
-            const qs = await yahooFinance.quoteSummary(symbol, { modules: ['calendarEvents'] });
-            if (qs.calendarEvents && qs.calendarEvents.earnings && qs.calendarEvents.earnings.earningsDate && qs.calendarEvents.earnings.earningsDate.length > 0) {
-                const dateObj = qs.calendarEvents.earnings.earningsDate[0];
-                if (dateObj instanceof Date) {
-                    const ts = Math.floor(dateObj.getTime() / 1000);
-                    // Ensure it's strictly in the future
-                    if (ts > (Date.now() / 1000)) {
-                        setCache(cacheKey, ts);
-                        return ts;
-                    }
-                }
+            const ts = await requestMarketData('nextEarningsDate', symbol);
+            if (ts) {
+                await setCache(cacheKey, ts, CACHE_DURATIONS.projectedEarnings);
+                return ts;
             }
         } catch (e) {
             console.warn(`[EARNINGS] Failed future earnings for ${symbol}:`, e.message);
         }
-        setCache(cacheKey, 'none');
+        await setCache(cacheKey, 'none', CACHE_DURATIONS.projectedEarnings);
         return null;
     });
 }
 
 // ============================================
-// IN-FLIGHT DEDUPLICATION
+// QUOTE (shared by controller + alerts)
 // ============================================
-const inFlightRequests = new Map(); // key -> Promise
 
 /**
- * Execute a function with in-flight deduplication.
- * If a request with the same key is already in progress,
- * return the existing promise instead of making a new call.
- */
-async function dedupedFetch(key, fetchFn) {
-    // If there's already an in-flight request for this key, wait for it
-    if (inFlightRequests.has(key)) {
-        return inFlightRequests.get(key);
-    }
-
-    // Create new request and store promise
-    const promise = fetchFn()
-        .finally(() => {
-            // Clean up after completion
-            inFlightRequests.delete(key);
-        });
-
-    inFlightRequests.set(key, promise);
-    return promise;
-}
-
-// ============================================
-// FINNHUB QUOTE (shared by controller + alerts)
-// ============================================
-
-/**
- * Get Finnhub quote for a single symbol.
- * Uses cache + in-flight dedup. 
+ * Get a quote for a single symbol, in USD.
+ * Uses cache + in-flight dedup.
  * Called by both stocksController and liveAlertsService.
  */
 export async function getQuote(symbol) {
-    const cacheKey = `quote_${symbol}`;
-
-    // Check cache first
-    const cached = getCached(cacheKey, CACHE_DURATIONS.quote);
-    if (cached) return cached;
-
-    // HANDLE ISRAELI STOCKS (TASE) via Yahoo Finance
-    if (symbol.endsWith('.TA')) {
-        return dedupedFetch(cacheKey, async () => {
-            console.log(`נ‡®נ‡± Fetching TASE quote for ${symbol} from Yahoo Finance...`);
-            try {
-                // Fetch quote and forex rate in parallel
-                const [quote, forexData] = await Promise.all([
-                    yahooFinance.quote(symbol),
-                    getForexRate()
-                ]);
-
-                if (!quote || quote.regularMarketPrice === undefined) {
-                    throw new Error(`No Yahoo Finance data for ${symbol}`);
-                }
-
-                // TASE prices are in Agorot (ILA) -> Convert to ILS (/100) -> Convert to USD (/rate)
-                // If currency is already ILS, don't divide by 100.
-                let priceInILS = quote.regularMarketPrice;
-                if (quote.currency === 'ILA') {
-                    priceInILS = priceInILS / 100;
-                }
-
-                const usdRate = forexData.rate || 3.65;
-                const priceInUSD = priceInILS / usdRate;
-
-                // Calculate change in USD (approximate using same rate)
-                let changeInILS = quote.regularMarketChange || 0;
-                if (quote.currency === 'ILA') {
-                    changeInILS = changeInILS / 100;
-                }
-                const changeInUSD = changeInILS / usdRate;
-
-                // Percent change remains the same
-                const percentChange = quote.regularMarketChangePercent || 0;
-
-                // Previous close in USD
-                const prevCloseILS = (quote.regularMarketPreviousClose || (quote.regularMarketPrice - (quote.regularMarketChange || 0)));
-                const prevCloseUSD = (quote.currency === 'ILA' ? prevCloseILS / 100 : prevCloseILS) / usdRate;
-
-                const result = {
-                    c: priceInUSD,
-                    d: changeInUSD,
-                    dp: percentChange,
-                    h: (quote.regularMarketDayHigh || 0) / (quote.currency === 'ILA' ? 100 : 1) / usdRate,
-                    l: (quote.regularMarketDayLow || 0) / (quote.currency === 'ILA' ? 100 : 1) / usdRate,
-                    o: (quote.regularMarketOpen || 0) / (quote.currency === 'ILA' ? 100 : 1) / usdRate,
-                    pc: prevCloseUSD,
-                    t: Math.floor(Date.now() / 1000)
-                };
-
-                setCache(cacheKey, result);
-                return result;
-            } catch (error) {
-                console.error(`ג Yahoo/TASE error for ${symbol}:`, error.message);
-                throw error;
-            }
-        });
-    }
-
-    // STANDARD US STOCKS via FINNHUB
-    // Deduped fetch
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
-
-        const url = `${FINNHUB_BASE_URL}/quote?symbol=${symbol}&token=${apiKey}`;
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            throw new Error(`Finnhub quote failed: ${response.status}`);
+    return cachedFetch(`quote_${symbol}`, CACHE_DURATIONS.quote, async () => {
+        const quote = await requestMarketData('quote', symbol);
+        if (!quote) {
+            throw new Error(`Invalid symbol or no data: ${symbol}`);
         }
 
-        const data = await response.json();
-
-        if (!data || data.c === undefined) {
-            // Finnhub returns {c: 0} for invalid symbols sometimes, or empty result
-            if (data && data.c === 0 && data.pc === 0) {
-                throw new Error(`Invalid symbol or no data: ${symbol}`);
-            }
-        }
-        // Sanity check for 0 price
-        if (data.c === 0 && symbol !== 'ETH-USD' && symbol !== 'BTC-USD') { // Crypto might be handled differently but assuming regular stocks
-            // Proceed but warn? Or assume it's pre-market 0? Finnhub usually returns previous close.
+        const { currency: quoted, ...fields } = quote;
+        const { currency, minorUnits } = quotedCurrency(quoted, symbol);
+
+        // NON-US LISTINGS (TASE, LSE, ...): agorot / pence -> major unit -> USD.
+        // Percent change is currency-independent; absolute values use today's rate.
+        let result = fields;
+        if (currency !== 'USD' || minorUnits !== 1) {
+            const forexData = await getFxRate('USD', currency);
+            const toUSD = (value) => (value || 0) / minorUnits / forexData.rate;
+            result = {
+                ...fields,
+                c: toUSD(fields.c),
+                d: toUSD(fields.d),
+                h: toUSD(fields.h),
+                l: toUSD(fields.l),
+                o: toUSD(fields.o),
+                pc: toUSD(fields.pc)
+            };
         }
 
-        setCache(cacheKey, data);
-        return data;
+        return result;
     });
 }
 
 // ============================================
-// SEARCH (Finnhub)
+// SEARCH
 // ============================================
 
 /**
- * Search for stocks/symbols using Finnhub.
+ * Search for stocks/symbols.
  */
 export async function searchStocks(query) {
-    const cacheKey = `search_${query.toLowerCase()}`;
-    const cached = getCached(cacheKey, 60 * 60 * 1000); // 1 hour cache for search
-    if (cached) return cached;
-
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
-
-        const url = `${FINNHUB_BASE_URL}/search?q=${encodeURIComponent(query)}&token=${apiKey}`;
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            throw new Error(`Finnhub search failed: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const result = data.result || [];
-
-        setCache(cacheKey, result);
-        return result;
-    });
+    // 1 hour cache for search
+    return cachedFetch(`search_${query.toLowerCase()}`, 60 * 60 * 1000, async () =>
+        (await requestMarketData('search', query)) || []
+    );
 }
 
 // ============================================
-// YAHOO FINANCE EXTENDED QUOTE (batch support)
+// EXTENDED QUOTE (batch support)
 // ============================================
 
 /**
- * Get extended hours quote for a single symbol from Yahoo Finance.
- * Uses cache + in-flight dedup.
+ * Normalize a Yahoo-shaped quote into the extended quote shape. Prices are converted to USD
+ * (usdRate is USD→listing currency, omitted for US listings); the session status comes
+ * from the exchange's own hours and holidays, and the native price is kept alongside.
  */
-export async function getExtendedQuote(symbol) {
-    const cacheKey = `extended_quote_${symbol}`;
+function buildExtendedQuote(quote, usdRate = 1) {
+    const exchange = exchangeForSymbol(quote.symbol);
+    const { minorUnits } = quotedCurrency(quote.currency, quote.symbol);
+    const toUSD = (value) => (value === null || value === undefined ? null : value / minorUnits / usdRate);
+
+    return {
+        symbol: quote.symbol,
+        regularMarketPrice: toUSD(quote.regularMarketPrice),
+        regularMarketPreviousClose: toUSD(quote.regularMarketPreviousClose),
+        regularMarketChange: toUSD(quote.regularMarketChange),
+        regularMarketChangePercent: quote.regularMarketChangePercent,
+        preMarketPrice: toUSD(quote.preMarketPrice || null),
+        preMarketChange: toUSD(quote.preMarketChange || null),
+        preMarketChangePercent: quote.preMarketChangePercent || null,
+        postMarketPrice: toUSD(quote.postMarketPrice || null),
+        postMarketChange: toUSD(quote.postMarketChange || null),
+        postMarketChangePercent: quote.postMarketChangePercent || null,
+        marketState: quote.marketState,
+        marketStatus: getMarketStatus(exchange),
+        exchange: exchange.code,
+        exchangeTimezoneName: quote.exchangeTimezoneName,
+        listingCurrency: exchange.currency,
+        listingPrice: quote.regularMarketPrice !== undefined ? quote.regularMarketPrice / minorUnits : null,
+        fiftyTwoWeekLow: toUSD(quote.fiftyTwoWeekLow || null),
+        fiftyTwoWeekHigh: toUSD(quote.fiftyTwoWeekHigh || null),
+        regularMarketVolume: quote.regularMarketVolume || null,
+        averageDailyVolume10Day: quote.averageDailyVolume10Day || null,
+        earningsTimestamp: quote.earningsTimestamp || null,
+    };
+}
 
-    const cached = getCached(cacheKey, CACHE_DURATIONS.extendedQuote);
-    if (cached) return cached;
+/**
+ * USD→currency rate for each non-USD currency the quotes are in (one FX lookup per currency)
+ */
+async function usdRatesFor(quotes) {
+    const currencies = [...new Set(quotes.map(quote => quotedCurrency(quote.currency, quote.symbol).currency))]
+        .filter(currency => currency !== 'USD');
+    return Object.fromEntries(await Promise.all(
+        currencies.map(async currency => [currency, (await getFxRate('USD', currency)).rate])
+    ));
+}
 
-    return dedupedFetch(cacheKey, async () => {
-        const quote = await yahooFinance.quote(symbol);
+/**
+ * Get extended hours quote for a single symbol.
+ * Uses cache + in-flight dedup.
+ */
+export async function getExtendedQuote(symbol) {
+    return cachedFetch(`extended_quote_${symbol}`, CACHE_DURATIONS.extendedQuote, async () => {
+        const [quote] = (await requestMarketData('extendedQuotes', [symbol])) || [];
 
         if (!quote) {
-            throw new Error(`No Yahoo Finance data for ${symbol}`);
+            throw new Error(`No extended quote data for ${symbol}`);
         }
 
-        const result = {
-            symbol: quote.symbol,
-            regularMarketPrice: quote.regularMarketPrice,
-            regularMarketPreviousClose: quote.regularMarketPreviousClose,
-            regularMarketChange: quote.regularMarketChange,
-            regularMarketChangePercent: quote.regularMarketChangePercent,
-            preMarketPrice: quote.preMarketPrice || null,
-            preMarketChange: quote.preMarketChange || null,
-            preMarketChangePercent: quote.preMarketChangePercent || null,
-            postMarketPrice: quote.postMarketPrice || null,
-            postMarketChange: quote.postMarketChange || null,
-            postMarketChangePercent: quote.postMarketChangePercent || null,
-            marketState: quote.marketState,
-            exchangeTimezoneName: quote.exchangeTimezoneName,
-            fiftyTwoWeekLow: quote.fiftyTwoWeekLow || null,
-            earningsTimestamp: quote.earningsTimestamp || null,
-        };
+        const usdRates = await usdRatesFor([quote]);
+        const result = buildExtendedQuote(quote, usdRates[quotedCurrency(quote.currency, symbol).currency]);
 
         // Fallback for past earnings
         const nowSecs = Date.now() / 1000;
@@ -296,13 +189,12 @@ export async function getExtendedQuote(symbol) {
             }
         }
 
-        setCache(cacheKey, result);
         return result;
     });
 }
 
 /**
- * Get extended hours quotes for MULTIPLE symbols in ONE Yahoo Finance call.
+ * Get extended hours quotes for MULTIPLE symbols in ONE provider call.
  * This is the key optimization - 1 call instead of 15+.
  */
 export async function getBatchExtendedQuotes(symbols) {
@@ -313,7 +205,7 @@ export async function getBatchExtendedQuotes(symbols) {
     const results = {};
 
     for (const symbol of symbols) {
-        const cached = getCached(`extended_quote_${symbol}`, CACHE_DURATIONS.extendedQuote);
+        const cached = await getCached(`extended_quote_${symbol}`);
         if (cached) {
             results[symbol] = cached;
         } else {
@@ -323,51 +215,26 @@ export async function getBatchExtendedQuotes(symbols) {
 
     // If all cached, return immediately
     if (uncachedSymbols.length === 0) {
-        console.log(`ג… Batch extended quotes: all ${symbols.length} from cache`);
+        console.log(`ג… Batch extended quotes: all ${symbols.length} from cache`);
         return results;
     }
 
-    // Batch fetch uncached symbols from Yahoo Finance
+    // Batch fetch uncached symbols
     const batchKey = `batch_extended_${uncachedSymbols.sort().join(',')}`;
 
     try {
         const batchResults = await dedupedFetch(batchKey, async () => {
-            console.log(`נ“ Batch fetching ${uncachedSymbols.length} extended quotes from Yahoo Finance: ${uncachedSymbols.join(', ')}`);
+            console.log(`נ“ Batch fetching ${uncachedSymbols.length} extended quotes: ${uncachedSymbols.join(', ')}`);
 
-            // yahoo-finance2 supports array of symbols!
-            const quotes = await yahooFinance.quote(uncachedSymbols);
-
-            // quotes can be a single object or array
-            const quotesArray = Array.isArray(quotes) ? quotes : [quotes];
+            const quotesArray = (await requestMarketData('extendedQuotes', uncachedSymbols)) || [];
+            const usdRates = await usdRatesFor(quotesArray);
 
             const batchData = {};
             for (const quote of quotesArray) {
-                if (!quote || !quote.symbol) continue;
-
-                const result = {
-                    symbol: quote.symbol,
-                    regularMarketPrice: quote.regularMarketPrice,
-                    regularMarketPreviousClose: quote.regularMarketPreviousClose,
-                    regularMarketChange: quote.regularMarketChange,
-                    regularMarketChangePercent: quote.regularMarketChangePercent,
-                    preMarketPrice: quote.preMarketPrice || null,
-                    preMarketChange: quote.preMarketChange || null,
-                    preMarketChangePercent: quote.preMarketChangePercent || null,
-                    postMarketPrice: quote.postMarketPrice || null,
-                    postMarketChange: quote.postMarketChange || null,
-                    postMarketChangePercent: quote.postMarketChangePercent || null,
-                    marketState: quote.marketState,
-                    exchangeTimezoneName: quote.exchangeTimezoneName,
-                    fiftyTwoWeekLow: quote.fiftyTwoWeekLow || null,
-                    earningsTimestamp: quote.earningsTimestamp || null,
-                };
-
-                // Cache each result individually
-                setCache(`extended_quote_${quote.symbol}`, result);
-                batchData[quote.symbol] = result;
+                batchData[quote.symbol] = buildExtendedQuote(quote, usdRates[quotedCurrency(quote.currency, quote.symbol).currency]);
             }
 
-            // Post-process: Fallback for past earnings in parallel
+            // Post-process: Fallback for past earnings in parallel, then cache each result individually
             const nowSecs = Date.now() / 1000;
             await Promise.all(Object.keys(batchData).map(async (sym) => {
                 const b = batchData[sym];
@@ -375,9 +242,9 @@ export async function getBatchExtendedQuotes(symbols) {
                     const futureTs = await getFutureEarningsDate(sym);
                     if (futureTs) {
                         b.earningsTimestamp = futureTs;
-                        setCache(`extended_quote_${sym}`, b);
                     }
                 }
+                await setCache(`extended_quote_${sym}`, b, CACHE_DURATIONS.extendedQuote);
             }));
 
             console.log(`✅ Batch extended quotes: ${Object.keys(batchData).length} fetched, ${symbols.length - uncachedSymbols.length} from cache`);
@@ -386,7 +253,7 @@ export async function getBatchExtendedQuotes(symbols) {
 
         return { ...results, ...batchResults };
     } catch (error) {
-        console.error(`ג Batch extended quote error:`, error.message);
+        console.error(`ג Batch extended quote error:`, error.message);
         // Return whatever we had from cache
         return results;
     }
@@ -397,226 +264,220 @@ export async function getBatchExtendedQuotes(symbols) {
 // ============================================
 
 /**
- * Get company news from Finnhub with caching.
+ * Get company news (last 7 days) with caching.
  */
 export async function getCompanyNews(symbol) {
-    const cacheKey = `news_${symbol}`;
-
-    const cached = getCached(cacheKey, CACHE_DURATIONS.news);
-    if (cached) return cached;
-
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
-
+    return cachedFetch(`news_${symbol}`, CACHE_DURATIONS.news, async () => {
         const from = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
         const to = new Date().toISOString().split('T')[0];
 
-        const response = await fetch(
-            `${FINNHUB_BASE_URL}/company-news?symbol=${symbol}&from=${from}&to=${to}&token=${apiKey}`
-        );
-
-        if (!response.ok) {
-            throw new Error(`Finnhub news failed: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const limitedNews = data.slice(0, 10);
-
-        setCache(cacheKey, limitedNews);
-        return limitedNews;
+        const data = (await requestMarketData('news', symbol, from, to)) || [];
+        return data.slice(0, 10);
     });
 }
 
 /**
- * Get general market news from Finnhub with caching.
+ * Get general market news with caching.
  */
 export async function getMarketNews() {
-    const cacheKey = 'market_news';
-
-    const cached = getCached(cacheKey, CACHE_DURATIONS.marketNews);
-    if (cached) return cached;
-
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
-
-        const response = await fetch(
-            `${FINNHUB_BASE_URL}/news?category=general&token=${apiKey}`
-        );
-
-        if (!response.ok) {
-            throw new Error(`Finnhub market news failed: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const limitedNews = data.slice(0, 20);
-
-        setCache(cacheKey, limitedNews);
-        return limitedNews;
+    return cachedFetch('market_news', CACHE_DURATIONS.marketNews, async () => {
+        const data = (await requestMarketData('marketNews')) || [];
+        return data.slice(0, 20);
     });
 }
 
 // ============================================
-// FOREX (shared forex rate with long cache)
+// FOREX (generic currency pairs with long cache)
 // ============================================
 
 /**
- * Get USD/ILS forex rate using Yahoo Finance (ILS=X)
- * Much more reliable than free tier APIs.
+ * Get the from→to forex rate.
+ * Falls back to the last known rate, then to a rough USD cross rate.
  */
-export async function getForexRate() {
-    const cacheKey = 'forex_usd_ils';
+export async function getFxRate(from = 'USD', to = 'ILS') {
+    from = from.toUpperCase();
+    to = to.toUpperCase();
+    if (from === to) {
+        return { rate: 1, source: 'identity', base: from, target: to, lastUpdate: new Date().toISOString() };
+    }
+
+    const cacheKey = `forex_${from}_${to}`;
 
-    const cached = getCached(cacheKey, CACHE_DURATIONS.forex);
+    const cached = await getCached(cacheKey);
     if (cached) return cached;
 
     return dedupedFetch(cacheKey, async () => {
-        console.log('נ“¡ Fetching USD/ILS rate from Yahoo Finance (ILS=X)...');
+        console.log(`📡 Fetching ${from}/${to} rate...`);
 
         try {
-            const quote = await yahooFinance.quote('ILS=X');
+            const data = await requestMarketData('forex', from, to);
 
-            if (!quote || !quote.regularMarketPrice) {
-                throw new Error('No forex data from Yahoo');
+            if (!data) {
+                throw new Error('No forex data');
             }
 
-            const rate = quote.regularMarketPrice;
-
             const result = {
-                rate,
-                source: 'yahoo-finance',
-                base: 'USD',
-                target: 'ILS',
+                rate: data.rate,
+                source: 'market-data',
+                base: from,
+                target: to,
                 lastUpdate: new Date().toISOString()
             };
 
-            console.log(`ג… USD/ILS exchange rate: ${rate}`);
-            setCache(cacheKey, result);
+            console.log(`✅ ${from}/${to} exchange rate: ${data.rate}`);
+            // Real rates stay readable for a week as the outage fallback
+            await setCache(cacheKey, result, CACHE_DURATIONS.forex, { staleMs: 7 * 24 * 60 * 60 * 1000 });
             return result;
         } catch (error) {
-            console.error('ג Forex fetch failed:', error.message);
+            console.error(`❌ Forex fetch failed for ${from}/${to}:`, error.message);
+
+            // Prefer a stale real rate over the rough table
+            const stale = await getStale(cacheKey);
+            if (stale && stale.source === 'market-data') return stale;
+
+            const fromUsd = REFERENCE_USD_RATES[from];
+            const toUsd = REFERENCE_USD_RATES[to];
+            if (!fromUsd || !toUsd) throw new Error(`No rate available for ${from}/${to}`);
 
-            // Fallback
-            const fallback = { rate: 3.65, source: 'fallback', lastUpdate: new Date().toISOString() };
-            setCache(cacheKey, fallback);
+            // Short TTL so the real rate is retried soon
+            const fallback = { rate: toUsd / fromUsd, source: 'fallback', base: from, target: to, lastUpdate: new Date().toISOString() };
+            await setCache(cacheKey, fallback, 10 * 60 * 1000, { staleMs: 0 });
             return fallback;
         }
     });
 }
 
-// ============================================
-// PORTFOLIO INSIGHTS (Analyst Recs, Price Targets, Company Profile)
-// ============================================
+/**
+ * Get USD/ILS forex rate (kept for the existing /forex/usd-ils endpoint)
+ */
+export async function getForexRate() {
+    return getFxRate('USD', 'ILS');
+}
 
 /**
- * Get Analyst Recommendations (Buy/Sell/Hold)
- * Finnhub Endpoint: /stock/recommendation?symbol=AAPL
+ * Unix-second range from startDate (default: one year back) to now
  */
-export async function getAnalystRecommendations(symbol) {
-    const cacheKey = `recs_${symbol}`;
-    const cached = getCached(cacheKey, 60 * 60 * 1000); // 1 hour cache
-    if (cached) return cached;
+function chartRange(startDate) {
+    const now = Math.floor(Date.now() / 1000);
+    const from = startDate
+        ? Math.floor(new Date(startDate).getTime() / 1000)
+        : (now - 365 * 24 * 60 * 60);
+    // Floored to the day: daily bars don't change within it, and range.from is part of cache keys
+    return { from: Math.floor(from / 86400) * 86400, to: now };
+}
 
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
+/**
+ * Daily from→to rates since startDate as { dates, closes }.
+ * Returns null for same-currency pairs (rate is always 1) or when no history is available.
+ */
+export async function getFxHistory(from, to, startDate) {
+    if (from === to) return null;
 
-        const url = `${FINNHUB_BASE_URL}/stock/recommendation?symbol=${symbol}&token=${apiKey}`;
-        const response = await fetch(url);
+    const range = chartRange(startDate);
+    try {
+        // 1 hour cache
+        return await cachedFetch(`fx_history_${from}_${to}_${range.from}`, 60 * 60 * 1000, async () => {
+            const bars = await requestMarketData('forexHistory', from, to, range);
+            return bars && { dates: bars.dates, closes: bars.closes };
+        });
+    } catch (err) {
+        console.error(`[FX] History failed for ${from}/${to}:`, err.message);
+        return null;
+    }
+}
 
-        if (!response.ok) {
-            if (response.status === 403) {
-                console.warn(`Finnhub Premium required for recs on ${symbol}, returning empty.`);
-                return [];
+/**
+ * Rate lookup over an FX history: the latest close on or before a day,
+ * falling back to the current spot rate when the history has a gap.
+ */
+export function fxRateOn(history, spotRate) {
+    if (!history || history.dates.length === 0) return () => spotRate;
+
+    return (day) => {
+        let lo = 0;
+        let hi = history.dates.length - 1;
+        let found = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (history.dates[mid] <= day) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
             }
-            throw new Error(`Finnhub recs failed: ${response.status}`);
         }
-
-        const data = await response.json();
-        setCache(cacheKey, data);
-        return data;
-    });
+        return found >= 0 ? history.closes[found] : history.closes[0];
+    };
 }
 
 /**
- * Get Price Target (High/Low/Avg/Median)
- * Finnhub Endpoint: /stock/price-target?symbol=AAPL
+ * Daily closes (and dividends per share) for a symbol converted to USD with that day's FX rate.
+ * US listings pass through unchanged.
  */
-export async function getPriceTarget(symbol) {
-    const cacheKey = `target_${symbol}`;
-    const cached = getCached(cacheKey, 24 * 60 * 60 * 1000); // 24 hour cache
-    if (cached) return cached;
+export async function fetchUsdChart(symbol, startDate = null) {
+    const chart = await fetchChart(symbol, startDate);
+    const { currency, minorUnits } = quotedCurrency(chart.currency, symbol);
+    if ((currency === 'USD' && minorUnits === 1) || chart.dates.length === 0) return chart;
+
+    const [history, spot] = await Promise.all([
+        getFxHistory('USD', currency, startDate),
+        getFxRate('USD', currency)
+    ]);
+    const rateOn = fxRateOn(history, spot.rate);
+
+    return {
+        dates: chart.dates,
+        closes: chart.closes.map((close, i) => close / minorUnits / rateOn(chart.dates[i])),
+        dividends: chart.dividends.map(dividend => ({
+            ...dividend,
+            amount: dividend.amount / minorUnits / rateOn(new Date(dividend.timestamp * 1000).toISOString().split('T')[0])
+        })),
+        currency: 'USD'
+    };
+}
 
-    return dedupedFetch(cacheKey, async () => {
-        // Try Finnhub first
-        try {
-            const apiKey = getApiKey();
-            if (apiKey) {
-                const url = `${FINNHUB_BASE_URL}/stock/price-target?symbol=${symbol}&token=${apiKey}`;
-                const response = await fetch(url);
-                if (response.ok) {
-                    const data = await response.json();
-                    // Validate: Finnhub returns { targetMean: 0 } for invalid/missing data
-                    if (data && data.targetMean && data.targetMean > 0) {
-                        setCache(cacheKey, data);
-                        return data;
-                    }
-                }
-            }
-        } catch (e) {
-            console.log(`[INFO] Finnhub price-target failed for ${symbol}: ${e.message}`);
-        }
+// ============================================
+// PORTFOLIO INSIGHTS (Analyst Recs, Price Targets, Company Profile)
+// ============================================
 
-        // Fallback: yahoo-finance2 quoteSummary (handles auth/crumb automatically)
-        console.log(`[INFO] Falling back to yahoo-finance2 for ${symbol} price target`);
-        try {
-            const summary = await yahooFinance.quoteSummary(symbol, { modules: ['financialData'] });
-            const financials = summary?.financialData;
-            if (financials && financials.targetMeanPrice) {
-                const result = {
-                    targetHigh: financials.targetHighPrice || 0,
-                    targetLow: financials.targetLowPrice || 0,
-                    targetMean: financials.targetMeanPrice || 0,
-                    targetMedian: financials.targetMedianPrice || 0,
-                    lastUpdated: new Date().toISOString()
-                };
-                setCache(cacheKey, result);
-                return result;
-            }
-        } catch (yError) {
-            console.error(`yahoo-finance2 fallback failed for ${symbol}:`, yError.message);
-        }
+/**
+ * Get Analyst Recommendations (Buy/Sell/Hold), Finnhub trend shape
+ */
+export async function getAnalystRecommendations(symbol) {
+    // 1 hour cache; "no coverage" isn't cached so it's retried
+    const data = await cachedFetch(`recs_${symbol}`, 60 * 60 * 1000, () =>
+        requestMarketData('recommendations', symbol)
+    );
+    if (!data) {
+        console.warn(`No analyst recommendations for ${symbol}, returning empty.`);
+        return [];
+    }
+    return data;
+}
 
+/**
+ * Get Price Target (High/Low/Avg/Median)
+ */
+export async function getPriceTarget(symbol) {
+    try {
+        // 24 hour cache
+        return await cachedFetch(`target_${symbol}`, 24 * 60 * 60 * 1000, () =>
+            requestMarketData('priceTarget', symbol)
+        );
+    } catch (error) {
+        console.error(`Price target failed for ${symbol}:`, error.message);
         return null;
-    });
+    }
 }
 
 /**
  * Get Company Profile (Sector, Industry, etc.)
- * Finnhub Endpoint: /stock/profile2?symbol=AAPL
  */
 export async function getCompanyProfile(symbol) {
-    const cacheKey = `profile_${symbol}`;
-    const cached = getCached(cacheKey, 7 * 24 * 60 * 60 * 1000); // 7 days cache (static data)
-    if (cached) return cached;
-
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
-
-        const url = `${FINNHUB_BASE_URL}/stock/profile2?symbol=${symbol}&token=${apiKey}`;
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            if (response.status === 403) return null;
-            throw new Error(`Finnhub profile failed: ${response.status}`);
-        }
-
-        const data = await response.json();
-        setCache(cacheKey, data);
-        return data;
-    });
+    // 7 days cache (static data)
+    return cachedFetch(`profile_${symbol}`, 7 * 24 * 60 * 60 * 1000, () =>
+        requestMarketData('profile', symbol)
+    );
 }
 
 // ============================================
@@ -655,30 +516,13 @@ export async function getBatchInsights(symbols) {
 // ============================================
 
 /**
- * Get basic financials including 52-week high/low.
- * Finnhub Endpoint: /stock/metric?symbol=AAPL&metric=all
+ * Get basic financials including 52-week high/low and beta.
  */
 export async function getBasicFinancials(symbol) {
-    const cacheKey = `metrics_${symbol}`;
-    const cached = getCached(cacheKey, 6 * 60 * 60 * 1000); // 6 hours cache
-    if (cached) return cached;
-
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
-
-        const url = `${FINNHUB_BASE_URL}/stock/metric?symbol=${symbol}&metric=all&token=${apiKey}`;
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            if (response.status === 403) return null;
-            throw new Error(`Finnhub metrics failed: ${response.status}`);
-        }
-
-        const data = await response.json();
-        setCache(cacheKey, data);
-        return data;
-    });
+    // 6 hours cache
+    return cachedFetch(`metrics_${symbol}`, 6 * 60 * 60 * 1000, () =>
+        requestMarketData('metrics', symbol)
+    );
 }
 
 // ============================================
@@ -686,30 +530,100 @@ export async function getBasicFinancials(symbol) {
 // ============================================
 
 /**
- * Get earnings calendar for a date range.
- * Finnhub Endpoint: /calendar/earnings?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Get earnings calendar for a date range (YYYY-MM-DD).
  */
 export async function getEarningsCalendar(from, to) {
-    const cacheKey = `earnings_${from}_${to}`;
-    const cached = getCached(cacheKey, 60 * 60 * 1000); // 1 hour cache
-    if (cached) return cached;
+    // 1 hour cache
+    return cachedFetch(`earnings_${from}_${to}`, 60 * 60 * 1000, async () =>
+        (await requestMarketData('earnings', from, to)) || []
+    );
+}
 
-    return dedupedFetch(cacheKey, async () => {
-        const apiKey = getApiKey();
-        if (!apiKey) throw new Error('FINNHUB_API_KEY not configured');
+// ============================================
+// CANDLES (OHLCV + splits/dividends)
+// ============================================
 
-        const url = `${FINNHUB_BASE_URL}/calendar/earnings?from=${from}&to=${to}&token=${apiKey}`;
-        const response = await fetch(url);
+/**
+ * Supported candle intervals. maxLookbackDays is how far back the interval exists
+ * upstream, maxSpanDays the widest single request (null = unlimited). cacheSeconds is
+ * also the bucket request ranges are widened to, so "up to now" requests share entries.
+ */
+export const CANDLE_INTERVALS = {
+    '1m': { cacheSeconds: 60, maxLookbackDays: 30, maxSpanDays: 7 },
+    '5m': { cacheSeconds: 5 * 60, maxLookbackDays: 60, maxSpanDays: 60 },
+    '15m': { cacheSeconds: 5 * 60, maxLookbackDays: 60, maxSpanDays: 60 },
+    '1h': { cacheSeconds: 15 * 60, maxLookbackDays: 730, maxSpanDays: 730 },
+    '1d': { cacheSeconds: 60 * 60, maxLookbackDays: null, maxSpanDays: null },
+    '1wk': { cacheSeconds: 60 * 60, maxLookbackDays: null, maxSpanDays: null },
+};
 
-        if (!response.ok) {
-            throw new Error(`Finnhub earnings calendar failed: ${response.status}`);
-        }
+/**
+ * Why a candle request can't be served, or null if it's valid (from/to in unix seconds)
+ */
+export function validateCandleRequest(interval, from, to) {
+    const limits = CANDLE_INTERVALS[interval];
+    if (!limits) return `Unsupported interval: ${interval} (use ${Object.keys(CANDLE_INTERVALS).join(', ')})`;
+    if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) return 'from/to must be unix seconds with from < to';
 
-        const data = await response.json();
-        const result = data.earningsCalendar || [];
-        setCache(cacheKey, result);
-        return result;
-    });
+    const day = 24 * 60 * 60;
+    const now = Math.floor(Date.now() / 1000);
+    if (limits.maxLookbackDays && from < now - limits.maxLookbackDays * day) {
+        return `${interval} candles are only available for the last ${limits.maxLookbackDays} days`;
+    }
+    if (limits.maxSpanDays && to - from > limits.maxSpanDays * day) {
+        return `${interval} candles can span at most ${limits.maxSpanDays} days per request`;
+    }
+    return null;
+}
+
+const emptyCandles = (symbol, interval) => ({
+    s: 'no_data', symbol, interval, currency: null,
+    t: [], o: [], h: [], l: [], c: [], adjc: [], rawc: [], v: [],
+    splits: [], dividends: []
+});
+
+/**
+ * OHLCV candles in the listing's major currency (agorot/pence are converted).
+ *   c     split-adjusted close (continuous series, what charts want)
+ *   adjc  split- and dividend-adjusted close (total return)
+ *   rawc  close as traded that day (splits inside the range undone)
+ * Resolves s: 'no_data' when no provider has bars; throws when providers failed.
+ */
+export async function getCandles(symbol, { from, to, interval = '1d' }) {
+    const { cacheSeconds } = CANDLE_INTERVALS[interval];
+    const start = Math.floor(from / cacheSeconds) * cacheSeconds;
+    const end = Math.ceil(to / cacheSeconds) * cacheSeconds;
+
+    const bars = await cachedFetch(`candles_${symbol}_${interval}_${start}_${end}`, cacheSeconds * 1000, () =>
+        requestMarketData('candles', symbol, { from: start, to: end, interval })
+    );
+    if (!bars) return emptyCandles(symbol, interval);
+
+    const { currency, minorUnits } = quotedCurrency(bars.currency, symbol);
+    const toMajor = (values) => values.map(value => value / minorUnits);
+    const closes = toMajor(bars.closes);
+
+    // A close before a 4:1 split traded at 4x its split-adjusted price
+    const rawCloses = closes.map((close, i) => bars.splits
+        .filter(split => split.timestamp > bars.timestamps[i])
+        .reduce((price, split) => price * split.numerator / split.denominator, close));
+
+    return {
+        s: 'ok',
+        symbol,
+        interval,
+        currency,
+        t: bars.timestamps,
+        o: toMajor(bars.opens),
+        h: toMajor(bars.highs),
+        l: toMajor(bars.lows),
+        c: closes,
+        adjc: toMajor(bars.adjCloses),
+        rawc: rawCloses,
+        v: bars.volumes,
+        splits: bars.splits.map(split => ({ ...split, ratio: split.numerator / split.denominator })),
+        dividends: bars.dividends.map(dividend => ({ ...dividend, amount: dividend.amount / minorUnits }))
+    };
 }
 
 // ============================================
@@ -724,113 +638,44 @@ const ETF_SYMBOLS = new Set([
 ]);
 
 /**
- * Fetch Yahoo Finance chart data for a symbol.
+ * Daily closes for a symbol in its quoted currency.
  * Supports custom start date (period1). Default 1y.
- * Returns { dates: string[], closes: number[] }
+ * Returns { dates: string[], closes: number[], dividends: [{ timestamp, amount }], currency }
+ * — empty when no provider has data.
  */
-async function fetchYahooChart(symbol, startDate = null) {
-    // Calculate period1 (start timestamp)
-    const now = Math.floor(Date.now() / 1000);
-    const startTimestamp = startDate
-        ? Math.floor(new Date(startDate).getTime() / 1000)
-        : (now - 365 * 24 * 60 * 60);
-
-    const cacheKey = `chart_yahoo_${symbol}_${startTimestamp}`;
-    const cached = getCached(cacheKey, 60 * 60 * 1000); // 1 hour
-    if (cached) return cached;
-
-    return dedupedFetch(cacheKey, async () => {
-        // Use yahoo-finance2 chart method if possible, or fallback to direct fetch URL?
-        // existing code used direct fetch. Let's stick to direct text fetch for consistency with previous impl 
-        // OR better: use yahooFinance.chart() like I planned?
-        // The existing code used `fetch(url)`. I'll stick to that to avoid "YahooFinance" usage issues if the instance isn't configured for it (though line 11 says `const yahooFinance = new YahooFinance()`).
-        // Actually, line 11 `import YahooFinance from 'yahoo-finance2'` and line 12 `const yahooFinance = new YahooFinance()` 
-        // suggests `yahooFinance` instance is available.
-        // But `yahoo-finance2` library default export IS a class, or instance? 
-        // `import YahooFinance from 'yahoo-finance2'` usually imports the default instance.
-        // Let's stick to the URL fetch pattern used in the file to be safe.
-
-        const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${startTimestamp}&period2=${now}&interval=1d&includePrePost=false`;
-
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-                }
-            });
-
-            if (!response.ok) {
-                // Try yahoo-finance2 library as fallback? 
-                // No, just throw or return empty.
-                throw new Error(`Yahoo chart failed: ${response.status}`);
-            }
-
-            const data = await response.json();
-            const chart = data?.chart?.result?.[0];
-            if (!chart?.timestamp || !chart?.indicators?.quote?.[0]?.close) {
-                return { dates: [], closes: [] };
-            }
-
-            const timestamps = chart.timestamp;
-            const rawCloses = chart.indicators.quote[0].close;
-            const dates = [];
-            const closes = [];
-
-            for (let i = 0; i < timestamps.length; i++) {
-                if (rawCloses[i] !== null && rawCloses[i] !== undefined) {
-                    dates.push(new Date(timestamps[i] * 1000).toISOString().split('T')[0]);
-                    closes.push(rawCloses[i]);
-                }
-            }
-
-            const result = { dates, closes };
-            setCache(cacheKey, result);
-            return result;
-        } catch (err) {
-            console.error(`[CHART] Failed for ${symbol}:`, err.message);
-            return { dates: [], closes: [] };
-        }
-    });
+async function fetchChart(symbol, startDate = null) {
+    const range = chartRange(startDate);
+    try {
+        // 1 hour cache
+        // Only the daily closes and dividends are kept; getCandles serves the full bars
+        const chart = await cachedFetch(`chart_v2_${symbol}_${range.from}`, 60 * 60 * 1000, async () => {
+            const bars = await requestMarketData('candles', symbol, range);
+            return bars && { dates: bars.dates, closes: bars.closes, dividends: bars.dividends, currency: bars.currency };
+        });
+        return chart || { dates: [], closes: [], dividends: [] };
+    } catch (err) {
+        console.error(`[CHART] Failed for ${symbol}:`, err.message);
+        return { dates: [], closes: [], dividends: [] };
+    }
 }
 
 
 /**
- * Fetch dividend information with fallbacks
+ * Fetch dividend information ({ exDate, paymentDate, dividendRate }), null when none is scheduled
  */
-async function fetchDividendInfo(symbol) {
+export async function fetchDividendInfo(symbol) {
     try {
         console.log(`[DIVIDEND] Fetching for ${symbol}...`);
-        const result = await yahooFinance.quoteSummary(symbol, {
-            modules: ['calendarEvents', 'summaryDetail', 'defaultKeyStatistics']
-        });
+        const result = await requestMarketData('dividends', symbol);
 
-        const calendar = result.calendarEvents || {};
-        const summary = result.summaryDetail || {};
-
-        // Priority 1: Calendar Events
-        let exDate = calendar.exDividendDate;
-        let paymentDate = calendar.dividendDate;
-
-        // Priority 2: Summary Detail
-        if (!exDate && summary.exDividendDate) {
-            exDate = summary.exDividendDate;
-        }
-
-        // Rate fallback
-        const rate = summary.dividendRate || summary.trailingAnnualDividendRate || 0;
-
-        if (!exDate) {
+        if (!result) {
             console.log(`[DIVIDEND] No ex-date found for ${symbol}`);
             return null;
         }
 
-        console.log(`[DIVIDEND] Found ${symbol}: Ex=${exDate} (${new Date(exDate).toDateString()}), Pay=${paymentDate}, Rate=${rate}`);
-
-        return {
-            exDate,
-            paymentDate,
-            dividendRate: rate
-        };
+        const { exDate, paymentDate, dividendRate } = result;
+        console.log(`[DIVIDEND] Found ${symbol}: Ex=${exDate} (${new Date(exDate).toDateString()}), Pay=${paymentDate}, Rate=${dividendRate}`);
+        return result;
     } catch (error) {
         console.error(`[DIVIDEND] Error fetching ${symbol}:`, error.message);
         return null;
@@ -838,18 +683,77 @@ async function fetchDividendInfo(symbol) {
 }
 
 /**
- * Get Portfolio Health Score and Benchmark data (TWR).
+ * Splits, reverse splits, spinoffs and ticker changes since startDate, oldest first.
+ * Empty when the providers report none; throws when they failed (so callers retry later).
+ */
+export async function getCorporateActions(symbol, startDate) {
+    const range = chartRange(startDate);
+
+    const actions = await cachedFetch(`corporate_actions_${symbol}_${range.from}`, 6 * 60 * 60 * 1000, () =>
+        requestMarketData('corporateActions', symbol, range)
+    );
+    return (actions || []).slice().sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Combine positions of the same symbol (e.g. held in several portfolios) into one,
+ * concatenating lots and sales so the aggregated view is analysed as a single holding.
+ */
+function mergePositionsBySymbol(positions) {
+    const bySymbol = new Map();
+    for (const pos of positions) {
+        const existing = bySymbol.get(pos.symbol);
+        if (!existing) {
+            bySymbol.set(pos.symbol, { ...pos, lots: [...(pos.lots || [])], sales: [...(pos.sales || [])] });
+            continue;
+        }
+        const quantity = existing.quantity + pos.quantity;
+        existing.averagePrice = quantity > 0
+            ? (existing.quantity * existing.averagePrice + pos.quantity * pos.averagePrice) / quantity
+            : 0;
+        existing.quantity = quantity;
+        existing.lots.push(...(pos.lots || []));
+        existing.sales.push(...(pos.sales || []));
+    }
+    return [...bySymbol.values()];
+}
+
+/**
+ * Hash of everything the analytics are built from: whose holdings they are (user, portfolio)
+ * and every lot and sale, so editing a lot's date or price or recording a sale gets a fresh entry.
+ */
+function analyticsFingerprint(positions) {
+    const time = (date) => (date ? new Date(date).getTime() : null);
+    const holdings = positions
+        .map(pos => ({
+            user: String(pos.user),
+            portfolio: String(pos.portfolio),
+            symbol: pos.symbol,
+            // Positions from before lots are valued from their aggregates
+            legacy: pos.lots && pos.lots.length > 0 ? null : [pos.quantity, pos.averagePrice, time(pos.createdAt)],
+            lots: (pos.lots || []).map(lot => [time(lot.date), lot.price, lot.quantity, lot.soldQuantity || 0]),
+            sales: (pos.sales || []).map(sale => [time(sale.date), sale.price, sale.quantity])
+        }))
+        .sort((a, b) => `${a.portfolio}_${a.symbol}`.localeCompare(`${b.portfolio}_${b.symbol}`));
+
+    return createHash('sha1').update(JSON.stringify(holdings)).digest('hex');
+}
+
+/**
+ * Get Portfolio Health Score inputs and Benchmark data (TWR).
  * Accepts FULL positions array (with lots).
  * All data fetched in parallel. Result cached 1 hour.
+ * The score itself is applied per user by healthScoreService.withHealthScore.
  *
- * @param {Array} positions - Array of position objects with lots
+ * @param {Array} allPositions - Array of position objects with lots (may repeat symbols across portfolios)
  */
-export async function getPortfolioHealthAndBenchmark(positions) {
+export async function getPortfolioHealthAndBenchmark(allPositions) {
+    const positions = mergePositionsBySymbol(allPositions);
     const symbols = positions.map(p => p.symbol);
     console.log(`--- STOCK DATA SERVICE v12.1 LOADED (${positions.length} positions) ---`);
-    const sortedKey = symbols.slice().sort().join(',');
-    const cacheKey = `analytics_v12_${sortedKey}_${positions.length}`;
-    const cached = getCached(cacheKey, 60 * 60 * 1000);
+    // TWR, XIRR and the risk series all follow the lot and sale dates, so the key covers them
+    const cacheKey = userCacheKey(allPositions[0]?.user, `analytics_v18_${analyticsFingerprint(allPositions)}`);
+    const cached = await getCached(cacheKey);
     if (cached) {
         console.log('[Health] Returning fully cached analytics');
         return cached;
@@ -879,8 +783,10 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                         const p = Number(lot.price);
 
                         if (!isNaN(q) && !isNaN(p)) {
-                            qty += q;
-                            cost += (q * p);
+                            // Only the still-open shares count towards current holdings
+                            const openQ = Math.max(0, q - (Number(lot.soldQuantity) || 0));
+                            qty += openQ;
+                            cost += (openQ * p);
                             posHasLots = true;
 
                             const d = new Date(lot.date);
@@ -900,8 +806,22 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                     });
                 }
 
+                // Sales are outflows: negative quantity at the sale price
+                (pos.sales || []).forEach(sale => {
+                    const d = new Date(sale.date);
+                    const q = Number(sale.quantity);
+                    if (isNaN(d.getTime()) || isNaN(q)) return;
+                    lotEvents.push({
+                        date: d.toISOString().split('T')[0],
+                        symbol: pos.symbol,
+                        quantity: -q,
+                        price: Number(sale.price) || 0
+                    });
+                });
+
                 // Fallback if no lots or lots resulted in 0 logic
-                if (!posHasLots || qty === 0) {
+                // (a fully sold position has lots AND sales, so it legitimately sits at 0)
+                if (!posHasLots || (qty === 0 && !(pos.sales && pos.sales.length > 0))) {
                     qty = Number(pos.quantity) || 0;
                     const avg = Number(pos.averagePrice) || 0;
                     cost = qty * avg;
@@ -965,9 +885,9 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                 Promise.all(symbols.map(s => fetchWithTimeout(getBasicFinancials(s), 5000, null))),
                 Promise.all(symbols.map(s => fetchWithTimeout(getCompanyProfile(s), 5000, {}))),
                 Promise.all(symbols.map(s => fetchWithTimeout(getAnalystRecommendations(s), 5000, []))),
-                fetchWithTimeout(fetchYahooChart('SPY', earliestDate), 8000, { dates: [], closes: [] }),
+                fetchWithTimeout(fetchChart('SPY', earliestDate), 8000, { dates: [], closes: [] }),
                 Promise.all(symbols.map(s => fetchWithTimeout(fetchDividendInfo(s), 5000, null))),
-                ...symbols.map(s => fetchWithTimeout(fetchYahooChart(s, earliestDate), 8000, { dates: [], closes: [] }))
+                ...symbols.map(s => fetchWithTimeout(fetchUsdChart(s, earliestDate), 8000, { dates: [], closes: [] }))
             ]);
 
             // VALIDATION: STRICT "All or Nothing" for Score Stability
@@ -981,80 +901,54 @@ export async function getPortfolioHealthAndBenchmark(positions) {
 
             console.log('[Health] Fetch complete. Building result...');
 
-            // --- C. Health Score Calculation ---
-            const totalValue = quantities.reduce((acc, q, i) => acc + (q * prices[i]), 0);
-
-            // 1. Diversification
-            const sectorExposure = {};
-            let maxSectorPct = 0;
-            let sectorsFound = 0;
+            // --- C. Health score inputs (scored with the user's weights and targets by healthScoreService) ---
+            const latestClose = (chart) => (chart?.closes?.length > 0 ? chart.closes[chart.closes.length - 1] : null);
 
-            symbols.forEach((_, i) => {
+            const healthHoldings = symbols.map((symbol, i) => {
                 const profile = profilesResults[i];
-                // Fallback for sector if missing
-                const sector = profile?.finnhubIndustry || 'Unknown';
-                if (profile?.finnhubIndustry) sectorsFound++;
-
-                const val = quantities[i] * prices[i];
-                sectorExposure[sector] = (sectorExposure[sector] || 0) + val;
-            });
-            Object.values(sectorExposure).forEach(val => {
-                const pct = totalValue > 0 ? (val / totalValue) * 100 : 0;
-                if (pct > maxSectorPct) maxSectorPct = pct;
+                const metric = metricsResults[i]?.metric || {};
+                const close = latestClose(symbolCharts[i]);
+                const sector = profile?.finnhubIndustry || null;
+                // Millions of shares a day
+                const volume = Number(metric['10DayAverageTradingVolume']);
+
+                const latest = recsResults[i]?.[0];
+                const votes = latest ? latest.buy + latest.hold + latest.sell + latest.strongBuy + latest.strongSell : 0;
+
+                return {
+                    symbol,
+                    value: quantities[i] * (close ?? prices[i]),
+                    sector,
+                    isETF: ETF_SYMBOLS.has(symbol) || sector === 'Exchange Traded Fund',
+                    beta: Number.isFinite(metric.beta) ? metric.beta : null,
+                    dollarVolume: volume > 0 && close ? volume * 1e6 * close : null,
+                    buyRatio: votes > 0 ? (latest.buy + latest.strongBuy) / votes : null
+                };
             });
-            // If we have literally 0 profile data, don't penalize too hard? Or default score?
-            // Existing logic is fine: Unknown sector will group them and likely penalize, which is correct (risk).
-            const diversificationScore = Math.max(0, 100 - Math.max(0, maxSectorPct - 30) * 2.5);
 
-            // FIX: Guard against "Diversity 0" glitch when data is missing but multiple stocks exist.
-            if (symbols.length > 0 && diversificationScore === 0) {
-                const missingSectors = symbols.filter((_, i) => !profilesResults[i]?.finnhubIndustry);
-                console.warn(`[Health] Diversity 0 detected despite ${symbols.length} stocks. Missing sectors for: ${missingSectors.length}`);
-
-                // Throw error to prevent caching and updating UI with zero values
-                throw new Error(`Critical data failure: Calculated 0 diversity. Aborting tick to protect UI.`);
+            // Worst peak-to-trough fall of today's holdings over the last year (SPY's trading days)
+            let maxDrawdownPct = null;
+            const closeMaps = symbolCharts.map(chart => new Map((chart?.dates || []).map((d, j) => [d, chart.closes[j]])));
+            const yearAgoDay = oneYearAgo.toISOString().split('T')[0];
+            const lastKnown = symbols.map(() => null);
+            let peak = 0;
+            for (const date of (spyChart?.dates || []).filter(d => d >= yearAgoDay)) {
+                let value = 0;
+                symbols.forEach((_, i) => {
+                    const close = closeMaps[i].get(date);
+                    if (close) lastKnown[i] = close;
+                    if (lastKnown[i]) value += quantities[i] * lastKnown[i];
+                });
+                // Start once every holding has a price, so a late listing doesn't read as a gain
+                if (value <= 0 || lastKnown.some(close => close === null)) continue;
+                peak = Math.max(peak, value);
+                maxDrawdownPct = Math.max(maxDrawdownPct ?? 0, ((peak - value) / peak) * 100);
             }
 
-            // 2. Volatility
-            let weightedBeta = 0;
-            let validBetaWeight = 0;
-            symbols.forEach((_, i) => {
-                // If metric failed, assume beta=1 (Neutral)
-                const beta = metricsResults[i]?.metric?.beta || 1.1;
-                const weight = totalValue > 0 ? (quantities[i] * prices[i]) / totalValue : 0;
-                weightedBeta += beta * weight;
-                validBetaWeight += weight;
-            });
-            const portfolioBeta = validBetaWeight > 0 ? weightedBeta / validBetaWeight : 1;
-            const volatilityScore = Math.max(0, 100 - Math.max(0, portfolioBeta - 1.0) * 50);
-
-            // 3. Sentiment
-            let totalBuyRatio = 0;
-            let sentimentCount = 0;
-            symbols.forEach((_, i) => {
-                const isETF = profilesResults[i]?.finnhubIndustry === 'Exchange Traded Fund';
-                // If we don't know it's an ETF (missing profile), we might accidentally count it or skip it.
-                // Safest to check Recs existence.
-                const recs = recsResults[i];
-                if (!isETF && recs && recs.length > 0) {
-                    const latest = recs[0];
-                    const total = latest.buy + latest.hold + latest.sell + latest.strongBuy + latest.strongSell;
-                    if (total > 0) {
-                        const buyRatio = (latest.buy + latest.strongBuy) / total;
-                        totalBuyRatio += buyRatio;
-                        sentimentCount++;
-                    }
-                }
-            });
-            // Default to 50 (Neutral) if no analyst coverage found
-            const sentimentScore = sentimentCount > 0 ? (totalBuyRatio / sentimentCount) * 100 : 50;
-
-            const healthScore = Math.round(
-                (diversificationScore * 0.4) + (volatilityScore * 0.3) + (sentimentScore * 0.3)
-            );
-
             // --- D. Benchmark (TWR) ---
             const benchmarkData = [];
+            // Daily portfolio and SPY returns for the risk metrics
+            const riskSeries = [];
             const symbolCloseLookup = symbolCharts.map(chart => {
                 const map = {};
                 if (chart && chart.dates) {
@@ -1121,6 +1015,7 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                     // --- TWR CALCULATION FIX ---
                     const startValue = prevPortfolioValue;
                     const denominator = startValue + dailyInflowValue;
+                    let dailyRet = null;
 
                     if (denominator > 0) {
                         // FIX: If this is the FIRST ever deposit day (startValue is 0, inflow > 0)
@@ -1133,19 +1028,25 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                         // The bug was likely previous code didn't handle `startValue = 0` correctly 
                         // or `prevPortfolioValue` wasn't updated correctly before this step.
 
-                        const dailyRet = (currentMarketValue - denominator) / denominator; // Standard HPR formula
+                        dailyRet = (currentMarketValue - denominator) / denominator; // Standard HPR formula
                         cumulativeTWR = ((1 + cumulativeTWR) * (1 + dailyRet)) - 1;
                         portfolioStarted = true;
                     }
 
                     // SPY Benchmarking
+                    let spyDaily = null;
                     if (portfolioStarted && spyClose !== undefined && spyClose !== null) {
                         if (prevSpyClose > 0) {
-                            const spyDaily = (spyClose - prevSpyClose) / prevSpyClose;
+                            spyDaily = (spyClose - prevSpyClose) / prevSpyClose;
                             spCumReturn = ((1 + spCumReturn) * (1 + spyDaily)) - 1;
                         }
                     }
 
+                    // A first-purchase day compares the fill with the close, not one close with the next
+                    if (dailyRet !== null && startValue > 0) {
+                        riskSeries.push({ date, portfolio: dailyRet, spy: spyDaily });
+                    }
+
                     benchmarkData.push({
                         date: date,
                         portfolio: cumulativeTWR * 100,
@@ -1175,6 +1076,25 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                 }
             }
 
+            // --- D2. Money-weighted return (XIRR) next to TWR ---
+            // Buys are money in, sales money out, and today's value is the final flow
+            const todayStr = new Date().toISOString().split('T')[0];
+            const cashFlowsBySymbol = new Map(symbols.map(s => [s, []]));
+            lotEvents.forEach(e => cashFlowsBySymbol.get(e.symbol)?.push({ date: e.date, amount: -e.quantity * e.price }));
+            symbols.forEach((s, i) => {
+                const close = latestClose(symbolCharts[i]);
+                if (quantities[i] > 0 && close) cashFlowsBySymbol.get(s).push({ date: todayStr, amount: quantities[i] * close });
+            });
+
+            const twrCumulative = filteredBenchmarkData.length > 0 ? filteredBenchmarkData[filteredBenchmarkData.length - 1].portfolio : null;
+            const twrDays = Math.round((Date.now() - minTimestamp) / (24 * 60 * 60 * 1000));
+            const returns = {
+                since: inceptionDateStr,
+                twr: { cumulative: twrCumulative, annualized: annualizeReturn(twrCumulative, twrDays), days: twrDays },
+                mwr: moneyWeightedReturn([...cashFlowsBySymbol.values()].flat()),
+                positions: Object.fromEntries(symbols.map(s => [s, moneyWeightedReturn(cashFlowsBySymbol.get(s))]))
+            };
+
             // --- E. Dividends ---
             const today = new Date();
             today.setHours(0, 0, 0, 0); // Strip time for fair date comparison
@@ -1192,13 +1112,15 @@ export async function getPortfolioHealthAndBenchmark(positions) {
                 const exDate = new Date(info.exDate);
                 exDate.setHours(0, 0, 0, 0);
 
-                const quarterlyAmount = (info.dividendRate || 0) / 4;
+                // Last actual payment per share (USD); the indicated annual rate only when there's no history
+                const lastPaid = symbolCharts[i]?.dividends?.at(-1);
+                const amount = lastPaid ? lastPaid.amount : (info.dividendRate || 0) / 4;
                 const dividendObj = {
                     symbol: sym,
                     exDate: info.exDate,
                     paymentDate: info.paymentDate || null,
-                    amount: quarterlyAmount,
-                    estimatedPayout: quarterlyAmount * quantities[i],
+                    amount,
+                    estimatedPayout: amount * quantities[i],
                 };
 
                 const payDate = info.paymentDate ? new Date(info.paymentDate) : null;
@@ -1254,31 +1176,28 @@ export async function getPortfolioHealthAndBenchmark(positions) {
             };
 
             const finalResult = {
-                healthScore,
-                components: {
-                    diversification: Math.round(diversificationScore),
-                    volatility: Math.round(volatilityScore),
-                    sentiment: Math.round(sentimentScore)
-                },
-                portfolioBeta: Number(portfolioBeta.toFixed(2)),
-                maxSectorPct: Number(maxSectorPct.toFixed(1)),
+                healthInputs: { holdings: healthHoldings, maxDrawdownPct },
                 benchmarkData: filteredBenchmarkData,
                 dividends,
                 pendingPayouts,
                 correlationMatrix,
+                risk: computeRiskMetrics(riskSeries),
+                returns,
+                // Compared with the chosen benchmarks per request by benchmarkService.withBenchmarks
+                benchmarkInputs: { returns: riskSeries.map(({ date, portfolio }) => ({ date, portfolio })) },
                 lastUpdated: new Date().toISOString()
             };
 
             // Update cache before returning
-            setCache(cacheKey, finalResult);
+            // Kept a day past its hour so a failed recalculation can fall back to it
+            await setCache(cacheKey, finalResult, 60 * 60 * 1000, { staleMs: 24 * 60 * 60 * 1000 });
             return finalResult;
 
         } catch (error) {
             console.error('❌ Error in getPortfolioHealthAndBenchmark logic:', error);
 
             // Try to return the LAST cached good response instead of 0s
-            // getCached with Infinity duration essentially grabs the stale data
-            const previousGoodData = getCached(cacheKey, Infinity);
+            const previousGoodData = await getStale(cacheKey);
             if (previousGoodData) {
                 console.log('[Health] Falling back to stale cached data instead of sending 0s to UI.');
                 return previousGoodData;
@@ -1288,14 +1207,203 @@ export async function getPortfolioHealthAndBenchmark(positions) {
             return {
                 healthScore: 50,
                 components: { diversification: 50, volatility: 50, sentiment: 50 },
+                healthFactors: [],
                 portfolioBeta: 1,
                 maxSectorPct: 100,
                 benchmarkData: [],
                 dividends: [],
                 pendingPayouts: [],
                 correlationMatrix: { symbols: [], matrix: [] },
+                risk: null,
+                returns: null,
                 error: error.message
             };
         }
     });
 }
+
+// ============================================
+// PORTFOLIO VALUE HISTORY
+// ============================================
+
+export const HISTORY_RANGES = ['1W', '1M', '3M', 'YTD', '1Y', '5Y', 'MAX'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY_POINTS = 400;
+
+/**
+ * First day of a chart range. MAX starts at the earliest lot / sale / transaction.
+ */
+export function rangeStartDate(range, earliest) {
+    const now = new Date();
+    switch (range) {
+        case '1W': return new Date(now.getTime() - 7 * DAY_MS);
+        case '1M': return new Date(now.getTime() - 30 * DAY_MS);
+        case '3M': return new Date(now.getTime() - 90 * DAY_MS);
+        case 'YTD': return new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+        case '1Y': return new Date(now.getTime() - 365 * DAY_MS);
+        case '5Y': return new Date(now.getTime() - 5 * 365 * DAY_MS);
+        default: return earliest;
+    }
+}
+
+/**
+ * Dated share / cost events for one position. Positions from before lots existed
+ * are treated as a single buy on their creation date.
+ */
+export function positionEvents(pos) {
+    const lots = pos.lots && pos.lots.length > 0
+        ? pos.lots
+        : (pos.quantity > 0 ? [{ quantity: pos.quantity, price: pos.averagePrice, date: pos.createdAt }] : []);
+
+    return [
+        ...lots.map(lot => ({
+            date: new Date(lot.date || pos.createdAt),
+            shares: lot.quantity,
+            cost: lot.quantity * lot.price
+        })),
+        ...(pos.sales || []).map(sale => ({
+            date: new Date(sale.date),
+            shares: -sale.quantity,
+            cost: -sale.costBasis,
+            proceeds: sale.proceeds
+        }))
+    ].sort((a, b) => a.date - b.date);
+}
+
+/**
+ * Portfolio value time series that replays lots, sales and the cash ledger day by day.
+ *
+ * - value:         market value of shares held that day (+ cash balance when the ledger tracks cash)
+ * - costBasis:     cost of the shares still open that day
+ * - contributions: net money put in — deposits minus withdrawals when cash is tracked,
+ *                  otherwise purchases minus sale proceeds and dividends taken out
+ *
+ * Amounts are in the display currency: holdings are marked at each day's FX rate,
+ * while cost and contributions are converted at the rate of the day they happened.
+ *
+ * @param {Array} positions - Position objects with lots and sales
+ * @param {Array} transactions - Ledger transactions (may be empty)
+ * @param {string} range - One of HISTORY_RANGES
+ * @param {string} currency - Display currency code (see User DISPLAY_CURRENCIES)
+ */
+export async function getPortfolioValueHistory(positions, transactions, range = '1M', currency = 'USD') {
+    const events = positions.map(pos => ({ symbol: pos.symbol, events: positionEvents(pos) }))
+        .filter(p => p.events.length > 0);
+
+    const ledger = transactions.slice().sort((a, b) => new Date(a.date) - new Date(b.date));
+    const tracksCash = ledger.some(tx => tx.type === 'deposit' || tx.type === 'withdrawal');
+
+    const allDates = [
+        ...events.flatMap(p => p.events.map(e => e.date)),
+        ...ledger.map(tx => new Date(tx.date))
+    ];
+    if (allDates.length === 0) {
+        return { range, currency, tracksCash, points: [], summary: null };
+    }
+
+    const earliest = new Date(Math.min(...allDates));
+    const start = new Date(Math.max(rangeStartDate(range, earliest).getTime(), earliest.getTime() - DAY_MS));
+    // A week of look-back so the first point can carry forward the previous close.
+    // Floored to midnight so repeated requests hit the chart cache.
+    const fetchFrom = new Date(Math.floor((start.getTime() - 7 * DAY_MS) / DAY_MS) * DAY_MS);
+
+    const symbols = [...new Set(events.map(p => p.symbol))];
+    const [charts, fxHistory, spot] = await Promise.all([
+        Promise.all(symbols.map(symbol => fetchUsdChart(symbol, fetchFrom))),
+        getFxHistory('USD', currency, fetchFrom),
+        getFxRate('USD', currency)
+    ]);
+    const rateOn = fxRateOn(fxHistory, spot.rate);
+    const closesBySymbol = new Map(symbols.map((symbol, i) => [symbol, charts[i]]));
+
+    const startDay = start.toISOString().split('T')[0];
+    const days = [...new Set(charts.flatMap(chart => chart.dates))]
+        .filter(day => day >= startDay)
+        .sort();
+
+    // Running state per symbol, advanced as each day is processed
+    // cost is tracked in USD (sales record USD cost basis) and displayCost in the display currency
+    const state = events.map(p => ({ ...p, index: 0, shares: 0, cost: 0, displayCost: 0, closeIndex: -1, close: null }));
+    let ledgerIndex = 0;
+    let cash = 0;
+    let deposits = 0;
+    let tradeContributions = 0;
+
+    const points = days.map(day => {
+        const dayEnd = new Date(`${day}T23:59:59.999Z`);
+        const rate = rateOn(day);
+        let marketValue = 0;
+        let costBasis = 0;
+
+        for (const s of state) {
+            while (s.index < s.events.length && s.events[s.index].date <= dayEnd) {
+                const e = s.events[s.index++];
+                if (e.shares > 0) {
+                    s.displayCost += e.cost * rate;
+                } else if (s.cost > 0) {
+                    // Release the sold share of cost at the rates it was bought at
+                    s.displayCost -= s.displayCost * Math.min(1, -e.cost / s.cost);
+                }
+                s.shares += e.shares;
+                s.cost += e.cost;
+                tradeContributions += (e.shares > 0 ? e.cost : -(e.proceeds || 0)) * rate;
+            }
+
+            const chart = closesBySymbol.get(s.symbol);
+            while (s.closeIndex + 1 < chart.dates.length && chart.dates[s.closeIndex + 1] <= day) {
+                s.close = chart.closes[++s.closeIndex];
+            }
+
+            const shares = Math.max(0, s.shares);
+            if (s.close !== null) marketValue += shares * s.close;
+            costBasis += shares > 1e-9 ? s.displayCost : 0;
+        }
+
+        while (ledgerIndex < ledger.length && new Date(ledger[ledgerIndex].date) <= dayEnd) {
+            const tx = ledger[ledgerIndex++];
+            cash += cashImpact(tx);
+            if (tx.type === 'deposit') deposits += ((Number(tx.amount) || 0) - (Number(tx.fee) || 0)) * rate;
+            if (tx.type === 'withdrawal') deposits -= ((Number(tx.amount) || 0) + (Number(tx.fee) || 0)) * rate;
+            if (tx.type === 'dividend') tradeContributions -= cashImpact(tx) * rate;
+            if (tx.type === 'fee') tradeContributions -= cashImpact(tx) * rate;
+        }
+
+        return {
+            date: day,
+            value: (marketValue + (tracksCash ? cash : 0)) * rate,
+            costBasis,
+            contributions: tracksCash ? deposits : tradeContributions,
+            cash: tracksCash ? cash * rate : null
+        };
+    });
+
+    // Time-weighted return and best day, with contributions treated as external flows
+    let growth = 1;
+    let bestDay = null;
+    for (let i = 1; i < points.length; i++) {
+        const prev = points[i - 1];
+        const flow = points[i].contributions - prev.contributions;
+        const change = points[i].value - prev.value - flow;
+        if (prev.value > 0) growth *= 1 + change / prev.value;
+        if (!bestDay || change > bestDay.change) bestDay = { date: points[i].date, change };
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const summary = last ? {
+        startValue: first.value,
+        endValue: last.value,
+        twrPercent: (growth - 1) * 100,
+        totalGain: last.value - last.contributions,
+        bestDay
+    } : null;
+
+    // Thin long ranges but always keep the latest point
+    const step = Math.ceil(points.length / MAX_HISTORY_POINTS);
+    const sampled = step > 1
+        ? points.filter((_, i) => i % step === 0 || i === points.length - 1)
+        : points;
+
+    return { range, currency, tracksCash, points: sampled, summary };
+}
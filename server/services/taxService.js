@@ -0,0 +1,302 @@
+/**
+ * Tax Report Service
+ * Realized gains per tax year from the sales' lot matches, under one of two rule sets:
+ * - us: short- vs long-term (held more than a year), with wash sales. A loss is disallowed when
+ *   the same symbol was bought 30 days before or after the sale, in any portfolio; the
+ *   disallowed loss moves into the replacement shares' basis and their holding period takes
+ *   over the sold shares' days, so it comes back when those shares are sold.
+ * - il: 25% on the real gain. Cost and proceeds are converted to ILS at the USD/ILS rate of
+ *   the purchase and sale days; the part of the gain that only reflects the shekel weakening
+ *   (the inflationary amount) is exempt, and losses stay nominal.
+ * Amounts are in USD unless named Ils. The report is informational, not tax advice: fees,
+ * the Israeli surtax and the 30% rate for substantial shareholders aren't modelled.
+ */
+
+import { getFxHistory, getFxRate, fxRateOn } from './stockDataService.js';
+
+export const TAX_RULES = ['us', 'il'];
+export const IL_CAPITAL_GAINS_RATE = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WASH_SALE_DAYS = 30;
+const EPSILON = 1e-9;
+
+const round = (value, digits = 2) => (value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits)));
+
+const dayOf = (date) => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Long-term once held more than one year: sold after the purchase date's anniversary
+ */
+function isLongTerm(acquired, sold) {
+    const anniversary = new Date(acquired);
+    anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+    return new Date(sold) > anniversary;
+}
+
+/**
+ * One disposal per lot a sale closed, oldest sale first. Sales from before lot matching
+ * become a single disposal without a purchase date.
+ */
+function disposals(positions) {
+    const rows = [];
+    for (const pos of positions) {
+        for (const sale of pos.sales || []) {
+            const matches = sale.matches?.length > 0
+                ? sale.matches
+                : [{ lot: null, lotDate: null, quantity: sale.quantity, costBasis: sale.costBasis, realizedGain: sale.realizedGain }];
+            for (const match of matches) {
+                rows.push({
+                    saleId: String(sale._id),
+                    symbol: pos.symbol,
+                    name: pos.name || pos.symbol,
+                    lotId: match.lot ? String(match.lot) : null,
+                    acquired: match.lotDate ? dayOf(match.lotDate) : null,
+                    sold: dayOf(sale.date),
+                    quantity: match.quantity,
+                    proceeds: match.quantity * sale.price,
+                    costBasis: match.costBasis,
+                    saleLots: new Set((sale.matches || []).map(m => String(m.lot)))
+                });
+            }
+        }
+    }
+    return rows.sort((a, b) => a.sold.localeCompare(b.sold));
+}
+
+/**
+ * Lots per symbol across all portfolios, with the dates their shares were sold
+ */
+function lotsBySymbol(positions) {
+    const bySymbol = new Map();
+    for (const pos of positions) {
+        const soldByLot = new Map();
+        for (const sale of pos.sales || []) {
+            for (const match of sale.matches || []) {
+                const key = String(match.lot);
+                if (!soldByLot.has(key)) soldByLot.set(key, []);
+                soldByLot.get(key).push({ date: dayOf(sale.date), quantity: match.quantity });
+            }
+        }
+        const lots = bySymbol.get(pos.symbol) || [];
+        for (const lot of pos.lots || []) {
+            lots.push({
+                lotId: String(lot._id),
+                symbol: pos.symbol,
+                date: dayOf(lot.date),
+                quantity: lot.quantity,
+                sales: soldByLot.get(String(lot._id)) || []
+            });
+        }
+        bySymbol.set(pos.symbol, lots.sort((a, b) => a.date.localeCompare(b.date)));
+    }
+    return bySymbol;
+}
+
+/**
+ * US rules: holding period, wash sales and the basis they carry into replacement shares
+ */
+function usDisposals(rows, allPositions) {
+    const lots = lotsBySymbol(allPositions);
+    const usedAsReplacement = new Map(); // lotId -> shares already used
+    const adjustments = new Map(); // lotId -> [{ shares, perShare, heldDays, from }] waiting for the lot's sale
+
+    return rows.map(row => {
+        // Basis and holding period carried over from earlier wash sales into this lot
+        let carriedBasis = 0;
+        let heldDays = 0;
+        let remaining = row.quantity;
+        const pending = row.lotId ? adjustments.get(row.lotId) || [] : [];
+        while (remaining > EPSILON && pending.length > 0) {
+            const adjustment = pending[0];
+            const shares = Math.min(adjustment.shares, remaining);
+            carriedBasis += shares * adjustment.perShare;
+            heldDays = Math.max(heldDays, adjustment.heldDays);
+            adjustment.shares -= shares;
+            remaining -= shares;
+            if (adjustment.shares <= EPSILON) pending.shift();
+        }
+
+        const costBasis = row.costBasis + carriedBasis;
+        const gain = row.proceeds - costBasis;
+        const acquiredForTerm = row.acquired ? new Date(new Date(row.acquired).getTime() - heldDays * DAY_MS) : null;
+        const term = acquiredForTerm ? (isLongTerm(acquiredForTerm, row.sold) ? 'long' : 'short') : null;
+
+        let disallowed = 0;
+        const replacements = [];
+        if (gain < -EPSILON) {
+            const sold = new Date(row.sold).getTime();
+            const windowStart = dayOf(sold - WASH_SALE_DAYS * DAY_MS);
+            const windowEnd = dayOf(sold + WASH_SALE_DAYS * DAY_MS);
+            const lossPerShare = -gain / row.quantity;
+            let sharesToMatch = row.quantity;
+
+            for (const lot of lots.get(row.symbol) || []) {
+                if (sharesToMatch <= EPSILON) break;
+                // The sold shares can't replace themselves
+                if (row.saleLots.has(lot.lotId) || lot.date < windowStart || lot.date > windowEnd) continue;
+                // Bought before the sale but already sold again by then: nothing left to replace with
+                const soldBeforeSale = lot.sales.filter(s => s.date < row.sold).reduce((sum, s) => sum + s.quantity, 0);
+                const available = lot.quantity - soldBeforeSale - (usedAsReplacement.get(lot.lotId) || 0);
+                if (available <= EPSILON) continue;
+
+                const shares = Math.min(available, sharesToMatch);
+                usedAsReplacement.set(lot.lotId, (usedAsReplacement.get(lot.lotId) || 0) + shares);
+                sharesToMatch -= shares;
+                disallowed += shares * lossPerShare;
+                replacements.push({ lotId: lot.lotId, date: lot.date, quantity: shares });
+
+                const holding = row.acquired ? Math.round((sold - new Date(row.acquired).getTime()) / DAY_MS) + heldDays : 0;
+                if (!adjustments.has(lot.lotId)) adjustments.set(lot.lotId, []);
+                adjustments.get(lot.lotId).push({ shares, perShare: lossPerShare, heldDays: holding });
+            }
+        }
+
+        return {
+            saleId: row.saleId,
+            symbol: row.symbol,
+            name: row.name,
+            lotId: row.lotId,
+            acquired: row.acquired,
+            sold: row.sold,
+            quantity: row.quantity,
+            term,
+            proceeds: round(row.proceeds),
+            costBasis: round(costBasis),
+            basisAdjustment: round(carriedBasis),
+            gain: round(gain),
+            washSaleDisallowed: round(disallowed),
+            reportableGain: round(gain + disallowed),
+            washSaleReplacements: replacements
+        };
+    });
+}
+
+/**
+ * Israeli rules: ILS cost and proceeds at each day's USD/ILS rate, inflationary amount exempt
+ */
+async function ilDisposals(rows, notes) {
+    const earliest = rows.reduce((min, r) => (r.acquired && r.acquired < min ? r.acquired : min), rows[0]?.sold || dayOf(Date.now()));
+    const [history, spot] = await Promise.all([
+        getFxHistory('USD', 'ILS', new Date(new Date(earliest).getTime() - 7 * DAY_MS)),
+        getFxRate('USD', 'ILS')
+    ]);
+    if (!history) notes.push("No historical USD/ILS rates; today's rate was used for every date");
+    const rateOn = fxRateOn(history, spot.rate);
+
+    return rows.map(row => {
+        const fxSale = rateOn(row.sold);
+        // Without a purchase date the shekel change can't be measured, so nothing is exempt
+        const fxBuy = row.acquired ? rateOn(row.acquired) : fxSale;
+        const costIls = row.costBasis * fxBuy;
+        const proceedsIls = row.proceeds * fxSale;
+        const nominalGainIls = proceedsIls - costIls;
+        // Only a weaker shekel creates an inflationary amount
+        const inflationaryIls = Math.max(0, costIls * (fxSale / fxBuy - 1));
+        const realGainIls = nominalGainIls <= 0
+            ? nominalGainIls
+            : Math.max(0, nominalGainIls - inflationaryIls);
+
+        return {
+            saleId: row.saleId,
+            symbol: row.symbol,
+            name: row.name,
+            lotId: row.lotId,
+            acquired: row.acquired,
+            sold: row.sold,
+            quantity: row.quantity,
+            proceeds: round(row.proceeds),
+            costBasis: round(row.costBasis),
+            gain: round(row.proceeds - row.costBasis),
+            fxBuy: round(fxBuy, 4),
+            fxSale: round(fxSale, 4),
+            costIls: round(costIls),
+            proceedsIls: round(proceedsIls),
+            nominalGainIls: round(nominalGainIls),
+            inflationaryIls: round(Math.min(inflationaryIls, Math.max(0, nominalGainIls))),
+            realGainIls: round(realGainIls)
+        };
+    });
+}
+
+const sumOf = (rows, key) => rows.reduce((sum, r) => sum + (r[key] || 0), 0);
+
+function usSummary(rows) {
+    const bucket = (term) => {
+        const termRows = rows.filter(r => r.term === term);
+        return {
+            count: termRows.length,
+            proceeds: round(sumOf(termRows, 'proceeds')),
+            costBasis: round(sumOf(termRows, 'costBasis')),
+            gain: round(sumOf(termRows, 'gain')),
+            washSaleDisallowed: round(sumOf(termRows, 'washSaleDisallowed')),
+            reportableGain: round(sumOf(termRows, 'reportableGain'))
+        };
+    };
+    return {
+        shortTerm: bucket('short'),
+        longTerm: bucket('long'),
+        unknownTerm: bucket(null),
+        washSales: rows.filter(r => r.washSaleDisallowed > 0).length,
+        reportableGain: round(sumOf(rows, 'reportableGain'))
+    };
+}
+
+function ilSummary(rows) {
+    const gains = rows.filter(r => r.realGainIls > 0);
+    const losses = rows.filter(r => r.realGainIls < 0);
+    const netRealGainIls = sumOf(rows, 'realGainIls');
+    return {
+        count: rows.length,
+        proceedsIls: round(sumOf(rows, 'proceedsIls')),
+        costIls: round(sumOf(rows, 'costIls')),
+        nominalGainIls: round(sumOf(rows, 'nominalGainIls')),
+        inflationaryIls: round(sumOf(rows, 'inflationaryIls')),
+        realGainsIls: round(sumOf(gains, 'realGainIls')),
+        realLossesIls: round(sumOf(losses, 'realGainIls')),
+        netRealGainIls: round(netRealGainIls),
+        rate: IL_CAPITAL_GAINS_RATE * 100,
+        // Losses offset gains within the year; a net loss carries forward instead
+        estimatedTaxIls: round(Math.max(0, netRealGainIls) * IL_CAPITAL_GAINS_RATE),
+        lossCarryForwardIls: round(Math.max(0, -netRealGainIls))
+    };
+}
+
+/**
+ * Realized gains for one tax year
+ *
+ * @param {Array} positions - Positions in the report (the active portfolio, or all)
+ * @param {Array} allPositions - Every position the user has, for wash-sale replacement buys
+ * @param {Object} options - { year, rules: 'us' | 'il' }
+ */
+export async function buildTaxReport(positions, allPositions, { year, rules = 'us' }) {
+    const notes = [];
+    const rows = disposals(positions);
+    const years = [...new Set(rows.map(r => Number(r.sold.slice(0, 4))))].sort((a, b) => b - a);
+    const reportYear = year || years[0] || new Date().getUTCFullYear();
+
+    const legacy = rows.filter(r => !r.acquired).length;
+    if (legacy > 0) notes.push(`${legacy} sale${legacy === 1 ? ' has' : 's have'} no lot detail, so the purchase date is unknown`);
+
+    let yearRows;
+    let summary;
+    if (rules === 'il') {
+        const inYear = rows.filter(r => r.sold.startsWith(String(reportYear)));
+        yearRows = inYear.length > 0 ? await ilDisposals(inYear, notes) : [];
+        summary = ilSummary(yearRows);
+    } else {
+        // Wash-sale basis carries across years, so every sale is replayed before filtering
+        yearRows = usDisposals(rows, allPositions).filter(r => r.sold.startsWith(String(reportYear)));
+        summary = usSummary(yearRows);
+    }
+
+    return {
+        rules,
+        year: reportYear,
+        years,
+        summary,
+        disposals: yearRows,
+        notes,
+        generatedAt: new Date().toISOString()
+    };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildTaxReport } from './taxService.js';
+
+// US rules need no exchange rates
+vi.mock('./stockDataService.js', () => ({
+    getFxHistory: vi.fn(),
+    getFxRate: vi.fn(),
+    fxRateOn: vi.fn()
+}));
+
+const lot = (id, date, quantity, price) => ({ _id: id, date: new Date(date), quantity, price });
+
+const sale = (id, date, price, matches) => ({
+    _id: id,
+    date: new Date(date),
+    price,
+    quantity: matches.reduce((sum, m) => sum + m.quantity, 0),
+    matches: matches.map(({ lot: matched, quantity }) => ({
+        lot: matched._id,
+        lotDate: matched.date,
+        lotPrice: matched.price,
+        quantity,
+        costBasis: quantity * matched.price
+    }))
+});
+
+const position = (lots, sales) => ({ symbol: 'AAPL', name: 'Apple', lots, sales });
+
+const usReport = async (positions, year) => {
+    const report = await buildTaxReport(positions, positions, { year, rules: 'us' });
+    return report.disposals;
+};
+
+describe('US wash sales', () => {
+    // 10 shares bought at 100 and sold at 80 for a $20/share loss, then rebought at 85 two weeks later
+    const first = lot('lot-a', '2023-01-10', 10, 100);
+    const replacement = lot('lot-b', '2023-06-15', 10, 85);
+    const lossSale = sale('sale-1', '2023-06-01', 80, [{ lot: first, quantity: 10 }]);
+
+    it('disallows a loss when the symbol is bought again within 30 days', async () => {
+        const [row] = await usReport([position([first, replacement], [lossSale])], 2023);
+
+        expect(row.gain).toBe(-200);
+        expect(row.washSaleDisallowed).toBe(200);
+        expect(row.reportableGain).toBe(0);
+        expect(row.washSaleReplacements).toEqual([{ lotId: 'lot-b', date: '2023-06-15', quantity: 10 }]);
+    });
+
+    it('only disallows the share of the loss the replacement buy covers', async () => {
+        const small = lot('lot-b', '2023-06-15', 4, 85);
+        const [row] = await usReport([position([first, small], [lossSale])], 2023);
+
+        expect(row.washSaleDisallowed).toBe(80);
+        expect(row.reportableGain).toBe(-120);
+    });
+
+    it('keeps the loss when the rebuy is more than 30 days away', async () => {
+        const later = lot('lot-b', '2023-07-05', 10, 85);
+        const [row] = await usReport([position([first, later], [lossSale])], 2023);
+
+        expect(row.washSaleDisallowed).toBe(0);
+        expect(row.washSaleReplacements).toEqual([]);
+        expect(row.reportableGain).toBe(-200);
+    });
+
+    it('finds replacement buys in other portfolios', async () => {
+        const sold = position([first], [lossSale]);
+        const elsewhere = position([replacement], []);
+        const report = await buildTaxReport([sold], [sold, elsewhere], { year: 2023, rules: 'us' });
+
+        expect(report.disposals[0].washSaleDisallowed).toBe(200);
+    });
+
+    it('moves the disallowed loss and holding period into the replacement shares', async () => {
+        // Sold 2024-02-01: under a year after the 2023-06-15 rebuy, but the first lot's 142 days
+        // carry over and make it long-term
+        const replacementSale = sale('sale-2', '2024-02-01', 90, [{ lot: replacement, quantity: 10 }]);
+        const [row] = await usReport([position([first, replacement], [lossSale, replacementSale])], 2024);
+
+        expect(row.acquired).toBe('2023-06-15');
+        expect(row.basisAdjustment).toBe(200);
+        expect(row.costBasis).toBe(850 + 200);
+        expect(row.gain).toBe(900 - 1050);
+        expect(row.term).toBe('long');
+    });
+
+    it('leaves a replacement sale short-term when the combined holding is under a year', async () => {
+        const replacementSale = sale('sale-2', '2024-01-15', 90, [{ lot: replacement, quantity: 10 }]);
+        const [row] = await usReport([position([first, replacement], [lossSale, replacementSale])], 2024);
+
+        expect(row.basisAdjustment).toBe(200);
+        expect(row.term).toBe('short');
+    });
+});
@@ -2,22 +2,38 @@ import { Sidebar } from './components/Sidebar';
 import { MobileNav } from './components/MobileNav';
 import { PortfolioHero } from './components/PortfolioHero';
 import { StockGrid } from './components/StockGrid';
+import { CorporateActionsBanner } from './components/CorporateActionsBanner';
 import { PortfolioChart } from './components/PortfolioChart';
-import { PortfolioProvider } from './context/PortfolioContext';
+import { PortfolioProvider, usePortfolio } from './context/PortfolioContext';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { CurrencyProvider } from './context/CurrencyContext';
 import { MarketNewsProvider } from './context/MarketNewsContext';
 import { LiveAlertsProvider } from './context/LiveAlertsContext';
 import { LoginForm } from './components/LoginForm';
 import { RegisterForm } from './components/RegisterForm';
 
-import { useState, startTransition } from 'react';
-import { LayoutGrid, PieChart, Eye } from 'lucide-react';
+import { useState, useEffect, useRef, startTransition } from 'react';
+import { LayoutGrid, PieChart, Eye, Receipt } from 'lucide-react';
 import { AddPositionDialog } from './components/AddPositionDialog';
+import { ImportPositionsDialog } from './components/ImportPositionsDialog';
+import { ExportDialog } from './components/ExportDialog';
 import { InsightsView } from './components/InsightsView';
 import { WatchlistView } from './components/WatchlistView';
+import { TransactionsView } from './components/TransactionsView';
+import { StockDetailView } from './components/StockDetail/StockDetailView';
+import { useRoute, matchStockPath } from './hooks/use-route';
 
 function Dashboard() {
-  const [viewMode, setViewMode] = useState<'holdings' | 'insights' | 'watchlist'>('holdings');
+  const [viewMode, setViewMode] = useState<'holdings' | 'insights' | 'watchlist' | 'ledger'>('holdings');
+  const { portfolios, activePortfolioId } = usePortfolio();
+  const activePortfolio = portfolios.find(p => p._id === activePortfolioId);
+  const detailSymbol = matchStockPath(useRoute());
+  const mainRef = useRef<HTMLElement>(null);
+
+  // Opening or leaving a stock page starts at the top
+  useEffect(() => {
+    mainRef.current?.scrollTo({ top: 0 });
+  }, [detailSymbol]);
 
   return (
     <div className="flex h-screen w-full overflow-hidden bg-[#0f0f12]">
@@ -32,80 +48,107 @@ function Dashboard() {
       </div>
 
       {/* Main Content */}
-      <main className="flex-1 h-full overflow-y-auto px-4 pb-4 md:p-8 space-y-6 md:space-y-8 w-full min-w-0 pt-28 md:pt-8 pb-32">
-        {/* Hero Card */}
-        <PortfolioHero />
-
-        {/* Portfolio Content */}
-        <section>
-          <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
-            <div className="flex items-center justify-between w-full md:w-auto">
-              <h2 className="text-xl md:text-2xl font-semibold text-white/90">
-                {viewMode === 'holdings' ? 'Portfolio Holdings' : viewMode === 'insights' ? 'Portfolio Insights' : 'Watchlist'}
-              </h2>
-              {/* Mobile Add Button - Visible only on mobile */}
-              <div className="md:hidden">
-                <AddPositionDialog />
-              </div>
-            </div>
-
-            <div className="flex items-center gap-3">
-              {/* View Toggle */}
-              <div className="flex p-1 bg-white/5 backdrop-blur-md rounded-lg border border-white/10">
-                <button
-                  onClick={() => startTransition(() => setViewMode('holdings'))}
-                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'holdings'
-                    ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
-                    : 'text-zinc-400 hover:text-white hover:bg-white/5'
-                    }`}
-                >
-                  <LayoutGrid className="w-4 h-4" />
-                  <span className="hidden sm:inline">Holdings</span>
-                </button>
-                <button
-                  onClick={() => startTransition(() => setViewMode('insights'))}
-                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'insights'
-                    ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
-                    : 'text-zinc-400 hover:text-white hover:bg-white/5'
-                    }`}
-                >
-                  <PieChart className="w-4 h-4" />
-                  <span className="hidden sm:inline">Insights</span>
-                </button>
-                <button
-                  onClick={() => startTransition(() => setViewMode('watchlist'))}
-                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'watchlist'
-                    ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
-                    : 'text-zinc-400 hover:text-white hover:bg-white/5'
-                    }`}
-                >
-                  <Eye className="w-4 h-4" />
-                  <span className="hidden sm:inline">Watchlist</span>
-                </button>
+      <main ref={mainRef} className="flex-1 h-full overflow-y-auto px-4 pb-4 md:p-8 space-y-6 md:space-y-8 w-full min-w-0 pt-28 md:pt-8 pb-32">
+        {detailSymbol ? (
+          <StockDetailView key={detailSymbol} symbol={detailSymbol} />
+        ) : (
+          <>
+            {/* Hero Card */}
+            <PortfolioHero />
+
+            {/* Portfolio Content */}
+            <section>
+              <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+                <div className="flex items-center justify-between w-full md:w-auto">
+                  <h2 className="text-xl md:text-2xl font-semibold text-white/90">
+                    {viewMode === 'holdings' ? 'Portfolio Holdings' : viewMode === 'insights' ? 'Portfolio Insights' : viewMode === 'ledger' ? 'Transactions' : 'Watchlist'}
+                    {activePortfolio && viewMode !== 'watchlist' && (
+                      <span className="ml-2 text-base font-normal text-white/40">· {activePortfolio.name}</span>
+                    )}
+                  </h2>
+                  {/* Mobile Add Button - Visible only on mobile */}
+                  <div className="md:hidden flex items-center gap-2">
+                    <ImportPositionsDialog />
+                    <AddPositionDialog />
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  {/* View Toggle */}
+                  <div className="flex p-1 bg-white/5 backdrop-blur-md rounded-lg border border-white/10">
+                    <button
+                      onClick={() => startTransition(() => setViewMode('holdings'))}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'holdings'
+                        ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
+                        : 'text-zinc-400 hover:text-white hover:bg-white/5'
+                        }`}
+                    >
+                      <LayoutGrid className="w-4 h-4" />
+                      <span className="hidden sm:inline">Holdings</span>
+                    </button>
+                    <button
+                      onClick={() => startTransition(() => setViewMode('insights'))}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'insights'
+                        ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
+                        : 'text-zinc-400 hover:text-white hover:bg-white/5'
+                        }`}
+                    >
+                      <PieChart className="w-4 h-4" />
+                      <span className="hidden sm:inline">Insights</span>
+                    </button>
+                    <button
+                      onClick={() => startTransition(() => setViewMode('watchlist'))}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'watchlist'
+                        ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
+                        : 'text-zinc-400 hover:text-white hover:bg-white/5'
+                        }`}
+                    >
+                      <Eye className="w-4 h-4" />
+                      <span className="hidden sm:inline">Watchlist</span>
+                    </button>
+                    <button
+                      onClick={() => startTransition(() => setViewMode('ledger'))}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'ledger'
+                        ? 'bg-cyan-500/20 text-cyan-400 shadow-sm'
+                        : 'text-zinc-400 hover:text-white hover:bg-white/5'
+                        }`}
+                    >
+                      <Receipt className="w-4 h-4" />
+                      <span className="hidden sm:inline">Ledger</span>
+                    </button>
+                  </div>
+
+                  {/* Desktop Add Button - Hidden on mobile */}
+                  <div className="hidden md:flex items-center gap-2">
+                    <ExportDialog />
+                    <ImportPositionsDialog />
+                    <AddPositionDialog />
+                  </div>
+                </div>
               </div>
 
-              {/* Desktop Add Button - Hidden on mobile */}
-              <div className="hidden md:block">
-                <AddPositionDialog />
-              </div>
-            </div>
-          </div>
-
-          {viewMode === 'holdings' ? (
-            <StockGrid />
-          ) : viewMode === 'insights' ? (
-            <InsightsView />
-          ) : (
-            <WatchlistView />
-          )}
-        </section>
-
-        {/* Statistics & Analytics (Always visible or maybe hide in insights mode?) */}
-        {/* Keeping it visible as it provides total value history which is distinct from allocation */}
-        <section>
-          <h2 className="text-xl md:text-2xl font-semibold mb-4 md:mb-6 text-white/90">Performance History</h2>
-          <PortfolioChart />
-        </section>
+              {viewMode === 'holdings' ? (
+                <>
+                  <CorporateActionsBanner />
+                  <StockGrid />
+                </>
+              ) : viewMode === 'insights' ? (
+                <InsightsView />
+              ) : viewMode === 'ledger' ? (
+                <TransactionsView />
+              ) : (
+                <WatchlistView />
+              )}
+            </section>
+
+            {/* Statistics & Analytics (Always visible or maybe hide in insights mode?) */}
+            {/* Keeping it visible as it provides total value history which is distinct from allocation */}
+            <section>
+              <h2 className="text-xl md:text-2xl font-semibold mb-4 md:mb-6 text-white/90">Performance History</h2>
+              <PortfolioChart />
+            </section>
+          </>
+        )}
       </main>
     </div>
   );
@@ -142,15 +185,17 @@ function AppContent() {
 export default function App() {
   return (
     <AuthProvider>
-      <PortfolioProvider>
-        <MarketNewsProvider>
-          <LiveAlertsProvider>
-            <div className="min-h-screen bg-[#0f0f12] text-white font-sans">
-              <AppContent />
-            </div>
-          </LiveAlertsProvider>
-        </MarketNewsProvider>
-      </PortfolioProvider>
+      <CurrencyProvider>
+        <PortfolioProvider>
+          <MarketNewsProvider>
+            <LiveAlertsProvider>
+              <div className="min-h-screen bg-[#0f0f12] text-white font-sans">
+                <AppContent />
+              </div>
+            </LiveAlertsProvider>
+          </MarketNewsProvider>
+        </PortfolioProvider>
+      </CurrencyProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,48 @@
+import api from './client';
+
+export type AlertRuleType = 'price-above' | 'price-below' | 'daily-move' | 'cost-basis' | 'volume-spike' | '52w-high' | '52w-low';
+
+export interface AlertRule {
+    _id: string;
+    user: string;
+    symbol: string | null; // null = every held and watchlisted symbol
+    type: AlertRuleType;
+    threshold: number;
+    cooldownMinutes: number;
+    enabled: boolean;
+    lastTriggeredAt: string | null;
+    createdAt: string;
+}
+
+export interface AlertRuleInput {
+    symbol?: string | null;
+    type: AlertRuleType;
+    threshold: number;
+    cooldownMinutes?: number;
+    enabled?: boolean;
+}
+
+export const alertRulesAPI = {
+    // Get the user's rules (default rules are created on first use)
+    getAll: async (): Promise<AlertRule[]> => {
+        const response = await api.get('/alert-rules');
+        return response.data;
+    },
+
+    // Create a rule
+    create: async (data: AlertRuleInput): Promise<AlertRule> => {
+        const response = await api.post('/alert-rules', data);
+        return response.data;
+    },
+
+    // Update a rule (partial, e.g. just { enabled })
+    update: async (id: string, data: Partial<AlertRuleInput>): Promise<AlertRule> => {
+        const response = await api.put(`/alert-rules/${id}`, data);
+        return response.data;
+    },
+
+    // Delete a rule
+    delete: async (id: string): Promise<void> => {
+        await api.delete(`/alert-rules/${id}`);
+    },
+};
@@ -0,0 +1,49 @@
+import api from './client';
+
+export type AlertType =
+    | 'gain' | 'loss' | 'news' | 'earnings'
+    | 'price-above' | 'price-below' | 'cost-basis' | 'volume-spike' | '52w-high' | '52w-low';
+
+export type AlertStatus = 'active' | 'unread' | 'read' | 'dismissed' | 'all';
+
+export interface LiveAlert {
+    id: string;
+    type: AlertType;
+    ticker: string;
+    companyName: string;
+    message: string;
+    value?: number; // percentage for price alerts
+    ruleId?: string; // alert rule that triggered it
+    timestamp: string;
+    relativeTime: string;
+    read: boolean;
+    dismissed: boolean;
+}
+
+export interface AlertHistoryFilters {
+    type?: AlertType | '';
+    ticker?: string;
+    status?: AlertStatus;
+}
+
+export interface AlertHistoryPage {
+    alerts: LiveAlert[];
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    unreadCount: number;
+}
+
+export const alertsAPI = {
+    // Get a page of alert history for the active portfolio (newest first)
+    getHistory: async (filters: AlertHistoryFilters = {}, page = 1, limit = 20): Promise<AlertHistoryPage> => {
+        const params: Record<string, string | number> = { page, limit };
+        if (filters.type) params.type = filters.type;
+        if (filters.ticker) params.ticker = filters.ticker.trim().toUpperCase();
+        if (filters.status) params.status = filters.status;
+
+        const response = await api.get('/alerts', { params });
+        return response.data;
+    },
+};
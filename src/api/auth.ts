@@ -1,12 +1,33 @@
 import api from './client';
+import type { SavedIndicatorSettings } from '../services/indicators';
+import type { HealthScoreSettings } from './stocks';
+
+export const DISPLAY_CURRENCIES = ['USD', 'ILS', 'EUR', 'GBP', 'JPY', 'CAD', 'CHF', 'AUD'] as const;
+
+export type DisplayCurrency = typeof DISPLAY_CURRENCIES[number];
 
 export interface AuthResponse {
     _id: string;
     name: string;
     email: string;
+    displayCurrency?: DisplayCurrency;
+    chartIndicators?: SavedIndicatorSettings;
+    healthScoreSettings?: SavedHealthScoreSettings | null;
     token: string;
 }
 
+// Only the weights / targets the user changed; the rest use the server defaults
+export interface SavedHealthScoreSettings {
+    weights?: Partial<HealthScoreSettings['weights']>;
+    targets?: Partial<HealthScoreSettings['targets']>;
+}
+
+export interface UserPreferences {
+    displayCurrency?: DisplayCurrency;
+    chartIndicators?: SavedIndicatorSettings;
+    healthScoreSettings?: SavedHealthScoreSettings | null; // null resets to the defaults
+}
+
 export interface LoginData {
     email: string;
     password: string;
@@ -36,4 +57,10 @@ export const authAPI = {
         const response = await api.get('/auth/me');
         return response.data;
     },
+
+    // Update display preferences
+    updatePreferences: async (data: UserPreferences): Promise<Omit<AuthResponse, 'token'>> => {
+        const response = await api.put('/auth/preferences', data);
+        return response.data;
+    },
 };
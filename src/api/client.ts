@@ -4,6 +4,9 @@ const isProduction = import.meta.env.PROD;
 const baseUrl = import.meta.env.VITE_API_URL || (isProduction ? '' : 'http://localhost:5000');
 const API_URL = baseUrl ? (baseUrl.endsWith('/api') ? baseUrl : `${baseUrl}/api`) : '/api';
 
+// localStorage key of the active portfolio ('all' = aggregated view)
+export const ACTIVE_PORTFOLIO_KEY = 'active_portfolio_id';
+
 // Create axios instance
 const api = axios.create({
     baseURL: API_URL,
@@ -19,6 +22,8 @@ api.interceptors.request.use(
         if (token) {
             config.headers.Authorization = `Bearer ${token}`;
         }
+        // Scope positions / ledger / analytics to the active portfolio
+        config.headers['X-Portfolio-Id'] = localStorage.getItem(ACTIVE_PORTFOLIO_KEY) || 'all';
         return config;
     },
     (error) => {
@@ -0,0 +1,50 @@
+import api from './client';
+
+export type CorporateActionType = 'split' | 'reverseSplit' | 'spinoff' | 'tickerChange';
+
+export type CorporateActionStatus = 'applied' | 'confirmed' | 'undone';
+
+export interface CorporateAction {
+    _id: string;
+    portfolio: string | null;
+    position: string;
+    symbol: string; // Ticker before the action
+    type: CorporateActionType;
+    effectiveDate: string;
+    numerator: number; // New shares per old share (splits) or per parent share (spinoffs)
+    denominator: number;
+    newSymbol: string | null; // Spinoff / new ticker
+    costAllocation: number | null; // Share of cost basis moved to the spinoff (0-1)
+    sharesBefore: number;
+    sharesAfter: number;
+    summary: string;
+    status: CorporateActionStatus;
+    appliedAt: string | null;
+    confirmedAt: string | null;
+    undoneAt: string | null;
+}
+
+export interface CorporateActionsResponse {
+    actions: CorporateAction[];
+    newlyApplied: number; // Applied to lots by this request
+}
+
+export const corporateActionsAPI = {
+    // Apply any new corporate actions, then list adjustments for the active portfolio
+    getAll: async (status: CorporateActionStatus | 'all' = 'all'): Promise<CorporateActionsResponse> => {
+        const response = await api.get('/corporate-actions', { params: { status } });
+        return response.data;
+    },
+
+    // Accept an applied adjustment
+    confirm: async (id: string): Promise<CorporateAction> => {
+        const response = await api.post(`/corporate-actions/${id}/confirm`);
+        return response.data;
+    },
+
+    // Restore the lots as they were before the adjustment
+    undo: async (id: string): Promise<CorporateAction> => {
+        const response = await api.post(`/corporate-actions/${id}/undo`);
+        return response.data;
+    },
+};
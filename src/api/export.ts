@@ -0,0 +1,24 @@
+import api from './client';
+
+export type ExportFormat = 'json' | 'csv';
+export type ExportDataset = 'positions' | 'lots' | 'transactions' | 'health' | 'benchmark' | 'dividends' | 'correlation';
+
+export interface ExportFile {
+    blob: Blob;
+    filename: string;
+}
+
+export const exportAPI = {
+    // Download a snapshot (JSON = full snapshot, CSV = a single dataset)
+    download: async (format: ExportFormat, dataset: ExportDataset = 'positions'): Promise<ExportFile> => {
+        const response = await api.get('/export', {
+            params: { format, dataset },
+            responseType: 'blob',
+        });
+        const disposition: string = response.headers['content-disposition'] || '';
+        const match = disposition.match(/filename="?([^"]+)"?/);
+        const stamp = new Date().toISOString().split('T')[0];
+        const fallback = format === 'json' ? `portfolio-${stamp}.json` : `portfolio-${dataset}-${stamp}.csv`;
+        return { blob: response.data, filename: match?.[1] || fallback };
+    },
+};
@@ -0,0 +1,56 @@
+import api from './client';
+
+export const ALL_PORTFOLIOS = 'all';
+
+// One symbol, or a blend by weight (%) rebalanced daily
+export interface Benchmark {
+    name: string;
+    components: Array<{ symbol: string; weight: number }>;
+}
+
+export interface Portfolio {
+    _id: string;
+    user: string;
+    name: string;
+    dividendReinvestment?: boolean; // DRIP
+    benchmarks?: Benchmark[]; // Empty = S&P 500 (SPY)
+    positionCount: number; // Open positions
+    createdAt: string;
+}
+
+export const portfoliosAPI = {
+    // Get all portfolios (creates the default one on first use)
+    getAll: async (): Promise<Portfolio[]> => {
+        const response = await api.get('/portfolios');
+        return response.data;
+    },
+
+    // Create a named portfolio
+    create: async (name: string): Promise<Portfolio> => {
+        const response = await api.post('/portfolios', { name });
+        return response.data;
+    },
+
+    // Rename a portfolio
+    rename: async (id: string, name: string): Promise<Portfolio> => {
+        const response = await api.put(`/portfolios/${id}`, { name });
+        return response.data;
+    },
+
+    // Turn dividend reinvestment (DRIP) on or off
+    setDividendReinvestment: async (id: string, enabled: boolean): Promise<Portfolio> => {
+        const response = await api.put(`/portfolios/${id}`, { dividendReinvestment: enabled });
+        return response.data;
+    },
+
+    // Choose what performance is compared against (null resets to SPY)
+    setBenchmarks: async (id: string, benchmarks: Benchmark[] | null): Promise<Portfolio> => {
+        const response = await api.put(`/portfolios/${id}`, { benchmarks });
+        return response.data;
+    },
+
+    // Delete an empty portfolio
+    delete: async (id: string): Promise<void> => {
+        await api.delete(`/portfolios/${id}`);
+    },
+};
@@ -1,19 +1,48 @@
 import api from './client';
 
 export interface Lot {
+    _id?: string;
     quantity: number;
     price: number;
     date: string | Date;
+    soldQuantity?: number; // Shares from this lot already closed out by sales
+}
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'specific' | 'average';
+
+export interface SaleMatch {
+    lot?: string;
+    lotDate?: string;
+    lotPrice: number;
+    quantity: number;
+    costBasis: number;
+    realizedGain: number;
+}
+
+export interface Sale {
+    _id: string;
+    quantity: number;
+    price: number;
+    date: string;
+    method: CostBasisMethod;
+    proceeds: number;
+    costBasis: number;
+    realizedGain: number;
+    matches: SaleMatch[];
 }
 
 export interface Position {
     _id: string;
     user: string;
+    portfolio?: string;
     symbol: string;
     name: string;
     quantity: number;
     averagePrice: number;
     lots?: Lot[];
+    sales?: Sale[];
+    realizedGain?: number;
+    tags?: string[]; // Custom allocation groups
     createdAt: string;
     updatedAt: string;
 }
@@ -30,6 +59,47 @@ export interface UpdatePositionData {
     quantity?: number;
     averagePrice?: number;
     lots?: Lot[];
+    tags?: string[];
+}
+
+export interface SellPositionData {
+    quantity: number;
+    price: number;
+    date?: string | Date;
+    method: CostBasisMethod;
+    lotSelections?: { lotId: string; quantity: number }[]; // Required for 'specific'
+}
+
+export type ImportSide = 'buy' | 'sell';
+
+// One CSV row after column mapping
+export interface ImportRow {
+    symbol: string;
+    date: string;
+    quantity: number;
+    price: number;
+    side: ImportSide;
+    name?: string;
+}
+
+export interface ImportRowResult extends Partial<ImportRow> {
+    index: number;
+    status: 'ok' | 'duplicate' | 'error';
+    error?: string;
+}
+
+export interface ImportResult {
+    dryRun: boolean;
+    rows: ImportRowResult[];
+    summary: {
+        total: number;
+        valid: number;
+        duplicates: number;
+        errors: number;
+        created: number; // New positions
+        merged: number; // Existing positions receiving lots
+    };
+    positions?: Position[]; // Only when dryRun is false
 }
 
 export const positionsAPI = {
@@ -51,6 +121,18 @@ export const positionsAPI = {
         return response.data;
     },
 
+    // Sell shares from a position
+    sell: async (id: string, data: SellPositionData): Promise<Position> => {
+        const response = await api.post(`/positions/${id}/sell`, data);
+        return response.data;
+    },
+
+    // Bulk import mapped CSV rows (dryRun = validate + preview without saving)
+    import: async (rows: ImportRow[], dryRun: boolean): Promise<ImportResult> => {
+        const response = await api.post('/positions/import', { rows, dryRun });
+        return response.data;
+    },
+
     // Delete position
     delete: async (id: string): Promise<void> => {
         await api.delete(`/positions/${id}`);
@@ -0,0 +1,89 @@
+import api from './client';
+import { Position } from './positions';
+
+export type AllocationGroupBy = 'symbol' | 'sector' | 'tag';
+
+export type RebalanceMode = 'full' | 'buyOnly'; // buyOnly: invest cash without selling
+
+export interface AllocationTarget {
+    key: string; // Symbol, sector name or tag
+    weight: number; // Target % of the portfolio (incl. cash)
+    band: number | null; // Allowed drift in points; null = portfolio default
+}
+
+export interface AllocationTargets {
+    groupBy: AllocationGroupBy;
+    targets: AllocationTarget[];
+    driftBand: number;
+    fractionalShares: boolean;
+}
+
+export interface RebalanceGroup {
+    key: string;
+    symbols: string[];
+    value: number; // USD
+    currentPct: number;
+    targetPct: number;
+    band: number;
+    drift: number; // currentPct - targetPct
+    outOfBand: boolean;
+    hasTarget: boolean;
+    afterPct: number; // Weight once the proposed trades are filled
+    afterOutOfBand: boolean;
+}
+
+export interface RebalanceTrade {
+    symbol: string;
+    name?: string;
+    group: string;
+    side: 'buy' | 'sell';
+    quantity: number;
+    price: number; // USD
+    amount: number;
+}
+
+export interface RebalancePlan {
+    mode: RebalanceMode;
+    fractional: boolean;
+    groupBy: AllocationGroupBy;
+    total: number; // Holdings + cash, USD
+    needsRebalance: boolean;
+    targetSum: number;
+    driftBand: number;
+    groups: RebalanceGroup[];
+    cash: { value: number; currentPct: number; targetPct: number; drift: number; after: number; afterPct: number };
+    trades: RebalanceTrade[];
+    totals: { sold: number; bought: number; net: number };
+    notes: string[];
+}
+
+export interface ApplyRebalanceResult {
+    applied: number;
+    positions: Position[];
+}
+
+export const rebalanceAPI = {
+    // Allocation targets of the active portfolio
+    getTargets: async (): Promise<AllocationTargets> => {
+        const response = await api.get('/rebalance/targets');
+        return response.data;
+    },
+
+    // Save targets (and whether the broker fills fractional shares)
+    saveTargets: async (data: Partial<AllocationTargets>): Promise<AllocationTargets> => {
+        const response = await api.put('/rebalance/targets', data);
+        return response.data;
+    },
+
+    // Drift per group and the trades back to target
+    plan: async (cash: number, mode: RebalanceMode): Promise<RebalancePlan> => {
+        const response = await api.post('/rebalance/plan', { cash, mode });
+        return response.data;
+    },
+
+    // Record trades in the lot ledger
+    apply: async (trades: RebalanceTrade[], date?: string): Promise<ApplyRebalanceResult> => {
+        const response = await api.post('/rebalance/apply', { trades, date });
+        return response.data;
+    },
+};
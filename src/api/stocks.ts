@@ -1,4 +1,6 @@
 import apiClient from './client';
+import type { DisplayCurrency } from './auth';
+import type { Benchmark } from './portfolios';
 
 export const stocksAPI = {
     getQuote: async (symbol: string) => {
@@ -21,9 +23,19 @@ export const stocksAPI = {
         return response.data;
     },
 
-    getStockHistory: async (symbol: string, from: number, to: number, resolution: string = 'D') => {
+    getExchanges: async (): Promise<Exchange[]> => {
+        const response = await apiClient.get('/stocks/exchanges');
+        return response.data;
+    },
+
+    getFxRate: async (from: DisplayCurrency, to: DisplayCurrency): Promise<FxRate> => {
+        const response = await apiClient.get('/stocks/forex', { params: { from, to } });
+        return response.data;
+    },
+
+    getStockHistory: async (symbol: string, from: number, to: number, interval: CandleInterval = '1d'): Promise<CandleData> => {
         const response = await apiClient.get(`/stocks/${symbol}/history`, {
-            params: { from, to, resolution }
+            params: { from, to, interval }
         });
         return response.data;
     },
@@ -62,6 +74,11 @@ export const stocksAPI = {
         return response.data;
     },
 
+    getBasicFinancials: async (symbol: string): Promise<BasicFinancials | null> => {
+        const response = await apiClient.get(`/stocks/${symbol}/metrics`);
+        return response.data;
+    },
+
     getBatchInsights: async (symbols: string[]): Promise<BatchInsightsResponse> => {
         const response = await apiClient.get('/stocks/batch-insights', {
             params: { symbols: symbols.join(',') }
@@ -69,6 +86,26 @@ export const stocksAPI = {
         return response.data;
     },
 
+    getPortfolioHistory: async (range: PortfolioHistoryRange = '1M', currency?: DisplayCurrency): Promise<PortfolioHistory> => {
+        const response = await apiClient.get('/stocks/portfolio-history', { params: { range, currency } });
+        return response.data;
+    },
+
+    getPortfolioAttribution: async (range: PortfolioHistoryRange = '1Y'): Promise<PerformanceAttribution> => {
+        const response = await apiClient.get('/stocks/portfolio-attribution', { params: { range } });
+        return response.data;
+    },
+
+    getPortfolioDividends: async (): Promise<DividendIncome> => {
+        const response = await apiClient.get('/stocks/portfolio-dividends');
+        return response.data;
+    },
+
+    getHealthHistory: async (days = 365): Promise<HealthHistoryPoint[]> => {
+        const response = await apiClient.get('/stocks/health-history', { params: { days } });
+        return response.data.history;
+    },
+
     getPortfolioAnalytics: async (
         symbols: string[], quantities: number[], prices: number[]
     ): Promise<PortfolioAnalytics> => {
@@ -107,13 +144,49 @@ export interface ExtendedQuote {
     postMarketChange: number | null;
     postMarketChangePercent: number | null;
     marketState: 'PRE' | 'REGULAR' | 'POST' | 'CLOSED' | 'POSTPOST' | 'PREPRE';
+    marketStatus: MarketStatus; // From the listing exchange's hours and holidays
+    exchange: string; // Exchange code, e.g. 'US', 'TASE'
     exchangeTimezoneName: string;
+    listingCurrency: string;
+    listingPrice: number | null; // In the listing currency's major unit (shekels, not agorot)
 }
 
+export type MarketStatus = 'regular' | 'pre-market' | 'after-hours' | 'closed';
+
+export interface Exchange {
+    code: string;
+    name: string;
+    suffixes: string[];
+    timezone: string;
+    currency: string;
+    minorUnits: number; // Quoted units per currency unit (100 for agorot / pence)
+    tradingDays: number[]; // 0 = Sunday
+    hours: { preMarket?: string; open: string; close: string; postMarket?: string }; // Local HH:MM
+    weekdayCloses?: Record<number, string>;
+    earlyCloses: Record<string, string>; // YYYY-MM-DD -> HH:MM
+    holidays: string[]; // YYYY-MM-DD
+    streaming: boolean; // Carried by the real-time trade stream
+}
+
+// Server limits: 1m covers the last 30 days (7 per request), 5m/15m the last 60, 1h the last 730
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '1d' | '1wk';
+
+// Prices are in the listing's major currency (ILS for TASE, GBP for LSE)
 export interface CandleData {
-    c: number[]; // Close prices
-    t: number[]; // Timestamps
-    s: string; // Status
+    s: 'ok' | 'no_data'; // Status
+    symbol: string;
+    interval: CandleInterval;
+    currency: string | null;
+    t: number[]; // Bar start timestamps (unix seconds)
+    o: number[];
+    h: number[];
+    l: number[];
+    c: number[]; // Split-adjusted closes
+    adjc: number[]; // Split- and dividend-adjusted closes
+    rawc: number[]; // Closes as traded
+    v: number[];
+    splits: { timestamp: number; numerator: number; denominator: number; ratio: number }[];
+    dividends: { timestamp: number; amount: number }[];
 }
 
 export interface NewsItem {
@@ -170,21 +243,124 @@ export interface CompanyProfile {
     weburl: string;
 }
 
+// Finnhub metric names; Yahoo failover fills the common subset
+export interface BasicFinancials {
+    symbol: string;
+    metric: {
+        beta?: number | null;
+        '52WeekHigh'?: number | null;
+        '52WeekLow'?: number | null;
+        peTTM?: number | null;
+        epsTTM?: number | null;
+        dividendYieldIndicatedAnnual?: number | null;
+        marketCapitalization?: number | null;
+        '10DayAverageTradingVolume'?: number | null;
+        [key: string]: number | string | null | undefined;
+    };
+}
+
 export interface BatchInsightsResponse {
     recommendations: Record<string, RecommendationTrend[]>;
     priceTargets: Record<string, PriceTarget>;
     profiles: Record<string, CompanyProfile>;
 }
 
-export interface PortfolioAnalytics {
-    healthScore: number;
-    components: {
-        diversification: number;
-        volatility: number;
-        sentiment: number;
+export type HealthFactorKey = 'diversification' | 'concentration' | 'volatility' | 'drawdown' | 'liquidity' | 'sentiment';
+
+export type HealthTargetKey = 'maxSectorPct' | 'maxPositionPct' | 'maxBeta' | 'maxDrawdownPct' | 'minDollarVolumeM';
+
+export interface HealthScoreSettings {
+    weights: Record<HealthFactorKey, number>; // 0-100, relative
+    targets: Record<HealthTargetKey, number>;
+}
+
+export interface HealthFactor {
+    key: HealthFactorKey;
+    label: string;
+    weight: number; // As set by the user
+    share: number; // % of the score, after leaving out factors without data
+    score: number | null; // null when there was no data
+    missing: boolean;
+    value?: number; // Measured value, in unit
+    target?: number | null;
+    unit?: string;
+    deductions: Array<{ points: number; reason: string }>;
+    notes: string[];
+}
+
+export interface HealthHistoryPoint {
+    date: string; // YYYY-MM-DD
+    score: number;
+    components: Partial<Record<HealthFactorKey, number | null>>;
+}
+
+export type RiskWindow = '1M' | '3M' | '6M';
+
+export interface ValueAtRisk {
+    level: 95 | 99; // Confidence, %
+    historicalVaR: number | null; // 1-day loss, % (positive = loss)
+    historicalCVaR: number | null; // Average loss beyond VaR, %
+    parametricVaR: number | null; // Normal distribution
+    parametricCVaR: number | null;
+}
+
+export interface RiskMetrics {
+    period: { start: string; end: string; days: number }; // Headline figures: last year of trading days
+    riskFreeRate: number; // Annual %, used by Sharpe / Sortino
+    annualizedReturn: number | null; // %
+    volatility: number | null; // Annualized %
+    benchmarkVolatility: number | null; // SPY, annualized %
+    maxDrawdown: {
+        pct: number | null;
+        peakDate: string | null;
+        troughDate: string | null;
+        recoveryDate: string | null; // null while still below the peak
     };
-    portfolioBeta: number;
-    maxSectorPct: number;
+    sharpe: number | null;
+    sortino: number | null;
+    valueAtRisk: ValueAtRisk[];
+    downsideCapture: number | null; // % of SPY's down-day moves captured
+    rolling: Record<RiskWindow, Array<{ date: string; volatility: number | null; sharpe: number | null }>>;
+    drawdownSeries: Array<{ date: string; drawdown: number | null }>; // % below the running peak (≤ 0)
+}
+
+export type XirrStatus = 'ok' | 'sameSign' | 'noRoot' | 'noConvergence' | 'tooShort';
+
+export interface MoneyWeightedReturn {
+    annualized: number | null; // XIRR, %; null when status isn't 'ok'
+    cumulative: number | null; // Same rate over the period, %
+    days: number;
+    status: XirrStatus;
+}
+
+export interface PortfolioReturns {
+    since: string; // First lot, YYYY-MM-DD
+    twr: { cumulative: number | null; annualized: number | null; days: number }; // Time-weighted, %
+    mwr: MoneyWeightedReturn; // Money-weighted (XIRR) for the whole portfolio
+    positions: Record<string, MoneyWeightedReturn>; // XIRR per symbol
+}
+
+export interface RelativeStats {
+    days: number; // Paired trading days (up to a year)
+    beta: number | null;
+    alpha: number | null; // Jensen's alpha, annualized %
+    trackingError: number | null; // Annualized %
+    informationRatio: number | null;
+}
+
+export interface BenchmarkComparison extends Benchmark {
+    series: Array<{ date: string; value: number }>; // Cumulative %, on benchmarkData's dates
+    stats: RelativeStats | null; // null with under a month of history
+    error: string | null; // e.g. no prices for a symbol
+}
+
+export interface PortfolioAnalytics {
+    healthScore: number | null; // null when no factor had data
+    components: Partial<Record<HealthFactorKey, number | null>>;
+    healthFactors?: HealthFactor[];
+    healthSettings?: HealthScoreSettings; // The weights and targets the score used
+    portfolioBeta: number | null;
+    maxSectorPct: number | null;
     benchmarkData: Array<{
         date: string;
         portfolio: number;
@@ -208,5 +384,146 @@ export interface PortfolioAnalytics {
         symbols: string[];
         matrix: (number | null)[][];
     };
+    risk?: RiskMetrics | null; // null with under a month of history
+    returns?: PortfolioReturns | null;
+    benchmarks?: BenchmarkComparison[]; // The portfolio's chosen benchmarks (default SPY)
     lastUpdated?: string;
 }
+
+export interface DividendPayment {
+    symbol: string;
+    exDate: string;
+    amount: number; // Per share, USD
+    shares: number; // Held on the ex-date (including reinvested shares)
+    income: number;
+    reinvestedShares: number; // Bought with this payment under DRIP
+    projected: boolean;
+}
+
+export interface DividendHolding {
+    symbol: string;
+    reinvest: boolean;
+    shares: number;
+    reinvestedShares: number;
+    costBasis: number; // USD, open lots
+    price: number | null;
+    frequency: number; // Payments in the last 12 months
+    annualDividend: number; // Per share at the latest amount
+    currentYield: number; // Percent of today's price
+    yieldOnCost: number; // Next 12 months' income as a percent of the open cost
+    nextExDate: string | null;
+    nextPaymentDate: string | null;
+    totalReceived: number;
+    trailingIncome: number; // Received in the last 12 months
+    projectedIncome: number; // Forecast for the next 12 months
+}
+
+export interface DividendIncome {
+    holdings: DividendHolding[];
+    payments: DividendPayment[];
+    calendar: Array<{ month: string; received: number; projected: number }>; // month: YYYY-MM, by ex-date
+    totals: {
+        totalReceived: number;
+        trailingIncome: number;
+        projectedIncome: number;
+        currentYield: number;
+        yieldOnCost: number;
+    };
+    dividendReinvestment: boolean | null; // Active portfolio's DRIP setting, null for all portfolios
+    lastUpdated: string;
+}
+
+export type PortfolioHistoryRange = '1W' | '1M' | '3M' | 'YTD' | '1Y' | '5Y' | 'MAX';
+
+export interface PortfolioHistoryPoint {
+    date: string; // YYYY-MM-DD
+    value: number; // Display currency, includes cash when the ledger tracks cash
+    costBasis: number;
+    contributions: number; // Net money put in
+    cash: number | null;
+}
+
+export interface PortfolioHistory {
+    range: PortfolioHistoryRange;
+    currency: DisplayCurrency;
+    tracksCash: boolean;
+    points: PortfolioHistoryPoint[];
+    summary: {
+        startValue: number;
+        endValue: number;
+        twrPercent: number; // Time-weighted, contributions excluded
+        totalGain: number; // endValue - contributions
+        bestDay: { date: string; change: number } | null;
+    } | null;
+}
+
+export interface LotAttribution {
+    lotId: string | null; // null for positions from before lots existed
+    date: string; // Bought, YYYY-MM-DD
+    price: number;
+    quantity: number;
+    openQuantity: number;
+    contribution: number; // Percentage points of the portfolio's return
+    pnl: number; // USD over the range
+}
+
+export interface HoldingAttribution {
+    symbol: string;
+    name: string;
+    sector: string | null; // finnhubIndustry
+    benchmarkSector: string; // S&P 500 sector it's compared with ('Other' for funds / unknown)
+    contribution: number;
+    pnl: number;
+    averageWeight: number; // Time-weighted %, over the range
+    lots: LotAttribution[];
+}
+
+export interface SectorAttribution {
+    sector: string;
+    contribution: number;
+    pnl: number;
+    averageWeight: number;
+    symbols: string[];
+}
+
+export interface BrinsonSector {
+    sector: string;
+    etf: string | null; // Fund used for the sector's return
+    portfolioWeight: number;
+    benchmarkWeight: number;
+    portfolioReturn: number | null; // null when not held
+    benchmarkReturn: number;
+    allocation: number;
+    selection: number;
+    interaction: number;
+}
+
+export interface PerformanceAttribution {
+    range: PortfolioHistoryRange;
+    start: string | null;
+    end: string | null;
+    days: number; // Trading days
+    portfolioReturn: number | null; // TWR, %
+    benchmarkReturn: number | null; // SPY, %
+    activeReturn: number | null;
+    positions: HoldingAttribution[]; // Largest contribution first
+    sectors: SectorAttribution[];
+    brinson: {
+        benchmark: string;
+        sectors: BrinsonSector[];
+        allocation: number;
+        selection: number;
+        interaction: number;
+        sectorBenchmarkReturn: number; // Sector funds at the index weights
+        residual: number; // Sector blend minus SPY
+    } | null;
+    notes: string[];
+}
+
+export interface FxRate {
+    rate: number;
+    source: 'yahoo-finance' | 'fallback' | 'identity';
+    base: DisplayCurrency;
+    target: DisplayCurrency;
+    lastUpdate: string;
+}
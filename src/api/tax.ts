@@ -0,0 +1,102 @@
+import api from './client';
+
+export type TaxRules = 'us' | 'il';
+
+export interface UsDisposal {
+    saleId: string;
+    symbol: string;
+    name: string;
+    lotId: string | null;
+    acquired: string | null; // null for sales recorded before lot matching
+    sold: string;
+    quantity: number;
+    term: 'short' | 'long' | null; // Long = held more than a year, including days carried over by wash sales
+    proceeds: number;
+    costBasis: number; // Includes basisAdjustment
+    basisAdjustment: number; // Losses disallowed by earlier wash sales, added to these shares
+    gain: number;
+    washSaleDisallowed: number;
+    reportableGain: number; // gain + washSaleDisallowed
+    washSaleReplacements: Array<{ lotId: string; date: string; quantity: number }>;
+}
+
+export interface IlDisposal {
+    saleId: string;
+    symbol: string;
+    name: string;
+    lotId: string | null;
+    acquired: string | null;
+    sold: string;
+    quantity: number;
+    proceeds: number; // USD
+    costBasis: number;
+    gain: number;
+    fxBuy: number; // USD/ILS on the purchase day
+    fxSale: number;
+    costIls: number;
+    proceedsIls: number;
+    nominalGainIls: number;
+    inflationaryIls: number; // Exempt part of the gain (weaker shekel)
+    realGainIls: number;
+}
+
+export interface UsTermSummary {
+    count: number;
+    proceeds: number;
+    costBasis: number;
+    gain: number;
+    washSaleDisallowed: number;
+    reportableGain: number;
+}
+
+export interface UsTaxSummary {
+    shortTerm: UsTermSummary;
+    longTerm: UsTermSummary;
+    unknownTerm: UsTermSummary;
+    washSales: number;
+    reportableGain: number;
+}
+
+export interface IlTaxSummary {
+    count: number;
+    proceedsIls: number;
+    costIls: number;
+    nominalGainIls: number;
+    inflationaryIls: number;
+    realGainsIls: number;
+    realLossesIls: number;
+    netRealGainIls: number;
+    rate: number; // %
+    estimatedTaxIls: number;
+    lossCarryForwardIls: number;
+}
+
+interface TaxReportBase {
+    year: number;
+    years: number[]; // Years with sales, newest first
+    notes: string[];
+    generatedAt: string;
+}
+
+export type TaxReport =
+    | (TaxReportBase & { rules: 'us'; summary: UsTaxSummary; disposals: UsDisposal[] })
+    | (TaxReportBase & { rules: 'il'; summary: IlTaxSummary; disposals: IlDisposal[] });
+
+export const taxAPI = {
+    // Realized gains for a tax year (defaults to the latest year with sales)
+    getReport: async (rules: TaxRules, year?: number): Promise<TaxReport> => {
+        const response = await api.get('/tax/report', { params: { rules, year } });
+        return response.data;
+    },
+
+    // The same report as a CSV download
+    downloadCsv: async (rules: TaxRules, year: number): Promise<{ blob: Blob; filename: string }> => {
+        const response = await api.get('/tax/report.csv', {
+            params: { rules, year },
+            responseType: 'blob',
+        });
+        const disposition: string = response.headers['content-disposition'] || '';
+        const match = disposition.match(/filename="?([^"]+)"?/);
+        return { blob: response.data, filename: match?.[1] || `tax-report-${year}-${rules}.csv` };
+    },
+};
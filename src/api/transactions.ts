@@ -0,0 +1,81 @@
+import api from './client';
+import { CostBasisMethod, Position } from './positions';
+
+export type TransactionType = 'deposit' | 'withdrawal' | 'buy' | 'sell' | 'dividend' | 'fee';
+
+export interface Transaction {
+    _id: string;
+    user: string;
+    portfolio?: string;
+    type: TransactionType;
+    symbol?: string;
+    quantity?: number;
+    price?: number;
+    amount: number; // Gross cash amount (quantity * price for trades)
+    fee: number;
+    date: string;
+    note?: string;
+    costBasisMethod?: CostBasisMethod;
+    position?: string;
+    lot?: string;
+    sale?: string;
+    createdAt: string;
+}
+
+export interface LedgerEntry extends Transaction {
+    cashImpact: number; // Signed effect on cash
+    runningBalance: number; // Cash balance after this transaction
+}
+
+export interface Ledger {
+    transactions: LedgerEntry[]; // Newest first
+    cashBalance: number;
+    totals: {
+        deposits: number;
+        withdrawals: number;
+        buys: number;
+        sells: number;
+        dividends: number;
+        fees: number;
+    };
+}
+
+export interface CreateTransactionData {
+    type: TransactionType;
+    portfolio?: string; // Defaults to the active portfolio (or the first one in the "all" view)
+    symbol?: string;
+    name?: string; // Used when a buy opens a new position
+    quantity?: number;
+    price?: number;
+    amount?: number; // For deposit / withdrawal / dividend / fee
+    fee?: number;
+    date?: string | Date;
+    note?: string;
+    costBasisMethod?: CostBasisMethod;
+    lotSelections?: { lotId: string; quantity: number }[];
+}
+
+export interface TransactionResult {
+    transaction: Transaction;
+    position: Position | null; // Derived position after a buy / sell
+}
+
+export const transactionsAPI = {
+    // Get ledger with running cash balance
+    getAll: async (): Promise<Ledger> => {
+        const response = await api.get('/transactions');
+        return response.data;
+    },
+
+    // Record a transaction
+    create: async (data: CreateTransactionData): Promise<TransactionResult> => {
+        const response = await api.post('/transactions', data);
+        return response.data;
+    },
+
+    // Delete a transaction (reverses buys / sells on the position)
+    delete: async (id: string): Promise<{ id: string; type: TransactionType; position: Position | null }> => {
+        const response = await api.delete(`/transactions/${id}`);
+        return response.data;
+    },
+};
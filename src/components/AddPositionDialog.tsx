@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { usePortfolio } from '@/context/PortfolioContext';
 import { stocksAPI } from '@/api/stocks';
+import { ALL_PORTFOLIOS } from '@/api/portfolios';
 import { cn } from '@/components/ui/utils';
 import {
     Command,
@@ -22,10 +23,11 @@ import {
 } from '@/components/ui/popover';
 
 export function AddPositionDialog() {
-    const { addPosition } = usePortfolio();
+    const { addPosition, portfolios, activePortfolioId } = usePortfolio();
     const [open, setOpen] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
+    const [targetPortfolio, setTargetPortfolio] = useState('');
     const [formData, setFormData] = useState({
         symbol: '',
         name: '',
@@ -62,6 +64,9 @@ export function AddPositionDialog() {
         return () => clearTimeout(delayDebounceFn);
     }, [searchValue]);
 
+    // In the aggregated view the target portfolio has to be chosen explicitly
+    const showPortfolioPicker = activePortfolioId === ALL_PORTFOLIOS && portfolios.length > 1;
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
@@ -73,7 +78,8 @@ export function AddPositionDialog() {
                 formData.name || `${formData.symbol.toUpperCase()} Inc.`,
                 Number(formData.quantity),
                 Number(formData.averagePrice),
-                new Date(formData.date) // Pass the date
+                new Date(formData.date), // Pass the date
+                showPortfolioPicker ? targetPortfolio || portfolios[0]?._id : undefined
             );
 
             setFormData({
@@ -209,6 +215,22 @@ export function AddPositionDialog() {
                             </Popover>
                         </div>
 
+                        {showPortfolioPicker && (
+                            <div style={{ display: 'grid', gridTemplateColumns: '100px 1fr', alignItems: 'center', gap: '16px' }}>
+                                <Label htmlFor="portfolio" className="text-right text-white/70">Portfolio</Label>
+                                <select
+                                    id="portfolio"
+                                    className="h-9 w-full rounded-md px-3 text-sm bg-white/5 border border-white/10 text-white dark:scheme-dark"
+                                    value={targetPortfolio || portfolios[0]?._id}
+                                    onChange={(e) => setTargetPortfolio(e.target.value)}
+                                >
+                                    {portfolios.map(p => (
+                                        <option key={p._id} value={p._id}>{p.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
                         <div style={{ display: 'grid', gridTemplateColumns: '100px 1fr', alignItems: 'center', gap: '16px' }}>
                             <Label htmlFor="date" className="text-right text-white/70">Date</Label>
                             <Input
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import {
+    TrendingUp, TrendingDown, Bell, Target, Calendar, ArrowUpToLine, ArrowDownToLine,
+    Wallet, BarChart3, History, X, CheckCheck
+} from 'lucide-react';
+import { Sheet, SheetContent, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { useLiveAlerts } from '@/context/LiveAlertsContext';
+import { AlertType, AlertStatus, AlertHistoryFilters } from '@/api/alerts';
+
+// ─── Constants ──────────────────────────────────────────────────
+const TYPE_LABELS: Record<AlertType, string> = {
+    'gain': 'Daily gain',
+    'loss': 'Daily loss',
+    'news': 'News',
+    'earnings': 'Earnings',
+    'price-above': 'Price above',
+    'price-below': 'Price below',
+    'cost-basis': 'Cost basis',
+    'volume-spike': 'Volume spike',
+    '52w-high': '52-week high',
+    '52w-low': '52-week low',
+};
+
+const STATUSES: { value: AlertStatus; label: string }[] = [
+    { value: 'active', label: 'Inbox' },
+    { value: 'unread', label: 'Unread' },
+    { value: 'dismissed', label: 'Dismissed' },
+    { value: 'all', label: 'All' },
+];
+
+// ─── Alert Icon ─────────────────────────────────────────────────
+export function AlertIcon({ type }: { type: AlertType }) {
+    const className = 'w-4 h-4 shrink-0';
+    switch (type) {
+        case 'gain': return <TrendingUp className={`${className} text-emerald-400`} />;
+        case 'loss': return <TrendingDown className={`${className} text-rose-500`} />;
+        case 'news': return <Bell className={`${className} text-cyan-400`} />;
+        case '52w-low': return <Target className={`${className} text-amber-400`} />;
+        case '52w-high': return <Target className={`${className} text-emerald-400`} />;
+        case 'earnings': return <Calendar className={`${className} text-blue-400`} />;
+        case 'price-above': return <ArrowUpToLine className={`${className} text-emerald-400`} />;
+        case 'price-below': return <ArrowDownToLine className={`${className} text-rose-500`} />;
+        case 'cost-basis': return <Wallet className={`${className} text-indigo-400`} />;
+        case 'volume-spike': return <BarChart3 className={`${className} text-purple-400`} />;
+    }
+}
+
+const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// ─── Drawer ─────────────────────────────────────────────────────
+export function AlertHistoryDrawer() {
+    const { history, historyFilters, historyLoading, loadHistory, unreadCount, markRead, markAllRead, dismiss } = useLiveAlerts();
+    const [open, setOpen] = useState(false);
+    const [tickerInput, setTickerInput] = useState('');
+
+    // Fresh first page each time the drawer opens
+    useEffect(() => {
+        if (open) {
+            setTickerInput(historyFilters.ticker || '');
+            loadHistory(historyFilters, 1);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [open]);
+
+    const applyFilters = (changes: Partial<AlertHistoryFilters>) => {
+        loadHistory({ ...historyFilters, ...changes }, 1);
+    };
+
+    const hasMore = history.page < history.totalPages;
+
+    return (
+        <>
+            <button
+                onClick={() => setOpen(true)}
+                className="relative p-1 rounded text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                title="Alert history"
+            >
+                <History className="w-4 h-4" />
+                {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-rose-500 text-[10px] leading-4 font-semibold text-white text-center">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                )}
+            </button>
+
+            <Sheet open={open} onOpenChange={setOpen}>
+                <SheetContent side="right" className="w-full sm:max-w-md p-0 border-l-white/10 bg-[#0f0f12] text-white flex flex-col">
+                    {/* ── Header ── */}
+                    <div className="p-5 pb-3 border-b border-white/10">
+                        <SheetTitle className="text-white text-lg">Alert History</SheetTitle>
+                        <SheetDescription className="text-white/50 text-sm">
+                            {history.total} alert{history.total === 1 ? '' : 's'} · {unreadCount} unread
+                        </SheetDescription>
+
+                        {/* Status tabs */}
+                        <div className="flex p-1 mt-4 bg-white/5 rounded-lg border border-white/10">
+                            {STATUSES.map(s => (
+                                <button
+                                    key={s.value}
+                                    onClick={() => applyFilters({ status: s.value })}
+                                    className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-all ${historyFilters.status === s.value
+                                        ? 'bg-white/10 text-white shadow-sm'
+                                        : 'text-white/40 hover:text-white/70'
+                                        }`}
+                                >
+                                    {s.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Type / ticker filters */}
+                        <div className="flex gap-2 mt-3">
+                            <select
+                                className="flex-1 h-8 rounded-md px-2 text-xs bg-white/5 border border-white/10 text-white dark:scheme-dark"
+                                value={historyFilters.type || ''}
+                                onChange={(e) => applyFilters({ type: e.target.value as AlertType | '' })}
+                            >
+                                <option value="">All types</option>
+                                {(Object.keys(TYPE_LABELS) as AlertType[]).map(type => (
+                                    <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                ))}
+                            </select>
+                            <form
+                                onSubmit={(e) => { e.preventDefault(); applyFilters({ ticker: tickerInput }); }}
+                                className="w-28"
+                            >
+                                <input
+                                    value={tickerInput}
+                                    onChange={(e) => setTickerInput(e.target.value)}
+                                    onBlur={() => tickerInput !== (historyFilters.ticker || '') && applyFilters({ ticker: tickerInput })}
+                                    placeholder="Ticker"
+                                    className="w-full h-8 rounded-md px-2 text-xs uppercase bg-white/5 border border-white/10 text-white placeholder:text-white/30 placeholder:normal-case focus:outline-none focus:border-cyan-500/50"
+                                />
+                            </form>
+                            <button
+                                onClick={markAllRead}
+                                disabled={unreadCount === 0}
+                                className="h-8 px-2 rounded-md text-xs text-white/60 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 flex items-center gap-1"
+                                title="Mark all read"
+                            >
+                                <CheckCheck className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* ── List ── */}
+                    <div className="flex-1 overflow-y-auto p-3 space-y-1">
+                        {history.alerts.length === 0 && !historyLoading ? (
+                            <div className="text-center py-12">
+                                <Bell className="w-6 h-6 text-white/20 mx-auto mb-2" />
+                                <p className="text-sm text-white/40">No alerts match these filters</p>
+                            </div>
+                        ) : (
+                            history.alerts.map(alert => (
+                                <div
+                                    key={alert.id}
+                                    onClick={() => !alert.read && markRead([alert.id])}
+                                    className={`group flex items-start gap-3 p-3 rounded-xl border transition-colors ${alert.read
+                                        ? 'border-transparent hover:bg-white/5'
+                                        : 'border-white/10 bg-white/5 hover:bg-white/10 cursor-pointer'
+                                        } ${alert.dismissed ? 'opacity-50' : ''}`}
+                                >
+                                    <div className="mt-0.5"><AlertIcon type={alert.type} /></div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className={`text-sm ${alert.read ? 'text-white/60' : 'text-white'}`}>{alert.message}</p>
+                                        <div className="flex items-center gap-2 mt-1 text-xs text-white/40">
+                                            <span className="px-1.5 py-0.5 rounded bg-white/10 text-white/60 font-medium">${alert.ticker}</span>
+                                            <span>{TYPE_LABELS[alert.type]}</span>
+                                            <span>·</span>
+                                            <span title={alert.relativeTime}>{formatTimestamp(alert.timestamp)}</span>
+                                        </div>
+                                    </div>
+                                    {!alert.read && <div className="w-2 h-2 mt-1.5 rounded-full bg-cyan-400 shrink-0" />}
+                                    {!alert.dismissed && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); dismiss(alert.id); }}
+                                            className="p-1 rounded text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title="Dismiss"
+                                        >
+                                            <X className="w-3.5 h-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))
+                        )}
+
+                        {historyLoading && (
+                            <div className="text-center py-4 text-sm text-white/40">Loading...</div>
+                        )}
+
+                        {hasMore && !historyLoading && (
+                            <button
+                                onClick={() => loadHistory(historyFilters, history.page + 1)}
+                                className="w-full py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                                Load more
+                            </button>
+                        )}
+                    </div>
+                </SheetContent>
+            </Sheet>
+        </>
+    );
+}
@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Settings2, X, Trash2, Plus } from 'lucide-react';
+import { alertRulesAPI, AlertRule, AlertRuleType } from '@/api/alertRules';
+import { SimpleDialog } from './SimpleDialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+
+// ─── Constants ──────────────────────────────────────────────────
+const RULE_TYPES: { value: AlertRuleType; label: string; unit: string; hint: string; placeholder: string }[] = [
+    { value: 'daily-move', label: 'Daily move', unit: '%', hint: 'Change vs. previous close, either direction', placeholder: '2' },
+    { value: 'price-above', label: 'Price above', unit: '$', hint: 'Price rises to or above a level', placeholder: '200' },
+    { value: 'price-below', label: 'Price below', unit: '$', hint: 'Price falls to or below a level', placeholder: '150' },
+    { value: 'cost-basis', label: 'From cost basis', unit: '%', hint: 'Negative for drawdown (-10), positive for gain (25)', placeholder: '-10' },
+    { value: 'volume-spike', label: 'Volume spike', unit: 'x', hint: 'Volume as a multiple of the 10-day average', placeholder: '2' },
+    { value: '52w-high', label: 'Near 52w high', unit: '%', hint: 'Within this % of the 52-week high', placeholder: '2' },
+    { value: '52w-low', label: 'Near 52w low', unit: '%', hint: 'Within this % of the 52-week low', placeholder: '2' },
+];
+
+const typeInfo = (type: AlertRuleType) => RULE_TYPES.find(t => t.value === type)!;
+
+const describeRule = (rule: AlertRule) => {
+    const { label, unit } = typeInfo(rule.type);
+    const value = unit === '$' ? `$${rule.threshold}` : `${rule.threshold}${unit}`;
+    return `${label} ${value}`;
+};
+
+const formatCooldown = (minutes: number) =>
+    minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+
+// ─── Dialog ─────────────────────────────────────────────────────
+export function AlertRulesDialog() {
+    const [open, setOpen] = useState(false);
+    const [rules, setRules] = useState<AlertRule[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const [type, setType] = useState<AlertRuleType>('daily-move');
+    const [symbol, setSymbol] = useState('');
+    const [threshold, setThreshold] = useState('');
+    const [cooldown, setCooldown] = useState('60');
+
+    const loadRules = useCallback(async () => {
+        setLoading(true);
+        try {
+            setRules(await alertRulesAPI.getAll());
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to load alert rules');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (open) {
+            setError('');
+            loadRules();
+        }
+    }, [open, loadRules]);
+
+    const needsSymbol = type === 'price-above' || type === 'price-below';
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSaving(true);
+        try {
+            const rule = await alertRulesAPI.create({
+                type,
+                symbol: symbol.trim() || null,
+                threshold: Number(threshold),
+                cooldownMinutes: Number(cooldown) || 60,
+            });
+            setRules(prev => [...prev, rule]);
+            setSymbol('');
+            setThreshold('');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to add rule');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+        // Optimistic toggle, revert on failure
+        setRules(prev => prev.map(r => (r._id === rule._id ? { ...r, enabled } : r)));
+        try {
+            await alertRulesAPI.update(rule._id, { enabled });
+        } catch (err: any) {
+            setRules(prev => prev.map(r => (r._id === rule._id ? { ...r, enabled: rule.enabled } : r)));
+            setError(err.response?.data?.message || 'Failed to update rule');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await alertRulesAPI.delete(id);
+            setRules(prev => prev.filter(r => r._id !== id));
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to delete rule');
+        }
+    };
+
+    return (
+        <>
+            <button
+                onClick={() => setOpen(true)}
+                className="p-1 rounded text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                title="Alert rules"
+            >
+                <Settings2 className="w-4 h-4" />
+            </button>
+
+            <SimpleDialog open={open} onClose={() => setOpen(false)}>
+                <div className="relative">
+                    <button
+                        onClick={() => setOpen(false)}
+                        className="absolute top-0 right-0 p-1 rounded text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+
+                    <h2 className="text-xl font-bold mb-1">Alert Rules</h2>
+                    <p className="text-sm text-white/50 mb-4">Rules without a symbol apply to every holding and watchlist stock.</p>
+
+                    {error && (
+                        <div className="mb-4 p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* ── Existing rules ── */}
+                    <div className="space-y-1 mb-5 max-h-64 overflow-y-auto">
+                        {loading && rules.length === 0 ? (
+                            <div className="text-sm text-white/40 py-4 text-center">Loading...</div>
+                        ) : rules.length === 0 ? (
+                            <div className="text-sm text-white/40 py-4 text-center">No rules yet</div>
+                        ) : (
+                            rules.map(rule => (
+                                <div
+                                    key={rule._id}
+                                    className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5 ${rule.enabled ? '' : 'opacity-50'}`}
+                                >
+                                    <Switch
+                                        checked={rule.enabled}
+                                        onCheckedChange={(checked) => handleToggle(rule, checked)}
+                                        className="data-[state=checked]:bg-emerald-500 data-[state=unchecked]:bg-white/20"
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm text-white truncate">{describeRule(rule)}</div>
+                                        <div className="text-xs text-white/40">
+                                            {rule.symbol || 'All symbols'} · every {formatCooldown(rule.cooldownMinutes)}
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => handleDelete(rule._id)}
+                                        className="p-1 rounded text-white/40 hover:text-rose-400 hover:bg-white/10 transition-colors"
+                                        title="Delete rule"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    {/* ── New rule ── */}
+                    <form onSubmit={handleAdd} className="space-y-3">
+                        <div className="text-xs text-white/50">New rule</div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <Label htmlFor="rule-type" className="text-white/70 text-xs">Condition</Label>
+                                <select
+                                    id="rule-type"
+                                    className="mt-1 h-9 w-full rounded-md px-3 text-sm bg-white/5 border border-white/10 text-white dark:scheme-dark"
+                                    value={type}
+                                    onChange={(e) => setType(e.target.value as AlertRuleType)}
+                                >
+                                    {RULE_TYPES.map(t => (
+                                        <option key={t.value} value={t.value}>{t.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <Label htmlFor="rule-symbol" className="text-white/70 text-xs">Symbol</Label>
+                                <Input
+                                    id="rule-symbol"
+                                    className="mt-1 bg-white/5 border-white/10 text-white uppercase"
+                                    placeholder={needsSymbol ? 'AAPL' : 'All symbols'}
+                                    value={symbol}
+                                    onChange={(e) => setSymbol(e.target.value)}
+                                    required={needsSymbol}
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="rule-threshold" className="text-white/70 text-xs">
+                                    Threshold ({typeInfo(type).unit})
+                                </Label>
+                                <Input
+                                    id="rule-threshold"
+                                    type="number"
+                                    step="any"
+                                    className="mt-1 bg-white/5 border-white/10 text-white"
+                                    placeholder={typeInfo(type).placeholder}
+                                    value={threshold}
+                                    onChange={(e) => setThreshold(e.target.value)}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="rule-cooldown" className="text-white/70 text-xs">Cooldown (minutes)</Label>
+                                <Input
+                                    id="rule-cooldown"
+                                    type="number"
+                                    min="1"
+                                    className="mt-1 bg-white/5 border-white/10 text-white"
+                                    value={cooldown}
+                                    onChange={(e) => setCooldown(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-white/40">{typeInfo(type).hint}</p>
+                        <Button
+                            type="submit"
+                            disabled={saving}
+                            className="w-full bg-white/10 hover:bg-white/20 text-white border border-white/10"
+                        >
+                            <Plus className="w-4 h-4" />
+                            {saving ? 'Adding...' : 'Add Rule'}
+                        </Button>
+                    </form>
+                </div>
+            </SimpleDialog>
+        </>
+    );
+}
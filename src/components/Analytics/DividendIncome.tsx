@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Coins, Repeat } from 'lucide-react';
+import {
+    BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer
+} from 'recharts';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { stocksAPI, DividendIncome as DividendIncomeData } from '@/api/stocks';
+import { ALL_PORTFOLIOS } from '@/api/portfolios';
+
+const money = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const monthLabel = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+const CalendarTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const row = payload[0].payload;
+    return (
+        <div className="bg-[#111]/95 backdrop-blur-xl border border-white/10 rounded-xl px-3 py-2 shadow-2xl text-xs">
+            <p className="text-white/60 mb-1">{monthLabel(row.month)}</p>
+            {row.received > 0 && <p className="text-emerald-400 font-mono">Received {money(row.received)}</p>}
+            {row.projected > 0 && <p className="text-cyan-400 font-mono">Forecast {money(row.projected)}</p>}
+            {row.received === 0 && row.projected === 0 && <p className="text-white/40">No ex-dates</p>}
+        </div>
+    );
+};
+
+/**
+ * Dividend income: monthly calendar (received + 12-month forecast), yield on cost per holding
+ * and the active portfolio's DRIP switch
+ */
+export default function DividendIncome({ isActive = true }: { isActive?: boolean }) {
+    const { positions, portfolios, activePortfolioId, setDividendReinvestment } = usePortfolio();
+    const [data, setData] = useState<DividendIncomeData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [savingDrip, setSavingDrip] = useState(false);
+
+    const activePortfolio = portfolios.find(p => p._id === activePortfolioId);
+    const reinvest = activePortfolio?.dividendReinvestment ?? false;
+
+    // Refetch when holdings change, not on every price tick
+    const holdingsKey = useMemo(() => positions.map(p => `${p.symbol}:${p.quantity}`).join(','), [positions]);
+
+    useEffect(() => {
+        if (!isActive || !holdingsKey) return;
+        let cancelled = false;
+
+        const fetchDividends = async () => {
+            setLoading(true);
+            try {
+                const result = await stocksAPI.getPortfolioDividends();
+                if (!cancelled) setData(result);
+            } catch (error) {
+                console.error('Failed to fetch dividend income', error);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        fetchDividends();
+        return () => { cancelled = true; };
+    }, [isActive, holdingsKey, activePortfolioId, reinvest]);
+
+    const handleDripChange = async (enabled: boolean) => {
+        if (!activePortfolio) return;
+        setSavingDrip(true);
+        try {
+            await setDividendReinvestment(activePortfolio._id, enabled);
+        } catch (error) {
+            console.error('Failed to update dividend reinvestment', error);
+        } finally {
+            setSavingDrip(false);
+        }
+    };
+
+    const totals = data?.totals;
+
+    return (
+        <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                    <Coins className="w-5 h-5 text-amber-400" />
+                    Dividend Income
+                </CardTitle>
+                {activePortfolioId !== ALL_PORTFOLIOS ? (
+                    <label className="flex items-center gap-2 text-xs text-white/60" title="Reinvest dividends in the paying holding">
+                        <Repeat className="w-3.5 h-3.5" />
+                        DRIP
+                        <Switch
+                            checked={reinvest}
+                            disabled={!activePortfolio || savingDrip}
+                            onCheckedChange={handleDripChange}
+                            className="data-[state=checked]:bg-emerald-500 data-[state=unchecked]:bg-white/20"
+                        />
+                    </label>
+                ) : (
+                    <span className="text-[10px] text-white/30">DRIP is set per portfolio</span>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-5">
+                {loading && !data ? (
+                    <div className="h-[320px] bg-white/5 animate-pulse rounded-xl" />
+                ) : !data || data.holdings.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-8 text-zinc-500">
+                        <Coins className="w-8 h-8 mb-2 opacity-30" />
+                        <p className="text-sm">No dividend-paying holdings</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Summary */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {[
+                                { label: 'Last 12 Months', value: money(totals!.trailingIncome), color: 'text-emerald-400' },
+                                { label: 'Next 12 Months', value: money(totals!.projectedIncome), color: 'text-cyan-400' },
+                                { label: 'Yield on Cost', value: `${totals!.yieldOnCost.toFixed(2)}%`, color: 'text-amber-400' },
+                                { label: 'Current Yield', value: `${totals!.currentYield.toFixed(2)}%`, color: 'text-white/80' },
+                            ].map(stat => (
+                                <div key={stat.label} className="bg-white/5 rounded-xl px-3 py-2.5">
+                                    <div className="text-[10px] text-white/40 uppercase tracking-wider">{stat.label}</div>
+                                    <div className={`text-lg font-bold font-mono ${stat.color}`}>{stat.value}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Monthly calendar */}
+                        <div className="h-[200px]">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={data.calendar} margin={{ top: 5, right: 5, left: -10, bottom: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                                    <XAxis
+                                        dataKey="month"
+                                        tickFormatter={monthLabel}
+                                        stroke="rgba(255,255,255,0.2)"
+                                        style={{ fontSize: '10px' }}
+                                        tickLine={false}
+                                        axisLine={false}
+                                        minTickGap={20}
+                                    />
+                                    <YAxis
+                                        stroke="rgba(255,255,255,0.2)"
+                                        style={{ fontSize: '10px' }}
+                                        tickLine={false}
+                                        axisLine={false}
+                                        tickFormatter={(v) => `$${v.toFixed(0)}`}
+                                    />
+                                    <RechartsTooltip content={<CalendarTooltip />} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />
+                                    <Bar dataKey="received" stackId="income" fill="#34d399" />
+                                    <Bar dataKey="projected" stackId="income" fill="#22d3ee" fillOpacity={0.45} radius={[4, 4, 0, 0]} />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <div className="flex justify-center gap-4 text-[10px] text-white/40 -mt-3">
+                            <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm bg-emerald-400" /> Received</span>
+                            <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm bg-cyan-400/50" /> Forecast</span>
+                            <span>By ex-date</span>
+                        </div>
+
+                        {/* Per holding */}
+                        <div className="overflow-x-auto">
+                            <div className="min-w-[520px]">
+                                <div className="grid grid-cols-6 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                    <span>Symbol</span>
+                                    <span className="text-right">Annual / Share</span>
+                                    <span className="text-right">Yield</span>
+                                    <span className="text-right">Yield on Cost</span>
+                                    <span className="text-right">Next Ex-Date</span>
+                                    <span className="text-right">Next 12M</span>
+                                </div>
+                                {data.holdings.map(holding => (
+                                    <div key={holding.symbol} className="grid grid-cols-6 gap-2 items-center py-2.5 border-b border-white/5 last:border-0">
+                                        <span className="flex items-center gap-1.5 text-sm font-semibold text-white">
+                                            {holding.symbol}
+                                            {holding.reinvest && (
+                                                <Badge variant="outline" className="text-[9px] px-1 py-0 border-emerald-500/30 text-emerald-400">DRIP</Badge>
+                                            )}
+                                        </span>
+                                        <span className="text-sm text-white/70 text-right font-mono">
+                                            {holding.annualDividend > 0 ? money(holding.annualDividend) : '—'}
+                                        </span>
+                                        <span className="text-sm text-white/70 text-right font-mono">{holding.currentYield.toFixed(2)}%</span>
+                                        <span className="text-sm text-amber-400 text-right font-mono">{holding.yieldOnCost.toFixed(2)}%</span>
+                                        <span className="text-xs text-white/60 text-right">
+                                            {holding.nextExDate
+                                                ? new Date(holding.nextExDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                                                : '—'}
+                                        </span>
+                                        <span className="text-sm text-cyan-400 text-right font-bold font-mono">{money(holding.projectedIncome)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex justify-between text-[10px] text-white/30">
+                            <span>Received since first purchase: {money(totals!.totalReceived)}</span>
+                            <span>Forecast repeats the last 12 months at the latest amount</span>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck, SlidersHorizontal, ChevronDown } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { usePortfolio } from '@/context/PortfolioContext';
+import {
+    stocksAPI, PortfolioAnalytics, HealthFactor, HealthFactorKey, HealthTargetKey, HealthScoreSettings, HealthHistoryPoint
+} from '@/api/stocks';
+
+const FACTOR_LABELS: Record<HealthFactorKey, string> = {
+    diversification: 'Diversification',
+    concentration: 'Concentration',
+    volatility: 'Volatility',
+    drawdown: 'Drawdown',
+    liquidity: 'Liquidity',
+    sentiment: 'Sentiment',
+};
+
+// Same ranges the server accepts
+const TARGETS: { key: HealthTargetKey; label: string; min: number; max: number; step: number }[] = [
+    { key: 'maxSectorPct', label: 'Max sector %', min: 5, max: 100, step: 1 },
+    { key: 'maxPositionPct', label: 'Max single stock %', min: 1, max: 100, step: 1 },
+    { key: 'maxBeta', label: 'Max beta', min: 0.1, max: 3, step: 0.1 },
+    { key: 'maxDrawdownPct', label: 'Max drawdown %', min: 1, max: 90, step: 1 },
+    { key: 'minDollarVolumeM', label: 'Min daily volume $M', min: 0, max: 10000, step: 1 },
+];
+
+const scoreColor = (score: number | null) =>
+    score === null ? 'text-white/30' : score > 80 ? 'text-emerald-400' : score > 50 ? 'text-amber-400' : 'text-rose-400';
+
+const barColor = (score: number) => (score > 80 ? 'bg-emerald-400' : score > 50 ? 'bg-amber-400' : 'bg-rose-400');
+
+function formatMeasure(value: number | undefined, unit?: string) {
+    if (value === undefined || value === null) return '—';
+    if (unit === '%' || unit === '% buy') return `${value}${unit}`;
+    if (unit === 'β') return `β ${value}`;
+    if (unit === '$M/day') return `$${value}M/day`;
+    return String(value);
+}
+
+function Gauge({ score }: { score: number | null }) {
+    const radius = 80;
+    const stroke = 12;
+    const circumference = Math.PI * radius; // half circle
+    const progress = ((score ?? 0) / 100) * circumference;
+    const riskLabel = score === null ? 'Not enough data' : score > 80 ? 'Low Risk' : score > 50 ? 'Moderate' : 'High Risk';
+
+    return (
+        <div className="relative">
+            <svg width={2 * (radius + stroke)} height={radius + stroke + 24} className="overflow-visible">
+                <defs>
+                    <linearGradient id="gaugeGrad" x1="0%" y1="0%" x2="100%" y2="0%">
+                        <stop offset="0%" stopColor="#22d3ee" />
+                        <stop offset="100%" stopColor="#34d399" />
+                    </linearGradient>
+                </defs>
+                {/* Track */}
+                <path
+                    d={`M ${stroke / 2}, ${radius + stroke / 2} A ${radius},${radius} 0 0,1 ${2 * radius + stroke * 1.5},${radius + stroke / 2}`}
+                    fill="none" stroke="rgba(255,255,255,0.07)" strokeWidth={stroke} strokeLinecap="round"
+                />
+                {/* Progress */}
+                <path
+                    d={`M ${stroke / 2}, ${radius + stroke / 2} A ${radius},${radius} 0 0,1 ${2 * radius + stroke * 1.5},${radius + stroke / 2}`}
+                    fill="none" stroke="url(#gaugeGrad)" strokeWidth={stroke} strokeLinecap="round"
+                    strokeDasharray={`${progress} ${circumference}`}
+                    className="transition-all duration-1000"
+                />
+                {/* Score number */}
+                <text x={radius + stroke} y={radius - 4} textAnchor="middle" fill="white" fontSize="36" fontWeight="700" fontFamily="Inter, system-ui, sans-serif">
+                    {score ?? '—'}
+                </text>
+                <text x={radius + stroke} y={radius + 18} textAnchor="middle" fill="rgba(255,255,255,0.5)" fontSize="12" fontFamily="Inter, system-ui, sans-serif">
+                    / 100
+                </text>
+            </svg>
+            {/* Risk label */}
+            <div className="text-center mt-1">
+                <span className={`text-sm font-semibold ${scoreColor(score)}`}>{riskLabel}</span>
+            </div>
+        </div>
+    );
+}
+
+// One factor: score bar, measured value vs target, and (expanded) why points were lost
+function FactorRow({ factor }: { factor: HealthFactor }) {
+    const [open, setOpen] = useState(false);
+    const explainable = factor.deductions.length > 0 || factor.notes.length > 0;
+
+    return (
+        <div className="py-1.5">
+            <button
+                type="button"
+                onClick={() => explainable && setOpen(!open)}
+                className={`w-full flex items-center gap-2 text-left ${explainable ? 'cursor-pointer' : 'cursor-default'}`}
+            >
+                <span className="text-xs text-white/60 w-28 shrink-0">{factor.label}</span>
+                <div className="flex-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                    {factor.score !== null && (
+                        <div className={`h-full rounded-full ${barColor(factor.score)}`} style={{ width: `${factor.score}%` }} />
+                    )}
+                </div>
+                <span className={`text-xs font-bold font-mono w-7 text-right ${scoreColor(factor.score)}`}>
+                    {factor.score ?? '—'}
+                </span>
+                <span className="text-[10px] text-white/30 w-9 text-right" title="Share of the overall score">
+                    {factor.missing || factor.weight === 0 ? 'off' : `${factor.share.toFixed(0)}%`}
+                </span>
+                <ChevronDown className={`w-3 h-3 text-white/30 transition-transform ${open ? 'rotate-180' : ''} ${explainable ? '' : 'invisible'}`} />
+            </button>
+            {open && (
+                <div className="mt-1.5 ml-1 pl-3 border-l border-white/10 space-y-1">
+                    {!factor.missing && (
+                        <p className="text-[10px] text-white/40">
+                            Measured {formatMeasure(factor.value, factor.unit)}
+                            {factor.target !== null && factor.target !== undefined && ` · target ${formatMeasure(factor.target, factor.unit)}`}
+                        </p>
+                    )}
+                    {factor.deductions.map((deduction, i) => (
+                        <p key={i} className="text-[11px] text-white/70">
+                            <span className="text-rose-400 font-mono mr-1.5">−{deduction.points}</span>
+                            {deduction.reason}
+                        </p>
+                    ))}
+                    {factor.notes.map((note, i) => (
+                        <p key={`note-${i}`} className="text-[10px] text-white/40 italic">{note}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function HealthSettingsPicker({ settings }: { settings: HealthScoreSettings }) {
+    const { updatePreferences } = useAuth();
+    const { fetchAnalytics } = usePortfolio();
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState<HealthScoreSettings>(settings);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Start from the settings the current score used every time the picker opens
+    useEffect(() => {
+        if (open) {
+            setDraft(settings);
+            setError('');
+        }
+    }, [open, settings]);
+
+    const validationError = (): string | null => {
+        for (const key of Object.keys(FACTOR_LABELS) as HealthFactorKey[]) {
+            const weight = draft.weights[key];
+            if (!Number.isFinite(weight) || weight < 0 || weight > 100) return `${FACTOR_LABELS[key]} weight must be between 0 and 100`;
+        }
+        if (!Object.values(draft.weights).some(weight => weight > 0)) return 'At least one factor needs a weight above 0';
+        for (const { key, label, min, max } of TARGETS) {
+            const value = draft.targets[key];
+            if (!Number.isFinite(value) || value < min || value > max) return `${label} must be between ${min} and ${max}`;
+        }
+        return null;
+    };
+
+    const save = async (next: HealthScoreSettings | null) => {
+        setSaving(true);
+        try {
+            await updatePreferences({ healthScoreSettings: next });
+            // Only the scoring reruns server-side; the market data stays cached
+            await fetchAnalytics(true);
+            setOpen(false);
+        } catch (err: any) {
+            setError(err.message || 'Failed to save health score settings');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleApply = () => {
+        const invalid = validationError();
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        save(draft);
+    };
+
+    const numberInput = (value: number, onChange: (value: number) => void, step = 1) => (
+        <input
+            type="number"
+            step={step}
+            value={Number.isNaN(value) ? '' : value}
+            onChange={(e) => onChange(e.target.valueAsNumber)}
+            className="w-16 h-7 rounded-md bg-white/5 border border-white/10 text-center text-xs text-white focus:outline-none focus:border-cyan-500/50"
+        />
+    );
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <button
+                    className="p-1.5 rounded-lg text-white/40 hover:text-white/70 hover:bg-white/5 transition-colors"
+                    title="Health score weights and targets"
+                >
+                    <SlidersHorizontal className="w-4 h-4" />
+                </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 bg-[#1a1a1f] border-white/10 text-white">
+                <div className="space-y-3">
+                    <div>
+                        <p className="text-[10px] text-white/40 uppercase tracking-wider mb-1.5">Weights</p>
+                        <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                            {(Object.keys(FACTOR_LABELS) as HealthFactorKey[]).map(key => (
+                                <label key={key} className="flex items-center justify-between gap-2 text-xs text-white/70">
+                                    {FACTOR_LABELS[key]}
+                                    {numberInput(draft.weights[key], (value) =>
+                                        setDraft(prev => ({ ...prev, weights: { ...prev.weights, [key]: value } })))}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-[10px] text-white/40 uppercase tracking-wider mb-1.5">Targets</p>
+                        <div className="space-y-1.5">
+                            {TARGETS.map(({ key, label, step }) => (
+                                <label key={key} className="flex items-center justify-between gap-2 text-xs text-white/70">
+                                    {label}
+                                    {numberInput(draft.targets[key], (value) =>
+                                        setDraft(prev => ({ ...prev, targets: { ...prev.targets, [key]: value } })), step)}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {error && <p className="text-xs text-rose-400">{error}</p>}
+
+                    <div className="flex justify-between gap-2 pt-1">
+                        <Button size="sm" variant="ghost" onClick={() => save(null)} disabled={saving} className="h-7 text-xs text-white/50">
+                            Reset
+                        </Button>
+                        <div className="flex gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setOpen(false)} className="h-7 text-xs">Cancel</Button>
+                            <Button
+                                size="sm"
+                                onClick={handleApply}
+                                disabled={saving}
+                                className="h-7 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
+                            >
+                                {saving ? 'Saving...' : 'Apply'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
+
+const HistoryTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const point: HealthHistoryPoint = payload[0].payload;
+    return (
+        <div className="bg-[#111]/95 backdrop-blur-xl border border-white/10 rounded-xl px-3 py-2 shadow-2xl text-xs">
+            <p className="text-white/60">{new Date(`${point.date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}</p>
+            <p className="text-cyan-400 font-mono font-bold">{point.score}</p>
+        </div>
+    );
+};
+
+/**
+ * Health score gauge with a per-factor breakdown (click a factor for its deductions),
+ * the user's weights / targets and the daily score history
+ */
+export default function HealthScoreCard({ analytics, loading, isActive = true }: {
+    analytics: PortfolioAnalytics | null;
+    loading: boolean;
+    isActive?: boolean;
+}) {
+    const { activePortfolioId } = usePortfolio();
+    const [history, setHistory] = useState<HealthHistoryPoint[]>([]);
+
+    // Today's point is written when analytics load, so refetch after each load
+    useEffect(() => {
+        if (!isActive || !analytics?.lastUpdated) return;
+        let cancelled = false;
+        stocksAPI.getHealthHistory(180)
+            .then(points => { if (!cancelled) setHistory(points); })
+            .catch(error => console.error('Failed to fetch health history', error));
+        return () => { cancelled = true; };
+    }, [isActive, analytics?.lastUpdated, analytics?.healthScore, activePortfolioId]);
+
+    const factors = analytics?.healthFactors || [];
+
+    return (
+        <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg lg:col-span-1">
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                    <ShieldCheck className="w-5 h-5 text-cyan-400" />
+                    Portfolio Health
+                </CardTitle>
+                {analytics?.healthSettings && <HealthSettingsPicker settings={analytics.healthSettings} />}
+            </CardHeader>
+            <CardContent className="flex flex-col items-center justify-center py-4">
+                {loading || !analytics ? (
+                    <div className="w-48 h-48 rounded-full bg-white/5 animate-pulse" />
+                ) : (
+                    <>
+                        <Gauge score={analytics.healthScore} />
+
+                        {/* Factor breakdown */}
+                        <div className="w-full mt-4">
+                            {factors.length > 0 ? (
+                                factors.map(factor => <FactorRow key={factor.key} factor={factor} />)
+                            ) : (
+                                <div className="grid grid-cols-3 gap-2 text-center">
+                                    {(['diversification', 'volatility', 'sentiment'] as HealthFactorKey[]).map(key => (
+                                        <div key={key}>
+                                            <div className="text-xs text-white/40 mb-0.5">{FACTOR_LABELS[key]}</div>
+                                            <div className="text-sm font-bold text-white/80">{analytics.components[key] ?? '—'}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Daily history */}
+                        {history.length > 1 && (
+                            <div className="w-full h-[70px] mt-3">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={history} margin={{ top: 5, right: 5, left: 5, bottom: 0 }}>
+                                        <XAxis dataKey="date" hide />
+                                        <YAxis domain={[0, 100]} hide />
+                                        <RechartsTooltip content={<HistoryTooltip />} cursor={{ stroke: 'rgba(255,255,255,0.2)' }} />
+                                        <Line type="monotone" dataKey="score" stroke="#22d3ee" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+
+                        {analytics.portfolioBeta !== null && (
+                            <div className="text-center mt-3">
+                                <span className="text-xs text-white/30">β = {analytics.portfolioBeta}</span>
+                            </div>
+                        )}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
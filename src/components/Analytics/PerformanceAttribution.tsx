@@ -0,0 +1,358 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart3, ChevronDown } from 'lucide-react';
+import {
+    BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, ReferenceLine, Tooltip as RechartsTooltip, ResponsiveContainer
+} from 'recharts';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { stocksAPI, PerformanceAttribution as AttributionData, PortfolioHistoryRange, HoldingAttribution } from '@/api/stocks';
+
+type View = 'holdings' | 'sectors' | 'brinson';
+
+const RANGES: PortfolioHistoryRange[] = ['1M', '3M', 'YTD', '1Y', 'MAX'];
+
+const VIEWS: { value: View; label: string }[] = [
+    { value: 'holdings', label: 'By Holding' },
+    { value: 'sectors', label: 'By Sector' },
+    { value: 'brinson', label: 'vs S&P 500' },
+];
+
+// Bars beyond this are grouped so the waterfall stays readable
+const MAX_STEPS = 8;
+
+const signedPct = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`);
+
+const money = (value: number) =>
+    `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const valueColor = (value: number | null) => (value !== null && value < 0 ? 'text-rose-400' : 'text-emerald-400');
+
+interface WaterfallStep {
+    label: string;
+    value: number;
+    range: [number, number];
+    kind: 'total' | 'step';
+    detail?: string;
+}
+
+/**
+ * Floating bars: each step starts where the previous one ended, totals start at zero
+ */
+function waterfall(steps: { label: string; value: number; detail?: string }[], total: { label: string; value: number }, opening?: { label: string; value: number }): WaterfallStep[] {
+    const result: WaterfallStep[] = [];
+    let running = 0;
+    if (opening) {
+        result.push({ label: opening.label, value: opening.value, range: [0, opening.value], kind: 'total' });
+        running = opening.value;
+    }
+    for (const step of steps) {
+        result.push({ ...step, range: [running, running + step.value], kind: 'step' });
+        running += step.value;
+    }
+    result.push({ label: total.label, value: total.value, range: [0, total.value], kind: 'total' });
+    return result;
+}
+
+/**
+ * Largest steps by size, the rest summed into one
+ */
+function topSteps<T extends { contribution: number }>(rows: T[], label: (row: T) => string, detail?: (row: T) => string) {
+    const sorted = [...rows].sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+    const shown = sorted.slice(0, MAX_STEPS);
+    const rest = sorted.slice(MAX_STEPS);
+    const steps = shown
+        .sort((a, b) => b.contribution - a.contribution)
+        .map(row => ({ label: label(row), value: row.contribution, detail: detail?.(row) }));
+    if (rest.length > 0) {
+        steps.push({ label: `${rest.length} others`, value: rest.reduce((sum, row) => sum + row.contribution, 0), detail: undefined });
+    }
+    return steps;
+}
+
+const WaterfallTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const step: WaterfallStep = payload[0].payload;
+    return (
+        <div className="bg-[#111]/95 backdrop-blur-xl border border-white/10 rounded-xl px-3 py-2 shadow-2xl text-xs">
+            <p className="text-white/60">{step.label}</p>
+            <p className={`font-mono font-bold ${step.kind === 'total' ? 'text-cyan-400' : valueColor(step.value)}`}>{signedPct(step.value)}</p>
+            {step.detail && <p className="text-white/40">{step.detail}</p>}
+        </div>
+    );
+};
+
+function LotRows({ holding }: { holding: HoldingAttribution }) {
+    return (
+        <div className="bg-black/20 rounded-lg px-3 py-2 mb-1">
+            <div className="grid grid-cols-5 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-1">
+                <span>Lot</span>
+                <span className="text-right">Shares</span>
+                <span className="text-right">Cost</span>
+                <span className="text-right">P&L</span>
+                <span className="text-right">Contribution</span>
+            </div>
+            {holding.lots.map((lot, i) => (
+                <div key={lot.lotId || i} className="grid grid-cols-5 gap-2 text-xs py-0.5">
+                    <span className="text-white/60">{lot.date}</span>
+                    <span className="text-right text-white/70 font-mono">
+                        {lot.openQuantity}{lot.openQuantity !== lot.quantity && <span className="text-white/30">/{lot.quantity}</span>}
+                    </span>
+                    <span className="text-right text-white/50 font-mono">{money(lot.price)}</span>
+                    <span className={`text-right font-mono ${valueColor(lot.pnl)}`}>{money(lot.pnl)}</span>
+                    <span className={`text-right font-mono ${valueColor(lot.contribution)}`}>{signedPct(lot.contribution)}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Why the portfolio beat or trailed SPY: contribution to return per holding (down to lots) and
+ * per sector as a waterfall, and the Brinson allocation / selection breakdown vs the S&P 500
+ */
+export default function PerformanceAttribution({ isActive = true }: { isActive?: boolean }) {
+    const { positions, activePortfolioId } = usePortfolio();
+    const [range, setRange] = useState<PortfolioHistoryRange>('1Y');
+    const [view, setView] = useState<View>('holdings');
+    const [data, setData] = useState<AttributionData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    // Refetch when holdings change, not on every price tick
+    const holdingsKey = useMemo(() => positions.map(p => `${p.symbol}:${p.quantity}`).join(','), [positions]);
+
+    useEffect(() => {
+        if (!isActive || !holdingsKey) return;
+        let cancelled = false;
+
+        const fetchAttribution = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const result = await stocksAPI.getPortfolioAttribution(range);
+                if (!cancelled) setData(result);
+            } catch (err: any) {
+                if (!cancelled) setError(err.response?.data?.message || 'Failed to load attribution');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        fetchAttribution();
+        return () => { cancelled = true; };
+    }, [isActive, holdingsKey, activePortfolioId, range]);
+
+    const steps = useMemo(() => {
+        if (!data || data.portfolioReturn === null) return [];
+        const portfolio = { label: 'Portfolio', value: data.portfolioReturn };
+        if (view === 'holdings') {
+            return waterfall(topSteps(data.positions, row => row.symbol, row => `${row.averageWeight.toFixed(1)}% avg weight · ${money(row.pnl)}`), portfolio);
+        }
+        if (view === 'sectors') {
+            return waterfall(topSteps(data.sectors, row => row.sector, row => row.symbols.join(', ')), portfolio);
+        }
+        if (!data.brinson || data.benchmarkReturn === null) return [];
+        const b = data.brinson;
+        return waterfall([
+            { label: 'Allocation', value: b.allocation, detail: 'Over / underweighting sectors' },
+            { label: 'Selection', value: b.selection, detail: 'Picks within each sector' },
+            { label: 'Interaction', value: b.interaction, detail: 'Overweighting sectors where picks did well' },
+            { label: 'Residual', value: b.residual, detail: 'Sector funds at index weights vs SPY' },
+        ], portfolio, { label: b.benchmark, value: data.benchmarkReturn });
+    }, [data, view]);
+
+    return (
+        <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+            <CardHeader className="pb-2 flex flex-row items-center justify-between flex-wrap gap-2">
+                <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5 text-cyan-400" />
+                    Performance Attribution
+                </CardTitle>
+                <div className="flex gap-1">
+                    {RANGES.map(r => (
+                        <button
+                            key={r}
+                            onClick={() => setRange(r)}
+                            className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-all ${range === r
+                                ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                                : 'text-white/40 hover:text-white/60 hover:bg-white/5'
+                                }`}
+                        >
+                            {r}
+                        </button>
+                    ))}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">{error}</div>
+                )}
+                {loading && !data ? (
+                    <div className="h-[320px] bg-white/5 animate-pulse rounded-xl" />
+                ) : !data || data.days === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-8 text-zinc-500">
+                        <BarChart3 className="w-8 h-8 mb-2 opacity-30" />
+                        <p className="text-sm">{data?.notes[0] || 'No holdings to attribute'}</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Summary */}
+                        <div className="grid grid-cols-3 gap-3">
+                            {[
+                                { label: 'Portfolio', value: data.portfolioReturn },
+                                { label: 'S&P 500', value: data.benchmarkReturn },
+                                { label: 'Difference', value: data.activeReturn },
+                            ].map(stat => (
+                                <div key={stat.label} className="bg-white/5 rounded-xl px-3 py-2.5">
+                                    <div className="text-[10px] text-white/40 uppercase tracking-wider">{stat.label}</div>
+                                    <div className={`text-lg font-bold font-mono ${valueColor(stat.value)}`}>{signedPct(stat.value)}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div className="flex gap-1">
+                                {VIEWS.map(v => (
+                                    <button
+                                        key={v.value}
+                                        onClick={() => setView(v.value)}
+                                        className={`px-2.5 py-1 text-xs rounded-lg transition-all ${view === v.value ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white/60 hover:bg-white/5'}`}
+                                    >
+                                        {v.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="text-[10px] text-white/30">{data.start} – {data.end} · {data.days} trading days</span>
+                        </div>
+
+                        {/* Waterfall */}
+                        <div className={`h-[260px] transition-opacity ${loading ? 'opacity-50' : ''}`}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={steps} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                                    <XAxis dataKey="label" tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 10 }} axisLine={false} tickLine={false} interval={0} />
+                                    <YAxis
+                                        tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
+                                        tickFormatter={(v: number) => `${v > 0 ? '+' : ''}${v.toFixed(0)}%`}
+                                        axisLine={false} tickLine={false}
+                                    />
+                                    <ReferenceLine y={0} stroke="rgba(255,255,255,0.2)" />
+                                    <RechartsTooltip content={<WaterfallTooltip />} cursor={{ fill: 'rgba(255,255,255,0.03)' }} />
+                                    <Bar
+                                        dataKey="range"
+                                        radius={[3, 3, 3, 3]}
+                                        onClick={(step: WaterfallStep) => {
+                                            if (view === 'holdings' && data.positions.some(p => p.symbol === step.label)) {
+                                                setExpanded(prev => (prev === step.label ? null : step.label));
+                                            }
+                                        }}
+                                    >
+                                        {steps.map(step => (
+                                            <Cell
+                                                key={step.label}
+                                                className={view === 'holdings' && step.kind === 'step' ? 'cursor-pointer' : undefined}
+                                                fill={step.kind === 'total' ? '#22d3ee' : step.value < 0 ? '#f43f5e' : '#10b981'}
+                                                fillOpacity={step.kind === 'total' ? 0.6 : 0.85}
+                                            />
+                                        ))}
+                                    </Bar>
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        {/* Detail table */}
+                        {view === 'holdings' && (
+                            <div>
+                                <div className="grid grid-cols-4 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                    <span>Holding</span>
+                                    <span className="text-right">Avg Weight</span>
+                                    <span className="text-right">P&L</span>
+                                    <span className="text-right">Contribution</span>
+                                </div>
+                                {data.positions.map(holding => (
+                                    <div key={holding.symbol}>
+                                        <button
+                                            onClick={() => setExpanded(prev => (prev === holding.symbol ? null : holding.symbol))}
+                                            className="w-full grid grid-cols-4 gap-2 items-center py-2 border-b border-white/5 text-left hover:bg-white/5"
+                                        >
+                                            <span className="flex items-center gap-1 text-sm text-white/80">
+                                                <ChevronDown className={`w-3 h-3 text-white/30 transition-transform ${expanded === holding.symbol ? '' : '-rotate-90'}`} />
+                                                {holding.symbol}
+                                                <span className="text-[10px] text-white/30 truncate">{holding.sector || 'Unknown'}</span>
+                                            </span>
+                                            <span className="text-sm text-white/60 text-right font-mono">{holding.averageWeight.toFixed(1)}%</span>
+                                            <span className={`text-sm text-right font-mono ${valueColor(holding.pnl)}`}>{money(holding.pnl)}</span>
+                                            <span className={`text-sm text-right font-mono ${valueColor(holding.contribution)}`}>{signedPct(holding.contribution)}</span>
+                                        </button>
+                                        {expanded === holding.symbol && <LotRows holding={holding} />}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {view === 'sectors' && (
+                            <div>
+                                <div className="grid grid-cols-4 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                    <span>Sector</span>
+                                    <span className="text-right">Avg Weight</span>
+                                    <span className="text-right">P&L</span>
+                                    <span className="text-right">Contribution</span>
+                                </div>
+                                {data.sectors.map(sector => (
+                                    <div key={sector.sector} className="grid grid-cols-4 gap-2 items-center py-2 border-b border-white/5 last:border-0">
+                                        <span className="text-sm text-white/80 truncate" title={sector.symbols.join(', ')}>{sector.sector}</span>
+                                        <span className="text-sm text-white/60 text-right font-mono">{sector.averageWeight.toFixed(1)}%</span>
+                                        <span className={`text-sm text-right font-mono ${valueColor(sector.pnl)}`}>{money(sector.pnl)}</span>
+                                        <span className={`text-sm text-right font-mono ${valueColor(sector.contribution)}`}>{signedPct(sector.contribution)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {view === 'brinson' && data.brinson && (
+                            <div className="overflow-x-auto">
+                                <div className="min-w-[560px]">
+                                    <div className="grid grid-cols-7 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                        <span className="col-span-2">Sector</span>
+                                        <span className="text-right">Weight</span>
+                                        <span className="text-right">Return</span>
+                                        <span className="text-right">Allocation</span>
+                                        <span className="text-right">Selection</span>
+                                        <span className="text-right">Interaction</span>
+                                    </div>
+                                    {data.brinson.sectors.map(row => (
+                                        <div key={row.sector} className="grid grid-cols-7 gap-2 items-center py-2 border-b border-white/5 last:border-0 text-xs">
+                                            <span className="col-span-2 text-white/80 truncate">
+                                                {row.sector}
+                                                {row.etf && <span className="text-white/30"> · {row.etf}</span>}
+                                            </span>
+                                            <span className="text-right font-mono text-white/60" title="Portfolio / index">
+                                                {row.portfolioWeight.toFixed(1)} / {row.benchmarkWeight.toFixed(1)}
+                                            </span>
+                                            <span className="text-right font-mono text-white/60" title="Portfolio / sector fund">
+                                                {row.portfolioReturn === null ? '—' : row.portfolioReturn.toFixed(1)} / {row.benchmarkReturn.toFixed(1)}
+                                            </span>
+                                            <span className={`text-right font-mono ${valueColor(row.allocation)}`}>{signedPct(row.allocation)}</span>
+                                            <span className={`text-right font-mono ${valueColor(row.selection)}`}>{signedPct(row.selection)}</span>
+                                            <span className={`text-right font-mono ${valueColor(row.interaction)}`}>{signedPct(row.interaction)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {data.notes.length > 0 && (
+                            <ul className="text-[10px] text-amber-400/80 space-y-0.5">
+                                {data.notes.map(note => <li key={note}>{note}</li>)}
+                            </ul>
+                        )}
+                        <p className="text-[10px] text-white/30">
+                            Contributions are in percentage points of the time-weighted return and add up to it; price returns in USD, dividends excluded.
+                            {view === 'brinson' && ' Sector returns use the SPDR sector funds at approximate S&P 500 weights; funds you hold are compared with the index as a whole.'}
+                        </p>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,10 +1,14 @@
-
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { TrendingUp, SlidersHorizontal, Plus, X } from 'lucide-react';
 import {
     AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer
 } from 'recharts';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { ALL_PORTFOLIOS, Benchmark } from '@/api/portfolios';
+import { BenchmarkComparison } from '@/api/stocks';
 
 interface BenchmarkPoint {
     date: string;
@@ -14,11 +18,284 @@ interface BenchmarkPoint {
 
 interface PortfolioBenchmarkChartProps {
     data: BenchmarkPoint[] | undefined;
+    benchmarks?: BenchmarkComparison[];
     isLoading: boolean;
 }
 
-const PortfolioBenchmarkChart = React.memo(({ data, isLoading }: PortfolioBenchmarkChartProps) => {
+const MAX_BENCHMARKS = 3;
+const MAX_COMPONENTS = 5;
+
+const PRESETS: Benchmark[] = [
+    { name: 'S&P 500', components: [{ symbol: 'SPY', weight: 100 }] },
+    { name: 'Nasdaq 100', components: [{ symbol: 'QQQ', weight: 100 }] },
+    { name: 'US Total Market', components: [{ symbol: 'VTI', weight: 100 }] },
+    { name: 'TA-125', components: [{ symbol: '^TA125.TA', weight: 100 }] },
+    { name: '60/40', components: [{ symbol: 'VTI', weight: 60 }, { symbol: 'BND', weight: 40 }] },
+];
+
+// Benchmark lines, in order; the first keeps the original SPY styling
+const LINE_STYLES = [
+    { stroke: 'rgba(255,255,255,0.5)', dash: '6 3' },
+    { stroke: '#fbbf24', dash: '4 2' },
+    { stroke: '#a78bfa', dash: '2 2' },
+];
+
+const sameBenchmark = (a: Benchmark, b: Benchmark) =>
+    a.components.length === b.components.length &&
+    a.components.every(c => b.components.some(o => o.symbol === c.symbol && o.weight === c.weight));
+
+const signedPct = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`);
+
+const ratio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+type BlendRow = { symbol: string; weight: number };
+
+function BenchmarkPicker({ saved }: { saved: Benchmark[] }) {
+    const { activePortfolioId, setBenchmarks } = usePortfolio();
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState<Benchmark[]>(saved);
+    const [blendName, setBlendName] = useState('');
+    const [blend, setBlend] = useState<BlendRow[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Start from the saved benchmarks every time the picker opens
+    useEffect(() => {
+        if (open) {
+            setDraft(saved);
+            setBlendName('');
+            setBlend([{ symbol: '', weight: 50 }, { symbol: '', weight: 50 }]);
+            setError('');
+        }
+    }, [open, saved]);
+
+    const togglePreset = (preset: Benchmark) => {
+        setError('');
+        setDraft(prev => (prev.some(b => sameBenchmark(b, preset))
+            ? prev.filter(b => !sameBenchmark(b, preset))
+            : [...prev, preset]));
+    };
+
+    const blendError = (): string | null => {
+        const rows = blend.filter(r => r.symbol.trim());
+        if (rows.length === 0) return 'Enter at least one symbol';
+        if (rows.some(r => !Number.isFinite(r.weight) || r.weight <= 0 || r.weight > 100)) return 'Weights must be between 0 and 100';
+        const symbols = rows.map(r => r.symbol.trim().toUpperCase());
+        if (new Set(symbols).size !== symbols.length) return 'Each symbol can appear once';
+        const total = rows.reduce((sum, r) => sum + r.weight, 0);
+        if (Math.abs(total - 100) > 0.01) return `Blend weights must add up to 100% (now ${+total.toFixed(1)}%)`;
+        return null;
+    };
+
+    const addBlend = () => {
+        const invalid = blendError();
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        const components = blend
+            .filter(r => r.symbol.trim())
+            .map(r => ({ symbol: r.symbol.trim().toUpperCase(), weight: r.weight }));
+        const name = blendName.trim() || components.map(c => `${c.weight}% ${c.symbol}`).join(' / ');
+        setDraft(prev => [...prev, { name, components }]);
+        setBlendName('');
+        setBlend([{ symbol: '', weight: 50 }, { symbol: '', weight: 50 }]);
+        setError('');
+    };
+
+    const validationError = (): string | null => {
+        if (draft.length === 0) return 'Choose at least one benchmark';
+        if (draft.length > MAX_BENCHMARKS) return `Choose up to ${MAX_BENCHMARKS} benchmarks`;
+        return null;
+    };
+
+    const save = async (next: Benchmark[] | null) => {
+        setSaving(true);
+        try {
+            await setBenchmarks(activePortfolioId, next);
+            setOpen(false);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to save benchmarks');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleApply = () => {
+        const invalid = validationError();
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        save(draft);
+    };
+
+    const inputClass = 'h-7 rounded-md bg-white/5 border border-white/10 px-2 text-xs text-white focus:outline-none focus:border-cyan-500/50';
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <button
+                    className="p-1.5 rounded-lg text-white/40 hover:text-white/70 hover:bg-white/5 transition-colors"
+                    title="Choose benchmarks"
+                >
+                    <SlidersHorizontal className="w-4 h-4" />
+                </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 bg-[#1a1a1f] border-white/10 text-white">
+                <div className="space-y-3">
+                    <div>
+                        <p className="text-[10px] text-white/40 uppercase tracking-wider mb-1.5">Presets</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {PRESETS.map(preset => {
+                                const selected = draft.some(b => sameBenchmark(b, preset));
+                                return (
+                                    <button
+                                        key={preset.name}
+                                        onClick={() => togglePreset(preset)}
+                                        className={`px-2.5 py-1 text-xs rounded-lg transition-all ${selected
+                                            ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                                            : 'text-white/50 border border-white/10 hover:text-white/70 hover:bg-white/5'
+                                            }`}
+                                    >
+                                        {preset.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className="text-[10px] text-white/40 uppercase tracking-wider mb-1.5">Selected ({draft.length}/{MAX_BENCHMARKS})</p>
+                        {draft.length === 0 ? (
+                            <p className="text-xs text-white/30">None</p>
+                        ) : (
+                            <div className="space-y-1">
+                                {draft.map((b, i) => (
+                                    <div key={`${b.name}-${i}`} className="flex items-center justify-between gap-2 text-xs">
+                                        <span className="text-white/80 truncate">
+                                            {b.name}
+                                            {b.components.length > 1 && (
+                                                <span className="text-white/30"> · {b.components.map(c => `${c.weight}% ${c.symbol}`).join(', ')}</span>
+                                            )}
+                                        </span>
+                                        <button
+                                            onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))}
+                                            className="text-white/30 hover:text-rose-400"
+                                            title="Remove"
+                                        >
+                                            <X className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <p className="text-[10px] text-white/40 uppercase tracking-wider mb-1.5">Custom blend</p>
+                        <div className="space-y-1.5">
+                            <input
+                                value={blendName}
+                                onChange={(e) => setBlendName(e.target.value)}
+                                placeholder="Name (optional)"
+                                maxLength={40}
+                                className={`${inputClass} w-full`}
+                            />
+                            {blend.map((row, i) => (
+                                <div key={i} className="flex items-center gap-1.5">
+                                    <input
+                                        value={row.symbol}
+                                        onChange={(e) => setBlend(prev => prev.map((r, j) => (j === i ? { ...r, symbol: e.target.value } : r)))}
+                                        placeholder="Symbol"
+                                        className={`${inputClass} flex-1 uppercase`}
+                                    />
+                                    <input
+                                        type="number"
+                                        value={Number.isNaN(row.weight) ? '' : row.weight}
+                                        onChange={(e) => setBlend(prev => prev.map((r, j) => (j === i ? { ...r, weight: e.target.valueAsNumber } : r)))}
+                                        className={`${inputClass} w-16 text-center`}
+                                    />
+                                    <span className="text-xs text-white/40">%</span>
+                                    <button
+                                        onClick={() => setBlend(prev => prev.filter((_, j) => j !== i))}
+                                        disabled={blend.length === 1}
+                                        className="text-white/30 hover:text-rose-400 disabled:opacity-30"
+                                        title="Remove"
+                                    >
+                                        <X className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ))}
+                            <div className="flex justify-between">
+                                <button
+                                    onClick={() => setBlend(prev => [...prev, { symbol: '', weight: 0 }])}
+                                    disabled={blend.length >= MAX_COMPONENTS}
+                                    className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80 disabled:opacity-30"
+                                >
+                                    <Plus className="w-3 h-3" /> Symbol
+                                </button>
+                                <button
+                                    onClick={addBlend}
+                                    disabled={draft.length >= MAX_BENCHMARKS}
+                                    className="text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-30"
+                                >
+                                    Add blend
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+
+                    {error && <p className="text-xs text-rose-400">{error}</p>}
+
+                    <div className="flex justify-between gap-2 pt-1">
+                        <Button size="sm" variant="ghost" onClick={() => save(null)} disabled={saving} className="h-7 text-xs text-white/50">
+                            Reset
+                        </Button>
+                        <div className="flex gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setOpen(false)} className="h-7 text-xs">Cancel</Button>
+                            <Button
+                                size="sm"
+                                onClick={handleApply}
+                                disabled={saving}
+                                className="h-7 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
+                            >
+                                {saving ? 'Saving...' : 'Apply'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
+
+const PortfolioBenchmarkChart = React.memo(({ data, benchmarks, isLoading }: PortfolioBenchmarkChartProps) => {
     const [range, setRange] = useState<'1M' | '6M' | '1Y'>('1Y');
+    const { portfolios, activePortfolioId } = usePortfolio();
+
+    const savedBenchmarks = useMemo(() => {
+        const saved = portfolios.find(p => p._id === activePortfolioId)?.benchmarks;
+        return saved && saved.length > 0 ? saved : PRESETS.slice(0, 1);
+    }, [portfolios, activePortfolioId]);
+
+    // The chosen benchmarks, or the plain SPY line when the comparison isn't there
+    const lines = useMemo(() => {
+        if (benchmarks && benchmarks.length > 0) {
+            return benchmarks.map((b, i) => ({
+                key: `b${i}`,
+                name: b.name,
+                values: b.series.length > 0 ? new Map(b.series.map(p => [p.date, p.value])) : null,
+                comparison: b as BenchmarkComparison | null,
+            }));
+        }
+        return [{
+            key: 'b0',
+            name: 'S&P 500',
+            values: new Map((data || []).map(d => [d.date, d.spy])),
+            comparison: null,
+        }];
+    }, [data, benchmarks]);
 
     const slicedData = useMemo(() => {
         if (!data || data.length === 0) return [];
@@ -31,29 +308,35 @@ const PortfolioBenchmarkChart = React.memo(({ data, isLoading }: PortfolioBenchm
 
         // Convert from % display back to absolute multiplier: 71.24% -> 1.7124
         // Then calculate relative difference, and convert back to %
-        const basePortfolio = 1 + (sliced[0].portfolio / 100);
-        const baseSpy = 1 + (sliced[0].spy / 100);
+        const rebase = (value: number, base: number) => +(((1 + value / 100) / (1 + base / 100) - 1) * 100).toFixed(2);
+        const first = sliced[0];
 
         return sliced.map(d => {
-            const currentPortfolio = 1 + (d.portfolio / 100);
-            const currentSpy = 1 + (d.spy / 100);
-
-            return {
+            const point: Record<string, number | string | null> = {
                 date: d.date,
-                portfolio: +((currentPortfolio / basePortfolio - 1) * 100).toFixed(2),
-                spy: +((currentSpy / baseSpy - 1) * 100).toFixed(2),
+                portfolio: rebase(d.portfolio, first.portfolio),
             };
+            lines.forEach(line => {
+                const value = line.values?.get(d.date);
+                const base = line.values?.get(first.date);
+                point[line.key] = value === undefined || base === undefined ? null : rebase(value, base);
+            });
+            return point;
         });
-    }, [data, range]);
+    }, [data, range, lines]);
+
+    const lineNames: Record<string, string> = { portfolio: 'My Portfolio' };
+    lines.forEach(line => { lineNames[line.key] = line.name; });
+    const comparisons = lines.filter(line => line.comparison);
 
     return (
         <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg lg:col-span-2 relative overflow-hidden">
             <CardHeader className="pb-2 flex flex-row items-center justify-between">
                 <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
                     <TrendingUp className="w-5 h-5 text-emerald-400" />
-                    Portfolio vs S&P 500
+                    Portfolio vs {lines.map(line => line.name).join(', ')}
                 </CardTitle>
-                <div className="flex gap-1">
+                <div className="flex items-center gap-1">
                     {(['1M', '6M', '1Y'] as const).map(r => (
                         <button
                             key={r}
@@ -66,46 +349,98 @@ const PortfolioBenchmarkChart = React.memo(({ data, isLoading }: PortfolioBenchm
                             {r}
                         </button>
                     ))}
+                    {/* Benchmarks are saved per portfolio; the all-portfolios view compares with SPY */}
+                    {activePortfolioId !== ALL_PORTFOLIOS && <BenchmarkPicker saved={savedBenchmarks} />}
                 </div>
             </CardHeader>
-            <CardContent className="h-[280px]">
-                {isLoading || !data ? (
-                    <div className="w-full h-full bg-white/5 animate-pulse rounded-xl" />
-                ) : slicedData.length > 0 ? (
-                    <ResponsiveContainer width="100%" height="100%">
-                        <AreaChart data={slicedData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
-                            <defs>
-                                <linearGradient id="portfolioFill" x1="0" y1="0" x2="0" y2="1">
-                                    <stop offset="0%" stopColor="#22d3ee" stopOpacity={0.3} />
-                                    <stop offset="100%" stopColor="#22d3ee" stopOpacity={0} />
-                                </linearGradient>
-                            </defs>
-                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
-                            <XAxis
-                                dataKey="date" tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
-                                tickFormatter={(d: string) => { const m = d.split('-'); return `${m[1]}/${m[2]}`; }}
-                                interval={Math.max(1, Math.floor(slicedData.length / 6))}
-                                axisLine={false} tickLine={false}
-                            />
-                            <YAxis
-                                tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
-                                tickFormatter={(v: number) => `${v > 0 ? '+' : ''}${v.toFixed(0)}%`}
-                                axisLine={false} tickLine={false}
-                            />
-                            <RechartsTooltip
-                                contentStyle={{ background: 'rgba(0,0,0,0.85)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px', fontSize: 12 }}
-                                labelStyle={{ color: 'rgba(255,255,255,0.5)' }}
-                                formatter={(value: number, name: string) => [
-                                    `${value > 0 ? '+' : ''}${value.toFixed(2)}%`,
-                                    name === 'portfolio' ? 'My Portfolio' : 'S&P 500'
-                                ]}
-                            />
-                            <Area type="monotone" dataKey="portfolio" stroke="#22d3ee" strokeWidth={2} fill="url(#portfolioFill)" />
-                            <Area type="monotone" dataKey="spy" stroke="rgba(255,255,255,0.5)" strokeWidth={1.5} strokeDasharray="6 3" fill="none" />
-                        </AreaChart>
-                    </ResponsiveContainer>
-                ) : (
-                    <div className="flex items-center justify-center h-full text-zinc-500 text-sm">No benchmark data</div>
+            <CardContent className="space-y-3">
+                <div className="h-[280px]">
+                    {isLoading || !data ? (
+                        <div className="w-full h-full bg-white/5 animate-pulse rounded-xl" />
+                    ) : slicedData.length > 0 ? (
+                        <ResponsiveContainer width="100%" height="100%">
+                            <AreaChart data={slicedData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                                <defs>
+                                    <linearGradient id="portfolioFill" x1="0" y1="0" x2="0" y2="1">
+                                        <stop offset="0%" stopColor="#22d3ee" stopOpacity={0.3} />
+                                        <stop offset="100%" stopColor="#22d3ee" stopOpacity={0} />
+                                    </linearGradient>
+                                </defs>
+                                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                                <XAxis
+                                    dataKey="date" tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
+                                    tickFormatter={(d: string) => { const m = d.split('-'); return `${m[1]}/${m[2]}`; }}
+                                    interval={Math.max(1, Math.floor(slicedData.length / 6))}
+                                    axisLine={false} tickLine={false}
+                                />
+                                <YAxis
+                                    tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
+                                    tickFormatter={(v: number) => `${v > 0 ? '+' : ''}${v.toFixed(0)}%`}
+                                    axisLine={false} tickLine={false}
+                                />
+                                <RechartsTooltip
+                                    contentStyle={{ background: 'rgba(0,0,0,0.85)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px', fontSize: 12 }}
+                                    labelStyle={{ color: 'rgba(255,255,255,0.5)' }}
+                                    formatter={(value: number, name: string) => [
+                                        `${value > 0 ? '+' : ''}${value.toFixed(2)}%`,
+                                        lineNames[name] || name
+                                    ]}
+                                />
+                                <Area type="monotone" dataKey="portfolio" stroke="#22d3ee" strokeWidth={2} fill="url(#portfolioFill)" />
+                                {lines.map((line, i) => (
+                                    <Area
+                                        key={line.key}
+                                        type="monotone"
+                                        dataKey={line.key}
+                                        stroke={LINE_STYLES[i % LINE_STYLES.length].stroke}
+                                        strokeWidth={1.5}
+                                        strokeDasharray={LINE_STYLES[i % LINE_STYLES.length].dash}
+                                        fill="none"
+                                        connectNulls
+                                    />
+                                ))}
+                            </AreaChart>
+                        </ResponsiveContainer>
+                    ) : (
+                        <div className="flex items-center justify-center h-full text-zinc-500 text-sm">No benchmark data</div>
+                    )}
+                </div>
+
+                {/* Relative performance over the last year, per benchmark */}
+                {!isLoading && comparisons.length > 0 && (
+                    <div className="space-y-1 pr-12">
+                        {comparisons.map((line, i) => {
+                            const { stats, error } = line.comparison!;
+                            return (
+                                <div key={line.key} className="flex flex-wrap items-center gap-x-4 gap-y-0.5 text-xs">
+                                    <span className="flex items-center gap-1.5 text-white/70 min-w-[120px]">
+                                        <span className="w-3 h-0.5" style={{ background: LINE_STYLES[i % LINE_STYLES.length].stroke }} />
+                                        {line.name}
+                                    </span>
+                                    {error ? (
+                                        <span className="text-rose-400">{error}</span>
+                                    ) : !stats ? (
+                                        <span className="text-white/30">Needs about a month of history</span>
+                                    ) : (
+                                        <>
+                                            <span className="text-white/40" title="Annualized return beyond what beta and the risk-free rate explain (Jensen's alpha)">
+                                                Alpha <span className={`font-mono ${stats.alpha !== null && stats.alpha < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>{signedPct(stats.alpha)}</span>
+                                            </span>
+                                            <span className="text-white/40" title="Sensitivity to the benchmark's daily moves">
+                                                Beta <span className="font-mono text-white/80">{ratio(stats.beta)}</span>
+                                            </span>
+                                            <span className="text-white/40" title="Annualized volatility of the daily return difference">
+                                                Tracking error <span className="font-mono text-white/80">{stats.trackingError === null ? '—' : `${stats.trackingError.toFixed(2)}%`}</span>
+                                            </span>
+                                            <span className="text-white/40" title="Annualized excess return per unit of tracking error">
+                                                Info ratio <span className="font-mono text-white/80">{ratio(stats.informationRatio)}</span>
+                                            </span>
+                                        </>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
                 )}
             </CardContent>
             {/* Watermark & Version */}
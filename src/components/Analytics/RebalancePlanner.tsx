@@ -0,0 +1,490 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Scale, Plus, X, Download, Check, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { ALL_PORTFOLIOS } from '@/api/portfolios';
+import {
+    rebalanceAPI, AllocationTargets, AllocationGroupBy, AllocationTarget, RebalanceMode, RebalancePlan
+} from '@/api/rebalance';
+
+const GROUPINGS: { value: AllocationGroupBy; label: string }[] = [
+    { value: 'symbol', label: 'Symbol' },
+    { value: 'sector', label: 'Sector' },
+    { value: 'tag', label: 'Tag' },
+];
+
+const MODES: { value: RebalanceMode; label: string; title: string }[] = [
+    { value: 'full', label: 'Full', title: 'Sell overweight holdings to fund underweight ones' },
+    { value: 'buyOnly', label: 'Buy only', title: 'Invest the cash without selling anything' },
+];
+
+const money = (value: number) =>
+    `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const pct = (value: number) => `${value.toFixed(1)}%`;
+
+const shares = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+// Same ranges the server accepts
+function validateTargets(draft: AllocationTargets): string | null {
+    if (!Number.isFinite(draft.driftBand) || draft.driftBand < 0 || draft.driftBand > 50) return 'Drift band must be between 0 and 50 points';
+    const keys = new Set<string>();
+    for (const target of draft.targets) {
+        const key = target.key.trim();
+        if (!key) return 'Every target needs a name';
+        if (!Number.isFinite(target.weight) || target.weight < 0 || target.weight > 100) return `Target for ${key} must be between 0 and 100%`;
+        if (target.band !== null && (!Number.isFinite(target.band) || target.band < 0 || target.band > 50)) return `Drift band for ${key} must be between 0 and 50 points`;
+        const normalized = draft.groupBy === 'symbol' ? key.toUpperCase() : draft.groupBy === 'tag' ? key.toLowerCase() : key;
+        if (keys.has(normalized)) return `${key} has more than one target`;
+        keys.add(normalized);
+    }
+    const sum = draft.targets.reduce((total, t) => total + t.weight, 0);
+    if (sum > 100.01) return `Targets add up to ${sum.toFixed(1)}%; they can't exceed 100%`;
+    return null;
+}
+
+function downloadTradesCsv(plan: RebalancePlan) {
+    const rows = [
+        ['side', 'symbol', 'quantity', 'price', 'amount', 'group'],
+        ...plan.trades.map(t => [t.side, t.symbol, t.quantity, t.price.toFixed(2), t.amount.toFixed(2), t.group]),
+    ];
+    const csv = rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `rebalance-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Tags per position, edited inline (comma separated) when targets are set per tag
+ */
+function PositionTagsEditor() {
+    const { positions, setPositionTags } = usePortfolio();
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [error, setError] = useState('');
+
+    const held = positions.filter(p => p.quantity > 0);
+
+    const save = async (id: string, value: string) => {
+        const tags = [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+        const position = held.find(p => p._id === id);
+        if (!position || (position.tags || []).join(',') === tags.join(',')) return;
+        setError('');
+        try {
+            await setPositionTags(id, tags);
+            setDrafts(prev => ({ ...prev, [id]: tags.join(', ') }));
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to update tags');
+        }
+    };
+
+    return (
+        <div>
+            <p className="text-[10px] text-white/40 uppercase tracking-wider mb-1.5">Position tags</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1.5">
+                {held.map(position => (
+                    <label key={position._id} className="flex items-center gap-2 text-xs">
+                        <span className="w-14 font-semibold text-white/80">{position.symbol}</span>
+                        <input
+                            value={drafts[position._id] ?? (position.tags || []).join(', ')}
+                            onChange={(e) => setDrafts(prev => ({ ...prev, [position._id]: e.target.value }))}
+                            onBlur={(e) => save(position._id, e.target.value)}
+                            placeholder="e.g. core, income"
+                            className="flex-1 h-7 rounded-md bg-white/5 border border-white/10 px-2 text-xs text-white placeholder:text-white/20 focus:outline-none focus:border-cyan-500/50"
+                        />
+                    </label>
+                ))}
+            </div>
+            {error && <p className="text-xs text-rose-400 mt-1.5">{error}</p>}
+        </div>
+    );
+}
+
+/**
+ * Target allocation (per symbol, sector or tag) with drift bands, and the trades that bring the
+ * active portfolio back to it: export them as CSV or record them in the lot ledger
+ */
+export default function RebalancePlanner({ isActive = true }: { isActive?: boolean }) {
+    const { positions, activePortfolioId, cashBalance, applyRebalance } = usePortfolio();
+    const [saved, setSaved] = useState<AllocationTargets | null>(null);
+    const [draft, setDraft] = useState<AllocationTargets | null>(null);
+    const [plan, setPlan] = useState<RebalancePlan | null>(null);
+    const [cash, setCash] = useState(0);
+    const [mode, setMode] = useState<RebalanceMode>('full');
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [applying, setApplying] = useState(false);
+    const [confirmApply, setConfirmApply] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    const isAll = activePortfolioId === ALL_PORTFOLIOS;
+    const dirty = JSON.stringify(saved) !== JSON.stringify(draft);
+
+    // Refetch when holdings change, not on every price tick
+    const holdingsKey = useMemo(() => positions.map(p => `${p.symbol}:${p.quantity}:${(p.tags || []).join('|')}`).join(','), [positions]);
+
+    useEffect(() => {
+        setCash(Math.max(0, Math.round(cashBalance * 100) / 100));
+    }, [cashBalance, activePortfolioId]);
+
+    useEffect(() => {
+        if (!isActive || isAll) return;
+        let cancelled = false;
+        setError('');
+        setMessage('');
+        rebalanceAPI.getTargets()
+            .then(targets => {
+                if (cancelled) return;
+                setSaved(targets);
+                setDraft(targets);
+            })
+            .catch(err => {
+                if (!cancelled) setError(err.response?.data?.message || 'Failed to load allocation targets');
+            });
+        return () => { cancelled = true; };
+    }, [isActive, isAll, activePortfolioId]);
+
+    const calculate = async () => {
+        setLoading(true);
+        setError('');
+        setConfirmApply(false);
+        try {
+            setPlan(await rebalanceAPI.plan(cash, mode));
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to calculate trades');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Plan against the saved targets whenever they or the holdings change
+    useEffect(() => {
+        if (!isActive || isAll || !saved) return;
+        calculate();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isActive, isAll, saved, holdingsKey, mode]);
+
+    const save = async (next: AllocationTargets) => {
+        const invalid = validateTargets(next);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        setSaving(true);
+        setError('');
+        try {
+            const result = await rebalanceAPI.saveTargets(next);
+            setSaved(result);
+            setDraft(result);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to save allocation targets');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!plan || plan.trades.length === 0) return;
+        if (!confirmApply) {
+            setConfirmApply(true);
+            return;
+        }
+        setApplying(true);
+        setError('');
+        try {
+            const result = await applyRebalance(plan.trades);
+            setMessage(`${result.applied} trade${result.applied === 1 ? '' : 's'} recorded in the ledger`);
+            setPlan(null);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to apply trades');
+        } finally {
+            setApplying(false);
+            setConfirmApply(false);
+        }
+    };
+
+    const updateTarget = (index: number, patch: Partial<AllocationTarget>) =>
+        setDraft(prev => prev && ({ ...prev, targets: prev.targets.map((t, i) => (i === index ? { ...t, ...patch } : t)) }));
+
+    // Names to pick from for the current grouping
+    const suggestions = useMemo(() => {
+        if (!draft) return [];
+        const held = positions.filter(p => p.quantity > 0);
+        if (draft.groupBy === 'symbol') return held.map(p => p.symbol);
+        if (draft.groupBy === 'tag') return [...new Set(held.flatMap(p => p.tags || []))];
+        return plan?.groupBy === 'sector' ? plan.groups.map(g => g.key) : [];
+    }, [draft, positions, plan]);
+
+    const targetSum = draft ? draft.targets.reduce((sum, t) => sum + (Number.isFinite(t.weight) ? t.weight : 0), 0) : 0;
+
+    const numberInput = (value: number | null, onChange: (value: number | null) => void, placeholder = '') => (
+        <input
+            type="number"
+            value={value === null || Number.isNaN(value) ? '' : value}
+            placeholder={placeholder}
+            onChange={(e) => onChange(e.target.value === '' ? null : e.target.valueAsNumber)}
+            className="w-16 h-7 rounded-md bg-white/5 border border-white/10 text-center text-xs text-white placeholder:text-white/20 focus:outline-none focus:border-cyan-500/50"
+        />
+    );
+
+    return (
+        <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                    <Scale className="w-5 h-5 text-violet-400" />
+                    Rebalancing
+                    {plan?.needsRebalance && (
+                        <span className="text-[10px] font-normal px-1.5 py-0.5 rounded-md bg-amber-500/10 text-amber-400 border border-amber-500/30">
+                            Out of band
+                        </span>
+                    )}
+                </CardTitle>
+                {!isAll && draft && (
+                    <label className="flex items-center gap-2 text-xs text-white/60" title="Trade fractional shares instead of rounding to whole shares">
+                        Fractional shares
+                        <Switch
+                            checked={draft.fractionalShares}
+                            disabled={saving}
+                            onCheckedChange={(checked) => save({ ...(saved || draft), fractionalShares: checked })}
+                            className="data-[state=checked]:bg-emerald-500 data-[state=unchecked]:bg-white/20"
+                        />
+                    </label>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-5">
+                {isAll ? (
+                    <div className="flex flex-col items-center justify-center py-8 text-zinc-500">
+                        <Scale className="w-8 h-8 mb-2 opacity-30" />
+                        <p className="text-sm">Targets are set per portfolio; select one to plan a rebalance</p>
+                    </div>
+                ) : !draft ? (
+                    error
+                        ? <div className="rounded-xl border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm px-3 py-2">{error}</div>
+                        : <div className="h-[240px] bg-white/5 animate-pulse rounded-xl" />
+                ) : (
+                    <>
+                        {/* Targets */}
+                        <div className="space-y-3">
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <div className="flex items-center gap-1 bg-white/5 rounded-lg p-0.5">
+                                    {GROUPINGS.map(g => (
+                                        <button
+                                            key={g.value}
+                                            onClick={() => setDraft(prev => prev && ({
+                                                ...prev,
+                                                groupBy: g.value,
+                                                // Targets name groups of one kind; switching starts over
+                                                targets: g.value === saved?.groupBy ? saved.targets : []
+                                            }))}
+                                            className={`px-2.5 py-1 rounded-md text-xs transition-colors ${draft.groupBy === g.value ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white/70'}`}
+                                        >
+                                            {g.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <label className="flex items-center gap-2 text-xs text-white/60" title="Allowed drift from target, in percentage points">
+                                    Drift band ±
+                                    {numberInput(draft.driftBand, (value) => setDraft(prev => prev && ({ ...prev, driftBand: value ?? NaN })))}
+                                    pts
+                                </label>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <div className="grid grid-cols-[1fr_4rem_4rem_1.75rem] gap-2 text-[10px] text-white/40 uppercase tracking-wider">
+                                    <span>{GROUPINGS.find(g => g.value === draft.groupBy)?.label}</span>
+                                    <span className="text-center">Target %</span>
+                                    <span className="text-center">Band</span>
+                                    <span />
+                                </div>
+                                {draft.targets.map((target, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_4rem_4rem_1.75rem] gap-2 items-center">
+                                        <input
+                                            value={target.key}
+                                            list="rebalance-target-keys"
+                                            onChange={(e) => updateTarget(index, { key: e.target.value })}
+                                            className="h-7 rounded-md bg-white/5 border border-white/10 px-2 text-xs text-white focus:outline-none focus:border-cyan-500/50"
+                                        />
+                                        {numberInput(target.weight, (value) => updateTarget(index, { weight: value ?? NaN }))}
+                                        {numberInput(target.band, (value) => updateTarget(index, { band: value }), String(draft.driftBand))}
+                                        <button
+                                            onClick={() => setDraft(prev => prev && ({ ...prev, targets: prev.targets.filter((_, i) => i !== index) }))}
+                                            className="p-1 rounded-md text-white/30 hover:text-rose-400 hover:bg-white/5"
+                                            title="Remove target"
+                                        >
+                                            <X className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <datalist id="rebalance-target-keys">
+                                    {suggestions.filter(key => !draft.targets.some(t => t.key === key)).map(key => <option key={key} value={key} />)}
+                                </datalist>
+                            </div>
+
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <button
+                                    onClick={() => setDraft(prev => prev && ({ ...prev, targets: [...prev.targets, { key: '', weight: 0, band: null }] }))}
+                                    className="flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300"
+                                >
+                                    <Plus className="w-3.5 h-3.5" /> Add target
+                                </button>
+                                <span className={`text-xs ${targetSum > 100.01 ? 'text-rose-400' : 'text-white/40'}`}>
+                                    {targetSum.toFixed(1)}% allocated · {Math.max(0, 100 - targetSum).toFixed(1)}% cash
+                                </span>
+                                {dirty && (
+                                    <div className="flex gap-2">
+                                        <Button size="sm" variant="ghost" onClick={() => setDraft(saved)} className="h-7 text-xs">Cancel</Button>
+                                        <Button
+                                            size="sm"
+                                            onClick={() => save(draft)}
+                                            disabled={saving}
+                                            className="h-7 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
+                                        >
+                                            {saving ? 'Saving...' : 'Save targets'}
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+
+                            {draft.groupBy === 'tag' && <PositionTagsEditor />}
+                        </div>
+
+                        {/* Plan inputs */}
+                        <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-white/5">
+                            <label className="flex items-center gap-2 text-xs text-white/60">
+                                Cash to invest $
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={Number.isNaN(cash) ? '' : cash}
+                                    onChange={(e) => setCash(e.target.valueAsNumber)}
+                                    className="w-28 h-7 rounded-md bg-white/5 border border-white/10 px-2 text-xs text-white focus:outline-none focus:border-cyan-500/50"
+                                />
+                            </label>
+                            <div className="flex items-center gap-1 bg-white/5 rounded-lg p-0.5">
+                                {MODES.map(m => (
+                                    <button
+                                        key={m.value}
+                                        title={m.title}
+                                        onClick={() => setMode(m.value)}
+                                        className={`px-2.5 py-1 rounded-md text-xs transition-colors ${mode === m.value ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white/70'}`}
+                                    >
+                                        {m.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <Button size="sm" variant="ghost" onClick={calculate} disabled={loading || dirty} className="h-7 text-xs">
+                                {loading ? 'Calculating...' : 'Recalculate'}
+                            </Button>
+                        </div>
+
+                        {error && <div className="rounded-xl border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm px-3 py-2">{error}</div>}
+                        {message && <div className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 text-emerald-400 text-sm px-3 py-2">{message}</div>}
+
+                        {plan && (
+                            <>
+                                {/* Drift per group */}
+                                <div className="overflow-x-auto">
+                                    <div className="min-w-[480px]">
+                                        <div className="grid grid-cols-5 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                            <span>Group</span>
+                                            <span className="text-right">Current</span>
+                                            <span className="text-right">Target</span>
+                                            <span className="text-right">Drift</span>
+                                            <span className="text-right">After</span>
+                                        </div>
+                                        {[...plan.groups, {
+                                            key: 'Cash', currentPct: plan.cash.currentPct, targetPct: plan.cash.targetPct, drift: plan.cash.drift,
+                                            band: null, outOfBand: false, hasTarget: true, afterPct: plan.cash.afterPct
+                                        }].map(group => (
+                                            <div key={group.key} className="grid grid-cols-5 gap-2 items-center py-2 border-b border-white/5 last:border-0">
+                                                <span className="flex items-center gap-1.5 text-sm font-semibold text-white truncate">
+                                                    {group.outOfBand && <AlertTriangle className="w-3.5 h-3.5 text-amber-400 shrink-0" />}
+                                                    {group.key}
+                                                    {!group.hasTarget && <span className="text-[10px] font-normal text-white/30">no target</span>}
+                                                </span>
+                                                <span className="text-sm text-white/70 text-right font-mono">{pct(group.currentPct)}</span>
+                                                <span className="text-sm text-white/70 text-right font-mono">
+                                                    {pct(group.targetPct)}
+                                                    {group.band !== null && <span className="text-[10px] text-white/30"> ±{group.band}</span>}
+                                                </span>
+                                                <span className={`text-sm text-right font-mono ${group.outOfBand ? 'text-amber-400' : 'text-white/50'}`}>
+                                                    {group.drift > 0 ? '+' : ''}{group.drift.toFixed(1)}
+                                                </span>
+                                                <span className="text-sm text-cyan-400 text-right font-mono">{pct(group.afterPct)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                {/* Trades */}
+                                {plan.trades.length === 0 ? (
+                                    <p className="text-sm text-zinc-500 text-center py-2">No trades needed</p>
+                                ) : (
+                                    <div className="space-y-3">
+                                        <div className="overflow-x-auto">
+                                            <div className="min-w-[420px]">
+                                                <div className="grid grid-cols-4 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                                    <span>Trade</span>
+                                                    <span className="text-right">Shares</span>
+                                                    <span className="text-right">Price</span>
+                                                    <span className="text-right">Amount</span>
+                                                </div>
+                                                {plan.trades.map(trade => (
+                                                    <div key={`${trade.side}-${trade.symbol}`} className="grid grid-cols-4 gap-2 items-center py-2 border-b border-white/5 last:border-0">
+                                                        <span className="text-sm">
+                                                            <span className={trade.side === 'buy' ? 'text-emerald-400' : 'text-rose-400'}>
+                                                                {trade.side === 'buy' ? 'Buy' : 'Sell'}
+                                                            </span>{' '}
+                                                            <span className="font-semibold text-white">{trade.symbol}</span>
+                                                        </span>
+                                                        <span className="text-sm text-white/70 text-right font-mono">{shares(trade.quantity)}</span>
+                                                        <span className="text-sm text-white/70 text-right font-mono">{money(trade.price)}</span>
+                                                        <span className="text-sm text-white text-right font-mono">{money(trade.amount)}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+
+                                        <div className="flex flex-wrap items-center justify-between gap-3">
+                                            <span className="text-xs text-white/50">
+                                                Sell {money(plan.totals.sold)} · Buy {money(plan.totals.bought)} · Cash after {money(plan.cash.after)}
+                                            </span>
+                                            <div className="flex gap-2">
+                                                <Button size="sm" variant="ghost" onClick={() => downloadTradesCsv(plan)} className="h-7 text-xs">
+                                                    <Download className="w-3.5 h-3.5 mr-1" /> CSV
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    onClick={handleApply}
+                                                    disabled={applying}
+                                                    className={`h-7 text-xs text-white ${confirmApply ? 'bg-amber-500 hover:bg-amber-600' : 'bg-emerald-500 hover:bg-emerald-600'}`}
+                                                >
+                                                    <Check className="w-3.5 h-3.5 mr-1" />
+                                                    {applying ? 'Applying...' : confirmApply ? 'Confirm: record at these prices' : 'Apply to ledger'}
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {plan.notes.map(note => (
+                                    <p key={note} className="text-[11px] text-amber-400/80">{note}</p>
+                                ))}
+                                <p className="text-[10px] text-white/30">
+                                    Quotes in USD at the latest price{plan.fractional ? '' : '; whole shares only'}. Applying records the trades as lots and ledger transactions dated today.
+                                </p>
+                            </>
+                        )}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
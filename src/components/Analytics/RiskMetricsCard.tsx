@@ -0,0 +1,264 @@
+import { useMemo, useState } from 'react';
+import { Activity } from 'lucide-react';
+import {
+    LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, ReferenceLine, Tooltip as RechartsTooltip, ResponsiveContainer
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PortfolioAnalytics, RiskMetrics, RiskWindow } from '@/api/stocks';
+
+type RollingMetric = 'volatility' | 'sharpe';
+
+const WINDOWS: RiskWindow[] = ['1M', '3M', '6M'];
+
+const ROLLING_METRICS: { value: RollingMetric; label: string }[] = [
+    { value: 'volatility', label: 'Volatility' },
+    { value: 'sharpe', label: 'Sharpe' },
+];
+
+const pct = (value: number | null, digits = 1) => (value === null ? '—' : `${value.toFixed(digits)}%`);
+
+const ratio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const shortDate = (date: string | null) =>
+    date ? new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit', timeZone: 'UTC' }) : '—';
+
+const axisTick = { fill: 'rgba(255,255,255,0.3)', fontSize: 10 };
+
+const tooltipStyle = {
+    contentStyle: { background: 'rgba(0,0,0,0.85)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px', fontSize: 12 },
+    labelStyle: { color: 'rgba(255,255,255,0.5)' },
+};
+
+// Sharpe above 1 is good, below 0 loses to cash
+const sharpeColor = (value: number | null) =>
+    value === null ? 'text-white/60' : value >= 1 ? 'text-emerald-400' : value >= 0 ? 'text-amber-400' : 'text-rose-400';
+
+function Stat({ label, value, detail, color = 'text-white/90', title }: {
+    label: string;
+    value: string;
+    detail?: string;
+    color?: string;
+    title?: string;
+}) {
+    return (
+        <div className="bg-white/5 rounded-xl px-3 py-2.5" title={title}>
+            <div className="text-[10px] text-white/40 uppercase tracking-wider">{label}</div>
+            <div className={`text-lg font-bold font-mono ${color}`}>{value}</div>
+            {detail && <div className="text-[10px] text-white/40 truncate">{detail}</div>}
+        </div>
+    );
+}
+
+function RollingChart({ risk }: { risk: RiskMetrics }) {
+    const [rollingWindow, setRollingWindow] = useState<RiskWindow>('3M');
+    const [metric, setMetric] = useState<RollingMetric>('volatility');
+    const data = risk.rolling[rollingWindow] || [];
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex gap-1">
+                    {ROLLING_METRICS.map(m => (
+                        <button
+                            key={m.value}
+                            onClick={() => setMetric(m.value)}
+                            className={`px-2.5 py-1 text-xs rounded-lg transition-all ${metric === m.value ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white/60 hover:bg-white/5'}`}
+                        >
+                            Rolling {m.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-1">
+                    {WINDOWS.map(w => (
+                        <button
+                            key={w}
+                            onClick={() => setRollingWindow(w)}
+                            className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-all ${rollingWindow === w
+                                ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                                : 'text-white/40 hover:text-white/60 hover:bg-white/5'
+                                }`}
+                        >
+                            {w}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="h-[180px]">
+                {data.length > 1 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={data} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                            <XAxis
+                                dataKey="date" tick={axisTick}
+                                tickFormatter={(d: string) => { const m = d.split('-'); return `${m[1]}/${m[2]}`; }}
+                                interval={Math.max(1, Math.floor(data.length / 6))}
+                                axisLine={false} tickLine={false}
+                            />
+                            <YAxis
+                                tick={axisTick} axisLine={false} tickLine={false}
+                                tickFormatter={(v: number) => (metric === 'volatility' ? `${v.toFixed(0)}%` : v.toFixed(1))}
+                            />
+                            {metric === 'sharpe' && <ReferenceLine y={0} stroke="rgba(255,255,255,0.2)" />}
+                            <RechartsTooltip
+                                {...tooltipStyle}
+                                formatter={(value: number) => [metric === 'volatility' ? `${value.toFixed(2)}%` : value.toFixed(2), `${rollingWindow} ${metric === 'volatility' ? 'volatility' : 'Sharpe'}`]}
+                            />
+                            <Line type="monotone" dataKey={metric} stroke="#a78bfa" strokeWidth={2} dot={false} connectNulls />
+                        </LineChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="flex items-center justify-center h-full text-zinc-500 text-sm">Not enough history for a {rollingWindow} window</div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function DrawdownChart({ risk }: { risk: RiskMetrics }) {
+    const data = risk.drawdownSeries;
+    return (
+        <div>
+            <p className="text-xs text-white/50 mb-2">Drawdown from peak</p>
+            <div className="h-[120px]">
+                <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={data} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                        <defs>
+                            <linearGradient id="drawdownFill" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor="#f43f5e" stopOpacity={0} />
+                                <stop offset="100%" stopColor="#f43f5e" stopOpacity={0.35} />
+                            </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                        <XAxis
+                            dataKey="date" tick={axisTick}
+                            tickFormatter={(d: string) => { const m = d.split('-'); return `${m[1]}/${m[2]}`; }}
+                            interval={Math.max(1, Math.floor(data.length / 6))}
+                            axisLine={false} tickLine={false}
+                        />
+                        <YAxis tick={axisTick} axisLine={false} tickLine={false} tickFormatter={(v: number) => `${v.toFixed(0)}%`} />
+                        <RechartsTooltip {...tooltipStyle} formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']} />
+                        <Area type="monotone" dataKey="drawdown" stroke="#f43f5e" strokeWidth={1.5} fill="url(#drawdownFill)" />
+                    </AreaChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Risk metrics from the portfolio's daily time-weighted returns: volatility, drawdown, Sharpe /
+ * Sortino, VaR / CVaR and downside capture vs SPY, with rolling-window and drawdown charts
+ */
+export default function RiskMetricsCard({ analytics, loading }: {
+    analytics: PortfolioAnalytics | null;
+    loading: boolean;
+}) {
+    const risk = analytics?.risk ?? null;
+
+    const drawdownDetail = useMemo(() => {
+        const dd = risk?.maxDrawdown;
+        if (!dd?.peakDate || !dd.troughDate) return undefined;
+        return `${shortDate(dd.peakDate)} → ${shortDate(dd.troughDate)}, ${dd.recoveryDate ? `recovered ${shortDate(dd.recoveryDate)}` : 'not recovered'}`;
+    }, [risk]);
+
+    return (
+        <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                    <Activity className="w-5 h-5 text-violet-400" />
+                    Risk
+                </CardTitle>
+                {risk && (
+                    <span className="text-[10px] text-white/30">
+                        {shortDate(risk.period.start)} – {shortDate(risk.period.end)} · {risk.period.days} trading days
+                    </span>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-5">
+                {loading || !analytics ? (
+                    <div className="h-[320px] bg-white/5 animate-pulse rounded-xl" />
+                ) : !risk ? (
+                    <div className="flex flex-col items-center justify-center py-8 text-zinc-500">
+                        <Activity className="w-8 h-8 mb-2 opacity-30" />
+                        <p className="text-sm">Risk metrics need about a month of price history</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Headline figures */}
+                        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+                            <Stat
+                                label="Volatility"
+                                value={pct(risk.volatility)}
+                                detail={risk.benchmarkVolatility !== null ? `SPY ${pct(risk.benchmarkVolatility)}` : undefined}
+                                title="Annualized standard deviation of daily returns"
+                            />
+                            <Stat
+                                label="Max Drawdown"
+                                value={risk.maxDrawdown.pct ? `-${pct(risk.maxDrawdown.pct)}` : pct(0)}
+                                detail={drawdownDetail}
+                                color="text-rose-400"
+                                title={drawdownDetail}
+                            />
+                            <Stat
+                                label="Sharpe"
+                                value={ratio(risk.sharpe)}
+                                color={sharpeColor(risk.sharpe)}
+                                detail={`Risk-free ${risk.riskFreeRate.toFixed(1)}%`}
+                                title="Annualized excess return per unit of volatility"
+                            />
+                            <Stat
+                                label="Sortino"
+                                value={ratio(risk.sortino)}
+                                color={sharpeColor(risk.sortino)}
+                                title="Like Sharpe, but only downside volatility counts"
+                            />
+                            <Stat
+                                label="Downside Capture"
+                                value={pct(risk.downsideCapture, 0)}
+                                color={risk.downsideCapture !== null && risk.downsideCapture < 100 ? 'text-emerald-400' : 'text-amber-400'}
+                                detail="vs SPY down days"
+                                title="Under 100% means the portfolio fell less than SPY on its down days"
+                            />
+                            <Stat
+                                label="Annualized Return"
+                                value={pct(risk.annualizedReturn)}
+                                color={risk.annualizedReturn !== null && risk.annualizedReturn < 0 ? 'text-rose-400' : 'text-emerald-400'}
+                            />
+                        </div>
+
+                        {/* VaR / CVaR */}
+                        <div className="overflow-x-auto">
+                            <div className="min-w-[420px]">
+                                <div className="grid grid-cols-5 gap-2 text-[10px] text-white/40 uppercase tracking-wider pb-2 border-b border-white/5">
+                                    <span>1-Day Loss</span>
+                                    <span className="text-right">Historical VaR</span>
+                                    <span className="text-right">Historical CVaR</span>
+                                    <span className="text-right">Parametric VaR</span>
+                                    <span className="text-right">Parametric CVaR</span>
+                                </div>
+                                {risk.valueAtRisk.map(row => (
+                                    <div key={row.level} className="grid grid-cols-5 gap-2 items-center py-2 border-b border-white/5 last:border-0">
+                                        <span className="text-sm text-white/70">{row.level}% confidence</span>
+                                        <span className="text-sm text-rose-400 text-right font-mono">{pct(row.historicalVaR, 2)}</span>
+                                        <span className="text-sm text-rose-400/80 text-right font-mono">{pct(row.historicalCVaR, 2)}</span>
+                                        <span className="text-sm text-rose-400 text-right font-mono">{pct(row.parametricVaR, 2)}</span>
+                                        <span className="text-sm text-rose-400/80 text-right font-mono">{pct(row.parametricCVaR, 2)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <RollingChart risk={risk} />
+                            <DrawdownChart risk={risk} />
+                        </div>
+
+                        <p className="text-[10px] text-white/30">
+                            From daily time-weighted returns, so buys and sells don't count as gains or losses. CVaR is the average loss on days worse than VaR.
+                        </p>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { GitBranch, Check, Undo2 } from 'lucide-react';
+import { usePortfolio } from '@/context/PortfolioContext';
+import type { CorporateActionType } from '@/api/corporateActions';
+
+const TYPE_LABELS: Record<CorporateActionType, string> = {
+    split: 'Split',
+    reverseSplit: 'Reverse Split',
+    spinoff: 'Spinoff',
+    tickerChange: 'Ticker Change',
+};
+
+/**
+ * Splits, spinoffs and ticker changes already applied to lots, waiting for the user to confirm or undo
+ */
+export function CorporateActionsBanner() {
+    const { corporateActions, confirmCorporateAction, undoCorporateAction } = usePortfolio();
+    const [busyId, setBusyId] = useState('');
+    const [error, setError] = useState('');
+
+    const pending = corporateActions.filter(action => action.status === 'applied');
+    if (pending.length === 0) return null;
+
+    const handle = async (id: string, run: (id: string) => Promise<void>, fallback: string) => {
+        setError('');
+        setBusyId(id);
+        try {
+            await run(id);
+        } catch (err: any) {
+            setError(err.response?.data?.message || fallback);
+        } finally {
+            setBusyId('');
+        }
+    };
+
+    return (
+        <div className="mb-4 p-4 rounded-2xl bg-white/5 backdrop-blur-md border border-amber-500/30">
+            <div className="flex items-center gap-2 mb-3">
+                <GitBranch className="w-4 h-4 text-amber-400" />
+                <h3 className="text-sm font-semibold text-white/90">Corporate actions applied to your lots</h3>
+                <span className="text-xs text-white/40">Review and confirm, or undo</span>
+            </div>
+
+            {error && (
+                <div className="mb-3 p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {pending.map(action => (
+                    <div key={action._id} className="flex flex-wrap items-center gap-3 py-2 border-b border-white/5 last:border-0">
+                        <span className="text-sm font-semibold text-white w-16">{action.symbol}</span>
+                        <span className="px-2 py-0.5 rounded-md text-[10px] font-medium bg-amber-500/15 text-amber-400">
+                            {TYPE_LABELS[action.type]}
+                        </span>
+                        <span className="text-sm text-white/70 flex-1 min-w-[200px]">{action.summary}</span>
+                        <span className="text-xs text-white/40">
+                            {new Date(action.effectiveDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => handle(action._id, confirmCorporateAction, 'Failed to confirm adjustment')}
+                                disabled={busyId === action._id}
+                                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-emerald-400 hover:bg-emerald-500/10 transition-colors disabled:opacity-50"
+                                title="Keep this adjustment"
+                            >
+                                <Check className="w-3.5 h-3.5" />
+                                Confirm
+                            </button>
+                            <button
+                                onClick={() => handle(action._id, undoCorporateAction, 'Failed to undo adjustment')}
+                                disabled={busyId === action._id}
+                                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-white/50 hover:text-rose-400 hover:bg-white/10 transition-colors disabled:opacity-50"
+                                title="Restore the lots as they were"
+                            >
+                                <Undo2 className="w-3.5 h-3.5" />
+                                Undo
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Download, X, FileJson, FileText } from 'lucide-react';
+import { SimpleDialog } from './SimpleDialog';
+import { Button } from '@/components/ui/button';
+import { exportAPI, ExportDataset, ExportFormat } from '@/api/export';
+
+const CSV_DATASETS: { value: ExportDataset; label: string; description: string }[] = [
+    { value: 'positions', label: 'Positions', description: 'Holdings with current price and P&L' },
+    { value: 'lots', label: 'Lots', description: 'Every purchase lot with open / sold shares' },
+    { value: 'transactions', label: 'Transactions', description: 'Ledger with running cash balance' },
+    { value: 'health', label: 'Health Score', description: 'Score components, beta and sector weight' },
+    { value: 'benchmark', label: 'Benchmark', description: 'Portfolio vs. S&P 500 series' },
+    { value: 'dividends', label: 'Dividends', description: 'Upcoming and pending payouts' },
+    { value: 'correlation', label: 'Correlation', description: 'Pairwise correlation matrix' },
+];
+
+// Trigger a browser download for a blob
+export function saveFile(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+export function ExportDialog() {
+    const [open, setOpen] = useState(false);
+    const [downloading, setDownloading] = useState('');
+    const [error, setError] = useState('');
+
+    const handleExport = async (format: ExportFormat, dataset?: ExportDataset) => {
+        const key = dataset || format;
+        if (downloading) return;
+        setError('');
+        setDownloading(key);
+        try {
+            const { blob, filename } = await exportAPI.download(format, dataset);
+            saveFile(blob, filename);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Export failed');
+        } finally {
+            setDownloading('');
+        }
+    };
+
+    return (
+        <>
+            <Button
+                onClick={() => setOpen(true)}
+                className="bg-white/5 hover:bg-white/15 text-white/80 border border-white/10 backdrop-blur-sm transition-all duration-300"
+            >
+                <Download className="w-4 h-4" />
+                <span className="hidden sm:inline">Export</span>
+            </Button>
+
+            <SimpleDialog open={open} onClose={() => setOpen(false)}>
+                <div className="relative">
+                    <button
+                        onClick={() => setOpen(false)}
+                        className="absolute top-0 right-0 p-1 rounded text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+
+                    <h2 className="text-xl font-bold mb-1">Export Portfolio</h2>
+                    <p className="text-sm text-white/50 mb-4">Prices and analytics are captured at the time of export.</p>
+
+                    {error && (
+                        <div className="mb-4 p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* ── Full JSON snapshot ── */}
+                    <button
+                        onClick={() => handleExport('json')}
+                        disabled={!!downloading}
+                        className="w-full flex items-center gap-3 p-3 mb-4 rounded-xl bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 transition-colors text-left disabled:opacity-50"
+                    >
+                        <FileJson className="w-6 h-6 text-cyan-400 shrink-0" />
+                        <div>
+                            <div className="text-sm font-semibold text-white">
+                                {downloading === 'json' ? 'Preparing...' : 'Full Snapshot (JSON)'}
+                            </div>
+                            <div className="text-xs text-white/50">Positions, lots, sales, ledger and all analytics</div>
+                        </div>
+                    </button>
+
+                    {/* ── CSV datasets ── */}
+                    <div className="text-xs text-white/50 mb-2">CSV (one file per dataset)</div>
+                    <div className="space-y-1">
+                        {CSV_DATASETS.map(ds => (
+                            <button
+                                key={ds.value}
+                                onClick={() => handleExport('csv', ds.value)}
+                                disabled={!!downloading}
+                                className="w-full flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-left disabled:opacity-50"
+                            >
+                                <FileText className="w-4 h-4 text-white/50 shrink-0" />
+                                <span className="text-sm text-white w-28 shrink-0">
+                                    {downloading === ds.value ? 'Preparing...' : ds.label}
+                                </span>
+                                <span className="text-xs text-white/40 truncate">{ds.description}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </SimpleDialog>
+        </>
+    );
+}
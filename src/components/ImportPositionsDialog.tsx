@@ -0,0 +1,315 @@
+import { useState } from 'react';
+import { Upload, X, FileSpreadsheet } from 'lucide-react';
+import { SimpleDialog } from './SimpleDialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { positionsAPI, ImportRow, ImportResult, ImportSide } from '@/api/positions';
+import { DateFormat, parseCsv, parseDate, parseNumber } from '@/services/csvImport';
+
+// ─── Types ──────────────────────────────────────────────────────
+type Field = 'symbol' | 'date' | 'quantity' | 'price' | 'side';
+type Step = 'upload' | 'map' | 'preview';
+
+const FIELDS: { key: Field; label: string; required: boolean }[] = [
+    { key: 'symbol', label: 'Symbol', required: true },
+    { key: 'date', label: 'Date', required: true },
+    { key: 'quantity', label: 'Quantity', required: true },
+    { key: 'price', label: 'Price', required: true },
+    { key: 'side', label: 'Side (Buy/Sell)', required: false },
+];
+
+// Header names commonly used by broker exports, per field
+const HEADER_GUESSES: Record<Field, string[]> = {
+    symbol: ['symbol', 'ticker', 'instrument', 'security', 'stock'],
+    date: ['date', 'trade date', 'tradedate', 'execution date', 'settlement date', 'time'],
+    quantity: ['quantity', 'qty', 'shares', 'units'],
+    price: ['price', 'trade price', 'execution price', 'avg price', 'cost'],
+    side: ['side', 'action', 'type', 'buy/sell', 'transaction type', 'direction'],
+};
+
+const SIDE_ALIASES: Record<string, ImportSide> = {
+    buy: 'buy', b: 'buy', bought: 'buy', purchase: 'buy', 'קניה': 'buy',
+    sell: 'sell', s: 'sell', sold: 'sell', sale: 'sell', 'מכירה': 'sell',
+};
+
+// ─── CSV Helpers ────────────────────────────────────────────────
+function guessMapping(headers: string[]): Record<Field, number> {
+    const normalized = headers.map(h => h.toLowerCase().replace(/[_-]/g, ' ').trim());
+    const mapping = {} as Record<Field, number>;
+    for (const { key } of FIELDS) {
+        mapping[key] = normalized.findIndex(h => HEADER_GUESSES[key].includes(h));
+    }
+    return mapping;
+}
+
+// ═════════════════════════════════════════════════════════════════
+//  IMPORT POSITIONS DIALOG
+// ═════════════════════════════════════════════════════════════════
+export function ImportPositionsDialog() {
+    const { importPositions } = usePortfolio();
+    const [open, setOpen] = useState(false);
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [dataRows, setDataRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<Record<Field, number>>({ symbol: -1, date: -1, quantity: -1, price: -1, side: -1 });
+    const [dateFormat, setDateFormat] = useState<DateFormat>('iso');
+    const [preview, setPreview] = useState<ImportResult | null>(null);
+    const [mappedRows, setMappedRows] = useState<ImportRow[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [doneMessage, setDoneMessage] = useState('');
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setHeaders([]);
+        setDataRows([]);
+        setPreview(null);
+        setMappedRows([]);
+        setError('');
+        setDoneMessage('');
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        reset();
+    };
+
+    const handleFile = async (file: File) => {
+        setError('');
+        const rows = parseCsv(await file.text());
+        if (rows.length < 2) {
+            setError('The file needs a header row and at least one data row');
+            return;
+        }
+        setFileName(file.name);
+        setHeaders(rows[0]);
+        setDataRows(rows.slice(1));
+        setMapping(guessMapping(rows[0]));
+        setStep('map');
+    };
+
+    // ─── Apply column mapping ─────────────────────────────────────
+    const buildRows = (): ImportRow[] => dataRows.map(cells => {
+        const cell = (field: Field) => (mapping[field] >= 0 ? cells[mapping[field]] ?? '' : '');
+        const rawQty = parseNumber(cell('quantity'));
+        const sideValue = cell('side').toLowerCase();
+        // Without a side column, negative quantities are sells
+        const side: ImportSide = mapping.side >= 0
+            ? (SIDE_ALIASES[sideValue] ?? (sideValue as ImportSide))
+            : rawQty < 0 ? 'sell' : 'buy';
+
+        return {
+            symbol: cell('symbol').toUpperCase(),
+            date: parseDate(cell('date'), dateFormat),
+            quantity: Math.abs(rawQty),
+            price: Math.abs(parseNumber(cell('price'))),
+            side,
+        };
+    });
+
+    const handlePreview = async () => {
+        const missing = FIELDS.filter(f => f.required && mapping[f.key] < 0);
+        if (missing.length > 0) {
+            setError(`Map a column for: ${missing.map(f => f.label).join(', ')}`);
+            return;
+        }
+
+        setError('');
+        setLoading(true);
+        try {
+            const rows = buildRows();
+            const result = await positionsAPI.import(rows, true);
+            setMappedRows(rows);
+            setPreview(result);
+            setStep('preview');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to validate rows');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setError('');
+        setLoading(true);
+        try {
+            const result = await importPositions(mappedRows);
+            setPreview(result);
+            setDoneMessage(`Imported ${result.summary.valid} rows into ${result.positions?.length ?? 0} positions`);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to import positions');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const statusStyles = {
+        ok: 'text-emerald-400',
+        duplicate: 'text-amber-400',
+        error: 'text-rose-400',
+    };
+
+    return (
+        <>
+            <Button
+                onClick={() => setOpen(true)}
+                className="bg-white/5 hover:bg-white/15 text-white/80 border border-white/10 backdrop-blur-sm transition-all duration-300"
+            >
+                <Upload className="w-4 h-4" />
+                <span className="hidden sm:inline">Import CSV</span>
+            </Button>
+
+            <SimpleDialog open={open} onClose={handleClose}>
+                <div className="relative">
+                    <button
+                        onClick={handleClose}
+                        className="absolute top-0 right-0 p-1 rounded text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+
+                    <h2 className="text-xl font-bold mb-1">Import from Broker CSV</h2>
+                    <p className="text-sm text-white/50 mb-4">
+                        {step === 'upload' && 'Upload a trade history export from your broker.'}
+                        {step === 'map' && `${fileName} · ${dataRows.length} rows`}
+                        {step === 'preview' && 'Review the rows before importing.'}
+                    </p>
+
+                    {error && (
+                        <div className="mb-4 p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* ── Step 1: Upload ── */}
+                    {step === 'upload' && (
+                        <label className="flex flex-col items-center justify-center gap-2 p-8 rounded-xl border border-dashed border-white/20 bg-white/5 hover:bg-white/10 cursor-pointer transition-colors">
+                            <FileSpreadsheet className="w-8 h-8 text-cyan-400" />
+                            <span className="text-sm text-white/70">Choose a .csv file</span>
+                            <input
+                                type="file"
+                                accept=".csv,text/csv"
+                                className="hidden"
+                                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                            />
+                        </label>
+                    )}
+
+                    {/* ── Step 2: Column Mapping ── */}
+                    {step === 'map' && (
+                        <div className="space-y-3">
+                            {FIELDS.map(field => (
+                                <div key={field.key} className="grid grid-cols-2 gap-3 items-center">
+                                    <Label className="text-xs text-white/50">
+                                        {field.label}{field.required && ' *'}
+                                    </Label>
+                                    <select
+                                        value={mapping[field.key]}
+                                        onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                                        className="h-8 px-2 rounded-md text-xs bg-white/5 border border-white/10 text-white dark:scheme-dark"
+                                    >
+                                        <option value={-1}>{field.required ? 'Select column…' : 'Not in file (use quantity sign)'}</option>
+                                        {headers.map((header, i) => (
+                                            <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                            <div className="grid grid-cols-2 gap-3 items-center">
+                                <Label className="text-xs text-white/50">Date Format</Label>
+                                <select
+                                    value={dateFormat}
+                                    onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                                    className="h-8 px-2 rounded-md text-xs bg-white/5 border border-white/10 text-white dark:scheme-dark"
+                                >
+                                    <option value="iso">YYYY-MM-DD</option>
+                                    <option value="mdy">MM/DD/YYYY</option>
+                                    <option value="dmy">DD/MM/YYYY</option>
+                                </select>
+                            </div>
+
+                            <div className="flex justify-end gap-2 pt-4">
+                                <Button type="button" onClick={reset} className="bg-white/10 hover:bg-white/15 text-white">
+                                    Back
+                                </Button>
+                                <Button
+                                    type="button"
+                                    onClick={handlePreview}
+                                    disabled={loading}
+                                    className="bg-cyan-500 hover:bg-cyan-600 text-white disabled:opacity-50"
+                                >
+                                    {loading ? 'Validating...' : 'Preview'}
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* ── Step 3: Preview ── */}
+                    {step === 'preview' && preview && (
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                                <div className="p-2 rounded-lg bg-white/5">
+                                    <div className="text-emerald-400 font-bold text-lg">{preview.summary.valid}</div>
+                                    <div className="text-white/50">Valid</div>
+                                </div>
+                                <div className="p-2 rounded-lg bg-white/5">
+                                    <div className="text-amber-400 font-bold text-lg">{preview.summary.duplicates}</div>
+                                    <div className="text-white/50">Duplicates</div>
+                                </div>
+                                <div className="p-2 rounded-lg bg-white/5">
+                                    <div className="text-rose-400 font-bold text-lg">{preview.summary.errors}</div>
+                                    <div className="text-white/50">Errors</div>
+                                </div>
+                            </div>
+                            <p className="text-xs text-white/50">
+                                {preview.summary.created} new positions · {preview.summary.merged} existing positions updated. Duplicates and errors are skipped.
+                            </p>
+
+                            <div className="max-h-64 overflow-y-auto space-y-1">
+                                {preview.rows.map(row => (
+                                    <div key={row.index} className="grid grid-cols-[2.5rem_1fr_1fr_1fr_1fr] gap-2 items-center bg-white/5 px-2 py-1.5 rounded-lg text-xs">
+                                        <span className="text-white/40">#{row.index + 1}</span>
+                                        <span className="font-semibold text-white">{row.symbol || '—'}</span>
+                                        <span className="text-white/60">{row.date ? String(row.date).split('T')[0] : '—'}</span>
+                                        <span className="text-white/70 text-right">
+                                            {row.side === 'sell' ? '-' : ''}{row.quantity ?? '—'} @ {row.price ?? '—'}
+                                        </span>
+                                        <span className={`text-right capitalize ${statusStyles[row.status]}`} title={row.error}>
+                                            {row.status === 'error' ? row.error : row.status}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {doneMessage ? (
+                                <div className="flex items-center justify-between pt-4">
+                                    <span className="text-sm text-emerald-400">{doneMessage}</span>
+                                    <Button type="button" onClick={handleClose} className="bg-white/10 hover:bg-white/15 text-white">
+                                        Done
+                                    </Button>
+                                </div>
+                            ) : (
+                                <div className="flex justify-end gap-2 pt-4">
+                                    <Button type="button" onClick={() => setStep('map')} className="bg-white/10 hover:bg-white/15 text-white">
+                                        Back
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        onClick={handleImport}
+                                        disabled={loading || preview.summary.valid === 0}
+                                        className="bg-cyan-500 hover:bg-cyan-600 text-white disabled:opacity-50"
+                                    >
+                                        {loading ? 'Importing...' : `Import ${preview.summary.valid} Rows`}
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </SimpleDialog>
+        </>
+    );
+}
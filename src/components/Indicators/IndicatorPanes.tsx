@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import {
+    ComposedChart, Line, Bar, Cell, XAxis, YAxis, ReferenceLine, Tooltip, ResponsiveContainer
+} from 'recharts';
+import type { IndicatorSeries } from '@/services/indicators';
+import { INDICATOR_COLORS } from './IndicatorPicker';
+
+interface IndicatorPanesProps {
+    timestamps: number[]; // One per bar, same order as the indicator series
+    indicators: IndicatorSeries;
+    syncId?: string; // Shared with the price chart so the hover moves together
+    paneHeight?: number;
+    compact?: boolean; // Mini-charts: no axis labels or tooltip
+}
+
+function PaneTooltip({ active, payload }: any) {
+    if (!active || !payload?.length) return null;
+    return (
+        <div className="bg-[#1a1a1f]/95 border border-white/20 rounded-lg px-2 py-1 text-[10px] shadow-2xl">
+            {payload.filter((p: any) => p.value !== null && p.value !== undefined).map((p: any) => (
+                <div key={p.dataKey} style={{ color: p.color }}>{p.name}: {Number(p.value).toFixed(2)}</div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * RSI and MACD sub-panes under a price chart (overlays are drawn by the price chart itself)
+ */
+const IndicatorPanes = React.memo(({ timestamps, indicators, syncId, paneHeight = 90, compact = false }: IndicatorPanesProps) => {
+    const rows = useMemo(() => timestamps.map((t, i) => ({
+        t,
+        rsi: indicators.rsi?.[i] ?? null,
+        macd: indicators.macd?.macd[i] ?? null,
+        signal: indicators.macd?.signal[i] ?? null,
+        histogram: indicators.macd?.histogram[i] ?? null,
+    })), [timestamps, indicators]);
+
+    const axisProps = {
+        stroke: 'rgba(255,255,255,0.2)',
+        style: { fontSize: '9px' },
+        tickLine: false,
+        axisLine: false,
+    };
+
+    return (
+        <div className="space-y-1">
+            {indicators.rsi && (
+                <div style={{ height: paneHeight }} className="relative">
+                    <span className="absolute left-1 top-0 text-[9px] font-medium z-10" style={{ color: INDICATOR_COLORS.rsi }}>RSI</span>
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={rows} syncId={syncId} margin={{ top: 4, right: 10, left: 0, bottom: 0 }}>
+                            <XAxis dataKey="t" hide />
+                            <YAxis
+                                {...axisProps}
+                                orientation="right"
+                                domain={[0, 100]}
+                                ticks={[30, 70]}
+                                width={compact ? 0 : 50}
+                                hide={compact}
+                            />
+                            <ReferenceLine y={70} stroke="rgba(244,63,94,0.4)" strokeDasharray="3 3" />
+                            <ReferenceLine y={30} stroke="rgba(16,185,129,0.4)" strokeDasharray="3 3" />
+                            {!compact && <Tooltip content={<PaneTooltip />} cursor={{ stroke: 'rgba(255,255,255,0.3)', strokeDasharray: '3 3' }} />}
+                            <Line dataKey="rsi" name="RSI" stroke={INDICATOR_COLORS.rsi} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            {indicators.macd && (
+                <div style={{ height: paneHeight }} className="relative">
+                    <span className="absolute left-1 top-0 text-[9px] font-medium z-10" style={{ color: INDICATOR_COLORS.macd }}>MACD</span>
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={rows} syncId={syncId} margin={{ top: 4, right: 10, left: 0, bottom: 0 }}>
+                            <XAxis dataKey="t" hide />
+                            <YAxis
+                                {...axisProps}
+                                orientation="right"
+                                domain={['auto', 'auto']}
+                                tickFormatter={(v) => v.toFixed(2)}
+                                width={compact ? 0 : 50}
+                                hide={compact}
+                            />
+                            <ReferenceLine y={0} stroke="rgba(255,255,255,0.15)" />
+                            {!compact && <Tooltip content={<PaneTooltip />} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />}
+                            <Bar dataKey="histogram" name="Histogram" isAnimationActive={false}>
+                                {rows.map((row, i) => (
+                                    <Cell key={i} fill={(row.histogram ?? 0) >= 0 ? 'rgba(16,185,129,0.5)' : 'rgba(239,68,68,0.5)'} />
+                                ))}
+                            </Bar>
+                            <Line dataKey="macd" name="MACD" stroke={INDICATOR_COLORS.macd} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                            <Line dataKey="signal" name="Signal" stroke={INDICATOR_COLORS.macdSignal} strokeWidth={1} dot={false} isAnimationActive={false} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default IndicatorPanes;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { useIndicatorSettings } from '@/hooks/use-indicator-settings';
+import { IndicatorName, IndicatorSettings, INDICATOR_PARAM_LIMITS } from '@/services/indicators';
+
+// Line colours, shared by the overlays, the sub-panes and this legend
+export const INDICATOR_COLORS = {
+    sma: '#fbbf24',
+    ema: '#a78bfa',
+    bollinger: '#38bdf8',
+    rsi: '#f472b6',
+    macd: '#22d3ee',
+    macdSignal: '#fb923c',
+    vwap: '#e879f9',
+};
+
+const INDICATORS: { name: IndicatorName; label: string; params: { key: string; label: string; step?: number }[] }[] = [
+    { name: 'sma', label: 'SMA', params: [{ key: 'period', label: 'Period' }] },
+    { name: 'ema', label: 'EMA', params: [{ key: 'period', label: 'Period' }] },
+    { name: 'bollinger', label: 'Bollinger Bands', params: [{ key: 'period', label: 'Period' }, { key: 'stdDev', label: 'σ', step: 0.5 }] },
+    { name: 'vwap', label: 'VWAP', params: [] },
+    { name: 'rsi', label: 'RSI', params: [{ key: 'period', label: 'Period' }] },
+    { name: 'macd', label: 'MACD', params: [{ key: 'fast', label: 'Fast' }, { key: 'slow', label: 'Slow' }, { key: 'signal', label: 'Signal' }] },
+];
+
+export default function IndicatorPicker() {
+    const { settings, saveSettings } = useIndicatorSettings();
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState<IndicatorSettings>(settings);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Start from the saved choice every time the picker opens
+    useEffect(() => {
+        if (open) {
+            setDraft(settings);
+            setError('');
+        }
+    }, [open, settings]);
+
+    const activeCount = INDICATORS.filter(({ name }) => settings[name].enabled).length;
+
+    const update = (name: IndicatorName, changes: Record<string, number | boolean>) =>
+        setDraft(prev => ({ ...prev, [name]: { ...prev[name], ...changes } }));
+
+    const paramValue = (name: IndicatorName, key: string) =>
+        (draft[name] as Record<string, number | boolean>)[key] as number;
+
+    const validationError = (): string | null => {
+        for (const { name, label, params } of INDICATORS) {
+            for (const { key, label: paramLabel } of params) {
+                const [min, max] = INDICATOR_PARAM_LIMITS[name][key];
+                const value = paramValue(name, key);
+                if (!Number.isFinite(value) || value < min || value > max) {
+                    return `${label} ${paramLabel.toLowerCase()} must be between ${min} and ${max}`;
+                }
+            }
+        }
+        if (draft.macd.fast >= draft.macd.slow) return 'MACD fast period must be shorter than slow';
+        return null;
+    };
+
+    const handleApply = async () => {
+        const invalid = validationError();
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        setSaving(true);
+        try {
+            await saveSettings(draft);
+            setOpen(false);
+        } catch (err: any) {
+            setError(err.message || 'Failed to save indicators');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <button
+                    className={`flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-lg transition-all ${activeCount > 0
+                        ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                        : 'text-white/40 hover:text-white/60 hover:bg-white/5'
+                        }`}
+                    title="Chart indicators"
+                >
+                    <SlidersHorizontal className="w-3.5 h-3.5" />
+                    Indicators{activeCount > 0 && ` (${activeCount})`}
+                </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 bg-[#1a1a1f] border-white/10 text-white">
+                <div className="space-y-3">
+                    {INDICATORS.map(({ name, label, params }) => (
+                        <div key={name} className="flex items-center gap-3">
+                            <Switch
+                                checked={draft[name].enabled}
+                                onCheckedChange={(checked) => update(name, { enabled: checked })}
+                                className="data-[state=checked]:bg-emerald-500 data-[state=unchecked]:bg-white/20"
+                            />
+                            <span className="flex items-center gap-1.5 text-sm flex-1">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: INDICATOR_COLORS[name] }} />
+                                {label}
+                            </span>
+                            {params.map(({ key, label: paramLabel, step }) => (
+                                <label key={key} className="flex flex-col items-center text-[10px] text-white/40">
+                                    {paramLabel}
+                                    <input
+                                        type="number"
+                                        step={step ?? 1}
+                                        value={Number.isNaN(paramValue(name, key)) ? '' : paramValue(name, key)}
+                                        onChange={(e) => update(name, { [key]: e.target.valueAsNumber })}
+                                        className="w-12 h-7 mt-0.5 rounded-md bg-white/5 border border-white/10 text-center text-xs text-white focus:outline-none focus:border-cyan-500/50"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    ))}
+
+                    {error && <p className="text-xs text-rose-400">{error}</p>}
+
+                    <div className="flex justify-end gap-2 pt-1">
+                        <Button size="sm" variant="ghost" onClick={() => setOpen(false)} className="h-7 text-xs">Cancel</Button>
+                        <Button
+                            size="sm"
+                            onClick={handleApply}
+                            disabled={saving}
+                            className="h-7 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
+                        >
+                            {saving ? 'Saving...' : 'Apply'}
+                        </Button>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
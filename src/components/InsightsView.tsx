@@ -7,10 +7,15 @@ import {
 import { stocksAPI, RecommendationTrend, PriceTarget, CompanyProfile } from '@/api/stocks';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Target, Activity, PieChart as PieChartIcon, TrendingUp, TrendingDown, ShieldCheck, DollarSign, CalendarDays } from 'lucide-react';
+import { Target, Activity, PieChart as PieChartIcon, TrendingUp, TrendingDown, DollarSign, CalendarDays } from 'lucide-react';
 import { motion } from 'framer-motion';
 import CorrelationMatrix from './Analytics/CorrelationMatrix';
 import PortfolioBenchmarkChart from './Analytics/PortfolioBenchmarkChart';
+import DividendIncome from './Analytics/DividendIncome';
+import HealthScoreCard from './Analytics/HealthScoreCard';
+import RebalancePlanner from './Analytics/RebalancePlanner';
+import PerformanceAttribution from './Analytics/PerformanceAttribution';
+import RiskMetricsCard from './Analytics/RiskMetricsCard';
 
 // ─── Premium Color Palette ───────────────────────────────────────
 const COLORS = [
@@ -151,7 +156,7 @@ const renderCustomLabel = ({ cx, cy, midAngle, outerRadius, name, percent }: any
 //  INSIGHTS VIEW
 // ═════════════════════════════════════════════════════════════════
 export function InsightsView({ isActive = true }: { isActive?: boolean }) {
-    const { positions, portfolioAnalytics, analyticsLoading, fetchAnalytics } = usePortfolio();
+    const { positions, cashBalance, portfolioAnalytics, analyticsLoading, fetchAnalytics } = usePortfolio();
     const isMobile = useIsMobile();
     const [recommendations, setRecommendations] = useState<Record<string, RecommendationTrend[]>>({});
     const [priceTargets, setPriceTargets] = useState<Record<string, PriceTarget>>({});
@@ -166,11 +171,14 @@ export function InsightsView({ isActive = true }: { isActive?: boolean }) {
 
     // ── Portfolio Distribution (Pie Chart) ──
     const distributionData = useMemo(() => {
-        return positions.map((pos) => ({
+        const holdings = positions.map((pos) => ({
             name: pos.symbol,
             value: pos.price * pos.quantity,
-        })).sort((a, b) => b.value - a.value);
-    }, [positions]);
+        }));
+        // Uninvested cash from the ledger is its own slice
+        if (cashBalance > 0) holdings.push({ name: 'Cash', value: cashBalance });
+        return holdings.sort((a, b) => b.value - a.value);
+    }, [positions, cashBalance]);
 
     // ── Lazy Fetch: Only when tab is active and not yet fetched ──
     useEffect(() => {
@@ -283,89 +291,23 @@ export function InsightsView({ isActive = true }: { isActive?: boolean }) {
 
             {/* ══ Analytics Row: Health Score + Benchmark ══ */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                {/* ── Health Score Gauge ── */}
-                <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg lg:col-span-1">
-                    <CardHeader className="pb-2">
-                        <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
-                            <ShieldCheck className="w-5 h-5 text-cyan-400" />
-                            Portfolio Health
-                        </CardTitle>
-                    </CardHeader>
-                    <CardContent className="flex flex-col items-center justify-center py-4">
-                        {analyticsLoading || !analytics ? (
-                            <div className="w-48 h-48 rounded-full bg-white/5 animate-pulse" />
-                        ) : (() => {
-                            const score = analytics.healthScore;
-                            const radius = 80;
-                            const stroke = 12;
-                            const circumference = Math.PI * radius; // half circle
-                            const progress = (score / 100) * circumference;
-                            const riskLabel = score > 80 ? 'Low Risk' : score > 50 ? 'Moderate' : 'High Risk';
-                            const riskColor = score > 80 ? 'text-emerald-400' : score > 50 ? 'text-amber-400' : 'text-rose-400';
-                            return (
-                                <div className="relative">
-                                    <svg width={2 * (radius + stroke)} height={radius + stroke + 24} className="overflow-visible">
-                                        <defs>
-                                            <linearGradient id="gaugeGrad" x1="0%" y1="0%" x2="100%" y2="0%">
-                                                <stop offset="0%" stopColor="#22d3ee" />
-                                                <stop offset="100%" stopColor="#34d399" />
-                                            </linearGradient>
-                                        </defs>
-                                        {/* Track */}
-                                        <path
-                                            d={`M ${stroke / 2}, ${radius + stroke / 2} A ${radius},${radius} 0 0,1 ${2 * radius + stroke * 1.5},${radius + stroke / 2}`}
-                                            fill="none" stroke="rgba(255,255,255,0.07)" strokeWidth={stroke} strokeLinecap="round"
-                                        />
-                                        {/* Progress */}
-                                        <path
-                                            d={`M ${stroke / 2}, ${radius + stroke / 2} A ${radius},${radius} 0 0,1 ${2 * radius + stroke * 1.5},${radius + stroke / 2}`}
-                                            fill="none" stroke="url(#gaugeGrad)" strokeWidth={stroke} strokeLinecap="round"
-                                            strokeDasharray={`${progress} ${circumference}`}
-                                            className="transition-all duration-1000"
-                                        />
-                                        {/* Score number */}
-                                        <text x={radius + stroke} y={radius - 4} textAnchor="middle" fill="white" fontSize="36" fontWeight="700" fontFamily="Inter, system-ui, sans-serif">
-                                            {score}
-                                        </text>
-                                        <text x={radius + stroke} y={radius + 18} textAnchor="middle" fill="rgba(255,255,255,0.5)" fontSize="12" fontFamily="Inter, system-ui, sans-serif">
-                                            / 100
-                                        </text>
-                                    </svg>
-                                    {/* Risk label */}
-                                    <div className="text-center mt-1">
-                                        <span className={`text-sm font-semibold ${riskColor}`}>{riskLabel}</span>
-                                    </div>
-                                    {/* Component breakdown */}
-                                    <div className="grid grid-cols-3 gap-2 mt-4 text-center">
-                                        <div>
-                                            <div className="text-xs text-white/40 mb-0.5">Diversity</div>
-                                            <div className="text-sm font-bold text-white/80">{analytics.components.diversification}</div>
-                                        </div>
-                                        <div>
-                                            <div className="text-xs text-white/40 mb-0.5">Volatility</div>
-                                            <div className="text-sm font-bold text-white/80">{analytics.components.volatility}</div>
-                                        </div>
-                                        <div>
-                                            <div className="text-xs text-white/40 mb-0.5">Sentiment</div>
-                                            <div className="text-sm font-bold text-white/80">{analytics.components.sentiment}</div>
-                                        </div>
-                                    </div>
-                                    <div className="text-center mt-3">
-                                        <span className="text-xs text-white/30">β = {analytics.portfolioBeta}</span>
-                                    </div>
-                                </div>
-                            );
-                        })()}
-                    </CardContent>
-                </Card>
+                {/* ── Health Score Gauge + factor breakdown ── */}
+                <HealthScoreCard analytics={analytics} loading={analyticsLoading} isActive={isActive} />
 
                 {/* ── Benchmark Comparison Chart ── */}
                 <PortfolioBenchmarkChart
                     data={analytics?.benchmarkData}
+                    benchmarks={analytics?.benchmarks}
                     isLoading={analyticsLoading || !analytics}
                 />
             </div>
 
+            {/* ══ Risk: volatility, drawdown, Sharpe / Sortino, VaR ══ */}
+            <RiskMetricsCard analytics={analytics} loading={analyticsLoading} />
+
+            {/* ══ Attribution: what drove the return vs SPY ══ */}
+            <PerformanceAttribution isActive={isActive} />
+
             {/* ══ Dividend Calendar + Correlation Matrix Row ══ */}
             <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -494,6 +436,12 @@ export function InsightsView({ isActive = true }: { isActive?: boolean }) {
                 )}
             </motion.div>
 
+            {/* ══ Dividend Income: calendar, forecast, yield on cost ══ */}
+            <DividendIncome isActive={isActive} />
+
+            {/* ══ Rebalancing: target allocation, drift and proposed trades ══ */}
+            <RebalancePlanner isActive={isActive} />
+
             {/* ══ Portfolio Allocation + Correlation Matrix Row ══ */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* ── Portfolio Allocation (Left - Small, col-span-1) ── */}
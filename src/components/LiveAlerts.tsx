@@ -1,9 +1,11 @@
-import { TrendingUp, TrendingDown, Bell, Target, Calendar } from 'lucide-react';
+import { Bell } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useLiveAlerts } from '@/context/LiveAlertsContext';
+import { AlertRulesDialog } from './AlertRulesDialog';
+import { AlertHistoryDrawer, AlertIcon } from './AlertHistoryDrawer';
 
 export function LiveAlerts() {
-    const { alerts, loading, connected } = useLiveAlerts();
+    const { alerts, loading, connected, markRead } = useLiveAlerts();
 
     return (
         <div className="mb-6">
@@ -16,6 +18,10 @@ export function LiveAlerts() {
                         <div className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
                     </div>
                 )}
+                <div className="ml-auto flex items-center gap-1">
+                    <AlertHistoryDrawer />
+                    <AlertRulesDialog />
+                </div>
             </div>
 
             {/* Alerts List */}
@@ -38,7 +44,7 @@ export function LiveAlerts() {
                     <div className="p-4 rounded-2xl bg-white/5 backdrop-blur-md border border-white/10 text-center">
                         <Bell className="w-6 h-6 text-white/20 mx-auto mb-2" />
                         <p className="text-sm text-white/40">No alerts yet</p>
-                        <p className="text-xs text-white/30 mt-1">Price moves, 52-week lows &amp; earnings</p>
+                        <p className="text-xs text-white/30 mt-1">Your alert rules, news &amp; earnings</p>
                     </div>
                 ) : (
                     // Alert cards with animation
@@ -50,28 +56,15 @@ export function LiveAlerts() {
                                 animate={{ opacity: 1, x: 0 }}
                                 exit={{ opacity: 0, x: 20 }}
                                 transition={{ duration: 0.3, delay: index * 0.05 }}
-                                className="p-2 rounded-xl bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all cursor-pointer"
+                                onClick={() => !alert.read && markRead([alert.id])}
+                                className={`p-2 rounded-xl bg-white/5 backdrop-blur-md border hover:bg-white/10 transition-all cursor-pointer ${alert.read ? 'border-white/10' : 'border-cyan-500/30'}`}
                             >
                                 <div className="flex items-center gap-3">
                                     {/* Icon based on alert type */}
-                                    {alert.type === 'gain' && (
-                                        <TrendingUp className="w-4 h-4 text-emerald-400 shrink-0" />
-                                    )}
-                                    {alert.type === 'loss' && (
-                                        <TrendingDown className="w-4 h-4 text-rose-500 shrink-0" />
-                                    )}
-                                    {alert.type === 'news' && (
-                                        <Bell className="w-4 h-4 text-cyan-400 shrink-0" />
-                                    )}
-                                    {alert.type === '52w-low' && (
-                                        <Target className="w-4 h-4 text-amber-400 shrink-0" />
-                                    )}
-                                    {alert.type === 'earnings' && (
-                                        <Calendar className="w-4 h-4 text-blue-400 shrink-0" />
-                                    )}
+                                    <AlertIcon type={alert.type} />
 
                                     <div className="flex-1 min-w-0 flex items-center justify-between gap-2">
-                                        <p className="text-sm text-white/80 truncate">
+                                        <p className={`text-sm truncate ${alert.read ? 'text-white/60' : 'text-white/90'}`}>
                                             {alert.message}
                                         </p>
 
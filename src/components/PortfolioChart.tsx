@@ -1,114 +1,66 @@
 import { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { usePortfolio } from '@/context/PortfolioContext';
-import { stocksAPI } from '@/api/stocks';
+import { useCurrency } from '@/context/CurrencyContext';
+import { stocksAPI, PortfolioHistory, PortfolioHistoryRange } from '@/api/stocks';
+
+const RANGES: PortfolioHistoryRange[] = ['1W', '1M', '3M', 'YTD', '1Y', '5Y', 'MAX'];
+
+const RANGE_LABELS: Record<PortfolioHistoryRange, string> = {
+  '1W': 'Last 7 Days',
+  '1M': 'Last 30 Days',
+  '3M': 'Last 3 Months',
+  'YTD': 'Year to Date',
+  '1Y': 'Last 12 Months',
+  '5Y': 'Last 5 Years',
+  'MAX': 'Since First Trade',
+};
+
+const LINE_LABELS: Record<string, string> = {
+  value: 'Value',
+  costBasis: 'Cost Basis',
+  contributions: 'Net Contributions',
+};
+
+const formatCurrency = (value: number, currency: string, notation: 'standard' | 'compact' = 'standard') =>
+  value.toLocaleString('en-US', { style: 'currency', currency, notation, maximumFractionDigits: 0 });
 
 export function PortfolioChart() {
-  const { positions, loading: positionsLoading } = usePortfolio();
-  const [historyData, setHistoryData] = useState<{ date: string; value: number }[]>([]);
+  const { positions, loading: positionsLoading, activePortfolioId, ledgerVersion } = usePortfolio();
+  const { currency } = useCurrency();
+  const [range, setRange] = useState<PortfolioHistoryRange>('1M');
+  const [history, setHistory] = useState<PortfolioHistory | null>(null);
   const [loading, setLoading] = useState(false);
-  const [stats, setStats] = useState({
-    totalGain: 0,
-    monthlyReturn: 0,
-    bestDay: 0,
-  });
 
-  // Calculate totals in USD first
-  const portfolioTotalUsd = useMemo(() => {
-    return positions.reduce((sum, pos) => sum + (pos.price * pos.quantity), 0);
-  }, [positions]);
-
-  const totalCostUsd = useMemo(() => {
-    return positions.reduce((sum, pos) => sum + (pos.averagePrice * pos.quantity), 0);
-  }, [positions]);
+  // Only refetch when the history's inputs change (lots, sales, cash entries), not on every price tick
+  const holdingsKey = useMemo(() => {
+    const trades = positions.map(p => [
+      `${p.symbol}:${p.quantity}`,
+      ...(p.lots || []).map(l => `${l._id}:${l.date}:${l.price}:${l.quantity}`),
+      ...(p.sales || []).map(s => `${s._id}:${s.date}:${s.price}:${s.quantity}`),
+    ].join('|')).sort().join(',');
+    return `${trades}#${ledgerVersion}`;
+  }, [positions, ledgerVersion]);
 
   useEffect(() => {
+    let cancelled = false;
+
     const fetchHistory = async () => {
       if (positions.length === 0) {
-        setHistoryData([]);
+        setHistory(null);
         return;
       }
 
       setLoading(true);
       try {
-        // 1. Fetch Exchange Rate
-        const forexData = await stocksAPI.getForexRate();
-        const exchangeRate = forexData.rate || 3.6; // Fallback to 3.6 if API fails
-
-        // 2. Setup Date Range
-        const to = Math.floor(Date.now() / 1000);
-        const from = to - (30 * 24 * 60 * 60); // 30 days ago
-
-        // 3. Fetch history for all positions
-        const historyPromises = positions.map(pos =>
-          stocksAPI.getStockHistory(pos.symbol, from, to, 'D')
-            .then(data => ({ symbol: pos.symbol, data }))
-            .catch(err => {
-              console.error(`Failed to fetch history for ${pos.symbol}`, err);
-              return { symbol: pos.symbol, data: { c: [], t: [] } }; // Return empty on fail
-            })
-        );
-
-        const results = await Promise.all(historyPromises);
-
-        // 4. Aggregate data by date
-        const timestampMap = new Map<number, number>();
-        results.forEach(({ symbol, data }) => {
-          const position = positions.find(p => p.symbol === symbol);
-          if (!position || !data.c || !data.t) return;
-
-          data.t.forEach((timestamp: number, index: number) => {
-            // Normalize timestamp to midnight to group same days
-            const dateObj = new Date(timestamp * 1000);
-            dateObj.setHours(0, 0, 0, 0);
-            const normalizedTs = dateObj.getTime();
-
-            // Calculate value in USD
-            const valueUsd = data.c[index] * position.quantity;
-            timestampMap.set(normalizedTs, (timestampMap.get(normalizedTs) || 0) + valueUsd);
-          });
-        });
-
-        // 5. Convert to Sorted Array and Apply Exchange Rate
-        const sortedData = Array.from(timestampMap.entries())
-          .sort((a, b) => a[0] - b[0])
-          .map(([ts, valueUsd]) => ({
-            date: new Date(ts).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-            value: valueUsd * exchangeRate // Convert to NIS
-          }));
-
-        setHistoryData(sortedData);
-
-        // 6. Calculate stats
-        if (sortedData.length > 0) {
-          const startValue = sortedData[0].value;
-          const endValue = sortedData[sortedData.length - 1].value;
-
-          // Calculate stats in NIS
-          const totalCostNis = totalCostUsd * exchangeRate;
-          const currentTotalNis = portfolioTotalUsd * exchangeRate;
-
-          const totalGain = currentTotalNis - totalCostNis;
-          const monthlyReturn = startValue > 0 ? ((endValue - startValue) / startValue) * 100 : 0;
-
-          // Best Day (already in NIS)
-          let maxDailyGain = 0;
-          for (let i = 1; i < sortedData.length; i++) {
-            const gain = sortedData[i].value - sortedData[i - 1].value;
-            if (gain > maxDailyGain) maxDailyGain = gain;
-          }
-
-          setStats({
-            totalGain,
-            monthlyReturn,
-            bestDay: maxDailyGain
-          });
-        }
-
+        // Converted server-side with each day's FX rate
+        const data = await stocksAPI.getPortfolioHistory(range, currency);
+        if (cancelled) return;
+        setHistory(data);
       } catch (err) {
-        console.error('Error calculating portfolio history:', err);
+        console.error('Error loading portfolio history:', err);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
@@ -129,12 +81,34 @@ export function PortfolioChart() {
       }
     }, 60 * 1000); // Check every minute
 
-    return () => clearInterval(checkMarketClose);
-    // Only refetch when positions are added/removed, not on price updates
+    return () => {
+      cancelled = true;
+      clearInterval(checkMarketClose);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [positions.length]);
-
-  if (loading || positionsLoading) {
+  }, [holdingsKey, activePortfolioId, range, currency]);
+
+  const chartCurrency = history?.currency || currency;
+
+  const chartData = useMemo(() => {
+    if (!history) return [];
+    const longRange = range === '1Y' || range === '5Y' || range === 'MAX';
+    return history.points.map(point => ({
+      date: new Date(`${point.date}T00:00:00`).toLocaleDateString('en-US', longRange
+        ? { month: 'short', year: '2-digit' }
+        : { month: 'short', day: 'numeric' }),
+      value: point.value,
+      costBasis: point.costBasis,
+      contributions: point.contributions,
+    }));
+  }, [history, range]);
+
+  const summary = history?.summary;
+  const rangeReturn = summary?.twrPercent ?? 0;
+  const totalGain = summary?.totalGain ?? 0;
+  const bestDay = Math.max(0, summary?.bestDay?.change ?? 0);
+
+  if (positionsLoading || (loading && !history)) {
     return (
       <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-white/10 to-white/5 backdrop-blur-xl border border-white/10 p-8 h-[450px] flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
@@ -148,20 +122,34 @@ export function PortfolioChart() {
       <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-transparent pointer-events-none" />
 
       <div className="relative z-10">
-        <div className="mb-6">
-          <h3 className="text-xl font-semibold text-white/90 mb-2">Portfolio Growth</h3>
-          <p className="text-sm text-white/50">Last 30 Days Performance</p>
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-semibold text-white/90 mb-2">Portfolio Growth</h3>
+            <p className="text-sm text-white/50">
+              {RANGE_LABELS[range]} Performance{history?.tracksCash ? ' · incl. cash' : ''}
+            </p>
+          </div>
+
+          {/* Range Toggle */}
+          <div className="flex p-1 bg-white/5 backdrop-blur-md rounded-lg border border-white/10 self-start">
+            {RANGES.map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all ${range === r
+                  ? 'bg-white/10 text-white shadow-sm'
+                  : 'text-white/40 hover:text-white/70'
+                  }`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
         </div>
 
-        <div className="h-80">
+        <div className={`h-80 transition-opacity ${loading ? 'opacity-50' : ''}`}>
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={historyData}>
-              <defs>
-                <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#10B981" stopOpacity={0.3} />
-                  <stop offset="95%" stopColor="#10B981" stopOpacity={0} />
-                </linearGradient>
-              </defs>
+            <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
               <XAxis
                 dataKey="date"
@@ -172,7 +160,7 @@ export function PortfolioChart() {
               <YAxis
                 stroke="rgba(255,255,255,0.5)"
                 style={{ fontSize: '12px' }}
-                tickFormatter={(value) => `₪${(value / 1000).toFixed(0)}K`}
+                tickFormatter={(value) => formatCurrency(value, chartCurrency, 'compact')}
                 domain={['auto', 'auto']}
               />
               <Tooltip
@@ -184,8 +172,11 @@ export function PortfolioChart() {
                   padding: '12px',
                 }}
                 labelStyle={{ color: 'rgba(255,255,255,0.9)', fontWeight: '600' }}
-                itemStyle={{ color: '#10B981' }}
-                formatter={(value: number) => `₪${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                formatter={(value: number, name: string) => [formatCurrency(value, chartCurrency), LINE_LABELS[name] || name]}
+              />
+              <Legend
+                formatter={(value: string) => <span className="text-xs text-white/60">{LINE_LABELS[value] || value}</span>}
+                iconType="plainline"
               />
               <Line
                 type="monotone"
@@ -194,7 +185,22 @@ export function PortfolioChart() {
                 strokeWidth={3}
                 dot={false}
                 activeDot={{ r: 6, fill: '#10B981' }}
-                fill="url(#colorValue)"
+              />
+              <Line
+                type="stepAfter"
+                dataKey="costBasis"
+                stroke="rgba(255,255,255,0.45)"
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="contributions"
+                stroke="#22D3EE"
+                strokeWidth={1.5}
+                strokeDasharray="2 3"
+                dot={false}
               />
             </LineChart>
           </ResponsiveContainer>
@@ -203,21 +209,21 @@ export function PortfolioChart() {
         {/* Stats */}
         <div className="grid grid-cols-3 gap-6 mt-8 pt-6 border-t border-white/10">
           <div>
-            <p className="text-sm text-white/50 mb-1">Monthly Return</p>
-            <p className={`text-2xl font-bold ${stats.monthlyReturn >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-              {stats.monthlyReturn >= 0 ? '+' : ''}{stats.monthlyReturn.toFixed(2)}%
+            <p className="text-sm text-white/50 mb-1">{range} Return</p>
+            <p className={`text-2xl font-bold ${rangeReturn >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {rangeReturn >= 0 ? '+' : ''}{rangeReturn.toFixed(2)}%
             </p>
           </div>
           <div>
             <p className="text-sm text-white/50 mb-1">Total Gain</p>
-            <p className={`text-2xl font-bold ${stats.totalGain >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-              {stats.totalGain >= 0 ? '+' : ''}₪{Math.abs(stats.totalGain).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            <p className={`text-2xl font-bold ${totalGain >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {totalGain >= 0 ? '+' : '-'}{formatCurrency(Math.abs(totalGain), chartCurrency)}
             </p>
           </div>
           <div>
             <p className="text-sm text-white/50 mb-1">Best Day</p>
             <p className="text-2xl font-bold text-emerald-400">
-              +₪{stats.bestDay.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+              +{formatCurrency(bestDay, chartCurrency)}
             </p>
           </div>
         </div>
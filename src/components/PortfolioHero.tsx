@@ -1,12 +1,29 @@
-import { TrendingUp, TrendingDown, Activity } from 'lucide-react';
+import { TrendingUp, TrendingDown, Activity, Info } from 'lucide-react';
 import { useEffect, useState, useMemo } from 'react';
 import { usePortfolio } from '@/context/PortfolioContext';
-import { stocksAPI } from '@/api/stocks';
+import { useCurrency } from '@/context/CurrencyContext';
+import { DISPLAY_CURRENCIES, DisplayCurrency } from '@/api/auth';
+import { XirrStatus } from '@/api/stocks';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+const formatUsd = (value: number, maximumFractionDigits = 2) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits });
+
+const formatReturn = (value: number | null) => (value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`);
+
+// Why there's no money-weighted rate
+const XIRR_STATUS_TEXT: Record<XirrStatus, string> = {
+  ok: '',
+  sameSign: 'needs both money in and a current value or sale',
+  noRoot: 'no rate balances these cash flows',
+  noConvergence: 'the calculation did not settle on a rate',
+  tooShort: 'needs more than a day of history',
+};
 
 export function PortfolioHero() {
   const [pulse, setPulse] = useState(true);
-  const [usdToIls, setUsdToIls] = useState(3.6); // Default fallback
   const { positions, portfolioAnalytics } = usePortfolio();
+  const { currency, activeCurrency, setCurrency, rate, formatMoney } = useCurrency();
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -15,26 +32,6 @@ export function PortfolioHero() {
     return () => clearInterval(interval);
   }, []);
 
-  // Fetch USD/ILS exchange rate
-  useEffect(() => {
-    const fetchForexRate = async () => {
-      try {
-        const forexData = await stocksAPI.getForexRate();
-        if (forexData.rate) {
-          setUsdToIls(forexData.rate);
-          console.log(`📊 USD/ILS rate updated: ${forexData.rate} (source: ${forexData.source}, last update: ${forexData.lastUpdate || 'N/A'})`);
-        }
-      } catch (error) {
-        console.error('Failed to fetch forex rate, using fallback:', error);
-      }
-    };
-
-    fetchForexRate();
-    // Refresh rate every 6 hours (4 times per day)
-    const interval = setInterval(fetchForexRate, 6 * 60 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, []);
-
   // Calculate total portfolio value (current market value)
   const totalValueUSD = positions.reduce((sum, pos) => sum + (pos.price * pos.quantity), 0);
 
@@ -45,17 +42,40 @@ export function PortfolioHero() {
   const totalGainUSD = totalValueUSD - totalCostUSD;
   const totalGainPercent = totalCostUSD > 0 ? (totalGainUSD / totalCostUSD) * 100 : 0;
 
+  // Realized P&L from recorded sales
+  const realizedGainUSD = positions.reduce((sum, pos) => sum + (pos.realizedGain || 0), 0);
+  const hasSales = positions.some(pos => (pos.sales?.length || 0) > 0);
+  const isRealizedPositive = realizedGainUSD >= 0;
+
   // Calculate daily change (sum of all daily changes)
   const dailyChangeUSD = positions.reduce((sum, pos) => sum + (pos.change * pos.quantity), 0);
   const dailyChangePercent = totalValueUSD > 0 ? (dailyChangeUSD / (totalValueUSD - dailyChangeUSD)) * 100 : 0;
 
-  // Convert to ILS using real-time rate
-  const totalValueILS = totalValueUSD * usdToIls;
-  const dailyChangeILS = dailyChangeUSD * usdToIls;
+  // Display currency first, USD alongside when they differ
+  const showUsd = activeCurrency !== 'USD';
+  const withUsd = (usd: number) => (showUsd ? `${formatMoney(usd)} / ${formatUsd(usd)}` : formatMoney(usd));
+
+  const handleCurrencyChange = (next: DisplayCurrency) => {
+    setCurrency(next).catch(error => console.error('Failed to save display currency:', error));
+  };
 
   const isDailyPositive = dailyChangeUSD >= 0;
   const isTotalPositive = totalGainUSD >= 0;
 
+  // ── Since-inception TWR vs money-weighted return (annualized once there's a year of history) ──
+  const inceptionReturns = useMemo(() => {
+    const returns = portfolioAnalytics?.returns;
+    if (!returns) return null;
+    const annualized = returns.twr.days >= 365;
+    return {
+      since: new Date(`${returns.since}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+      annualized,
+      twr: annualized ? returns.twr.annualized : returns.twr.cumulative,
+      mwr: annualized ? returns.mwr.annualized : returns.mwr.cumulative,
+      mwrNote: XIRR_STATUS_TEXT[returns.mwr.status],
+    };
+  }, [portfolioAnalytics?.returns]);
+
   // ── Compute Weekly / Monthly / Yearly returns from benchmarkData ──
   const periodReturns = useMemo(() => {
     const bd = portfolioAnalytics?.benchmarkData;
@@ -94,23 +114,25 @@ export function PortfolioHero() {
               </div>
             </div>
 
-            {/* ILS Primary */}
-            <div className="mb-3">
+            {/* Display Currency Primary */}
+            <div className={showUsd ? 'mb-3' : 'mb-4'}>
               <div className="flex items-baseline gap-3">
                 <span className="text-6xl font-bold text-white">
-                  ₪{totalValueILS.toLocaleString('en-US', { maximumFractionDigits: 0 })}
+                  {formatMoney(totalValueUSD, 0)}
                 </span>
-                <span className="text-xl text-white/40">ILS</span>
+                <span className="text-xl text-white/40">{activeCurrency}</span>
               </div>
             </div>
 
             {/* USD Secondary */}
-            <div className="flex items-baseline gap-2 mb-4">
-              <span className="text-2xl font-semibold text-white/60">
-                ${totalValueUSD.toLocaleString('en-US', { maximumFractionDigits: 2 })}
-              </span>
-              <span className="text-sm text-white/30">USD</span>
-            </div>
+            {showUsd && (
+              <div className="flex items-baseline gap-2 mb-4">
+                <span className="text-2xl font-semibold text-white/60">
+                  {formatUsd(totalValueUSD)}
+                </span>
+                <span className="text-sm text-white/30">USD</span>
+              </div>
+            )}
 
             {/* Daily Change */}
             <div className="flex items-center gap-4">
@@ -124,7 +146,7 @@ export function PortfolioHero() {
                   <TrendingDown className="w-4 h-4 text-rose-400" />
                 )}
                 <span className={`font-semibold ${isDailyPositive ? 'text-emerald-400' : 'text-rose-400'}`}>
-                  {isDailyPositive ? '+' : ''}₪{dailyChangeILS.toLocaleString('en-US', { maximumFractionDigits: 2 })} ({dailyChangePercent.toFixed(2)}%)
+                  {isDailyPositive ? '+' : ''}{formatMoney(dailyChangeUSD)} ({dailyChangePercent.toFixed(2)}%)
                 </span>
               </div>
               <span className="text-sm text-white/50">Today</span>
@@ -132,23 +154,68 @@ export function PortfolioHero() {
 
             {/* Total Gain/Loss */}
             <div className="flex items-center gap-2 mt-3">
-              <span className="text-xs text-white/40">Total Gain/Loss:</span>
+              <span className="text-xs text-white/40">Unrealized Gain/Loss:</span>
               <span className={`text-sm font-semibold ${isTotalPositive ? 'text-emerald-400' : 'text-rose-400'}`}>
-                {isTotalPositive ? '+' : ''}₪{(totalGainUSD * usdToIls).toLocaleString('en-US', { maximumFractionDigits: 2 })} / ${totalGainUSD.toLocaleString('en-US', { maximumFractionDigits: 2 })} ({totalGainPercent.toFixed(2)}%)
+                {isTotalPositive ? '+' : ''}{withUsd(totalGainUSD)} ({totalGainPercent.toFixed(2)}%)
               </span>
             </div>
+
+            {/* Realized Gain/Loss */}
+            {hasSales && (
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-xs text-white/40">Realized Gain/Loss:</span>
+                <span className={`text-sm font-semibold ${isRealizedPositive ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {isRealizedPositive ? '+' : ''}{withUsd(realizedGainUSD)}
+                </span>
+              </div>
+            )}
+
+            {/* Time-weighted vs money-weighted return */}
+            {inceptionReturns && (
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-xs text-white/40">
+                  Since {inceptionReturns.since}{inceptionReturns.annualized ? ' (annualized)' : ''}:
+                </span>
+                <span className={`text-sm font-semibold ${(inceptionReturns.twr ?? 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  TWR {formatReturn(inceptionReturns.twr)}
+                </span>
+                <span className="text-white/20">·</span>
+                <span className={`text-sm font-semibold ${(inceptionReturns.mwr ?? 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  MWR {formatReturn(inceptionReturns.mwr)}
+                </span>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="w-3.5 h-3.5 text-white/30 hover:text-white/60 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="max-w-xs bg-[#1a1a1f] text-white/80 border border-white/10">
+                    <p className="mb-1"><span className="font-semibold text-white">TWR</span> (time-weighted) measures the holdings alone: when and how much you bought doesn't change it. It's the figure to compare with the S&P 500.</p>
+                    <p><span className="font-semibold text-white">MWR</span> (money-weighted, XIRR) is the rate your actual dollars earned, dated by each lot and sale. It's higher than TWR when you added money before gains, lower when you added it before losses.</p>
+                    {inceptionReturns.mwrNote && <p className="mt-1 text-amber-400">No MWR: {inceptionReturns.mwrNote}.</p>}
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+            )}
           </div>
 
           {/* ── Right Column: Returns + Activity/Exchange ── */}
           <div className="flex flex-col items-end gap-4">
-            {/* Activity Indicator & Exchange Rate */}
+            {/* Activity Indicator & Display Currency */}
             <div className="flex items-center gap-3">
               <div className="p-4 rounded-2xl bg-white/5 backdrop-blur-md border border-white/10">
                 <Activity className="w-8 h-8 text-cyan-400" />
               </div>
               <div className="flex flex-col items-center justify-center p-3 rounded-2xl bg-white/5 backdrop-blur-md border border-white/10 min-w-[80px]">
-                <div className="text-[10px] text-white/40 uppercase tracking-wider mb-0.5">USD/ILS</div>
-                <div className="text-base font-bold text-white/90">{usdToIls.toFixed(4)}</div>
+                <select
+                  value={currency}
+                  onChange={(e) => handleCurrencyChange(e.target.value as DisplayCurrency)}
+                  className="text-[10px] text-white/40 uppercase tracking-wider mb-0.5 bg-transparent cursor-pointer focus:outline-none dark:scheme-dark"
+                  title="Display currency"
+                >
+                  {DISPLAY_CURRENCIES.map(c => (
+                    <option key={c} value={c}>{c === 'USD' ? 'USD' : `USD/${c}`}</option>
+                  ))}
+                </select>
+                <div className="text-base font-bold text-white/90">{rate.toFixed(4)}</div>
               </div>
             </div>
 
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Briefcase, Layers, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { ALL_PORTFOLIOS } from '@/api/portfolios';
+
+export function PortfolioSwitcher() {
+    const { portfolios, activePortfolioId, switchPortfolio, createPortfolio, renamePortfolio, deletePortfolio } = usePortfolio();
+    const [creating, setCreating] = useState(false);
+    const [editingId, setEditingId] = useState('');
+    const [name, setName] = useState('');
+    const [error, setError] = useState('');
+
+    const totalPositions = portfolios.reduce((sum, p) => sum + p.positionCount, 0);
+
+    const resetForm = () => {
+        setCreating(false);
+        setEditingId('');
+        setName('');
+        setError('');
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        try {
+            if (editingId) {
+                await renamePortfolio(editingId, name.trim());
+            } else {
+                await createPortfolio(name.trim());
+            }
+            resetForm();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to save portfolio');
+        }
+    };
+
+    const handleDelete = async (id: string, portfolioName: string) => {
+        if (!window.confirm(`Delete portfolio "${portfolioName}"?`)) return;
+        setError('');
+        try {
+            await deletePortfolio(id);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to delete portfolio');
+        }
+    };
+
+    const itemClass = (active: boolean) =>
+        `group flex items-center gap-3 w-full px-3 py-2 rounded-xl text-sm transition-all ${active
+            ? 'bg-cyan-500/15 text-cyan-400 border border-cyan-500/30'
+            : 'text-white/70 hover:text-white hover:bg-white/5 border border-transparent'
+        }`;
+
+    const nameForm = (
+        <form onSubmit={handleSave} className="flex items-center gap-1 px-1">
+            <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && resetForm()}
+                placeholder="Portfolio name"
+                maxLength={40}
+                className="flex-1 min-w-0 h-8 px-2 rounded-lg text-sm bg-white/5 border border-white/10 text-white placeholder:text-white/30 focus:outline-none focus:border-cyan-500/50"
+            />
+            <button type="submit" className="p-1.5 rounded text-emerald-400 hover:bg-white/10">
+                <Check className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={resetForm} className="p-1.5 rounded text-white/50 hover:bg-white/10">
+                <X className="w-4 h-4" />
+            </button>
+        </form>
+    );
+
+    return (
+        <div className="mb-6">
+            {/* Header */}
+            <div className="flex items-center gap-2 mb-3">
+                <Briefcase className="w-5 h-5 text-emerald-400" />
+                <h2 className="text-sm font-semibold text-white/90 uppercase tracking-wider">Portfolios</h2>
+                <button
+                    onClick={() => { resetForm(); setCreating(true); }}
+                    className="ml-auto p-1 rounded text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                    title="New portfolio"
+                >
+                    <Plus className="w-4 h-4" />
+                </button>
+            </div>
+
+            {error && <p className="text-xs text-rose-400 mb-2 px-1">{error}</p>}
+
+            <div className="space-y-1">
+                {/* Aggregated view */}
+                <button onClick={() => switchPortfolio(ALL_PORTFOLIOS)} className={itemClass(activePortfolioId === ALL_PORTFOLIOS)}>
+                    <Layers className="w-4 h-4 shrink-0" />
+                    <span className="flex-1 text-left truncate">All portfolios</span>
+                    <span className="text-xs text-white/40">{totalPositions}</span>
+                </button>
+
+                {portfolios.map(portfolio => (
+                    editingId === portfolio._id ? (
+                        <div key={portfolio._id}>{nameForm}</div>
+                    ) : (
+                        <div key={portfolio._id} className={itemClass(activePortfolioId === portfolio._id)}>
+                            <button onClick={() => switchPortfolio(portfolio._id)} className="flex-1 flex items-center gap-3 min-w-0 text-left">
+                                <Briefcase className="w-4 h-4 shrink-0 opacity-60" />
+                                <span className="flex-1 truncate">{portfolio.name}</span>
+                            </button>
+                            <span className="text-xs text-white/40 group-hover:hidden">{portfolio.positionCount}</span>
+                            <div className="hidden group-hover:flex items-center gap-0.5">
+                                <button
+                                    onClick={() => { resetForm(); setEditingId(portfolio._id); setName(portfolio.name); }}
+                                    className="p-1 rounded text-white/50 hover:text-white hover:bg-white/10"
+                                    title="Rename"
+                                >
+                                    <Pencil className="w-3.5 h-3.5" />
+                                </button>
+                                {portfolios.length > 1 && (
+                                    <button
+                                        onClick={() => handleDelete(portfolio._id, portfolio.name)}
+                                        className="p-1 rounded text-white/50 hover:text-rose-400 hover:bg-white/10"
+                                        title="Delete"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )
+                ))}
+
+                {creating && nameForm}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,285 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { SimpleDialog } from './SimpleDialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { usePortfolio, Position, Lot } from '@/context/PortfolioContext';
+import { CostBasisMethod } from '@/api/positions';
+
+interface SellPositionDialogProps {
+  position: Position;
+  open: boolean;
+  onClose: () => void;
+}
+
+const METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'lifo', label: 'LIFO' },
+  { value: 'average', label: 'Avg Cost' },
+  { value: 'specific', label: 'Specific Lot' },
+];
+
+const openQuantity = (lot: Lot) => Math.max(0, Number(lot.quantity) - Number(lot.soldQuantity || 0));
+const toDateInput = (date: string | Date) =>
+  typeof date === 'string' ? date.split('T')[0] : new Date(date).toISOString().split('T')[0];
+
+/**
+ * Estimate cost basis of a sale the same way the server matches lots,
+ * so the user sees the realized P&L before confirming.
+ */
+function estimateCostBasis(lots: Lot[], quantity: number, method: CostBasisMethod, selections: Record<string, string>) {
+  const open = lots.filter(l => openQuantity(l) > 0);
+  const totalOpen = open.reduce((sum, l) => sum + openQuantity(l), 0);
+  if (quantity <= 0 || totalOpen === 0) return 0;
+
+  if (method === 'specific') {
+    return open.reduce((sum, l) => sum + (Number(selections[l._id || '']) || 0) * Number(l.price), 0);
+  }
+  if (method === 'average') {
+    const openCost = open.reduce((sum, l) => sum + openQuantity(l) * Number(l.price), 0);
+    return (openCost / totalOpen) * quantity;
+  }
+
+  const ordered = [...open].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  if (method === 'lifo') ordered.reverse();
+
+  let remaining = quantity;
+  let cost = 0;
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const qty = Math.min(openQuantity(lot), remaining);
+    cost += qty * Number(lot.price);
+    remaining -= qty;
+  }
+  return cost;
+}
+
+export function SellPositionDialog({ position, open, onClose }: SellPositionDialogProps) {
+  const { sellPosition } = usePortfolio();
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [method, setMethod] = useState<CostBasisMethod>('fifo');
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setQuantity('');
+      setPrice(position.price ? position.price.toFixed(2) : '');
+      setDate(new Date().toISOString().split('T')[0]);
+      setMethod('fifo');
+      setSelections({});
+      setError('');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const lots = position.lots || [];
+  const openLots = lots.filter(l => l._id && openQuantity(l) > 0);
+
+  const sellQty = method === 'specific'
+    ? Object.values(selections).reduce((sum, v) => sum + (Number(v) || 0), 0)
+    : Number(quantity) || 0;
+  const sellPrice = Number(price) || 0;
+
+  const preview = useMemo(() => {
+    const costBasis = estimateCostBasis(lots, sellQty, method, selections);
+    const proceeds = sellQty * sellPrice;
+    return { proceeds, costBasis, realizedGain: proceeds - costBasis };
+  }, [lots, sellQty, sellPrice, method, selections]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+    setError('');
+
+    if (sellQty <= 0) {
+      setError('Enter a quantity to sell');
+      return;
+    }
+    if (sellQty > position.quantity + 1e-9) {
+      setError(`You only hold ${position.quantity} shares`);
+      return;
+    }
+    if (sellPrice <= 0) {
+      setError('Enter a sell price');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await sellPosition(position._id, {
+        quantity: sellQty,
+        price: sellPrice,
+        date,
+        method,
+        lotSelections: method === 'specific'
+          ? Object.entries(selections)
+            .filter(([, v]) => Number(v) > 0)
+            .map(([lotId, v]) => ({ lotId, quantity: Number(v) }))
+          : undefined,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to record sale');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isGain = preview.realizedGain >= 0;
+
+  return (
+    <SimpleDialog open={open} onClose={onClose}>
+      <div className="relative max-h-[80vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-0 right-0 p-1 rounded text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold mb-1">Sell {position.symbol}</h2>
+        <p className="text-sm text-white/50 mb-4">
+          {position.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })} shares held · Avg ${position.averagePrice.toFixed(2)}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Cost basis method */}
+          <div>
+            <Label className="text-xs text-white/50">Cost Basis Method</Label>
+            <div className="grid grid-cols-4 gap-1 mt-1 p-1 bg-white/5 rounded-lg border border-white/10">
+              {METHODS.map(m => (
+                <button
+                  key={m.value}
+                  type="button"
+                  onClick={() => setMethod(m.value)}
+                  className={`px-2 py-1.5 rounded-md text-xs font-medium transition-all ${method === m.value
+                    ? 'bg-cyan-500/20 text-cyan-400'
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs text-white/50">Date</Label>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="h-8 text-xs bg-white/5 border-white/10 dark:scheme-dark"
+                required
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-white/50">Price per Share</Label>
+              <Input
+                type="number"
+                step="any"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="h-8 text-xs bg-white/5 border-white/10"
+                required
+              />
+            </div>
+            {method !== 'specific' && (
+              <div className="col-span-2">
+                <Label className="text-xs text-white/50">Quantity</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="h-8 text-xs bg-white/5 border-white/10"
+                  placeholder={`Max ${position.quantity}`}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Specific lot picker */}
+          {method === 'specific' && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1.5fr_1fr_1fr_1fr] gap-2 text-xs text-white/50 px-2">
+                <span>Lot Date</span>
+                <span className="text-right">Open</span>
+                <span className="text-right">Cost</span>
+                <span className="text-right">Sell</span>
+              </div>
+              {openLots.length === 0 && (
+                <p className="text-xs text-white/40 px-2">Save the position's lots first to pick specific lots.</p>
+              )}
+              {openLots.map(lot => (
+                <div key={lot._id} className="grid grid-cols-[1.5fr_1fr_1fr_1fr] gap-2 items-center bg-white/5 p-2 rounded-lg border border-white/5 text-xs">
+                  <span className="text-white/70">{toDateInput(lot.date)}</span>
+                  <span className="text-right text-white">{openQuantity(lot).toLocaleString(undefined, { maximumFractionDigits: 4 })}</span>
+                  <span className="text-right text-white/70">${Number(lot.price).toFixed(2)}</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    min={0}
+                    max={openQuantity(lot)}
+                    value={selections[lot._id!] ?? ''}
+                    onChange={(e) => setSelections({ ...selections, [lot._id!]: e.target.value })}
+                    className="h-7 text-xs bg-white/5 border-white/10 text-right"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Realized P&L preview */}
+          <div className="pt-4 border-t border-white/10 space-y-1">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-white/50">Proceeds</span>
+              <span className="font-medium text-white">${preview.proceeds.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-white/50">Cost Basis</span>
+              <span className="font-medium text-white">${preview.costBasis.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-white/50">Realized P&L</span>
+              <span className={`font-bold ${isGain ? 'text-emerald-400' : 'text-rose-500'}`}>
+                {isGain ? '+' : ''}{preview.realizedGain.toFixed(2)}
+              </span>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button
+              type="button"
+              onClick={onClose}
+              className="bg-white/10 hover:bg-white/15 text-white"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-rose-500 hover:bg-rose-600 text-white disabled:opacity-50"
+            >
+              {loading ? 'Selling...' : 'Confirm Sale'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </SimpleDialog>
+  );
+}
@@ -2,6 +2,7 @@ import { LogOut } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { LiveMarketNews } from './LiveMarketNews';
 import { LiveAlerts } from './LiveAlerts';
+import { PortfolioSwitcher } from './PortfolioSwitcher';
 
 export function SidebarContent() {
     const { logout } = useAuth();
@@ -26,6 +27,9 @@ export function SidebarContent() {
                     </a>
                 </div>
 
+                {/* Portfolio switcher */}
+                <PortfolioSwitcher />
+
                 {/* Live Alerts - Real-time from Socket.io */}
                 <LiveAlerts />
 
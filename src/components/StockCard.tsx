@@ -1,20 +1,26 @@
-import { TrendingUp, TrendingDown, Trash2, Edit2, Plus, X } from 'lucide-react';
+import { TrendingUp, TrendingDown, Trash2, Edit2, Plus, X, DollarSign } from 'lucide-react';
 import { LineChart, Line, ResponsiveContainer, YAxis } from 'recharts';
 import { usePortfolio, Position, Lot } from '@/context/PortfolioContext';
 import { useState, useEffect } from 'react';
 import { SimpleDialog } from './SimpleDialog';
+import { SellPositionDialog } from './SellPositionDialog';
+import { navigate, stockPath } from '@/hooks/use-route';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 
+// Shares of a lot not yet closed out by a sale
+const openLotQty = (lot: Lot) => Math.max(0, Number(lot.quantity) - Number(lot.soldQuantity || 0));
+
 interface StockCardProps {
   stock: Position;
   className?: string;
 }
 
 export function StockCard({ stock, className }: StockCardProps) {
-  const { removePosition, updatePosition } = usePortfolio();
+  const { removePosition, updatePosition, portfolioAnalytics } = usePortfolio();
   const [editOpen, setEditOpen] = useState(false);
+  const [sellOpen, setSellOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
   // Edit State
@@ -57,6 +63,11 @@ export function StockCard({ stock, className }: StockCardProps) {
   const totalReturn = (stock.price - avgPrice) * quantity;
   const totalReturnPercent = avgPrice > 0 ? ((stock.price - avgPrice) / avgPrice) * 100 : 0;
   const istotalReturnPositive = totalReturn >= 0;
+  const realizedGain = stock.realizedGain || 0;
+  const hasSales = (stock.sales?.length || 0) > 0;
+  // Money-weighted return of this position's lots and sales (annualized once held a year)
+  const xirr = portfolioAnalytics?.returns?.positions[stock.symbol];
+  const xirrValue = xirr ? (xirr.days >= 365 ? xirr.annualized : xirr.cumulative) : null;
 
   // Visual Alert Logic
   const isNear52wLow = stock.fiftyTwoWeekLow && (stock.price <= stock.fiftyTwoWeekLow * 1.05);
@@ -114,6 +125,11 @@ export function StockCard({ stock, className }: StockCardProps) {
     setEditOpen(true);
   };
 
+  const handleSell = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSellOpen(true);
+  };
+
   // Helper to update a specific lot in the list
   const updateLot = (index: number, field: keyof Lot, value: any) => {
     const updatedDislots = [...lots];
@@ -152,16 +168,19 @@ export function StockCard({ stock, className }: StockCardProps) {
           await removePosition(stock._id);
         }
       } else {
-        // Calculate expected totals based on the edited lots
-        const totalQty = lots.reduce((acc, lot) => acc + Number(lot.quantity), 0);
-        const totalCost = lots.reduce((acc, lot) => acc + (Number(lot.quantity) * Number(lot.price)), 0);
+        // Calculate expected totals based on the edited lots (open shares only)
+        const totalQty = lots.reduce((acc, lot) => acc + openLotQty(lot), 0);
+        const totalCost = lots.reduce((acc, lot) => acc + (openLotQty(lot) * Number(lot.price)), 0);
         const avgPrice = totalQty > 0 ? totalCost / totalQty : 0;
 
-        // STRICT PAYLOAD: Ensure dates are valid ISO strings to prevent backend merging/shifting
+        // STRICT PAYLOAD: Ensure dates are valid ISO strings to prevent backend merging/shifting.
+        // _id and soldQuantity are passed through so recorded sales stay attached to their lots.
         const strictLots = lots.map(lot => ({
+          _id: lot._id,
           quantity: Number(lot.quantity),
           price: Number(lot.price),
-          date: typeof lot.date === 'string' ? lot.date : new Date(lot.date).toISOString()
+          date: typeof lot.date === 'string' ? lot.date : new Date(lot.date).toISOString(),
+          soldQuantity: Number(lot.soldQuantity) || 0
         }));
 
         await updatePosition(
@@ -172,23 +191,24 @@ export function StockCard({ stock, className }: StockCardProps) {
         );
       }
       setEditOpen(false);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to update position:', error);
-      alert('Failed to save changes. Please try again.');
+      alert(error.response?.data?.message || 'Failed to save changes. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
   // Calculate projected totals for Edit UI
-  const projectTotalQty = lots.reduce((acc, lot) => acc + Number(lot.quantity), 0);
-  const projectTotalCost = lots.reduce((acc, lot) => acc + (Number(lot.quantity) * Number(lot.price)), 0);
+  const projectTotalQty = lots.reduce((acc, lot) => acc + openLotQty(lot), 0);
+  const projectTotalCost = lots.reduce((acc, lot) => acc + (openLotQty(lot) * Number(lot.price)), 0);
   const projectAvgPrice = projectTotalQty > 0 ? projectTotalCost / projectTotalQty : 0;
 
   return (
     <>
       <div
         data-ticker={stock.symbol}
+        onClick={() => navigate(stockPath(stock.symbol))}
         className={`group relative overflow-hidden rounded-2xl bg-linear-to-br from-white/10 to-white/5 backdrop-blur-xl border border-white/10 p-4 pr-12 hover:border-white/20 hover:from-white/15 hover:to-white/10 transition-all cursor-pointer ${className || ''} ${isNear52wLow ? 'ring-1 ring-inset ring-amber-500/40' : ''}`}
       >
         {/* Glassmorphism overlay */}
@@ -216,6 +236,15 @@ export function StockCard({ stock, className }: StockCardProps) {
               )}
               {stock._id && (
                 <>
+                  {quantity > 0 && (
+                    <button
+                      onClick={handleSell}
+                      className="p-1.5 rounded-lg bg-white/5 hover:bg-white/20 text-emerald-400 opacity-100 transition-all z-20"
+                      title="Sell shares"
+                    >
+                      <DollarSign className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={handleEdit}
                     className="p-1.5 rounded-lg bg-white/5 hover:bg-white/20 text-cyan-400 opacity-100 transition-all z-20"
@@ -270,6 +299,13 @@ export function StockCard({ stock, className }: StockCardProps) {
                 )}
               </div>
 
+              {/* Native price for non-US listings */}
+              {stock.listingCurrency && stock.listingCurrency !== 'USD' && stock.listingPrice !== undefined && (
+                <div className="text-xs text-white/40 mt-1">
+                  {stock.listingPrice.toLocaleString('en-US', { style: 'currency', currency: stock.listingCurrency })} · {stock.exchange}
+                </div>
+              )}
+
               {/* Extended hours change */}
               {stock.marketStatus && stock.marketStatus !== 'regular' && stock.extendedPrice && stock.extendedChange !== undefined && (
                 <div className="flex items-center gap-1.5 mt-1" style={{ fontSize: '11px', color: 'rgba(251, 146, 60, 0.9)' }}>
@@ -299,10 +335,33 @@ export function StockCard({ stock, className }: StockCardProps) {
                 <p className={`text-xs ${istotalReturnPositive ? 'text-emerald-400' : 'text-rose-500'}`}>
                   {istotalReturnPositive ? '+' : ''}{totalReturn.toFixed(2)} ({totalReturnPercent.toFixed(2)}%)
                 </p>
+                {hasSales && (
+                  <p className={`text-xs ${realizedGain >= 0 ? 'text-emerald-400/70' : 'text-rose-500/70'}`}>
+                    Realized: {realizedGain >= 0 ? '+' : ''}{realizedGain.toFixed(2)}
+                  </p>
+                )}
+                {xirrValue !== null && xirr && (
+                  <p
+                    className={`text-xs ${xirrValue >= 0 ? 'text-emerald-400/70' : 'text-rose-500/70'}`}
+                    title="Money-weighted return (XIRR) of this position's lots and sales, including today's value"
+                  >
+                    MWR{xirr.days >= 365 ? ' /yr' : ''}: {xirrValue >= 0 ? '+' : ''}{xirrValue.toFixed(2)}%
+                  </p>
+                )}
               </div>
             </div>
           )}
 
+          {/* Fully closed position - realized result only */}
+          {quantity === 0 && hasSales && (
+            <div className="mb-4 p-3 bg-white/5 rounded-xl border border-white/5 flex justify-between items-center">
+              <p className="text-xs text-white/40">Position Closed</p>
+              <p className={`text-sm font-bold ${realizedGain >= 0 ? 'text-emerald-400' : 'text-rose-500'}`}>
+                Realized: {realizedGain >= 0 ? '+' : ''}${realizedGain.toFixed(2)}
+              </p>
+            </div>
+          )}
+
           {/* Sparkline Chart */}
           <div className="h-12 -mx-2">
             <ResponsiveContainer width="100%" height="100%">
@@ -382,7 +441,9 @@ export function StockCard({ stock, className }: StockCardProps) {
 
                   <button
                     onClick={() => removeLot(index)}
-                    className="w-8 flex justify-center text-white/30 hover:text-rose-500 transition-colors"
+                    disabled={Number(lot.soldQuantity) > 0}
+                    title={Number(lot.soldQuantity) > 0 ? 'Shares from this lot have been sold' : undefined}
+                    className="w-8 flex justify-center text-white/30 hover:text-rose-500 transition-colors disabled:opacity-30 disabled:hover:text-white/30 disabled:cursor-not-allowed"
                   >
                     <X className="w-4 h-4" />
                   </button>
@@ -475,6 +536,8 @@ export function StockCard({ stock, className }: StockCardProps) {
           </div>
         </div>
       </SimpleDialog>
+
+      <SellPositionDialog position={stock} open={sellOpen} onClose={() => setSellOpen(false)} />
     </>
   );
 }
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import {
+    ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ReferenceDot, ResponsiveContainer
+} from 'recharts';
+import type { CandleData, CandleInterval } from '@/api/stocks';
+import type { IndicatorSeries } from '@/services/indicators';
+import { INDICATOR_COLORS } from '@/components/Indicators/IndicatorPicker';
+
+export interface BuyMarker {
+    timestamp: number; // unix seconds
+    price: number | null; // In the candle currency; null plots at the bar's close
+    quantity: number;
+}
+
+interface CandleRow {
+    t: number;
+    o: number;
+    h: number;
+    l: number;
+    c: number;
+    v: number;
+    range: [number, number]; // [low, high]: the bar the candle shape is drawn over
+    sma: number | null;
+    ema: number | null;
+    bbUpper: number | null;
+    bbMiddle: number | null;
+    bbLower: number | null;
+    vwap: number | null;
+}
+
+interface CandlestickChartProps {
+    candles: CandleData;
+    buyMarkers?: BuyMarker[];
+    indicators?: IndicatorSeries; // Aligned with the candles; only the price overlays are drawn here
+    syncId?: string;
+}
+
+const UP = '#10B981';
+const DOWN = '#EF4444';
+const DAY_SECONDS = 24 * 60 * 60;
+
+const isIntraday = (interval: CandleInterval) => !['1d', '1wk'].includes(interval);
+
+function formatBarTime(t: number, interval: CandleInterval, withTime = isIntraday(interval)) {
+    const date = new Date(t * 1000);
+    if (withTime) {
+        return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+    }
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+}
+
+// Bar over [low, high]: the wick spans the whole bar, the body spans open..close
+function CandleShape(props: any) {
+    const { x, y, width, height, payload } = props;
+    if (!payload || !Number.isFinite(y)) return null;
+
+    const { o, h, l, c } = payload as CandleRow;
+    const color = c >= o ? UP : DOWN;
+    const toY = (value: number) => (h === l ? y : y + ((h - value) / (h - l)) * height);
+    const bodyTop = toY(Math.max(o, c));
+    const bodyHeight = Math.max(1, toY(Math.min(o, c)) - bodyTop);
+    const bodyWidth = Math.max(1, width * 0.7);
+    const center = x + width / 2;
+
+    return (
+        <g>
+            <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+            <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+        </g>
+    );
+}
+
+function VolumeShape(props: any) {
+    const { x, y, width, height, payload } = props;
+    if (!payload || !Number.isFinite(y)) return null;
+    return <rect x={x} y={y} width={width} height={height} fill={payload.c >= payload.o ? UP : DOWN} fillOpacity={0.25} />;
+}
+
+function CandleTooltip({ active, payload, interval, currency }: any) {
+    if (!active || !payload?.length) return null;
+    const row: CandleRow = payload[0].payload;
+    const change = row.o > 0 ? ((row.c - row.o) / row.o) * 100 : 0;
+    const price = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    return (
+        <div className="bg-[#1a1a1f]/95 border border-white/20 rounded-xl px-3 py-2 backdrop-blur-xl shadow-2xl text-xs">
+            <p className="text-white/60 mb-1">{formatBarTime(row.t, interval)}</p>
+            <div className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5">
+                <span className="text-white/40">Open</span><span className="text-white text-right">{price(row.o)}</span>
+                <span className="text-white/40">High</span><span className="text-white text-right">{price(row.h)}</span>
+                <span className="text-white/40">Low</span><span className="text-white text-right">{price(row.l)}</span>
+                <span className="text-white/40">Close</span>
+                <span className={`text-right font-semibold ${change >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {price(row.c)} ({change >= 0 ? '+' : ''}{change.toFixed(2)}%)
+                </span>
+                <span className="text-white/40">Volume</span><span className="text-white text-right">{row.v.toLocaleString('en-US')}</span>
+                {([
+                    ['SMA', row.sma, INDICATOR_COLORS.sma],
+                    ['EMA', row.ema, INDICATOR_COLORS.ema],
+                    ['BB Upper', row.bbUpper, INDICATOR_COLORS.bollinger],
+                    ['BB Lower', row.bbLower, INDICATOR_COLORS.bollinger],
+                    ['VWAP', row.vwap, INDICATOR_COLORS.vwap],
+                ] as const).filter(([, value]) => value !== null).map(([label, value, color]) => (
+                    <React.Fragment key={label}>
+                        <span style={{ color }}>{label}</span><span className="text-white text-right">{price(value as number)}</span>
+                    </React.Fragment>
+                ))}
+            </div>
+            {currency && <p className="text-white/30 mt-1">{currency}</p>}
+        </div>
+    );
+}
+
+const NO_INDICATORS: IndicatorSeries = {};
+
+const CandlestickChart = React.memo(({ candles, buyMarkers = [], indicators = NO_INDICATORS, syncId }: CandlestickChartProps) => {
+    const [hover, setHover] = useState<{ t: number; c: number } | null>(null);
+
+    const rows = useMemo<CandleRow[]>(() => candles.t
+        .map((t, i) => ({
+            t,
+            o: candles.o[i],
+            h: candles.h[i],
+            l: candles.l[i],
+            c: candles.c[i],
+            v: candles.v[i] || 0,
+            range: [candles.l[i], candles.h[i]] as [number, number],
+            sma: indicators.sma?.[i] ?? null,
+            ema: indicators.ema?.[i] ?? null,
+            bbUpper: indicators.bollinger?.upper[i] ?? null,
+            bbMiddle: indicators.bollinger?.middle[i] ?? null,
+            bbLower: indicators.bollinger?.lower[i] ?? null,
+            vwap: indicators.vwap?.[i] ?? null,
+        })), [candles, indicators]);
+
+    // Lots carry a trade date, not a time: on daily/weekly bars snap to the bar that covers that day,
+    // on intraday bars to the day's first bar. Lots outside the loaded range are off-chart.
+    const markers = useMemo(() => {
+        if (rows.length === 0) return [];
+        const intraday = isIntraday(candles.interval);
+
+        return buyMarkers.flatMap(marker => {
+            const bar = intraday
+                ? rows.find(row => row.t >= marker.timestamp && row.t < marker.timestamp + DAY_SECONDS)
+                : [...rows].reverse().find(row => row.t < marker.timestamp + DAY_SECONDS);
+            if (!bar) return [];
+            return [{ ...marker, t: bar.t, y: marker.price ?? bar.c }];
+        });
+    }, [rows, buyMarkers, candles.interval]);
+
+    const { priceDomain, volumeMax } = useMemo(() => {
+        // Lots bought outside the bars' range still get a visible marker; bands stay on-chart too
+        const overlays = rows.flatMap(row => [row.bbUpper, row.bbLower, row.sma, row.ema, row.vwap])
+            .filter((v): v is number => v !== null);
+        const lows = [...rows.map(row => row.l), ...markers.map(marker => marker.y), ...overlays];
+        const highs = [...rows.map(row => row.h), ...markers.map(marker => marker.y), ...overlays];
+        const min = Math.min(...lows);
+        const max = Math.max(...highs);
+        const span = max - min || max * 0.02 || 1;
+        return {
+            // Extra room below keeps the candles clear of the volume bars in the bottom quarter
+            priceDomain: [min - span * 0.35, max + span * 0.05],
+            volumeMax: Math.max(...rows.map(row => row.v), 1),
+        };
+    }, [rows, markers]);
+
+    if (rows.length === 0) return null;
+
+    return (
+        <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+                data={rows}
+                syncId={syncId}
+                margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+                barCategoryGap="15%"
+                onMouseMove={(state: any) => {
+                    const row = state?.activePayload?.[0]?.payload as CandleRow | undefined;
+                    setHover(row ? { t: row.t, c: row.c } : null);
+                }}
+                onMouseLeave={() => setHover(null)}
+            >
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                <XAxis
+                    dataKey="t"
+                    stroke="rgba(255,255,255,0.2)"
+                    style={{ fontSize: '10px' }}
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={50}
+                    tickFormatter={(t) => formatBarTime(t, candles.interval, candles.interval === '5m' || candles.interval === '15m')}
+                />
+                <YAxis
+                    yAxisId="price"
+                    orientation="right"
+                    stroke="rgba(255,255,255,0.2)"
+                    style={{ fontSize: '10px' }}
+                    tickLine={false}
+                    axisLine={false}
+                    domain={priceDomain}
+                    allowDataOverflow
+                    tickFormatter={(v) => v.toFixed(v >= 100 ? 0 : 2)}
+                    width={50}
+                />
+                <YAxis yAxisId="volume" hide domain={[0, volumeMax * 4]} />
+                <Tooltip
+                    cursor={false}
+                    content={<CandleTooltip interval={candles.interval} currency={candles.currency} />}
+                    isAnimationActive={false}
+                />
+                <Bar yAxisId="volume" dataKey="v" shape={<VolumeShape />} isAnimationActive={false} />
+                <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+
+                {/* Indicator overlays */}
+                {indicators.bollinger && (
+                    <>
+                        <Line yAxisId="price" dataKey="bbUpper" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} strokeDasharray="4 2" dot={false} activeDot={false} isAnimationActive={false} />
+                        <Line yAxisId="price" dataKey="bbMiddle" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} strokeOpacity={0.5} dot={false} activeDot={false} isAnimationActive={false} />
+                        <Line yAxisId="price" dataKey="bbLower" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} strokeDasharray="4 2" dot={false} activeDot={false} isAnimationActive={false} />
+                    </>
+                )}
+                {indicators.sma && (
+                    <Line yAxisId="price" dataKey="sma" stroke={INDICATOR_COLORS.sma} strokeWidth={1.5} dot={false} activeDot={false} isAnimationActive={false} />
+                )}
+                {indicators.ema && (
+                    <Line yAxisId="price" dataKey="ema" stroke={INDICATOR_COLORS.ema} strokeWidth={1.5} dot={false} activeDot={false} isAnimationActive={false} />
+                )}
+                {indicators.vwap && (
+                    <Line yAxisId="price" dataKey="vwap" stroke={INDICATOR_COLORS.vwap} strokeWidth={1.5} dot={false} activeDot={false} isAnimationActive={false} />
+                )}
+
+                {/* Crosshair */}
+                {hover && (
+                    <>
+                        <ReferenceLine yAxisId="price" x={hover.t} stroke="rgba(255,255,255,0.3)" strokeDasharray="3 3" />
+                        <ReferenceLine
+                            yAxisId="price"
+                            y={hover.c}
+                            stroke="rgba(255,255,255,0.3)"
+                            strokeDasharray="3 3"
+                            label={{ value: hover.c.toFixed(2), position: 'right', fill: '#fff', fontSize: 10 }}
+                        />
+                    </>
+                )}
+
+                {markers.map((marker, i) => (
+                    <ReferenceDot
+                        key={`${marker.timestamp}-${i}`}
+                        yAxisId="price"
+                        x={marker.t}
+                        y={marker.y}
+                        r={5}
+                        fill="#22d3ee"
+                        stroke="#0f0f12"
+                        strokeWidth={2}
+                        label={{ value: `B ${marker.quantity}`, position: 'top', fill: '#22d3ee', fontSize: 10 }}
+                    />
+                ))}
+            </ComposedChart>
+        </ResponsiveContainer>
+    );
+});
+
+export default CandlestickChart;
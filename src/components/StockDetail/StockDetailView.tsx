@@ -0,0 +1,453 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Building2, Target, Newspaper, Activity, ExternalLink, TrendingUp, TrendingDown } from 'lucide-react';
+import {
+    BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveContainer, Legend,
+} from 'recharts';
+import {
+    stocksAPI, CandleData, CandleInterval, ExtendedQuote, CompanyProfile, RecommendationTrend, PriceTarget,
+    BasicFinancials, NewsItem,
+} from '@/api/stocks';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { navigate } from '@/hooks/use-route';
+import { useIndicatorSettings } from '@/hooks/use-indicator-settings';
+import { computeIndicators, sliceIndicators } from '@/services/indicators';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import IndicatorPicker from '@/components/Indicators/IndicatorPicker';
+import IndicatorPanes from '@/components/Indicators/IndicatorPanes';
+import CandlestickChart, { BuyMarker } from './CandlestickChart';
+
+type ChartRange = '1D' | '5D' | '1M' | '6M' | '1Y' | '5Y';
+
+// Lookback per range plus earlier bars loaded only to warm up indicators.
+// The server caps intraday lookbacks (5m/15m: 60 days, 1h: 730).
+const RANGES: Record<ChartRange, { interval: CandleInterval; days: number; warmupDays: number }> = {
+    '1D': { interval: '5m', days: 1, warmupDays: 4 }, // Shown from the latest session (weekends, holidays)
+    '5D': { interval: '15m', days: 7, warmupDays: 7 },
+    '1M': { interval: '1h', days: 31, warmupDays: 31 },
+    '6M': { interval: '1d', days: 183, warmupDays: 365 },
+    '1Y': { interval: '1d', days: 365, warmupDays: 365 },
+    '5Y': { interval: '1wk', days: 5 * 365, warmupDays: 5 * 365 },
+};
+
+// A break longer than this between intraday bars separates two sessions
+const SESSION_GAP_SECONDS = 3 * 60 * 60;
+
+function latestSessionStart(candles: CandleData): number {
+    let start = candles.t.length - 1;
+    while (start > 0 && candles.t[start] - candles.t[start - 1] < SESSION_GAP_SECONDS) start--;
+    return Math.max(0, start);
+}
+
+function sliceCandles(candles: CandleData, start: number): CandleData {
+    const from = <T,>(values: T[]) => values.slice(start);
+    return {
+        ...candles,
+        t: from(candles.t), o: from(candles.o), h: from(candles.h), l: from(candles.l),
+        c: from(candles.c), adjc: from(candles.adjc), rawc: from(candles.rawc), v: from(candles.v),
+    };
+}
+
+// Finnhub reports market cap in millions
+function formatMarketCap(millions: number) {
+    if (millions >= 1_000_000) return `${(millions / 1_000_000).toFixed(2)}T`;
+    if (millions >= 1_000) return `${(millions / 1_000).toFixed(2)}B`;
+    return `${millions.toFixed(0)}M`;
+}
+
+const formatMoney = (value: number, currency: string) =>
+    value.toLocaleString('en-US', { style: 'currency', currency });
+
+const Skeleton = ({ className = '' }: { className?: string }) => (
+    <div className={`animate-pulse bg-white/10 rounded-xl ${className}`} />
+);
+
+function Stat({ label, value }: { label: string; value: string | null }) {
+    return (
+        <div className="bg-white/5 rounded-xl p-3">
+            <div className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1">{label}</div>
+            <div className="font-semibold text-white text-sm">{value ?? '—'}</div>
+        </div>
+    );
+}
+
+interface StockDetailViewProps {
+    symbol: string;
+}
+
+export function StockDetailView({ symbol }: StockDetailViewProps) {
+    const { positions } = usePortfolio();
+    const { settings: indicatorSettings } = useIndicatorSettings();
+    const [range, setRange] = useState<ChartRange>('6M');
+    // Loaded bars (warm-up included) and the index of the first bar on screen
+    const [history, setHistory] = useState<{ data: CandleData; start: number } | null>(null);
+    const [chartLoading, setChartLoading] = useState(true);
+    const [chartError, setChartError] = useState<string | null>(null);
+
+    const [loading, setLoading] = useState(true);
+    const [quote, setQuote] = useState<ExtendedQuote | null>(null);
+    const [profile, setProfile] = useState<CompanyProfile | null>(null);
+    const [recommendations, setRecommendations] = useState<RecommendationTrend[]>([]);
+    const [priceTarget, setPriceTarget] = useState<PriceTarget | null>(null);
+    const [financials, setFinancials] = useState<BasicFinancials | null>(null);
+    const [news, setNews] = useState<NewsItem[]>([]);
+
+    // ─── Quote, profile, analysts, financials, news ───────────────
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+
+        Promise.allSettled([
+            stocksAPI.getExtendedQuote(symbol),
+            stocksAPI.getCompanyProfile(symbol),
+            stocksAPI.getAnalystRecommendations(symbol),
+            stocksAPI.getPriceTarget(symbol),
+            stocksAPI.getBasicFinancials(symbol),
+            stocksAPI.getStockNews(symbol),
+        ]).then(([quoteResult, profileResult, recsResult, targetResult, metricsResult, newsResult]) => {
+            if (cancelled) return;
+            const value = <T,>(result: PromiseSettledResult<T>) => (result.status === 'fulfilled' ? result.value : null);
+
+            setQuote(value(quoteResult));
+            const profileData = value(profileResult);
+            setProfile(profileData && profileData.name ? profileData : null);
+            setRecommendations(value(recsResult) || []);
+            const target = value(targetResult);
+            setPriceTarget(target && target.targetMean ? target : null);
+            setFinancials(value(metricsResult));
+            setNews((value(newsResult) as NewsItem[] | null) || []);
+            setLoading(false);
+        });
+
+        return () => { cancelled = true; };
+    }, [symbol]);
+
+    // ─── Candles for the selected range ───────────────────────────
+    useEffect(() => {
+        let cancelled = false;
+        const { interval, days, warmupDays } = RANGES[range];
+        const to = Math.floor(Date.now() / 1000);
+        const from = to - days * 24 * 60 * 60;
+
+        setChartLoading(true);
+        setChartError(null);
+        stocksAPI.getStockHistory(symbol, from - warmupDays * 24 * 60 * 60, to, interval)
+            .then(data => {
+                if (cancelled) return;
+                const firstShown = data.t.findIndex(t => t >= from);
+                const start = range === '1D' ? latestSessionStart(data) : firstShown === -1 ? data.t.length : firstShown;
+                setHistory({ data, start });
+            })
+            .catch((err: any) => {
+                if (cancelled) return;
+                setHistory(null);
+                setChartError(err.response?.data?.message || 'Failed to load chart');
+            })
+            .finally(() => {
+                if (!cancelled) setChartLoading(false);
+            });
+
+        return () => { cancelled = true; };
+    }, [symbol, range]);
+
+    const candles = useMemo(() => history && sliceCandles(history.data, history.start), [history]);
+
+    // ─── Indicators (computed over the warm-up, shown from the first visible bar) ──
+    const indicators = useMemo(() => {
+        if (!history || history.data.s !== 'ok') return {};
+        const intraday = !['1d', '1wk'].includes(history.data.interval);
+        const all = computeIndicators(history.data, indicatorSettings, { intraday, anchor: history.start });
+        return sliceIndicators(all, history.start);
+    }, [history, indicatorSettings]);
+
+    // ─── Our lots as buy markers ──────────────────────────────────
+    const holdings = useMemo(() => positions.filter(p => p.symbol === symbol), [positions, symbol]);
+    const buyMarkers = useMemo<BuyMarker[]>(() => holdings
+        .flatMap(position => position.lots || [])
+        .map(lot => ({
+            timestamp: Math.floor(new Date(lot.date).getTime() / 1000),
+            // Lot prices are USD; on other listings the marker sits on the bar's close
+            price: candles?.currency === 'USD' ? Number(lot.price) : null,
+            quantity: Number(lot.quantity),
+        })), [holdings, candles?.currency]);
+
+    const currency = quote?.listingCurrency || candles?.currency || 'USD';
+    const price = quote ? (quote.listingPrice ?? quote.regularMarketPrice) : null;
+    const isPositive = (quote?.regularMarketChangePercent ?? 0) >= 0;
+    const metric = financials?.metric;
+
+    const trendData = useMemo(() => [...recommendations]
+        .sort((a, b) => a.period.localeCompare(b.period))
+        .slice(-6)
+        .map(rec => ({
+            period: new Date(rec.period).toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+            'Strong Buy': rec.strongBuy,
+            Buy: rec.buy,
+            Hold: rec.hold,
+            Sell: rec.sell,
+            'Strong Sell': rec.strongSell,
+        })), [recommendations]);
+
+    const sharesHeld = holdings.reduce((sum, p) => sum + p.quantity, 0);
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => navigate('/')}
+                        className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white border border-white/10 transition-all"
+                        title="Back to portfolio"
+                    >
+                        <ArrowLeft className="w-4 h-4" />
+                    </button>
+                    {profile?.logo ? (
+                        <img src={profile.logo} alt={profile.name} className="w-12 h-12 rounded-xl bg-white object-contain p-1" />
+                    ) : (
+                        <div className="w-12 h-12 rounded-xl bg-cyan-500/20 flex items-center justify-center">
+                            <span className="text-cyan-400 text-sm font-bold">{symbol.slice(0, 2)}</span>
+                        </div>
+                    )}
+                    <div>
+                        <h1 className="text-2xl font-bold text-white">{symbol}</h1>
+                        <p className="text-sm text-white/50">
+                            {profile?.name || holdings[0]?.name || (loading ? 'Loading…' : '')}
+                            {quote?.exchange && <span className="text-white/30"> · {quote.exchange}</span>}
+                        </p>
+                    </div>
+                </div>
+
+                {price !== null && (
+                    <div className="md:text-right">
+                        <div className="text-3xl font-bold text-white">{formatMoney(price, currency)}</div>
+                        <div className={`flex md:justify-end items-center gap-1 text-sm font-semibold ${isPositive ? 'text-emerald-400' : 'text-rose-500'}`}>
+                            {isPositive ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                            {isPositive ? '+' : ''}{quote!.regularMarketChangePercent.toFixed(2)}% today
+                            {sharesHeld > 0 && (
+                                <span className="text-white/40 font-normal ml-2">
+                                    · You hold {sharesHeld.toLocaleString(undefined, { maximumFractionDigits: 4 })} shares
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Candlestick Chart */}
+            <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+                <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                    <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                        <Activity className="w-5 h-5 text-cyan-400" />
+                        Price
+                        {candles?.currency && <span className="text-xs font-normal text-white/40">{candles.currency}</span>}
+                    </CardTitle>
+                    <div className="flex items-center gap-1">
+                        <IndicatorPicker />
+                        {(Object.keys(RANGES) as ChartRange[]).map(r => (
+                            <button
+                                key={r}
+                                onClick={() => setRange(r)}
+                                className={`px-3 py-1 text-xs font-medium rounded-lg transition-all ${range === r
+                                    ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                                    : 'text-white/40 hover:text-white/60 hover:bg-white/5'
+                                    }`}
+                            >
+                                {r}
+                            </button>
+                        ))}
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {chartLoading && !candles ? (
+                        <div className="w-full h-[420px] bg-white/5 animate-pulse rounded-xl" />
+                    ) : candles && candles.s === 'ok' && candles.t.length > 0 ? (
+                        <div className={`transition-opacity ${chartLoading ? 'opacity-50' : ''}`}>
+                            <div className="h-[420px]">
+                                <CandlestickChart candles={candles} buyMarkers={buyMarkers} indicators={indicators} syncId="stock-detail" />
+                            </div>
+                            <IndicatorPanes timestamps={candles.t} indicators={indicators} syncId="stock-detail" />
+                        </div>
+                    ) : (
+                        <div className="h-[420px] flex items-center justify-center text-zinc-500 text-sm">
+                            {chartError || 'No price data for this range'}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Company Profile */}
+                <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                            <Building2 className="w-5 h-5 text-indigo-400" />
+                            Company
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {loading ? (
+                            <div className="grid grid-cols-2 gap-3">
+                                {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-14" />)}
+                            </div>
+                        ) : profile ? (
+                            <div className="space-y-3">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <Stat label="Industry" value={profile.finnhubIndustry || null} />
+                                    <Stat label="Country" value={profile.country || null} />
+                                    <Stat label="Market Cap" value={profile.marketCapitalization ? `${formatMarketCap(profile.marketCapitalization)} ${profile.currency || ''}`.trim() : null} />
+                                    <Stat label="IPO" value={profile.ipo ? new Date(profile.ipo).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : null} />
+                                </div>
+                                <div className="text-xs text-white/40">{profile.exchange}</div>
+                                {profile.weburl && (
+                                    <a
+                                        href={profile.weburl}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300"
+                                    >
+                                        {profile.weburl.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '')}
+                                        <ExternalLink className="w-3 h-3" />
+                                    </a>
+                                )}
+                            </div>
+                        ) : (
+                            <p className="text-zinc-500 text-sm">No company profile available.</p>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Basic Financials */}
+                <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                            <Activity className="w-5 h-5 text-emerald-400" />
+                            Key Stats
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {loading ? (
+                            <div className="grid grid-cols-2 gap-3">
+                                {Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-14" />)}
+                            </div>
+                        ) : metric ? (
+                            <div className="grid grid-cols-2 gap-3">
+                                <Stat label="52W High" value={metric['52WeekHigh'] ? formatMoney(metric['52WeekHigh'], currency) : null} />
+                                <Stat label="52W Low" value={metric['52WeekLow'] ? formatMoney(metric['52WeekLow'], currency) : null} />
+                                <Stat label="P/E (TTM)" value={metric.peTTM ? metric.peTTM.toFixed(1) : null} />
+                                <Stat label="EPS (TTM)" value={metric.epsTTM ? metric.epsTTM.toFixed(2) : null} />
+                                <Stat label="Beta" value={metric.beta ? metric.beta.toFixed(2) : null} />
+                                <Stat label="Div Yield" value={metric.dividendYieldIndicatedAnnual ? `${metric.dividendYieldIndicatedAnnual.toFixed(2)}%` : null} />
+                            </div>
+                        ) : (
+                            <p className="text-zinc-500 text-sm">No financial data available.</p>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Analyst Trends & Price Target */}
+                <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                            <Target className="w-5 h-5 text-amber-400" />
+                            Analysts
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {loading ? (
+                            <Skeleton className="h-[220px]" />
+                        ) : trendData.length === 0 && !priceTarget ? (
+                            <p className="text-zinc-500 text-sm">No analyst coverage.</p>
+                        ) : (
+                            <div className="space-y-4">
+                                {trendData.length > 0 && (
+                                    <div className="h-[160px]">
+                                        <ResponsiveContainer width="100%" height="100%">
+                                            <BarChart data={trendData} margin={{ top: 0, right: 0, left: -25, bottom: 0 }}>
+                                                <XAxis dataKey="period" stroke="rgba(255,255,255,0.2)" style={{ fontSize: '10px' }} tickLine={false} axisLine={false} />
+                                                <YAxis stroke="rgba(255,255,255,0.2)" style={{ fontSize: '10px' }} tickLine={false} axisLine={false} allowDecimals={false} />
+                                                <RechartsTooltip
+                                                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                                    contentStyle={{ background: 'rgba(26,26,31,0.95)', border: '1px solid rgba(255,255,255,0.2)', borderRadius: 12, fontSize: 12 }}
+                                                />
+                                                <Legend iconSize={8} wrapperStyle={{ fontSize: '10px' }} />
+                                                <Bar dataKey="Strong Sell" stackId="recs" fill="#be123c" />
+                                                <Bar dataKey="Sell" stackId="recs" fill="#f43f5e" />
+                                                <Bar dataKey="Hold" stackId="recs" fill="#f59e0b" />
+                                                <Bar dataKey="Buy" stackId="recs" fill="#34d399" />
+                                                <Bar dataKey="Strong Buy" stackId="recs" fill="#059669" />
+                                            </BarChart>
+                                        </ResponsiveContainer>
+                                    </div>
+                                )}
+
+                                {priceTarget && (
+                                    <div className="space-y-2">
+                                        <div className="flex justify-between text-[10px] text-zinc-500 uppercase tracking-wider">
+                                            <span>Price Target</span>
+                                            {price !== null && (
+                                                <span className={priceTarget.targetMean >= price ? 'text-emerald-400' : 'text-rose-400'}>
+                                                    {priceTarget.targetMean >= price ? '+' : ''}{(((priceTarget.targetMean / price) - 1) * 100).toFixed(1)}% to mean
+                                                </span>
+                                            )}
+                                        </div>
+                                        {/* Low ── mean ── high, with the current price marked */}
+                                        <div className="relative h-1.5 rounded-full bg-gradient-to-r from-rose-500/60 via-amber-500/60 to-emerald-500/60">
+                                            {[priceTarget.targetMean, price].map((value, i) => value !== null && priceTarget.targetHigh > priceTarget.targetLow && (
+                                                <div
+                                                    key={i}
+                                                    className={`absolute -top-1 w-1 h-3.5 rounded-full ${i === 0 ? 'bg-white' : 'bg-cyan-400'}`}
+                                                    style={{ left: `${Math.min(100, Math.max(0, ((value - priceTarget.targetLow) / (priceTarget.targetHigh - priceTarget.targetLow)) * 100))}%` }}
+                                                />
+                                            ))}
+                                        </div>
+                                        <div className="flex justify-between text-xs">
+                                            <span className="text-white/50">Low {formatMoney(priceTarget.targetLow, currency)}</span>
+                                            <span className="text-white font-semibold">Mean {formatMoney(priceTarget.targetMean, currency)}</span>
+                                            <span className="text-white/50">High {formatMoney(priceTarget.targetHigh, currency)}</span>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Company News */}
+            <Card className="bg-white/5 backdrop-blur-md border-white/10 rounded-2xl shadow-lg">
+                <CardHeader className="pb-2">
+                    <CardTitle className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                        <Newspaper className="w-5 h-5 text-cyan-400" />
+                        News
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="space-y-3">
+                            {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-14" />)}
+                        </div>
+                    ) : news.length === 0 ? (
+                        <p className="text-zinc-500 text-sm">No recent news for {symbol}.</p>
+                    ) : (
+                        <div className="divide-y divide-white/5">
+                            {news.slice(0, 10).map(item => (
+                                <a
+                                    key={item.id}
+                                    href={item.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="block py-3 group"
+                                >
+                                    <p className="text-sm text-white/90 group-hover:text-cyan-400 transition-colors line-clamp-2">{item.headline}</p>
+                                    <p className="text-xs text-white/40 mt-1">
+                                        {item.source} · {new Date(item.datetime * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                                    </p>
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
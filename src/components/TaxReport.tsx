@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, Receipt } from 'lucide-react';
+import { taxAPI, TaxReport as TaxReportData, TaxRules, UsDisposal, IlDisposal, UsTermSummary } from '@/api/tax';
+import { useAuth } from '@/context/AuthContext';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { Button } from '@/components/ui/button';
+import { saveFile } from './ExportDialog';
+
+const RULES: { value: TaxRules; label: string }[] = [
+    { value: 'us', label: 'US' },
+    { value: 'il', label: 'Israel' },
+];
+
+const formatMoney = (value: number, symbol = '$') =>
+    `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const shekels = (value: number) => formatMoney(value, '₪');
+
+const gainColor = (value: number) => (value < 0 ? 'text-rose-400' : value > 0 ? 'text-emerald-400' : 'text-white/60');
+
+function SummaryTile({ label, value, color = 'text-white', detail }: { label: string; value: string; color?: string; detail?: string }) {
+    return (
+        <div className="bg-white/5 rounded-xl px-3 py-2.5">
+            <div className="text-[10px] text-white/40 uppercase tracking-wider">{label}</div>
+            <div className={`text-lg font-bold font-mono ${color}`}>{value}</div>
+            {detail && <div className="text-[10px] text-white/40">{detail}</div>}
+        </div>
+    );
+}
+
+const termDetail = (bucket: UsTermSummary) =>
+    `${bucket.count} lot${bucket.count === 1 ? '' : 's'}${bucket.washSaleDisallowed > 0 ? ` · ${formatMoney(bucket.washSaleDisallowed)} wash-sale adjusted` : ''}`;
+
+function UsTable({ disposals }: { disposals: UsDisposal[] }) {
+    return (
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-xs text-white/50 border-b border-white/10">
+                    <th className="text-left font-normal py-2 pr-3">Symbol</th>
+                    <th className="text-left font-normal py-2 pr-3">Acquired</th>
+                    <th className="text-left font-normal py-2 pr-3">Sold</th>
+                    <th className="text-right font-normal py-2 pr-3">Shares</th>
+                    <th className="text-left font-normal py-2 pr-3">Term</th>
+                    <th className="text-right font-normal py-2 pr-3">Proceeds</th>
+                    <th className="text-right font-normal py-2 pr-3">Cost Basis</th>
+                    <th className="text-right font-normal py-2 pr-3">Gain</th>
+                    <th className="text-right font-normal py-2">Reportable</th>
+                </tr>
+            </thead>
+            <tbody>
+                {disposals.map((d, i) => (
+                    <tr key={`${d.saleId}-${d.lotId ?? i}`} className="border-b border-white/5 hover:bg-white/5 transition-colors">
+                        <td className="py-2 pr-3 font-semibold text-white">{d.symbol}</td>
+                        <td className="py-2 pr-3 text-white/60 whitespace-nowrap">{d.acquired ?? 'Various'}</td>
+                        <td className="py-2 pr-3 text-white/60 whitespace-nowrap">{d.sold}</td>
+                        <td className="py-2 pr-3 text-right text-white/70">{d.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                        <td className="py-2 pr-3 text-white/60 capitalize">{d.term ?? '—'}</td>
+                        <td className="py-2 pr-3 text-right text-white/70">{formatMoney(d.proceeds)}</td>
+                        <td className="py-2 pr-3 text-right text-white/70" title={d.basisAdjustment ? `Includes ${formatMoney(d.basisAdjustment)} from an earlier wash sale` : undefined}>
+                            {formatMoney(d.costBasis)}{d.basisAdjustment > 0 && <span className="text-amber-400">*</span>}
+                        </td>
+                        <td className={`py-2 pr-3 text-right ${gainColor(d.gain)}`}>{formatMoney(d.gain)}</td>
+                        <td className={`py-2 text-right font-medium ${gainColor(d.reportableGain)}`}>
+                            {formatMoney(d.reportableGain)}
+                            {d.washSaleDisallowed > 0 && (
+                                <span
+                                    className="block text-[10px] text-amber-400"
+                                    title={`Replacement shares: ${d.washSaleReplacements.map(r => `${r.quantity} bought ${r.date}`).join(', ')}`}
+                                >
+                                    Wash sale · {formatMoney(d.washSaleDisallowed)} disallowed
+                                </span>
+                            )}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function IlTable({ disposals }: { disposals: IlDisposal[] }) {
+    return (
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-xs text-white/50 border-b border-white/10">
+                    <th className="text-left font-normal py-2 pr-3">Symbol</th>
+                    <th className="text-left font-normal py-2 pr-3">Acquired</th>
+                    <th className="text-left font-normal py-2 pr-3">Sold</th>
+                    <th className="text-right font-normal py-2 pr-3">Shares</th>
+                    <th className="text-right font-normal py-2 pr-3">Cost (₪)</th>
+                    <th className="text-right font-normal py-2 pr-3">Proceeds (₪)</th>
+                    <th className="text-right font-normal py-2 pr-3">Nominal Gain</th>
+                    <th className="text-right font-normal py-2 pr-3">Inflationary</th>
+                    <th className="text-right font-normal py-2">Real Gain</th>
+                </tr>
+            </thead>
+            <tbody>
+                {disposals.map((d, i) => (
+                    <tr key={`${d.saleId}-${d.lotId ?? i}`} className="border-b border-white/5 hover:bg-white/5 transition-colors">
+                        <td className="py-2 pr-3 font-semibold text-white">{d.symbol}</td>
+                        <td className="py-2 pr-3 text-white/60 whitespace-nowrap">{d.acquired ?? 'Various'}</td>
+                        <td className="py-2 pr-3 text-white/60 whitespace-nowrap">{d.sold}</td>
+                        <td className="py-2 pr-3 text-right text-white/70">{d.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                        <td className="py-2 pr-3 text-right text-white/70" title={`${formatMoney(d.costBasis)} at ${d.fxBuy}`}>{shekels(d.costIls)}</td>
+                        <td className="py-2 pr-3 text-right text-white/70" title={`${formatMoney(d.proceeds)} at ${d.fxSale}`}>{shekels(d.proceedsIls)}</td>
+                        <td className={`py-2 pr-3 text-right ${gainColor(d.nominalGainIls)}`}>{shekels(d.nominalGainIls)}</td>
+                        <td className="py-2 pr-3 text-right text-white/50">{d.inflationaryIls ? shekels(d.inflationaryIls) : '—'}</td>
+                        <td className={`py-2 text-right font-medium ${gainColor(d.realGainIls)}`}>{shekels(d.realGainIls)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+/**
+ * Realized gains per tax year: US short / long term with wash sales, or Israeli real gain at 25%,
+ * with a CSV download of the year
+ */
+export function TaxReport() {
+    const { user } = useAuth();
+    const { activePortfolioId, positions } = usePortfolio();
+    const [rules, setRules] = useState<TaxRules>(user?.displayCurrency === 'ILS' ? 'il' : 'us');
+    const [year, setYear] = useState<number | undefined>(undefined);
+    const [report, setReport] = useState<TaxReportData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [downloading, setDownloading] = useState(false);
+    const [error, setError] = useState('');
+
+    // Sales change realized gains; prices don't
+    const salesKey = useMemo(() => positions.map(p => `${p.symbol}:${p.quantity}`).join(','), [positions]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const fetchReport = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const data = await taxAPI.getReport(rules, year);
+                if (!cancelled) setReport(data);
+            } catch (err: any) {
+                if (!cancelled) setError(err.response?.data?.message || 'Failed to load tax report');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        fetchReport();
+        return () => { cancelled = true; };
+    }, [rules, year, activePortfolioId, salesKey]);
+
+    const handleDownload = async () => {
+        if (!report) return;
+        setDownloading(true);
+        try {
+            const { blob, filename } = await taxAPI.downloadCsv(report.rules, report.year);
+            saveFile(blob, filename);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to download tax report');
+        } finally {
+            setDownloading(false);
+        }
+    };
+
+    return (
+        <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4 md:p-5">
+            <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-white/90 flex items-center gap-2">
+                    <Receipt className="w-5 h-5 text-amber-400" />
+                    Capital Gains
+                </h3>
+                <div className="flex items-center gap-2">
+                    <div className="flex gap-1">
+                        {RULES.map(r => (
+                            <button
+                                key={r.value}
+                                onClick={() => setRules(r.value)}
+                                className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-all ${rules === r.value
+                                    ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                                    : 'text-white/40 hover:text-white/60 hover:bg-white/5'
+                                    }`}
+                            >
+                                {r.label}
+                            </button>
+                        ))}
+                    </div>
+                    {report && report.years.length > 0 && (
+                        <select
+                            value={report.year}
+                            onChange={(e) => setYear(Number(e.target.value))}
+                            className="h-8 rounded-md bg-white/5 border border-white/10 px-2 text-xs text-white focus:outline-none focus:border-cyan-500/50"
+                        >
+                            {/* The chosen year stays listed even when another portfolio has no sales in it */}
+                            {[...new Set([report.year, ...report.years])].sort((a, b) => b - a).map(y => (
+                                <option key={y} value={y} className="bg-[#1a1a1f]">{y}</option>
+                            ))}
+                        </select>
+                    )}
+                    <Button
+                        onClick={handleDownload}
+                        disabled={!report || report.disposals.length === 0 || downloading}
+                        className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 border border-cyan-500/30 h-8 text-xs"
+                    >
+                        <Download className="w-4 h-4 mr-1" /> {downloading ? 'Preparing...' : 'CSV'}
+                    </Button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="mb-4 p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {loading && !report ? (
+                <div className="space-y-2">
+                    {[0, 1, 2].map(i => (
+                        <div key={i} className="h-10 bg-white/5 rounded-lg animate-pulse" />
+                    ))}
+                </div>
+            ) : !report || report.disposals.length === 0 ? (
+                <p className="text-sm text-white/40 py-8 text-center">
+                    No sales{report?.year ? ` in ${report.year}` : ''}. Realized gains appear here once you sell shares.
+                </p>
+            ) : (
+                <div className={`space-y-4 transition-opacity ${loading ? 'opacity-50' : ''}`}>
+                    {report.rules === 'us' ? (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <SummaryTile label="Short-Term" value={formatMoney(report.summary.shortTerm.reportableGain)} color={gainColor(report.summary.shortTerm.reportableGain)} detail={termDetail(report.summary.shortTerm)} />
+                            <SummaryTile label="Long-Term" value={formatMoney(report.summary.longTerm.reportableGain)} color={gainColor(report.summary.longTerm.reportableGain)} detail={termDetail(report.summary.longTerm)} />
+                            <SummaryTile label="Wash Sales" value={String(report.summary.washSales)} color={report.summary.washSales > 0 ? 'text-amber-400' : 'text-white/70'} detail="Losses moved into replacement shares" />
+                            <SummaryTile label="Total Reportable" value={formatMoney(report.summary.reportableGain)} color={gainColor(report.summary.reportableGain)} />
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <SummaryTile label="Nominal Gain" value={shekels(report.summary.nominalGainIls)} color={gainColor(report.summary.nominalGainIls)} detail={`${report.summary.count} lot${report.summary.count === 1 ? '' : 's'} sold`} />
+                            <SummaryTile label="Inflationary (Exempt)" value={shekels(report.summary.inflationaryIls)} color="text-white/70" detail="Shekel weakening vs the dollar" />
+                            <SummaryTile
+                                label="Net Real Gain"
+                                value={shekels(report.summary.netRealGainIls)}
+                                color={gainColor(report.summary.netRealGainIls)}
+                                detail={`Gains ${shekels(report.summary.realGainsIls)} · losses ${shekels(report.summary.realLossesIls)}`}
+                            />
+                            <SummaryTile
+                                label={`Estimated Tax (${report.summary.rate}%)`}
+                                value={shekels(report.summary.estimatedTaxIls)}
+                                color="text-amber-400"
+                                detail={report.summary.lossCarryForwardIls > 0 ? `${shekels(report.summary.lossCarryForwardIls)} loss to carry forward` : undefined}
+                            />
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        {report.rules === 'us' ? <UsTable disposals={report.disposals} /> : <IlTable disposals={report.disposals} />}
+                    </div>
+
+                    {report.notes.length > 0 && (
+                        <ul className="text-xs text-amber-400/80 space-y-0.5">
+                            {report.notes.map(note => <li key={note}>{note}</li>)}
+                        </ul>
+                    )}
+                    <p className="text-[10px] text-white/30">
+                        {report.rules === 'us'
+                            ? 'Long-term means held more than a year. A loss is a wash sale when the same symbol was bought within 30 days before or after, in any portfolio.'
+                            : 'Cost and proceeds use the USD/ILS rate of each day; the gain from a weaker shekel is exempt. Fees, surtax and the substantial-shareholder rate are not included.'}
+                        {' '}For reference only, not tax advice.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
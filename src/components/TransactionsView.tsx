@@ -0,0 +1,400 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, X, Trash2, Wallet, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { transactionsAPI, Ledger, TransactionType } from '@/api/transactions';
+import { usePortfolio } from '@/context/PortfolioContext';
+import { SimpleDialog } from './SimpleDialog';
+import { TaxReport } from './TaxReport';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+// ─── Constants ──────────────────────────────────────────────────
+const TYPES: { value: TransactionType; label: string }[] = [
+    { value: 'deposit', label: 'Deposit' },
+    { value: 'withdrawal', label: 'Withdrawal' },
+    { value: 'buy', label: 'Buy' },
+    { value: 'sell', label: 'Sell' },
+    { value: 'dividend', label: 'Dividend' },
+    { value: 'fee', label: 'Fee' },
+];
+
+const TYPE_STYLES: Record<TransactionType, string> = {
+    deposit: 'bg-emerald-500/15 text-emerald-400',
+    withdrawal: 'bg-rose-500/15 text-rose-400',
+    buy: 'bg-cyan-500/15 text-cyan-400',
+    sell: 'bg-indigo-500/15 text-indigo-400',
+    dividend: 'bg-amber-500/15 text-amber-400',
+    fee: 'bg-white/10 text-white/60',
+};
+
+const formatMoney = (value: number) =>
+    `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// ─── Add Transaction Dialog ─────────────────────────────────────
+function AddTransactionDialog({ open, onClose, onSaved }: { open: boolean; onClose: () => void; onSaved: () => void }) {
+    const { recordTransaction } = usePortfolio();
+    const [type, setType] = useState<TransactionType>('deposit');
+    const [symbol, setSymbol] = useState('');
+    const [quantity, setQuantity] = useState('');
+    const [price, setPrice] = useState('');
+    const [amount, setAmount] = useState('');
+    const [fee, setFee] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [note, setNote] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    // Reset the form each time the dialog opens
+    useEffect(() => {
+        if (open) {
+            setType('deposit');
+            setSymbol('');
+            setQuantity('');
+            setPrice('');
+            setAmount('');
+            setFee('');
+            setDate(new Date().toISOString().split('T')[0]);
+            setNote('');
+            setError('');
+        }
+    }, [open]);
+
+    const isTrade = type === 'buy' || type === 'sell';
+    // Dividends may optionally reference the paying symbol
+    const showSymbol = isTrade || type === 'dividend';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (loading) return;
+        setError('');
+        setLoading(true);
+        try {
+            await recordTransaction({
+                type,
+                symbol: showSymbol && symbol ? symbol.toUpperCase() : undefined,
+                quantity: isTrade ? Number(quantity) : undefined,
+                price: isTrade ? Number(price) : undefined,
+                amount: isTrade ? undefined : Number(amount),
+                fee: Number(fee) || 0,
+                date,
+                note: note || undefined,
+            });
+            onSaved();
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to record transaction');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <SimpleDialog open={open} onClose={onClose}>
+            <div className="relative max-h-[80vh] overflow-y-auto">
+                <button
+                    onClick={onClose}
+                    className="absolute top-0 right-0 p-1 rounded text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+
+                <h2 className="text-xl font-bold mb-4">Add Transaction</h2>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {error && (
+                        <div className="p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Transaction type */}
+                    <div className="grid grid-cols-3 gap-1 p-1 bg-white/5 rounded-lg border border-white/10">
+                        {TYPES.map(t => (
+                            <button
+                                key={t.value}
+                                type="button"
+                                onClick={() => setType(t.value)}
+                                className={`px-2 py-1.5 rounded-md text-xs font-medium transition-all ${type === t.value
+                                    ? 'bg-cyan-500/20 text-cyan-400'
+                                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                                    }`}
+                            >
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label className="text-xs text-white/50">Date</Label>
+                            <Input
+                                type="date"
+                                value={date}
+                                onChange={(e) => setDate(e.target.value)}
+                                className="h-8 text-xs bg-white/5 border-white/10 dark:scheme-dark"
+                                required
+                            />
+                        </div>
+                        {showSymbol && (
+                            <div>
+                                <Label className="text-xs text-white/50">Symbol</Label>
+                                <Input
+                                    value={symbol}
+                                    onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                                    className="h-8 text-xs bg-white/5 border-white/10"
+                                    placeholder="AAPL"
+                                    required={isTrade}
+                                />
+                            </div>
+                        )}
+                        {isTrade ? (
+                            <>
+                                <div>
+                                    <Label className="text-xs text-white/50">Quantity</Label>
+                                    <Input
+                                        type="number"
+                                        step="any"
+                                        value={quantity}
+                                        onChange={(e) => setQuantity(e.target.value)}
+                                        className="h-8 text-xs bg-white/5 border-white/10"
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <Label className="text-xs text-white/50">Price per Share</Label>
+                                    <Input
+                                        type="number"
+                                        step="any"
+                                        value={price}
+                                        onChange={(e) => setPrice(e.target.value)}
+                                        className="h-8 text-xs bg-white/5 border-white/10"
+                                        required
+                                    />
+                                </div>
+                            </>
+                        ) : (
+                            <div>
+                                <Label className="text-xs text-white/50">Amount</Label>
+                                <Input
+                                    type="number"
+                                    step="any"
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                    className="h-8 text-xs bg-white/5 border-white/10"
+                                    required
+                                />
+                            </div>
+                        )}
+                        <div>
+                            <Label className="text-xs text-white/50">Fee</Label>
+                            <Input
+                                type="number"
+                                step="any"
+                                value={fee}
+                                onChange={(e) => setFee(e.target.value)}
+                                className="h-8 text-xs bg-white/5 border-white/10"
+                                placeholder="0"
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <Label className="text-xs text-white/50">Note</Label>
+                            <Input
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                                className="h-8 text-xs bg-white/5 border-white/10"
+                                placeholder="Optional"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2 mt-6">
+                        <Button
+                            type="button"
+                            onClick={onClose}
+                            className="bg-white/10 hover:bg-white/15 text-white"
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            disabled={loading}
+                            className="bg-cyan-500 hover:bg-cyan-600 text-white disabled:opacity-50"
+                        >
+                            {loading ? 'Saving...' : 'Add Transaction'}
+                        </Button>
+                    </div>
+                </form>
+            </div>
+        </SimpleDialog>
+    );
+}
+
+// ═════════════════════════════════════════════════════════════════
+//  TRANSACTIONS VIEW (LEDGER)
+// ═════════════════════════════════════════════════════════════════
+export function TransactionsView() {
+    const { cashBalance, deleteTransaction } = usePortfolio();
+    const [ledger, setLedger] = useState<Ledger | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [addDialogOpen, setAddDialogOpen] = useState(false);
+    const [deletingId, setDeletingId] = useState('');
+
+    // ─── Fetch ledger from API ────────────────────────────────────
+    const fetchLedger = useCallback(async () => {
+        try {
+            const data = await transactionsAPI.getAll();
+            setLedger(data);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to load transactions');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchLedger();
+    }, [fetchLedger]);
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm('Delete this transaction? Buys and sells are reversed on the position.')) return;
+        setError('');
+        setDeletingId(id);
+        try {
+            await deleteTransaction(id);
+            await fetchLedger();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to delete transaction');
+        } finally {
+            setDeletingId('');
+        }
+    };
+
+    const totals = ledger?.totals;
+
+    return (
+        <div className="space-y-6">
+            {/* ── Cash Summary ── */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+                    <div className="flex items-center gap-2 text-xs text-white/50 mb-1">
+                        <Wallet className="w-3.5 h-3.5" /> Cash Balance
+                    </div>
+                    <div className={`text-xl font-bold ${cashBalance >= 0 ? 'text-white' : 'text-rose-400'}`}>
+                        {formatMoney(cashBalance)}
+                    </div>
+                </div>
+                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+                    <div className="flex items-center gap-2 text-xs text-white/50 mb-1">
+                        <ArrowDownLeft className="w-3.5 h-3.5" /> Net Deposits
+                    </div>
+                    <div className="text-xl font-bold text-white">
+                        {formatMoney((totals?.deposits ?? 0) - (totals?.withdrawals ?? 0))}
+                    </div>
+                </div>
+                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+                    <div className="flex items-center gap-2 text-xs text-white/50 mb-1">
+                        <ArrowUpRight className="w-3.5 h-3.5" /> Dividends
+                    </div>
+                    <div className="text-xl font-bold text-amber-400">{formatMoney(totals?.dividends ?? 0)}</div>
+                </div>
+                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+                    <div className="text-xs text-white/50 mb-1">Fees Paid</div>
+                    <div className="text-xl font-bold text-white/70">{formatMoney(totals?.fees ?? 0)}</div>
+                </div>
+            </div>
+
+            {/* ── Ledger Table ── */}
+            <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4 md:p-5">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-white/90">Transactions</h3>
+                    <Button
+                        onClick={() => setAddDialogOpen(true)}
+                        className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 border border-cyan-500/30 h-8 text-xs"
+                    >
+                        <Plus className="w-4 h-4 mr-1" /> Add Transaction
+                    </Button>
+                </div>
+
+                {error && (
+                    <div className="mb-4 p-3 rounded-lg border border-rose-500/50 bg-rose-500/10 text-rose-400 text-sm">
+                        {error}
+                    </div>
+                )}
+
+                {loading ? (
+                    <div className="space-y-2">
+                        {[0, 1, 2, 3].map(i => (
+                            <div key={i} className="h-10 bg-white/5 rounded-lg animate-pulse" />
+                        ))}
+                    </div>
+                ) : !ledger || ledger.transactions.length === 0 ? (
+                    <p className="text-sm text-white/40 py-8 text-center">
+                        No transactions yet. Record a deposit to start tracking cash.
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-white/50 border-b border-white/10">
+                                    <th className="text-left font-normal py-2 pr-3">Date</th>
+                                    <th className="text-left font-normal py-2 pr-3">Type</th>
+                                    <th className="text-left font-normal py-2 pr-3">Details</th>
+                                    <th className="text-right font-normal py-2 pr-3">Fee</th>
+                                    <th className="text-right font-normal py-2 pr-3">Cash Impact</th>
+                                    <th className="text-right font-normal py-2 pr-3">Balance</th>
+                                    <th className="py-2" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ledger.transactions.map(tx => (
+                                    <tr key={tx._id} className="border-b border-white/5 hover:bg-white/5 transition-colors">
+                                        <td className="py-2 pr-3 text-white/70 whitespace-nowrap">{tx.date.split('T')[0]}</td>
+                                        <td className="py-2 pr-3">
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${TYPE_STYLES[tx.type]}`}>
+                                                {tx.type}
+                                            </span>
+                                        </td>
+                                        <td className="py-2 pr-3 text-white/80">
+                                            {tx.symbol && <span className="font-semibold text-white mr-1">{tx.symbol}</span>}
+                                            {tx.quantity !== undefined && tx.price !== undefined && (
+                                                <span className="text-white/60">
+                                                    {tx.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })} @ ${tx.price.toFixed(2)}
+                                                </span>
+                                            )}
+                                            {tx.note && <span className="block text-xs text-white/40">{tx.note}</span>}
+                                        </td>
+                                        <td className="py-2 pr-3 text-right text-white/50">{tx.fee ? formatMoney(tx.fee) : '—'}</td>
+                                        <td className={`py-2 pr-3 text-right font-medium ${tx.cashImpact >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                            {tx.cashImpact >= 0 ? '+' : ''}{formatMoney(tx.cashImpact)}
+                                        </td>
+                                        <td className="py-2 pr-3 text-right text-white">{formatMoney(tx.runningBalance)}</td>
+                                        <td className="py-2 text-right">
+                                            <button
+                                                onClick={() => handleDelete(tx._id)}
+                                                disabled={deletingId === tx._id}
+                                                className="p-1 rounded text-white/40 hover:text-rose-400 hover:bg-white/10 transition-colors disabled:opacity-50"
+                                                title="Delete transaction"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* ── Realized gains per tax year ── */}
+            <TaxReport />
+
+            <AddTransactionDialog
+                open={addDialogOpen}
+                onClose={() => setAddDialogOpen(false)}
+                onSaved={fetchLedger}
+            />
+        </div>
+    );
+}
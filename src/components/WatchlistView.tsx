@@ -1,11 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Plus, X, Trash2, Eye, TrendingUp, TrendingDown, Search } from 'lucide-react';
 import {
     LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid,
 } from 'recharts';
 import { watchlistAPI, WatchlistItem } from '@/api/watchlist';
-import { stocksAPI } from '@/api/stocks';
+import { stocksAPI, CandleData } from '@/api/stocks';
 import { SimpleDialog } from './SimpleDialog';
+import { useIndicatorSettings } from '@/hooks/use-indicator-settings';
+import { computeIndicators, sliceIndicators, IndicatorSettings } from '@/services/indicators';
+import IndicatorPicker, { INDICATOR_COLORS } from './Indicators/IndicatorPicker';
+import IndicatorPanes from './Indicators/IndicatorPanes';
+import { navigate, stockPath } from '@/hooks/use-route';
 import { Button } from '@/components/ui/button';
 
 // ─── Types ──────────────────────────────────────────────────────
@@ -15,10 +20,12 @@ interface WatchlistStock extends WatchlistItem {
     weeklyChange: number;
     monthlyChange: number;
     yearlyChange: number;
-    chartData: { date: string; price: number }[];
+    history: CandleData | null; // A year of daily bars: the chart shows the last 30 days, indicators warm up on the rest
     loaded: boolean;
 }
 
+const CHART_DAYS = 30;
+
 // ─── Skeleton ───────────────────────────────────────────────────
 function SkeletonCard() {
     return (
@@ -43,10 +50,12 @@ function SkeletonCard() {
 // ─── Custom Chart Tooltip ───────────────────────────────────────
 function ChartTooltipContent({ active, payload, label }: any) {
     if (!active || !payload?.length) return null;
+    // Indicator overlays share the tooltip payload; the price is the one to show
+    const price = payload.find((p: any) => p.dataKey === 'price') ?? payload[0];
     return (
         <div className="bg-[#1a1a1f]/95 border border-white/20 rounded-xl px-3 py-2 backdrop-blur-xl shadow-2xl">
             <p className="text-white/60 text-xs mb-0.5">{label}</p>
-            <p className="text-white font-bold text-sm">${payload[0].value.toFixed(2)}</p>
+            <p className="text-white font-bold text-sm">${price.value.toFixed(2)}</p>
         </div>
     );
 }
@@ -72,10 +81,104 @@ function ChangeBadge({ label, value }: { label: string; value: number | null })
     );
 }
 
+// ─── Mini Chart with Indicator Overlays ─────────────────────────
+function WatchlistMiniChart({ stock, settings }: { stock: WatchlistStock; settings: IndicatorSettings }) {
+    const { chartData, timestamps, indicators } = useMemo(() => {
+        const history = stock.history;
+        if (!history) return { chartData: [], timestamps: [], indicators: {} };
+
+        const cutoff = Date.now() / 1000 - CHART_DAYS * 24 * 60 * 60;
+        const firstShown = history.t.findIndex(t => t >= cutoff);
+        const start = firstShown === -1 ? history.t.length : firstShown;
+        const shown = sliceIndicators(computeIndicators(history, settings, { anchor: start }), start);
+
+        return {
+            chartData: history.t.slice(start).map((t, i) => ({
+                date: new Date(t * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+                price: history.c[start + i],
+                sma: shown.sma?.[i] ?? null,
+                ema: shown.ema?.[i] ?? null,
+                bbUpper: shown.bollinger?.upper[i] ?? null,
+                bbLower: shown.bollinger?.lower[i] ?? null,
+                vwap: shown.vwap?.[i] ?? null,
+            })),
+            timestamps: history.t.slice(start),
+            indicators: shown,
+        };
+    }, [stock.history, settings]);
+
+    const lineColor = stock.monthlyChange >= 0 ? '#10B981' : '#EF4444';
+    const overlay = { dot: false, activeDot: false, isAnimationActive: false } as const;
+
+    if (chartData.length === 0) {
+        return (
+            <div className="h-32 flex items-center justify-center">
+                <span className="text-white/20 text-xs">Loading chart...</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="-mx-1">
+            <div className="h-32">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} syncId={`watch-${stock.symbol}`}>
+                        <defs>
+                            <linearGradient id={`grad-${stock.symbol}`} x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="5%" stopColor={lineColor} stopOpacity={0.2} />
+                                <stop offset="95%" stopColor={lineColor} stopOpacity={0} />
+                            </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                        <XAxis
+                            dataKey="date"
+                            stroke="rgba(255,255,255,0.2)"
+                            style={{ fontSize: '10px' }}
+                            tickLine={false}
+                            axisLine={false}
+                            minTickGap={40}
+                        />
+                        <YAxis
+                            stroke="rgba(255,255,255,0.2)"
+                            style={{ fontSize: '10px' }}
+                            tickLine={false}
+                            axisLine={false}
+                            domain={['auto', 'auto']}
+                            tickFormatter={(v) => `$${v.toFixed(0)}`}
+                            width={45}
+                        />
+                        <Tooltip content={<ChartTooltipContent />} />
+                        {indicators.bollinger && (
+                            <>
+                                <Line type="monotone" dataKey="bbUpper" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} strokeDasharray="4 2" {...overlay} />
+                                <Line type="monotone" dataKey="bbLower" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} strokeDasharray="4 2" {...overlay} />
+                            </>
+                        )}
+                        {indicators.sma && <Line type="monotone" dataKey="sma" stroke={INDICATOR_COLORS.sma} strokeWidth={1} {...overlay} />}
+                        {indicators.ema && <Line type="monotone" dataKey="ema" stroke={INDICATOR_COLORS.ema} strokeWidth={1} {...overlay} />}
+                        {indicators.vwap && <Line type="monotone" dataKey="vwap" stroke={INDICATOR_COLORS.vwap} strokeWidth={1} {...overlay} />}
+                        <Line
+                            type="monotone"
+                            dataKey="price"
+                            stroke={lineColor}
+                            strokeWidth={2}
+                            dot={false}
+                            activeDot={{ r: 4, fill: lineColor, stroke: '#fff', strokeWidth: 1 }}
+                            fill={`url(#grad-${stock.symbol})`}
+                        />
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+            <IndicatorPanes timestamps={timestamps} indicators={indicators} syncId={`watch-${stock.symbol}`} paneHeight={40} compact />
+        </div>
+    );
+}
+
 // ═════════════════════════════════════════════════════════════════
 //  WATCHLIST VIEW
 // ═════════════════════════════════════════════════════════════════
 export function WatchlistView() {
+    const { settings: indicatorSettings } = useIndicatorSettings();
     const [watchlist, setWatchlist] = useState<WatchlistStock[]>([]);
     const [loading, setLoading] = useState(true);
     const [addDialogOpen, setAddDialogOpen] = useState(false);
@@ -100,7 +203,7 @@ export function WatchlistView() {
                 weeklyChange: 0,
                 monthlyChange: 0,
                 yearlyChange: 0,
-                chartData: [],
+                history: null,
                 loaded: false,
             }));
 
@@ -127,10 +230,10 @@ export function WatchlistView() {
             const historyResults = await Promise.all(
                 symbols.map(async (symbol) => {
                     try {
-                        const data = await stocksAPI.getStockHistory(symbol, from, to, 'D');
+                        const data = await stocksAPI.getStockHistory(symbol, from, to);
                         return { symbol, data };
                     } catch {
-                        return { symbol, data: { c: [], t: [] } };
+                        return { symbol, data: null };
                     }
                 })
             );
@@ -142,6 +245,8 @@ export function WatchlistView() {
                 const hist = histResult?.data;
 
                 const currentPrice = quote?.regularMarketPrice || 0;
+                // History is in the listing currency, so compare against the native price
+                const listingPrice = quote?.listingPrice || currentPrice;
                 const closePrices = hist?.c || [];
                 const timestamps = hist?.t || [];
 
@@ -158,8 +263,8 @@ export function WatchlistView() {
                 };
 
                 const calcChange = (oldPrice: number | null): number | null => {
-                    if (!oldPrice || oldPrice === 0 || currentPrice === 0) return null;
-                    return ((currentPrice - oldPrice) / oldPrice) * 100;
+                    if (!oldPrice || oldPrice === 0 || listingPrice === 0) return null;
+                    return ((listingPrice - oldPrice) / oldPrice) * 100;
                 };
 
                 const dailyChange = calcChange(findPriceAtAge(1 * oneDay));
@@ -167,18 +272,6 @@ export function WatchlistView() {
                 const monthlyChange = calcChange(findPriceAtAge(30 * oneDay));
                 const yearlyChange = calcChange(findPriceAtAge(365 * oneDay));
 
-                // Chart data (last 30 days for clean display)
-                const thirtyDaysAgo = now - (30 * oneDay);
-                const chartData: { date: string; price: number }[] = [];
-                for (let i = 0; i < timestamps.length; i++) {
-                    if (timestamps[i] >= thirtyDaysAgo) {
-                        chartData.push({
-                            date: new Date(timestamps[i] * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-                            price: closePrices[i],
-                        });
-                    }
-                }
-
                 return {
                     ...stock,
                     price: currentPrice,
@@ -186,7 +279,7 @@ export function WatchlistView() {
                     weeklyChange: weeklyChange ?? 0,
                     monthlyChange: monthlyChange ?? 0,
                     yearlyChange: yearlyChange ?? 0,
-                    chartData,
+                    history: hist?.s === 'ok' ? hist : null,
                     loaded: true,
                 };
             }));
@@ -356,13 +449,16 @@ export function WatchlistView() {
                     <Eye className="w-5 h-5 text-cyan-400" />
                     <span className="text-white/60 text-sm">{watchlist.length} stock{watchlist.length !== 1 ? 's' : ''} tracked</span>
                 </div>
-                <Button
-                    onClick={() => setAddDialogOpen(true)}
-                    size="sm"
-                    className="bg-white/10 hover:bg-white/20 text-white border border-white/10"
-                >
-                    <Plus className="w-4 h-4 mr-1" /> Add Stock
-                </Button>
+                <div className="flex items-center gap-2">
+                    <IndicatorPicker />
+                    <Button
+                        onClick={() => setAddDialogOpen(true)}
+                        size="sm"
+                        className="bg-white/10 hover:bg-white/20 text-white border border-white/10"
+                    >
+                        <Plus className="w-4 h-4 mr-1" /> Add Stock
+                    </Button>
+                </div>
             </div>
 
             {/* Cards Grid */}
@@ -372,11 +468,12 @@ export function WatchlistView() {
                     : watchlist.map(stock => (
                         <div
                             key={stock._id}
-                            className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-white/8 to-white/3 backdrop-blur-xl border border-white/10 p-5 transition-all duration-300 hover:border-white/20 hover:shadow-lg hover:shadow-cyan-500/5 group"
+                            onClick={() => navigate(stockPath(stock.symbol))}
+                            className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-white/8 to-white/3 backdrop-blur-xl border border-white/10 p-5 transition-all duration-300 hover:border-white/20 hover:shadow-lg hover:shadow-cyan-500/5 group cursor-pointer"
                         >
                             {/* Remove Button */}
                             <button
-                                onClick={() => handleRemove(stock._id)}
+                                onClick={(e) => { e.stopPropagation(); handleRemove(stock._id); }}
                                 className="absolute top-3 right-3 p-1.5 rounded-lg bg-white/5 hover:bg-red-500/20 text-white/30 hover:text-red-400 transition-all opacity-0 group-hover:opacity-100"
                                 title="Remove from watchlist"
                             >
@@ -412,52 +509,7 @@ export function WatchlistView() {
                             </div>
 
                             {/* Interactive Chart */}
-                            <div className="h-32 -mx-1">
-                                {stock.chartData.length > 0 ? (
-                                    <ResponsiveContainer width="100%" height="100%">
-                                        <LineChart data={stock.chartData}>
-                                            <defs>
-                                                <linearGradient id={`grad-${stock.symbol}`} x1="0" y1="0" x2="0" y2="1">
-                                                    <stop offset="5%" stopColor={stock.monthlyChange >= 0 ? '#10B981' : '#EF4444'} stopOpacity={0.2} />
-                                                    <stop offset="95%" stopColor={stock.monthlyChange >= 0 ? '#10B981' : '#EF4444'} stopOpacity={0} />
-                                                </linearGradient>
-                                            </defs>
-                                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
-                                            <XAxis
-                                                dataKey="date"
-                                                stroke="rgba(255,255,255,0.2)"
-                                                style={{ fontSize: '10px' }}
-                                                tickLine={false}
-                                                axisLine={false}
-                                                minTickGap={40}
-                                            />
-                                            <YAxis
-                                                stroke="rgba(255,255,255,0.2)"
-                                                style={{ fontSize: '10px' }}
-                                                tickLine={false}
-                                                axisLine={false}
-                                                domain={['auto', 'auto']}
-                                                tickFormatter={(v) => `$${v.toFixed(0)}`}
-                                                width={45}
-                                            />
-                                            <Tooltip content={<ChartTooltipContent />} />
-                                            <Line
-                                                type="monotone"
-                                                dataKey="price"
-                                                stroke={stock.monthlyChange >= 0 ? '#10B981' : '#EF4444'}
-                                                strokeWidth={2}
-                                                dot={false}
-                                                activeDot={{ r: 4, fill: stock.monthlyChange >= 0 ? '#10B981' : '#EF4444', stroke: '#fff', strokeWidth: 1 }}
-                                                fill={`url(#grad-${stock.symbol})`}
-                                            />
-                                        </LineChart>
-                                    </ResponsiveContainer>
-                                ) : (
-                                    <div className="h-full flex items-center justify-center">
-                                        <span className="text-white/20 text-xs">Loading chart...</span>
-                                    </div>
-                                )}
-                            </div>
+                            <WatchlistMiniChart stock={stock} settings={indicatorSettings} />
                         </div>
                     ))
                 }
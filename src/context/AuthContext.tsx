@@ -1,10 +1,15 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authAPI, AuthResponse, LoginData, RegisterData } from '../api/auth';
+import { authAPI, AuthResponse, LoginData, RegisterData, UserPreferences, DisplayCurrency, SavedHealthScoreSettings } from '../api/auth';
+import { ACTIVE_PORTFOLIO_KEY } from '../api/client';
+import type { SavedIndicatorSettings } from '../services/indicators';
 
 interface User {
     _id: string;
     name: string;
     email: string;
+    displayCurrency?: DisplayCurrency;
+    chartIndicators?: SavedIndicatorSettings;
+    healthScoreSettings?: SavedHealthScoreSettings | null;
 }
 
 interface AuthContextType {
@@ -14,6 +19,7 @@ interface AuthContextType {
     login: (data: LoginData) => Promise<void>;
     register: (data: RegisterData) => Promise<void>;
     logout: () => void;
+    updatePreferences: (data: UserPreferences) => Promise<void>;
     isAuthenticated: boolean;
 }
 
@@ -71,6 +77,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setToken(null);
         localStorage.removeItem('token');
         localStorage.removeItem('user');
+        // Portfolio ids are per user; don't carry the selection over to the next login
+        localStorage.removeItem(ACTIVE_PORTFOLIO_KEY);
+    };
+
+    const updatePreferences = async (data: UserPreferences) => {
+        // Apply locally first so the UI switches immediately
+        const previous = user;
+        const optimistic = user ? { ...user, ...data } : user;
+        setUser(optimistic);
+        if (optimistic) localStorage.setItem('user', JSON.stringify(optimistic));
+
+        try {
+            const userData = await authAPI.updatePreferences(data);
+            setUser(userData);
+            localStorage.setItem('user', JSON.stringify(userData));
+        } catch (error: any) {
+            setUser(previous);
+            if (previous) localStorage.setItem('user', JSON.stringify(previous));
+            throw new Error(error.response?.data?.message || 'Failed to save preferences');
+        }
     };
 
     return (
@@ -82,6 +108,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 login,
                 register,
                 logout,
+                updatePreferences,
                 isAuthenticated: !!token && !!user,
             }}
         >
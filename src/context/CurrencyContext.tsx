@@ -0,0 +1,108 @@
+import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { stocksAPI } from '../api/stocks';
+import { DisplayCurrency } from '../api/auth';
+
+// Matches the server default for accounts created before the preference existed
+const DEFAULT_CURRENCY: DisplayCurrency = 'ILS';
+
+// Spot rate refresh: every 6 hours, same as the server-side forex cache
+const RATE_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+interface CurrencyContextType {
+    currency: DisplayCurrency; // The user's preference
+    activeCurrency: DisplayCurrency; // What amounts are shown in right now (USD until the rate loads)
+    setCurrency: (currency: DisplayCurrency) => Promise<void>;
+    rate: number; // USD → display currency
+    rateLoading: boolean;
+    convert: (usd: number) => number;
+    formatMoney: (usd: number, maximumFractionDigits?: number) => string;
+    formatAmount: (value: number, maximumFractionDigits?: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+    const { user, isAuthenticated, updatePreferences } = useAuth();
+    const currency = user?.displayCurrency || DEFAULT_CURRENCY;
+    const [rate, setRate] = useState(1);
+    const [rateCurrency, setRateCurrency] = useState<DisplayCurrency>('USD');
+    const [rateLoading, setRateLoading] = useState(false);
+
+    useEffect(() => {
+        if (!isAuthenticated || currency === 'USD') {
+            setRate(1);
+            setRateCurrency('USD');
+            return;
+        }
+
+        let cancelled = false;
+        const fetchRate = async () => {
+            setRateLoading(true);
+            try {
+                const fx = await stocksAPI.getFxRate('USD', currency);
+                if (cancelled || !fx.rate) return;
+                setRate(fx.rate);
+                setRateCurrency(currency);
+            } catch (error) {
+                console.error(`Failed to fetch USD/${currency} rate:`, error);
+            } finally {
+                if (!cancelled) setRateLoading(false);
+            }
+        };
+
+        fetchRate();
+        const interval = setInterval(fetchRate, RATE_REFRESH_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [isAuthenticated, currency]);
+
+    const setCurrency = useCallback(
+        (next: DisplayCurrency) => updatePreferences({ displayCurrency: next }),
+        [updatePreferences]
+    );
+
+    // Until the new rate arrives, show USD amounts rather than mislabelled ones
+    const activeCurrency = rateCurrency === currency ? currency : 'USD';
+    const effectiveRate = rateCurrency === currency ? rate : 1;
+
+    const convert = useCallback((usd: number) => usd * effectiveRate, [effectiveRate]);
+
+    const formatAmount = useCallback((value: number, maximumFractionDigits = 2) =>
+        value.toLocaleString('en-US', {
+            style: 'currency',
+            currency: activeCurrency,
+            minimumFractionDigits: 0,
+            maximumFractionDigits
+        }), [activeCurrency]);
+
+    const formatMoney = useCallback((usd: number, maximumFractionDigits = 2) =>
+        formatAmount(convert(usd), maximumFractionDigits), [formatAmount, convert]);
+
+    return (
+        <CurrencyContext.Provider
+            value={{
+                currency,
+                activeCurrency,
+                setCurrency,
+                rate: effectiveRate,
+                rateLoading,
+                convert,
+                formatMoney,
+                formatAmount
+            }}
+        >
+            {children}
+        </CurrencyContext.Provider>
+    );
+}
+
+export function useCurrency() {
+    const context = useContext(CurrencyContext);
+    if (context === undefined) {
+        throw new Error('useCurrency must be used within a CurrencyProvider');
+    }
+    return context;
+}
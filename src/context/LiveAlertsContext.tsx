@@ -1,24 +1,50 @@
-import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
 import { useAuth } from './AuthContext';
-import { initSocket, disconnectSocket } from '../services/socket';
-
-export interface LiveAlert {
-    id: string;
-    type: 'gain' | 'loss' | 'news' | '52w-low' | 'earnings';
-    ticker: string;
-    companyName: string;
-    message: string;
-    value?: number; // percentage for price alerts
-    timestamp: string;
-    relativeTime: string;
+import { initSocket, disconnectSocket, markAlertsRead, dismissAlerts } from '../services/socket';
+import { alertsAPI, LiveAlert, AlertHistoryFilters } from '../api/alerts';
+
+export type { LiveAlert } from '../api/alerts';
+
+const RECENT_ALERTS_LIMIT = 10;
+
+interface AlertHistoryState {
+    alerts: LiveAlert[];
+    page: number;
+    totalPages: number;
+    total: number;
+}
+
+interface AlertsStateEvent {
+    ids: string[] | null;
+    all: boolean;
+    read?: boolean;
+    dismissed?: boolean;
+    unreadCount: number;
 }
 
 interface LiveAlertsContextType {
     alerts: LiveAlert[];
+    unreadCount: number;
     loading: boolean;
     connected: boolean;
     hasNewAlerts: boolean;
     clearNewAlerts: () => void;
+    markRead: (ids: string[]) => void;
+    markAllRead: () => void;
+    dismiss: (id: string) => void;
+    history: AlertHistoryState;
+    historyFilters: AlertHistoryFilters;
+    historyLoading: boolean;
+    loadHistory: (filters?: AlertHistoryFilters, page?: number) => Promise<void>;
+}
+
+const EMPTY_HISTORY: AlertHistoryState = { alerts: [], page: 0, totalPages: 0, total: 0 };
+
+// Whether a freshly received alert belongs at the top of the current history view
+function matchesFilters(alert: LiveAlert, filters: AlertHistoryFilters) {
+    if (filters.type && alert.type !== filters.type) return false;
+    if (filters.ticker && alert.ticker !== filters.ticker.trim().toUpperCase()) return false;
+    return !filters.status || filters.status === 'active' || filters.status === 'unread' || filters.status === 'all';
 }
 
 const LiveAlertsContext = createContext<LiveAlertsContextType | undefined>(undefined);
@@ -26,17 +52,59 @@ const LiveAlertsContext = createContext<LiveAlertsContextType | undefined>(undef
 export function LiveAlertsProvider({ children }: { children: ReactNode }) {
     const { isAuthenticated, token } = useAuth();
     const [alerts, setAlerts] = useState<LiveAlert[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
     const [loading, setLoading] = useState(true);
     const [connected, setConnected] = useState(false);
     const [hasNewAlerts, setHasNewAlerts] = useState(false);
 
+    const [history, setHistory] = useState<AlertHistoryState>(EMPTY_HISTORY);
+    const [historyFilters, setHistoryFilters] = useState<AlertHistoryFilters>({ status: 'active' });
+    const [historyLoading, setHistoryLoading] = useState(false);
+    // Read from socket handlers without re-subscribing on every filter change
+    const historyFiltersRef = useRef(historyFilters);
+    const historyLoadedRef = useRef(false);
+
     const clearNewAlerts = useCallback(() => setHasNewAlerts(false), []);
 
+    const loadHistory = useCallback(async (filters: AlertHistoryFilters = historyFiltersRef.current, page = 1) => {
+        historyFiltersRef.current = filters;
+        historyLoadedRef.current = true;
+        setHistoryFilters(filters);
+        setHistoryLoading(true);
+        try {
+            const data = await alertsAPI.getHistory(filters, page);
+            // Ignore responses for filters that have since changed
+            if (historyFiltersRef.current !== filters) return;
+            setHistory(prev => ({
+                alerts: page === 1 ? data.alerts : [...prev.alerts, ...data.alerts],
+                page: data.page,
+                totalPages: data.totalPages,
+                total: data.total
+            }));
+            setUnreadCount(data.unreadCount);
+        } catch (error) {
+            console.error('🔔 [ALERTS-FE] Failed to load alert history:', error);
+        } finally {
+            setHistoryLoading(false);
+        }
+    }, []);
+
+    const markRead = useCallback((ids: string[]) => {
+        if (ids.length > 0) markAlertsRead({ ids });
+    }, []);
+
+    const markAllRead = useCallback(() => markAlertsRead({ all: true }), []);
+
+    const dismiss = useCallback((id: string) => dismissAlerts([id]), []);
+
     useEffect(() => {
         if (!isAuthenticated || !token) {
             console.log('🔔 [ALERTS-FE] Not authenticated, disconnecting socket');
             disconnectSocket();
             setAlerts([]);
+            setUnreadCount(0);
+            setHistory(EMPTY_HISTORY);
+            historyLoadedRef.current = false;
             setConnected(false);
             return;
         }
@@ -62,19 +130,49 @@ export function LiveAlertsProvider({ children }: { children: ReactNode }) {
             setConnected(false);
         });
 
-        // Initial alerts on connect
-        socket.on('live-alerts-init', (data: { alerts: LiveAlert[] }) => {
+        // Recent alerts on connect / portfolio switch
+        socket.on('live-alerts-init', (data: { alerts: LiveAlert[]; unreadCount: number }) => {
             console.log('🔔 [ALERTS-FE] Received initial alerts:', data.alerts.length, data.alerts);
             setAlerts(data.alerts);
+            setUnreadCount(data.unreadCount);
             setLoading(false);
+
+            // Scope may have changed; keep an open history view in step
+            if (historyLoadedRef.current) loadHistory();
         });
 
         // New alert received
-        socket.on('live-alert', (data: { alert: LiveAlert; allAlerts: LiveAlert[] }) => {
+        socket.on('live-alert', (data: { alert: LiveAlert }) => {
             console.log('🔔 [ALERTS-FE] 🚨 NEW LIVE ALERT:', data.alert.message);
-            console.log('🔔 [ALERTS-FE] All alerts now:', data.allAlerts.length, data.allAlerts);
-            setAlerts(data.allAlerts);
+            setAlerts(prev => [data.alert, ...prev.filter(a => a.id !== data.alert.id)].slice(0, RECENT_ALERTS_LIMIT));
+            setUnreadCount(prev => prev + 1);
             setHasNewAlerts(true);
+
+            if (historyLoadedRef.current && matchesFilters(data.alert, historyFiltersRef.current)) {
+                setHistory(prev => ({
+                    ...prev,
+                    alerts: [data.alert, ...prev.alerts.filter(a => a.id !== data.alert.id)],
+                    total: prev.total + 1
+                }));
+            }
+        });
+
+        // Read / dismiss changes from this or another tab
+        socket.on('alerts-state', (data: AlertsStateEvent) => {
+            const affected = (alert: LiveAlert) => data.all || (data.ids || []).includes(alert.id);
+            const apply = (list: LiveAlert[]) => list.map(alert => (affected(alert)
+                ? { ...alert, read: alert.read || !!data.read, dismissed: alert.dismissed || !!data.dismissed }
+                : alert));
+
+            setAlerts(prev => apply(prev).filter(alert => !alert.dismissed));
+            setHistory(prev => {
+                const status = historyFiltersRef.current.status;
+                let next = apply(prev.alerts);
+                if (status === 'active' || status === 'unread') next = next.filter(a => !a.dismissed);
+                if (status === 'unread') next = next.filter(a => !a.read);
+                return { ...prev, alerts: next, total: prev.total - (prev.alerts.length - next.length) };
+            });
+            setUnreadCount(data.unreadCount);
         });
 
         // Timeout for initial load
@@ -87,17 +185,26 @@ export function LiveAlertsProvider({ children }: { children: ReactNode }) {
             clearTimeout(timeout);
             socket.off('live-alerts-init');
             socket.off('live-alert');
+            socket.off('alerts-state');
         };
-    }, [isAuthenticated, token]);
+    }, [isAuthenticated, token, loadHistory]);
 
     return (
         <LiveAlertsContext.Provider
             value={{
                 alerts,
+                unreadCount,
                 loading,
                 connected,
                 hasNewAlerts,
-                clearNewAlerts
+                clearNewAlerts,
+                markRead,
+                markAllRead,
+                dismiss,
+                history,
+                historyFilters,
+                historyLoading,
+                loadHistory
             }}
         >
             {children}
@@ -1,17 +1,26 @@
-import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { positionsAPI } from '../api/positions';
-import { stocksAPI, PortfolioAnalytics } from '../api/stocks';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
+import { positionsAPI, Position as ApiPosition, Sale, SellPositionData, ImportRow, ImportResult } from '../api/positions';
+import { transactionsAPI, CreateTransactionData } from '../api/transactions';
+import { stocksAPI, PortfolioAnalytics, MarketStatus } from '../api/stocks';
+import { portfoliosAPI, Portfolio, Benchmark, ALL_PORTFOLIOS } from '../api/portfolios';
+import { corporateActionsAPI, CorporateAction } from '../api/corporateActions';
+import { rebalanceAPI, RebalanceTrade, ApplyRebalanceResult } from '../api/rebalance';
+import { ACTIVE_PORTFOLIO_KEY } from '../api/client';
 import { useAuth } from './AuthContext';
-import { getFinnhubWebSocket, PriceUpdateCallback } from '../services/websocket';
+import { initSocket, setSocketPortfolio, subscribePrices, unsubscribePrices, PriceUpdate } from '../services/socket';
+import { loadExchanges, getMarketStatus } from '../services/exchanges';
 
 export interface Lot {
+  _id?: string;
   quantity: number;
   price: number;
   date: string | Date; // Date of purchase
+  soldQuantity?: number; // Shares from this lot already sold
 }
 
 export interface Position {
   _id: string;
+  portfolio?: string; // Owning portfolio id
   symbol: string;
   name: string;
   price: number; // Current market price from API
@@ -22,11 +31,19 @@ export interface Position {
   extendedPrice?: number; // Extended hours price
   extendedChange?: number; // Extended hours change in $
   extendedChangePercent?: number; // Extended hours change %
-  marketStatus?: 'regular' | 'pre-market' | 'after-hours' | 'closed'; // Current market status
+  marketStatus?: MarketStatus; // Current session on the listing exchange
+
+  // Listing exchange (prices above are always USD)
+  exchange?: string; // e.g. 'US', 'TASE'
+  listingCurrency?: string;
+  listingPrice?: number; // In the listing currency (shekels for TASE, not agorot)
 
   quantity: number;
   averagePrice: number;
   lots?: Lot[]; // Array of purchase lots
+  sales?: Sale[]; // Recorded sell transactions
+  realizedGain?: number; // Sum of realized P&L across all sales
+  tags?: string[]; // Custom allocation groups
   sparklineData: number[];
   color: string;
 
@@ -39,9 +56,36 @@ interface PortfolioContextType {
   positions: Position[];
   loading: boolean;
   error: string | null;
-  addPosition: (symbol: string, name: string, quantity: number, averagePrice: number, date?: string | Date) => Promise<void>;
+  addPosition: (symbol: string, name: string, quantity: number, averagePrice: number, date?: string | Date, portfolioId?: string) => Promise<void>;
   updatePosition: (id: string, quantity?: number, averagePrice?: number, lots?: Lot[]) => Promise<void>;
+  sellPosition: (id: string, data: SellPositionData) => Promise<void>;
   removePosition: (id: string) => Promise<void>;
+  importPositions: (rows: ImportRow[]) => Promise<ImportResult>;
+  setPositionTags: (id: string, tags: string[]) => Promise<void>;
+  applyRebalance: (trades: RebalanceTrade[], date?: string) => Promise<ApplyRebalanceResult>;
+
+  // Portfolios ('all' = aggregated view)
+  portfolios: Portfolio[];
+  activePortfolioId: string;
+  switchPortfolio: (id: string) => void;
+  createPortfolio: (name: string) => Promise<Portfolio>;
+  renamePortfolio: (id: string, name: string) => Promise<void>;
+  setDividendReinvestment: (id: string, enabled: boolean) => Promise<void>;
+  setBenchmarks: (id: string, benchmarks: Benchmark[] | null) => Promise<void>;
+  deletePortfolio: (id: string) => Promise<void>;
+
+  // Ledger / Cash
+  cashBalance: number;
+  ledgerVersion: string; // Changes whenever a ledger entry is added, edited or removed
+  refreshCashBalance: () => Promise<void>;
+  recordTransaction: (data: CreateTransactionData) => Promise<void>;
+  deleteTransaction: (id: string) => Promise<void>;
+
+  // Corporate actions (splits, spinoffs, ticker changes applied to lots)
+  corporateActions: CorporateAction[];
+  refreshCorporateActions: () => Promise<void>;
+  confirmCorporateAction: (id: string) => Promise<void>;
+  undoCorporateAction: (id: string) => Promise<void>;
 
   // Analytics State
   portfolioAnalytics: PortfolioAnalytics | null;
@@ -51,45 +95,22 @@ interface PortfolioContextType {
 
 const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
 
-// Market status type
-type MarketStatus = 'regular' | 'pre-market' | 'after-hours' | 'closed';
-
-// Get detailed market status for display
-function getMarketStatus(): MarketStatus {
-  const now = new Date();
-  const etTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-  const hours = etTime.getHours();
-  const minutes = etTime.getMinutes();
-  const day = etTime.getDay(); // 0 = Sunday, 6 = Saturday
-
-  const timeInMinutes = hours * 60 + minutes;
-
-  // Weekend - market fully closed
-  if (day === 0 || day === 6) return 'closed';
-
-  // Pre-market: 4:00 AM - 9:30 AM ET (240 min - 570 min)
-  if (timeInMinutes >= 240 && timeInMinutes < 570) return 'pre-market';
-
-  // Regular market: 9:30 AM - 4:00 PM ET (570 min - 960 min)
-  if (timeInMinutes >= 570 && timeInMinutes < 960) return 'regular';
-
-  // After-hours: 4:00 PM - 8:00 PM ET (960 min - 1200 min)
-  if (timeInMinutes >= 960 && timeInMinutes < 1200) return 'after-hours';
-
-  // Outside trading hours (before 4 AM or after 8 PM) - show last session data
-  return 'closed';
-}
-
-
-
 // ============================================
-// LOCAL STORAGE CACHE (stale-while-revalidate)
+// LOCAL STORAGE CACHE (stale-while-revalidate, one entry per portfolio)
 // ============================================
 const CACHE_KEY = 'portfolio_positions_cache';
 
-function loadCachedPositions(): Position[] {
+function getStoredPortfolioId(): string {
+  return localStorage.getItem(ACTIVE_PORTFOLIO_KEY) || ALL_PORTFOLIOS;
+}
+
+function cacheKeyFor(portfolioId: string = getStoredPortfolioId()) {
+  return `${CACHE_KEY}_${portfolioId}`;
+}
+
+function loadCachedPositions(portfolioId?: string): Position[] {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
+    const raw = localStorage.getItem(cacheKeyFor(portfolioId));
     if (!raw) return [];
     const parsed = JSON.parse(raw);
     // Validate structure — must be an array with symbols
@@ -102,16 +123,18 @@ function loadCachedPositions(): Position[] {
 
 function saveCachedPositions(positions: Position[]) {
   try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify(positions));
+    localStorage.setItem(cacheKeyFor(), JSON.stringify(positions));
   } catch { /* storage full, ignore */ }
 }
 
 function clearCachedPositions() {
-  localStorage.removeItem(CACHE_KEY);
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_KEY))
+    .forEach(key => localStorage.removeItem(key));
 }
 
 export function PortfolioProvider({ children }: { children: ReactNode }) {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, token } = useAuth();
 
   // Initialize from cache for instant render on refresh
   const [positions, setPositions] = useState<Position[]>(() => {
@@ -127,6 +150,19 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
   const [lastAnalyticsFetch, setLastAnalyticsFetch] = useState<number>(0);
 
+  // Ledger State
+  const [cashBalance, setCashBalance] = useState(0);
+  const [ledgerVersion, setLedgerVersion] = useState('');
+
+  // Corporate actions State
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+
+  // Portfolio State — the active id lives in localStorage so the API client can send it
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [activePortfolioId, setActivePortfolioId] = useState<string>(getStoredPortfolioId);
+  // Lets in-flight fetches detect that the user switched portfolio meanwhile
+  const activePortfolioRef = useRef(activePortfolioId);
+
   // Fetch positions from backend — FAST: uses batch extended quotes for prices
   const fetchPositions = async () => {
     if (!isAuthenticated) {
@@ -136,6 +172,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     }
 
     const hasCachedData = positions.length > 0;
+    const scope = activePortfolioRef.current;
 
     try {
       // Only show loading spinner if we DON'T have cached data
@@ -179,22 +216,15 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         let marketStatus: MarketStatus = 'regular';
 
         if (extendedQuote) {
-          if (extendedQuote.marketState === 'PRE' || extendedQuote.marketState === 'PREPRE') {
-            marketStatus = 'pre-market';
+          // Session comes from the listing exchange's hours and holidays
+          marketStatus = extendedQuote.marketStatus ?? getMarketStatus(pos.symbol) ?? 'closed';
+          if (marketStatus === 'pre-market') {
             if (extendedQuote.preMarketPrice) {
               extendedPrice = extendedQuote.preMarketPrice;
               extendedChange = extendedQuote.preMarketChange || 0;
               extendedChangePercent = extendedQuote.preMarketChangePercent || 0;
             }
-          } else if (extendedQuote.marketState === 'POST' || extendedQuote.marketState === 'POSTPOST') {
-            marketStatus = 'after-hours';
-            if (extendedQuote.postMarketPrice) {
-              extendedPrice = extendedQuote.postMarketPrice;
-              extendedChange = extendedQuote.postMarketChange || 0;
-              extendedChangePercent = extendedQuote.postMarketChangePercent || 0;
-            }
-          } else if (extendedQuote.marketState === 'CLOSED') {
-            marketStatus = 'closed';
+          } else if (marketStatus === 'after-hours' || marketStatus === 'closed') {
             if (extendedQuote.postMarketPrice) {
               extendedPrice = extendedQuote.postMarketPrice;
               extendedChange = extendedQuote.postMarketChange || 0;
@@ -202,16 +232,20 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
             }
           }
         } else {
-          marketStatus = getMarketStatus();
+          marketStatus = getMarketStatus(pos.symbol) ?? 'closed';
         }
 
         return {
           _id: pos._id,
+          portfolio: pos.portfolio,
           symbol: pos.symbol,
           name: pos.name,
           quantity: pos.quantity,
           averagePrice: pos.averagePrice,
           lots: pos.lots,
+          sales: pos.sales,
+          realizedGain: pos.realizedGain || 0,
+          tags: pos.tags || [],
           price: currentPrice,
           change,
           changePercent,
@@ -219,6 +253,9 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
           extendedChange,
           extendedChangePercent,
           marketStatus,
+          exchange: extendedQuote?.exchange,
+          listingCurrency: extendedQuote?.listingCurrency,
+          listingPrice: extendedQuote?.listingPrice ?? undefined,
           fiftyTwoWeekLow: extendedQuote?.fiftyTwoWeekLow,
           nextEarningsDate: extendedQuote?.earningsTimestamp,
           sparklineData: Array(10).fill(currentPrice), // placeholder until background fetch
@@ -226,6 +263,9 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         };
       });
 
+      // Drop the response if the user switched portfolio while it was in flight
+      if (activePortfolioRef.current !== scope) return;
+
       setPositions(positionsWithPrices);
       // Save fresh data to localStorage for next refresh
       saveCachedPositions(positionsWithPrices);
@@ -281,11 +321,94 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     }
   }, [positions, analyticsLoading, portfolioAnalytics, lastAnalyticsFetch]);
 
-  // Load positions on mount and when auth status changes
+  // Cash balance comes from the transaction ledger
+  const refreshCashBalance = useCallback(async () => {
+    if (!isAuthenticated) {
+      setCashBalance(0);
+      setLedgerVersion('');
+      return;
+    }
+    const scope = activePortfolioRef.current;
+    try {
+      const ledger = await transactionsAPI.getAll();
+      if (activePortfolioRef.current !== scope) return;
+      setCashBalance(ledger.cashBalance);
+      setLedgerVersion(ledger.transactions.map(t => `${t._id}:${t.date}:${t.amount}:${t.fee}`).join(','));
+    } catch (err) {
+      console.warn('Failed to load cash balance:', err);
+    }
+  }, [isAuthenticated]);
+
+  // Applies any new splits / spinoffs server-side; reload lots when something changed
+  const refreshCorporateActions = async () => {
+    if (!isAuthenticated) {
+      setCorporateActions([]);
+      return;
+    }
+    const scope = activePortfolioRef.current;
+    try {
+      const { actions, newlyApplied } = await corporateActionsAPI.getAll();
+      if (activePortfolioRef.current !== scope) return;
+      setCorporateActions(actions);
+      if (newlyApplied > 0) {
+        await fetchPositions();
+        setLastAnalyticsFetch(0);
+        fetchPortfolios();
+      }
+    } catch (err) {
+      console.warn('Failed to load corporate actions:', err);
+    }
+  };
+
+  const fetchPortfolios = useCallback(async () => {
+    if (!isAuthenticated) {
+      setPortfolios([]);
+      return;
+    }
+    try {
+      const list = await portfoliosAPI.getAll();
+      setPortfolios(list);
+      // Stored selection no longer exists (deleted elsewhere) — fall back to all
+      const active = activePortfolioRef.current;
+      if (active !== ALL_PORTFOLIOS && !list.some(p => p._id === active)) {
+        switchPortfolio(ALL_PORTFOLIOS);
+      }
+    } catch (err) {
+      console.warn('Failed to load portfolios:', err);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated]);
+
+  const switchPortfolio = (id: string) => {
+    if (id === activePortfolioRef.current) return;
+    localStorage.setItem(ACTIVE_PORTFOLIO_KEY, id);
+    activePortfolioRef.current = id;
+    setActivePortfolioId(id);
+
+    // Show the cached holdings for this portfolio instantly; the effect below revalidates
+    setPositions(loadCachedPositions(id));
+    setPortfolioAnalytics(null);
+    setLastAnalyticsFetch(0);
+    setSocketPortfolio(id);
+  };
+
+  // Load portfolios on mount and when auth status changes
+  useEffect(() => {
+    fetchPortfolios();
+  }, [fetchPortfolios]);
+
+  // Exchange hours / holidays for market status between quote refreshes
+  useEffect(() => {
+    if (isAuthenticated) loadExchanges();
+  }, [isAuthenticated]);
+
+  // Load positions + cash for the active portfolio
   useEffect(() => {
     fetchPositions();
+    refreshCashBalance();
+    refreshCorporateActions();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthenticated]);
+  }, [isAuthenticated, activePortfolioId]);
 
   // Clear analytics when positions change efficiently
   // Actually, we should probably invalidate logic. 
@@ -321,7 +444,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       const results = await Promise.all(
         positions.map(async (pos) => {
           try {
-            const history = await stocksAPI.getStockHistory(pos.symbol, from, to, 'D');
+            const history = await stocksAPI.getStockHistory(pos.symbol, from, to);
             if (history && history.c && Array.isArray(history.c) && history.c.length > 0) {
               return { symbol: pos.symbol, sparklineData: history.c };
             }
@@ -343,26 +466,15 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [positions.length, isAuthenticated]);
 
-  // WebSocket integration for real-time updates
+  // Real-time prices from the server's price stream hub (over the shared Socket.io connection)
   useEffect(() => {
-    if (!isAuthenticated || positions.length === 0) return;
+    if (!isAuthenticated || !token || positions.length === 0) return;
 
-    const apiKey = import.meta.env.VITE_FINNHUB_API_KEY;
-    if (!apiKey) {
-      console.error('❌ VITE_FINNHUB_API_KEY not found in environment variables');
-      return;
-    }
+    const socket = initSocket(token);
+    const symbols = positions.map(pos => pos.symbol);
 
-    console.log('🚀 Initializing WebSocket for real-time updates...');
-    const ws = getFinnhubWebSocket(apiKey);
-
-    // Connect to WebSocket
-    ws.connect();
-
-    // Subscribe to all position symbols
-    positions.forEach(pos => {
-      ws.subscribeToSymbol(pos.symbol);
-    });
+    // Counted per symbol (and re-joined on reconnect) by the socket service
+    subscribePrices(symbols);
 
     // Store previous close prices for each stock (from initial fetch)
     const previousCloseMap = new Map<string, number>();
@@ -372,8 +484,8 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       previousCloseMap.set(pos.symbol, previousClose);
     });
 
-    // Handle price updates
-    const handlePriceUpdate: PriceUpdateCallback = (symbol, price) => {
+    // Handle aggregated price updates (one per symbol per flush)
+    const handlePriceUpdate = ({ symbol, price }: PriceUpdate) => {
       setPositions(prev => prev.map(pos => {
         if (pos.symbol === symbol) {
           // Calculate change against previous close (not last price!)
@@ -382,7 +494,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
           const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
 
           // Check market status
-          const marketStatus = getMarketStatus();
+          const marketStatus = getMarketStatus(symbol) ?? pos.marketStatus ?? 'regular';
           const inExtendedHours = marketStatus !== 'regular';
 
           return {
@@ -407,29 +519,37 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       }));
     };
 
-    const unsubscribe = ws.onPriceUpdate(handlePriceUpdate);
+    socket.on('price-update', handlePriceUpdate);
 
     // Cleanup on unmount or when positions change
     return () => {
-      console.log('🧹 Cleaning up WebSocket subscriptions...');
-      unsubscribe();
-      positions.forEach(pos => {
-        ws.unsubscribeFromSymbol(pos.symbol);
-      });
+      socket.off('price-update', handlePriceUpdate);
+      unsubscribePrices(symbols);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthenticated, positions.length]);
+  }, [isAuthenticated, token, positions.length]);
 
-  const addPosition = async (symbol: string, name: string, quantity: number, averagePrice: number, date?: string | Date) => {
+  const addPosition = async (symbol: string, name: string, quantity: number, averagePrice: number, date?: string | Date, portfolioId?: string) => {
     try {
       setError(null);
-      const newPosition = await positionsAPI.create({
+      // Positions are derived from the ledger: adding a position records a buy
+      const { position: newPosition } = await transactionsAPI.create({
+        type: 'buy',
+        portfolio: portfolioId,
         symbol: symbol.toUpperCase(),
         name,
         quantity,
-        averagePrice, // Ensure this field is sent
+        price: averagePrice,
         date: date || new Date(),
       });
+      if (!newPosition) throw new Error('Buy transaction returned no position');
+      refreshCashBalance();
+
+      // Buying more of an existing holding just adds a lot to it
+      if (positions.some(p => p._id === newPosition._id)) {
+        applyHoldings(newPosition);
+        return;
+      }
 
       // Try to fetch current price, but don't fail if it doesn't work
       let currentPrice = averagePrice; // Default to average price
@@ -447,16 +567,19 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
       }
 
       // Check market status
-      const marketStatus = getMarketStatus();
+      const marketStatus = getMarketStatus(symbol) ?? 'regular';
       const inExtendedHours = marketStatus !== 'regular';
 
       const positionWithPrice: Position = {
         _id: newPosition._id,
+        portfolio: newPosition.portfolio,
         symbol: newPosition.symbol,
         name: newPosition.name,
         quantity: newPosition.quantity,
         averagePrice: newPosition.averagePrice,
         lots: newPosition.lots,
+        sales: newPosition.sales,
+        realizedGain: newPosition.realizedGain || 0,
         price: currentPrice,
         change,
         changePercent,
@@ -479,6 +602,7 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         saveCachedPositions(updated);
         return updated;
       });
+      fetchPortfolios();
       // Invalidate analytics
       setLastAnalyticsFetch(0);
       fetchAnalytics(true);
@@ -505,6 +629,9 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
               quantity: updatedPos.quantity,
               averagePrice: updatedPos.averagePrice,
               lots: updatedPos.lots,
+              sales: updatedPos.sales,
+              realizedGain: updatedPos.realizedGain || 0,
+              tags: updatedPos.tags || [],
               // Keep the live market data which isn't in the update response (unless backend fetches it)
               price: pos.price,
               change: pos.change,
@@ -523,6 +650,8 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         saveCachedPositions(updated);
         return updated;
       });
+      // Lot edits rewrite their buys in the ledger
+      refreshCashBalance();
       // Invalidate analytics
       setLastAnalyticsFetch(0);
       fetchAnalytics(true);
@@ -532,6 +661,136 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Merge server-side holdings (lots, sales, aggregates) into local state, keeping live market data
+  const applyHoldings = (updatedPos: ApiPosition) => {
+    setPositions((prev) => {
+      const updated = prev.map((pos) =>
+        pos._id === updatedPos._id
+          ? {
+            ...pos,
+            quantity: updatedPos.quantity,
+            averagePrice: updatedPos.averagePrice,
+            lots: updatedPos.lots,
+            sales: updatedPos.sales,
+            realizedGain: updatedPos.realizedGain || 0,
+          }
+          : pos
+      );
+      saveCachedPositions(updated);
+      return updated;
+    });
+    // Invalidate analytics
+    setLastAnalyticsFetch(0);
+    fetchAnalytics(true);
+  };
+
+  const sellPosition = async (id: string, data: SellPositionData) => {
+    try {
+      setError(null);
+      const position = positions.find(p => p._id === id);
+      if (!position) throw new Error('Position not found');
+
+      // Sales go through the ledger so the proceeds land in cash
+      const { position: updatedPos } = await transactionsAPI.create({
+        type: 'sell',
+        portfolio: position.portfolio,
+        symbol: position.symbol,
+        quantity: data.quantity,
+        price: data.price,
+        date: data.date,
+        costBasisMethod: data.method,
+        lotSelections: data.lotSelections,
+      });
+      if (updatedPos) applyHoldings(updatedPos);
+      refreshCashBalance();
+      fetchPortfolios();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to sell position');
+      throw err;
+    }
+  };
+
+  const recordTransaction = async (data: CreateTransactionData) => {
+    try {
+      setError(null);
+      await transactionsAPI.create(data);
+      // Trades change holdings; reload them so new symbols get prices too
+      if (data.type === 'buy' || data.type === 'sell') {
+        await fetchPositions();
+        setLastAnalyticsFetch(0);
+        fetchPortfolios();
+      }
+      await refreshCashBalance();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to record transaction');
+      throw err;
+    }
+  };
+
+  const deleteTransaction = async (id: string) => {
+    try {
+      setError(null);
+      const result = await transactionsAPI.delete(id);
+      if (result.type === 'buy' || result.type === 'sell') {
+        await fetchPositions();
+        setLastAnalyticsFetch(0);
+        fetchPortfolios();
+      }
+      await refreshCashBalance();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to delete transaction');
+      throw err;
+    }
+  };
+
+  const importPositions = async (rows: ImportRow[]) => {
+    try {
+      setError(null);
+      const result = await positionsAPI.import(rows, false);
+      // Imports can touch many symbols; reload so new ones get prices too
+      await fetchPositions();
+      setLastAnalyticsFetch(0);
+      await refreshCashBalance();
+      fetchPortfolios();
+      return result;
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to import positions');
+      throw err;
+    }
+  };
+
+  // Tags only group positions for allocation targets; holdings and analytics are unaffected
+  const setPositionTags = async (id: string, tags: string[]) => {
+    try {
+      setError(null);
+      const updatedPos = await positionsAPI.update(id, { tags });
+      setPositions((prev) => {
+        const updated = prev.map((pos) => (pos._id === id ? { ...pos, tags: updatedPos.tags || [] } : pos));
+        saveCachedPositions(updated);
+        return updated;
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to update tags');
+      throw err;
+    }
+  };
+
+  const applyRebalance = async (trades: RebalanceTrade[], date?: string) => {
+    try {
+      setError(null);
+      const result = await rebalanceAPI.apply(trades, date);
+      // Rebalancing can buy symbols not held yet; reload so they get prices too
+      await fetchPositions();
+      setLastAnalyticsFetch(0);
+      await refreshCashBalance();
+      fetchPortfolios();
+      return result;
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to apply rebalance');
+      throw err;
+    }
+  };
+
   const removePosition = async (id: string) => {
     try {
       setError(null);
@@ -541,6 +800,9 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         saveCachedPositions(updated);
         return updated;
       });
+      // Its buys and sells leave the ledger with it
+      refreshCashBalance();
+      fetchPortfolios();
       // Invalidate analytics
       setLastAnalyticsFetch(0);
       fetchAnalytics(true);
@@ -550,6 +812,51 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const createPortfolio = async (name: string) => {
+    const portfolio = await portfoliosAPI.create(name);
+    setPortfolios(prev => [...prev, portfolio]);
+    switchPortfolio(portfolio._id);
+    return portfolio;
+  };
+
+  const renamePortfolio = async (id: string, name: string) => {
+    const updated = await portfoliosAPI.rename(id, name);
+    setPortfolios(prev => prev.map(p => (p._id === id ? { ...p, name: updated.name } : p)));
+  };
+
+  const setDividendReinvestment = async (id: string, enabled: boolean) => {
+    const updated = await portfoliosAPI.setDividendReinvestment(id, enabled);
+    setPortfolios(prev => prev.map(p => (p._id === id ? { ...p, dividendReinvestment: updated.dividendReinvestment } : p)));
+  };
+
+  const setBenchmarks = async (id: string, benchmarks: Benchmark[] | null) => {
+    const updated = await portfoliosAPI.setBenchmarks(id, benchmarks);
+    setPortfolios(prev => prev.map(p => (p._id === id ? { ...p, benchmarks: updated.benchmarks } : p)));
+    // The comparison is part of the analytics payload
+    await fetchAnalytics(true);
+  };
+
+  const confirmCorporateAction = async (id: string) => {
+    const updated = await corporateActionsAPI.confirm(id);
+    setCorporateActions(prev => prev.map(a => (a._id === id ? updated : a)));
+  };
+
+  const undoCorporateAction = async (id: string) => {
+    const updated = await corporateActionsAPI.undo(id);
+    setCorporateActions(prev => prev.map(a => (a._id === id ? updated : a)));
+    // Lots (and possibly which positions exist) went back to their pre-action state
+    await fetchPositions();
+    setLastAnalyticsFetch(0);
+    fetchPortfolios();
+  };
+
+  const deletePortfolio = async (id: string) => {
+    await portfoliosAPI.delete(id);
+    setPortfolios(prev => prev.filter(p => p._id !== id));
+    localStorage.removeItem(cacheKeyFor(id));
+    if (activePortfolioRef.current === id) switchPortfolio(ALL_PORTFOLIOS);
+  };
+
   return (
     <PortfolioContext.Provider
       value={{
@@ -558,7 +865,31 @@ export function PortfolioProvider({ children }: { children: ReactNode }) {
         error,
         addPosition,
         updatePosition,
+        sellPosition,
         removePosition,
+        importPositions,
+        setPositionTags,
+        applyRebalance,
+        // Portfolios
+        portfolios,
+        activePortfolioId,
+        switchPortfolio,
+        createPortfolio,
+        renamePortfolio,
+        setDividendReinvestment,
+        setBenchmarks,
+        deletePortfolio,
+        // Ledger
+        cashBalance,
+        ledgerVersion,
+        refreshCashBalance,
+        recordTransaction,
+        deleteTransaction,
+        // Corporate actions
+        corporateActions,
+        refreshCorporateActions,
+        confirmCorporateAction,
+        undoCorporateAction,
         // Analytics
         portfolioAnalytics,
         analyticsLoading,
@@ -0,0 +1,17 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { IndicatorSettings, withIndicatorDefaults } from '@/services/indicators';
+
+// Chart indicator choice, saved on the user so it follows them across devices
+export function useIndicatorSettings() {
+    const { user, updatePreferences } = useAuth();
+    const saved = user?.chartIndicators;
+
+    const settings = useMemo(() => withIndicatorDefaults(saved), [saved]);
+    const saveSettings = useCallback(
+        (next: IndicatorSettings) => updatePreferences({ chartIndicators: next }),
+        [updatePreferences]
+    );
+
+    return { settings, saveSettings };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+// No router library: the current path lives in window.location and links push history entries.
+// navigate() fires popstate so every useRoute() re-renders, the same as the browser's back button.
+export function navigate(path: string) {
+    if (path === window.location.pathname) return;
+    window.history.pushState(null, '', path);
+    window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+export function useRoute() {
+    const [pathname, setPathname] = useState(window.location.pathname);
+
+    useEffect(() => {
+        const onChange = () => setPathname(window.location.pathname);
+        window.addEventListener('popstate', onChange);
+        return () => window.removeEventListener('popstate', onChange);
+    }, []);
+
+    return pathname;
+}
+
+export const stockPath = (symbol: string) => `/stock/${encodeURIComponent(symbol)}`;
+
+/**
+ * Symbol from a /stock/:symbol path, or null
+ */
+export function matchStockPath(pathname: string): string | null {
+    const match = pathname.match(/^\/stock\/([^/]+)\/?$/);
+    return match ? decodeURIComponent(match[1]).toUpperCase() : null;
+}
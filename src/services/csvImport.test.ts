@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseDate, parseNumber } from './csvImport';
+
+describe('parseNumber', () => {
+    it('reads US notation', () => {
+        expect(parseNumber('$1,234.50')).toBe(1234.5);
+        expect(parseNumber('1,234,567')).toBe(1234567);
+        expect(parseNumber('12.5')).toBe(12.5);
+    });
+
+    it('reads European notation with a dot thousands separator and a comma decimal', () => {
+        expect(parseNumber('1.234,50')).toBe(1234.5);
+        expect(parseNumber('€ 1.234.567,89')).toBe(1234567.89);
+        expect(parseNumber('1.234.567')).toBe(1234567);
+    });
+
+    it('reads a lone comma as the decimal unless it groups thousands', () => {
+        expect(parseNumber('12,5')).toBe(12.5);
+        expect(parseNumber('1 234,5')).toBe(1234.5);
+        expect(parseNumber('1,234')).toBe(1234);
+    });
+
+    it('keeps the sign of negative and bracketed amounts', () => {
+        expect(parseNumber('-1.234,50')).toBe(-1234.5);
+        expect(parseNumber('(12)')).toBe(-12);
+    });
+});
+
+describe('parseDate', () => {
+    it('reads each day order and rejects impossible dates', () => {
+        expect(parseDate('2024-03-05', 'iso')).toBe('2024-03-05');
+        expect(parseDate('03/05/2024', 'mdy')).toBe('2024-03-05');
+        expect(parseDate('05.03.24', 'dmy')).toBe('2024-03-05');
+        expect(parseDate('2024-02-30', 'iso')).toBe('');
+    });
+});
+
+describe('parseCsv', () => {
+    it('handles quotes and semicolon-delimited exports', () => {
+        expect(parseCsv('Symbol;Price\r\nAAPL;"1.234,50"\r\n')).toEqual([['Symbol', 'Price'], ['AAPL', '1.234,50']]);
+        expect(parseCsv('a,b\n"say ""hi""",2')).toEqual([['a', 'b'], ['say "hi"', '2']]);
+    });
+});
@@ -0,0 +1,84 @@
+// Parsing for broker CSV exports: rows, numbers in US or European notation, and dates.
+
+export type DateFormat = 'iso' | 'mdy' | 'dmy';
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF.
+ * Detects ';' as the delimiter when the header has more of them than commas.
+ */
+export function parseCsv(text: string): string[][] {
+    const firstLine = text.split(/\r?\n/)[0] || '';
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field.trim());
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field.trim());
+            if (row.some(cell => cell !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field.trim());
+    if (row.some(cell => cell !== '')) rows.push(row);
+    return rows;
+}
+
+// "$1,234.50" / "1.234,50" / "(12)" / "1 234,5" → number
+export function parseNumber(value: string): number {
+    const trimmed = value.trim();
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+    let cleaned = trimmed.replace(/[^\d.,]/g, '');
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+    if (lastComma >= 0 && lastDot >= 0) {
+        // Both separators: whichever comes last is the decimal ("1.234,50" / "1,234.50")
+        cleaned = lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+    } else if (lastComma >= 0) {
+        // Treat a lone comma as the decimal separator (European exports), unless it looks like thousands
+        cleaned = /^\d*,\d*$/.test(cleaned) && !/,\d{3}$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '');
+    } else if (cleaned.indexOf('.') !== lastDot) {
+        // Several dots can only be thousands separators ("1.234.567")
+        cleaned = cleaned.replace(/\./g, '');
+    }
+    const num = parseFloat(cleaned);
+    return negative ? -num : num;
+}
+
+// Returns YYYY-MM-DD or '' when the value can't be parsed
+export function parseDate(value: string, format: DateFormat): string {
+    const trimmed = value.trim().split(/[ T]/)[0];
+    const parts = trimmed.split(/[/.-]/).map(Number);
+    if (parts.length !== 3 || parts.some(isNaN)) return '';
+
+    let [year, month, day] = parts;
+    if (format === 'mdy') [month, day, year] = parts;
+    if (format === 'dmy') [day, month, year] = parts;
+    if (year < 100) year += 2000;
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return '';
+    return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,64 @@
+import { stocksAPI, Exchange, MarketStatus } from '../api/stocks';
+
+// Metadata is served by the backend (single source for hours / holidays) and loaded once
+let exchanges: Exchange[] = [];
+let loadPromise: Promise<Exchange[]> | null = null;
+
+export function loadExchanges(): Promise<Exchange[]> {
+    if (!loadPromise) {
+        loadPromise = stocksAPI.getExchanges()
+            .then(list => (exchanges = list))
+            .catch(error => {
+                console.warn('⚠️ Exchange metadata unavailable:', error);
+                loadPromise = null; // Retry on next call
+                return exchanges;
+            });
+    }
+    return loadPromise;
+}
+
+// Exchange for a symbol from its Yahoo suffix; unsuffixed symbols (and BRK.B style classes) are US
+export function exchangeForSymbol(symbol: string): Exchange | undefined {
+    const dot = symbol.lastIndexOf('.');
+    const suffix = dot > 0 ? symbol.slice(dot).toUpperCase() : null;
+    return (suffix && exchanges.find(e => e.suffixes.includes(suffix))) || exchanges.find(e => e.code === 'US');
+}
+
+const toMinutes = (hhmm: string) => {
+    const [h, m] = hhmm.split(':').map(Number);
+    return h * 60 + m;
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Wall clock in the exchange's own timezone
+function localClock(timezone: string, now: Date) {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+    }).formatToParts(now).map(p => [p.type, p.value]));
+
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: WEEKDAYS[parts.weekday],
+        minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+}
+
+// Current session for a symbol's exchange, or null until metadata has loaded
+export function getMarketStatus(symbol: string, now: Date = new Date()): MarketStatus | null {
+    const exchange = exchangeForSymbol(symbol);
+    if (!exchange) return null;
+
+    const { date, weekday, minutes } = localClock(exchange.timezone, now);
+    if (!exchange.tradingDays.includes(weekday) || exchange.holidays.includes(date)) return 'closed';
+
+    const { hours } = exchange;
+    const close = toMinutes(exchange.earlyCloses[date] || exchange.weekdayCloses?.[weekday] || hours.close);
+
+    if (minutes >= toMinutes(hours.open) && minutes < close) return 'regular';
+    if (hours.preMarket && minutes >= toMinutes(hours.preMarket) && minutes < toMinutes(hours.open)) return 'pre-market';
+    if (hours.postMarket && minutes >= close && minutes < toMinutes(hours.postMarket)) return 'after-hours';
+    return 'closed';
+}
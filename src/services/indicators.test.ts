@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+    bollinger,
+    computeIndicators,
+    DEFAULT_INDICATOR_SETTINGS,
+    ema,
+    macd,
+    rsi,
+    Series,
+    sliceIndicators,
+    sma,
+    vwap,
+} from './indicators';
+
+const leadingNulls = (series: Series) => series.findIndex(v => v !== null);
+
+// Wilder's RSI(14) worked example (StockCharts "RSI" ChartSchool article). The expected values
+// are the unrounded ones (as TA-Lib gives); the article rounds its first averages and reads ~0.07 higher.
+const RSI_CLOSES = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+    46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+    43.42, 42.66, 43.13,
+];
+const RSI_EXPECTED = [
+    70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.90,
+    45.50, 37.32, 33.09, 37.79,
+];
+
+describe('sma', () => {
+    it('is null until the window is full, then the window mean', () => {
+        const out = sma([1, 2, 3, 4, 5, 6], 3);
+        expect(out.slice(0, 2)).toEqual([null, null]);
+        expect(out.slice(2)).toEqual([2, 3, 4, 5]);
+    });
+
+    it('is all null when there are fewer values than the period', () => {
+        expect(sma([1, 2], 3)).toEqual([null, null]);
+    });
+});
+
+describe('ema', () => {
+    it('is seeded with the SMA of the first period values', () => {
+        const out = ema([2, 4, 6, 8, 10], 3);
+        expect(out.slice(0, 2)).toEqual([null, null]);
+        expect(out[2]).toBe(4);
+        // k = 2 / (3 + 1) = 0.5
+        expect(out[3]).toBe(6);
+        expect(out[4]).toBe(8);
+    });
+
+    it('is all null when there are fewer values than the period', () => {
+        expect(ema([1, 2], 5)).toEqual([null, null]);
+    });
+});
+
+describe('bollinger', () => {
+    it('uses the population standard deviation around the SMA', () => {
+        const { middle, upper, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+        expect(leadingNulls(middle)).toBe(7);
+        expect(middle[7]).toBe(5);
+        // Population standard deviation of this set is exactly 2
+        expect(upper[7]).toBe(9);
+        expect(lower[7]).toBe(1);
+    });
+
+    it('collapses onto the middle band for a flat series', () => {
+        const { middle, upper, lower } = bollinger([10, 10, 10, 10], 2);
+        expect(upper[1]).toBe(middle[1]);
+        expect(lower[3]).toBe(middle[3]);
+        expect(upper[0]).toBeNull();
+    });
+});
+
+describe('rsi', () => {
+    it('matches the Wilder-smoothed reference series', () => {
+        const out = rsi(RSI_CLOSES, 14);
+        expect(leadingNulls(out)).toBe(14);
+        out.slice(14).forEach((value, i) => {
+            expect(value).toBeCloseTo(RSI_EXPECTED[i], 1);
+        });
+    });
+
+    it('is 100 without losses and 50 without any movement', () => {
+        expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+        expect(rsi([5, 5, 5, 5], 3)[3]).toBe(50);
+    });
+
+    it('is all null until there are period changes', () => {
+        expect(rsi([1, 2, 3], 3)).toEqual([null, null, null]);
+    });
+});
+
+describe('macd', () => {
+    const closes = [10, 11, 12, 11, 13, 14, 13, 15, 16, 15, 17, 18];
+
+    it('starts the line at the slow EMA and the signal once it has signal values of the line', () => {
+        const { macd: line, signal, histogram } = macd(closes, 3, 5, 3);
+        expect(leadingNulls(line)).toBe(4);
+        expect(leadingNulls(signal)).toBe(6);
+        expect(leadingNulls(histogram)).toBe(6);
+        expect([line, signal, histogram].map(s => s.length)).toEqual([closes.length, closes.length, closes.length]);
+    });
+
+    it('seeds the signal with the mean of the first line values and aligns it by bar', () => {
+        const { macd: line, signal, histogram } = macd(closes, 3, 5, 3);
+        const fast = ema(closes, 3);
+        const slow = ema(closes, 5);
+        expect(line[7]).toBeCloseTo((fast[7] as number) - (slow[7] as number), 12);
+        expect(signal[6]).toBeCloseTo(((line[4] as number) + (line[5] as number) + (line[6] as number)) / 3, 12);
+        expect(histogram[9]).toBeCloseTo((line[9] as number) - (signal[9] as number), 12);
+    });
+});
+
+describe('vwap', () => {
+    const DAY = 86400;
+    // Two bars on each of two days; typical price = close when h = l = c
+    const bars = {
+        t: [DAY * 100 + 3600, DAY * 100 + 7200, DAY * 101 + 3600, DAY * 101 + 7200],
+        h: [10, 20, 30, 40],
+        l: [10, 20, 30, 40],
+        c: [10, 20, 30, 40],
+        v: [1, 3, 2, 2],
+    };
+
+    it('accumulates across days when anchored', () => {
+        const out = vwap(bars);
+        expect(out[1]).toBe((10 * 1 + 20 * 3) / 4);
+        expect(out[3]).toBe((10 * 1 + 20 * 3 + 30 * 2 + 40 * 2) / 8);
+    });
+
+    it('restarts on each UTC day with resetDaily', () => {
+        const out = vwap(bars, { resetDaily: true });
+        expect(out[1]).toBe(17.5);
+        expect(out[2]).toBe(30);
+        expect(out[3]).toBe(35);
+    });
+
+    it('starts at the anchor bar and stays null without volume', () => {
+        expect(vwap(bars, { anchor: 2 })).toEqual([null, null, 30, 35]);
+        expect(vwap({ ...bars, v: [0, 0, 0, 0] })).toEqual([null, null, null, null]);
+    });
+});
+
+describe('sliceIndicators', () => {
+    it('drops the warm-up bars from every enabled series and leaves the rest out', () => {
+        const closes = Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i) * 5);
+        const candles = { t: closes.map((_, i) => i * 86400), h: closes, l: closes, c: closes, v: closes.map(() => 1) };
+        const settings = {
+            ...DEFAULT_INDICATOR_SETTINGS,
+            sma: { enabled: true, period: 5 },
+            bollinger: { enabled: true, period: 5, stdDev: 2 },
+            macd: { enabled: true, fast: 3, slow: 6, signal: 3 },
+        };
+
+        const full = computeIndicators(candles, settings);
+        const sliced = sliceIndicators(full, 10);
+
+        expect(sliced.sma).toEqual(full.sma!.slice(10));
+        expect(sliced.bollinger!.upper).toEqual(full.bollinger!.upper.slice(10));
+        expect(sliced.macd!.signal).toEqual(full.macd!.signal.slice(10));
+        expect(sliced.sma).toHaveLength(30);
+        expect(sliced.ema).toBeUndefined();
+        expect(sliced.rsi).toBeUndefined();
+        expect(sliced.vwap).toBeUndefined();
+    });
+});
@@ -0,0 +1,258 @@
+// Technical indicators over candle series. Every output is aligned with its input:
+// index i belongs to bar i, and bars before an indicator has enough history are null.
+
+export type Series = (number | null)[];
+
+export type IndicatorName = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd' | 'vwap';
+
+export interface IndicatorSettings {
+    sma: { enabled: boolean; period: number };
+    ema: { enabled: boolean; period: number };
+    bollinger: { enabled: boolean; period: number; stdDev: number };
+    rsi: { enabled: boolean; period: number };
+    macd: { enabled: boolean; fast: number; slow: number; signal: number };
+    vwap: { enabled: boolean };
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+    sma: { enabled: false, period: 50 },
+    ema: { enabled: false, period: 20 },
+    bollinger: { enabled: false, period: 20, stdDev: 2 },
+    rsi: { enabled: false, period: 14 },
+    macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    vwap: { enabled: false },
+};
+
+// Same bounds the server validates against (CHART_INDICATOR_PARAMS)
+export const INDICATOR_PARAM_LIMITS: Record<IndicatorName, Record<string, [number, number]>> = {
+    sma: { period: [2, 250] },
+    ema: { period: [2, 250] },
+    bollinger: { period: [2, 250], stdDev: [0.5, 5] },
+    rsi: { period: [2, 100] },
+    macd: { fast: [2, 100], slow: [3, 250], signal: [2, 100] },
+    vwap: {},
+};
+
+// As stored on the user: any indicator or parameter may be missing
+export type SavedIndicatorSettings = { [K in IndicatorName]?: Partial<IndicatorSettings[K]> };
+
+/**
+ * Saved settings over the defaults, so settings saved before an indicator existed still load
+ */
+export function withIndicatorDefaults(saved?: SavedIndicatorSettings | null): IndicatorSettings {
+    const d = DEFAULT_INDICATOR_SETTINGS;
+    return {
+        sma: { ...d.sma, ...saved?.sma },
+        ema: { ...d.ema, ...saved?.ema },
+        bollinger: { ...d.bollinger, ...saved?.bollinger },
+        rsi: { ...d.rsi, ...saved?.rsi },
+        macd: { ...d.macd, ...saved?.macd },
+        vwap: { ...d.vwap, ...saved?.vwap },
+    };
+}
+
+// ─── Moving averages ────────────────────────────────────────────
+
+export function sma(values: number[], period: number): Series {
+    const out: Series = new Array(values.length).fill(null);
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+        sum += values[i];
+        if (i >= period) sum -= values[i - period];
+        if (i >= period - 1) out[i] = sum / period;
+    }
+    return out;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` values
+ */
+export function ema(values: number[], period: number): Series {
+    const out: Series = new Array(values.length).fill(null);
+    if (values.length < period) return out;
+
+    const k = 2 / (period + 1);
+    let prev = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+    out[period - 1] = prev;
+    for (let i = period; i < values.length; i++) {
+        prev = values[i] * k + prev * (1 - k);
+        out[i] = prev;
+    }
+    return out;
+}
+
+// EMA over a series with a null warm-up (used for the MACD signal line)
+function emaOfSeries(series: Series, period: number): Series {
+    const start = series.findIndex(v => v !== null);
+    if (start === -1) return series.map(() => null);
+    const tail = ema(series.slice(start) as number[], period);
+    return [...new Array(start).fill(null), ...tail];
+}
+
+// ─── Bollinger Bands ────────────────────────────────────────────
+
+export interface BollingerBands {
+    middle: Series;
+    upper: Series;
+    lower: Series;
+}
+
+/**
+ * SMA middle band ± stdDev population standard deviations over the same window
+ */
+export function bollinger(values: number[], period = 20, stdDev = 2): BollingerBands {
+    const middle = sma(values, period);
+    const upper: Series = new Array(values.length).fill(null);
+    const lower: Series = new Array(values.length).fill(null);
+
+    for (let i = period - 1; i < values.length; i++) {
+        const mean = middle[i] as number;
+        let variance = 0;
+        for (let j = i - period + 1; j <= i; j++) variance += (values[j] - mean) ** 2;
+        const deviation = Math.sqrt(variance / period) * stdDev;
+        upper[i] = mean + deviation;
+        lower[i] = mean - deviation;
+    }
+    return { middle, upper, lower };
+}
+
+// ─── RSI ────────────────────────────────────────────────────────
+
+/**
+ * Wilder's RSI: first average gain/loss is a simple mean, then smoothed by (period - 1) / period
+ */
+export function rsi(values: number[], period = 14): Series {
+    const out: Series = new Array(values.length).fill(null);
+    if (values.length <= period) return out;
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+        const change = values[i] - values[i - 1];
+        if (change > 0) avgGain += change;
+        else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    const toRsi = () => (avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss));
+    out[period] = toRsi();
+
+    for (let i = period + 1; i < values.length; i++) {
+        const change = values[i] - values[i - 1];
+        avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+        avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+        out[i] = toRsi();
+    }
+    return out;
+}
+
+// ─── MACD ───────────────────────────────────────────────────────
+
+export interface Macd {
+    macd: Series;
+    signal: Series;
+    histogram: Series;
+}
+
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9): Macd {
+    const fastEma = ema(values, fast);
+    const slowEma = ema(values, slow);
+    const line: Series = values.map((_, i) =>
+        fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null);
+    const signal = emaOfSeries(line, signalPeriod);
+    const histogram: Series = line.map((v, i) => (v !== null && signal[i] !== null ? v - (signal[i] as number) : null));
+    return { macd: line, signal, histogram };
+}
+
+// ─── VWAP ───────────────────────────────────────────────────────
+
+export interface VwapInput {
+    t: number[]; // unix seconds
+    h: number[];
+    l: number[];
+    c: number[];
+    v: number[];
+}
+
+/**
+ * Volume-weighted average of the typical price (h + l + c) / 3, accumulated from the
+ * anchor bar. With resetDaily the running totals restart on each new UTC day
+ * (session VWAP for intraday bars); otherwise they run on (anchored VWAP for daily bars).
+ */
+export function vwap({ t, h, l, c, v }: VwapInput, { resetDaily = false, anchor = 0 } = {}): Series {
+    const out: Series = new Array(c.length).fill(null);
+    let priceVolume = 0;
+    let volume = 0;
+    let day: number | null = null;
+
+    for (let i = Math.max(0, anchor); i < c.length; i++) {
+        const barDay = Math.floor(t[i] / 86400);
+        if (resetDaily && barDay !== day) {
+            priceVolume = 0;
+            volume = 0;
+        }
+        day = barDay;
+
+        priceVolume += ((h[i] + l[i] + c[i]) / 3) * (v[i] || 0);
+        volume += v[i] || 0;
+        out[i] = volume > 0 ? priceVolume / volume : null;
+    }
+    return out;
+}
+
+// ─── All enabled indicators for a candle set ────────────────────
+
+export interface IndicatorSeries {
+    sma?: Series;
+    ema?: Series;
+    bollinger?: BollingerBands;
+    rsi?: Series;
+    macd?: Macd;
+    vwap?: Series;
+}
+
+/**
+ * Enabled indicators over the whole candle set. Pass extra leading bars as warm-up and
+ * their count as `anchor`: moving averages use them, the anchored VWAP starts after them.
+ */
+export function computeIndicators(
+    candles: VwapInput,
+    settings: IndicatorSettings,
+    { intraday = false, anchor = 0 } = {}
+): IndicatorSeries {
+    const closes = candles.c;
+    const result: IndicatorSeries = {};
+
+    if (settings.sma.enabled) result.sma = sma(closes, settings.sma.period);
+    if (settings.ema.enabled) result.ema = ema(closes, settings.ema.period);
+    if (settings.bollinger.enabled) result.bollinger = bollinger(closes, settings.bollinger.period, settings.bollinger.stdDev);
+    if (settings.rsi.enabled) result.rsi = rsi(closes, settings.rsi.period);
+    if (settings.macd.enabled) result.macd = macd(closes, settings.macd.fast, settings.macd.slow, settings.macd.signal);
+    if (settings.vwap.enabled) result.vwap = vwap(candles, { resetDaily: intraday, anchor });
+
+    return result;
+}
+
+/**
+ * Indicator series from bar `start` on (drops the warm-up once computed)
+ */
+export function sliceIndicators(series: IndicatorSeries, start: number): IndicatorSeries {
+    const cut = (values?: Series) => values?.slice(start);
+    return {
+        sma: cut(series.sma),
+        ema: cut(series.ema),
+        bollinger: series.bollinger && {
+            middle: series.bollinger.middle.slice(start),
+            upper: series.bollinger.upper.slice(start),
+            lower: series.bollinger.lower.slice(start),
+        },
+        rsi: cut(series.rsi),
+        macd: series.macd && {
+            macd: series.macd.macd.slice(start),
+            signal: series.macd.signal.slice(start),
+            histogram: series.macd.histogram.slice(start),
+        },
+        vwap: cut(series.vwap),
+    };
+}
@@ -1,7 +1,21 @@
 import { io, Socket } from 'socket.io-client';
+import { ACTIVE_PORTFOLIO_KEY } from '../api/client';
 
 let socket: Socket | null = null;
 
+// Views watching each symbol's prices: the server room is only left when the last one stops
+const priceWatchers = new Map<string, number>();
+
+export interface PriceUpdate {
+  symbol: string;
+  price: number; // Last trade in the flush window
+  volume: number; // Summed over the window
+  high: number;
+  low: number;
+  trades: number;
+  timestamp: number; // ms
+}
+
 // Use VITE_SOCKET_URL for dedicated socket server, or fallback to VITE_API_URL/localhost
 const SOCKET_URL = (import.meta.env.VITE_SOCKET_URL || import.meta.env.VITE_API_URL || 'http://localhost:5000').replace(/\/api$/, '');
 
@@ -16,20 +30,26 @@ export function getSocket(): Socket | null {
  * Initialize Socket.io connection with authentication
  */
 export function initSocket(token: string): Socket {
-  if (socket?.connected) {
+  // Shared by alerts, news and prices: reuse while connected or still (re)connecting
+  if (socket && (socket.connected || socket.active)) {
     return socket;
   }
 
   socket = io(SOCKET_URL, {
-    auth: { token },
+    // Function form so reconnects pick up the current active portfolio
+    auth: (cb) => cb({ token, portfolioId: localStorage.getItem(ACTIVE_PORTFOLIO_KEY) || 'all' }),
     reconnection: true,
-    reconnectionAttempts: 5,
+    reconnectionAttempts: Infinity,
     reconnectionDelay: 1000,
-    reconnectionDelayMax: 5000,
+    reconnectionDelayMax: 30000,
   });
 
   socket.on('connect', () => {
     console.log('🔌 Socket.io connected:', socket?.id);
+    // Rooms don't survive a reconnect: join every watched symbol again
+    if (priceWatchers.size > 0) {
+      socket?.emit('prices-subscribe', { symbols: [...priceWatchers.keys()] });
+    }
   });
 
   socket.on('disconnect', (reason) => {
@@ -50,6 +70,7 @@ export function disconnectSocket(): void {
   if (socket) {
     socket.disconnect();
     socket = null;
+    priceWatchers.clear();
     console.log('🔌 Socket.io manually disconnected');
   }
 }
@@ -62,3 +83,67 @@ export function requestNewsRefresh(): void {
     socket.emit('request-news-refresh');
   }
 }
+
+/**
+ * Scope alerts / news to a portfolio ('all' = every portfolio)
+ */
+export function setSocketPortfolio(portfolioId: string): void {
+  if (socket?.connected) {
+    socket.emit('set-portfolio', { portfolioId });
+  }
+}
+
+/**
+ * Mark alerts read (specific ids, or every alert in the active portfolio)
+ */
+export function markAlertsRead(payload: { ids?: string[]; all?: boolean }): void {
+  if (socket?.connected) {
+    socket.emit('alerts-mark-read', payload);
+  }
+}
+
+/**
+ * Dismiss alerts (also marks them read)
+ */
+export function dismissAlerts(ids: string[]): void {
+  if (socket?.connected) {
+    socket.emit('alerts-dismiss', { ids });
+  }
+}
+
+/**
+ * Stream real-time prices for symbols (server keeps a single upstream feed).
+ * Counted per symbol: every call needs a matching unsubscribePrices.
+ */
+export function subscribePrices(symbols: string[]): void {
+  const added: string[] = [];
+  new Set(symbols).forEach(symbol => {
+    const watchers = priceWatchers.get(symbol) || 0;
+    priceWatchers.set(symbol, watchers + 1);
+    if (watchers === 0) added.push(symbol);
+  });
+
+  if (socket?.connected && added.length > 0) {
+    socket.emit('prices-subscribe', { symbols: added });
+  }
+}
+
+/**
+ * Stop streaming prices for symbols no other view still watches
+ */
+export function unsubscribePrices(symbols: string[]): void {
+  const removed: string[] = [];
+  new Set(symbols).forEach(symbol => {
+    const watchers = priceWatchers.get(symbol) || 0;
+    if (watchers > 1) {
+      priceWatchers.set(symbol, watchers - 1);
+    } else if (watchers === 1) {
+      priceWatchers.delete(symbol);
+      removed.push(symbol);
+    }
+  });
+
+  if (socket?.connected && removed.length > 0) {
+    socket.emit('prices-unsubscribe', { symbols: removed });
+  }
+}
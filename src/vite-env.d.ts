@@ -1,7 +1,8 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_FINNHUB_API_KEY: string
+    readonly VITE_API_URL?: string
+    readonly VITE_SOCKET_URL?: string
 }
 
 interface ImportMeta {